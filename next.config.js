@@ -15,6 +15,9 @@ const nextConfig = {
     serverActions: {
       bodySizeLimit: '50mb',
     },
+    // PDF.js and the native canvas used to render thumbnails are loaded at
+    // runtime by the upload route rather than bundled, as is the SMTP client
+    serverComponentsExternalPackages: ['unpdf', '@napi-rs/canvas', 'nodemailer'],
   },
   // Ensure proper error handling
   typescript: {
@@ -0,0 +1,74 @@
+// scripts/update-geoip.js
+// Downloads the GeoIP city database used for offline IP geolocation.
+// Defaults to DB-IP City Lite (CC BY 4.0, no account needed); set
+// GEOIP_DOWNLOAD_URL to use another .mmdb or .mmdb.gz, e.g. GeoLite2 City.
+// The running app picks up the new file within a minute, no restart needed.
+const fs = require('fs')
+const path = require('path')
+const zlib = require('zlib')
+const { Reader } = require('maxmind')
+require('dotenv').config({ path: '.env.local' })
+
+const dbPath = path.resolve(process.env.GEOIP_DB_PATH || path.join('data', 'geoip', 'city.mmdb'))
+
+function dbIpUrl(monthsAgo) {
+  const date = new Date()
+  date.setUTCDate(1)
+  date.setUTCMonth(date.getUTCMonth() - monthsAgo)
+  const month = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+  return `https://download.db-ip.com/free/dbip-city-lite-${month}.mmdb.gz`
+}
+
+async function download(url) {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`)
+  }
+
+  const body = Buffer.from(await response.arrayBuffer())
+  // gzip magic number
+  return body[0] === 0x1f && body[1] === 0x8b ? zlib.gunzipSync(body) : body
+}
+
+async function updateGeoIP() {
+  console.log('🌍 Updating GeoIP database...')
+
+  try {
+    // This month's DB-IP release may not be out yet early in the month
+    const urls = process.env.GEOIP_DOWNLOAD_URL
+      ? [process.env.GEOIP_DOWNLOAD_URL]
+      : [dbIpUrl(0), dbIpUrl(1)]
+
+    let database = null
+    for (const url of urls) {
+      try {
+        console.log(`📥 Downloading ${url}`)
+        database = await download(url)
+        break
+      } catch (error) {
+        console.log(`⚠️  ${error.message}`)
+      }
+    }
+
+    if (!database) {
+      throw new Error('No GeoIP database could be downloaded')
+    }
+
+    // Fails on anything that is not a valid MaxMind-format database
+    const reader = new Reader(database)
+    console.log(`✅ ${reader.metadata.databaseType}, built ${reader.metadata.buildEpoch.toISOString()}`)
+
+    // Replace the file atomically so the app never reads a partial database
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+    const tmpPath = `${dbPath}.tmp`
+    fs.writeFileSync(tmpPath, database)
+    fs.renameSync(tmpPath, dbPath)
+
+    console.log(`🎉 GeoIP database saved to ${dbPath}`)
+  } catch (error) {
+    console.error('❌ GeoIP update failed:', error.message)
+    process.exit(1)
+  }
+}
+
+updateGeoIP()
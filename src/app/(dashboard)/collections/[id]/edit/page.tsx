@@ -0,0 +1,112 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CollectionForm, DeleteCollectionDialog } from '@/components/collections'
+import { Collection } from '@/types'
+import type { CollectionAccessLevel } from '@/lib/utils/collection-permissions'
+import { Edit3, FolderOpen, Trash2 } from 'lucide-react'
+
+export default function EditCollectionPage() {
+  const params = useParams()
+  const router = useRouter()
+  const [collection, setCollection] = useState<Collection | null>(null)
+  const [access, setAccess] = useState<CollectionAccessLevel | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [deleteOpen, setDeleteOpen] = useState(false)
+
+  const collectionId = params.id as string
+
+  useEffect(() => {
+    const fetchCollection = async () => {
+      try {
+        const response = await fetch(`/api/collections/${collectionId}`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setCollection(data.collection)
+          setAccess(data.access)
+        }
+      } catch (error) {
+        console.error('Error fetching collection:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCollection()
+  }, [collectionId])
+
+  if (loading) {
+    return <div className="max-w-2xl mx-auto space-y-4 animate-pulse">
+      <div className="h-96 bg-slate-200 rounded-3xl" />
+    </div>
+  }
+
+  if (!collection || !access?.permissions.can_edit) {
+    return (
+      <div className="text-center py-20">
+        <FolderOpen className="mx-auto h-12 w-12 text-muted-foreground" />
+        <h3 className="mt-4 text-lg font-semibold">Collection not available</h3>
+        <p className="mt-2 text-muted-foreground">
+          This collection doesn&apos;t exist or you don&apos;t have permission to edit it.
+        </p>
+        <Button variant="outline" className="mt-6" asChild>
+          <Link href="/collections">Back to Collections</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Edit3 className="h-5 w-5" />
+            Edit Collection
+          </CardTitle>
+          <CardDescription>
+            Update your collection details and settings
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CollectionForm
+            variant="page"
+            collection={collection}
+            isOpen
+            onClose={() => router.push(`/collections/${collection.id}`)}
+            onSuccess={() => router.push(`/collections/${collection.id}`)}
+          />
+        </CardContent>
+      </Card>
+
+      {access.permissions.can_delete && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="text-destructive">Danger Zone</CardTitle>
+            <CardDescription>
+              Deleting a collection removes it for everyone. The resources in it stay in the library.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="destructive" onClick={() => setDeleteOpen(true)}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete Collection
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <DeleteCollectionDialog
+        collection={collection}
+        isOpen={deleteOpen}
+        onClose={() => setDeleteOpen(false)}
+        onDelete={() => router.push('/collections')}
+      />
+    </div>
+  )
+}
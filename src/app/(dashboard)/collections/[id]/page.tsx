@@ -0,0 +1,420 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  ArrowLeft, Calendar, Edit3, FolderOpen, GitFork, Globe,
+  LayoutTemplate, Lock, LogOut, Share2, Trash2, User, Users, X
+} from 'lucide-react'
+import {
+  CollectionResourceOrganizer,
+  ShareCollectionDialog,
+  DeleteCollectionDialog,
+  SaveAsTemplateDialog,
+  ForkCollectionDialog,
+  CollectionForks,
+  ForkSourceUpdates
+} from '@/components/collections'
+import { useAuth } from '@/features/auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import { formatDate } from '@/lib/utils'
+import { Collection } from '@/types'
+import type { CollectionAccessLevel } from '@/lib/utils/collection-permissions'
+import type { CollectionCollaborator } from '@/lib/services/collaborative-collection-service'
+
+const PERMISSION_LABELS: Record<CollectionCollaborator['permission_level'], string> = {
+  view: 'Viewer',
+  edit: 'Editor',
+  admin: 'Admin'
+}
+
+export default function CollectionPage() {
+  const params = useParams()
+  const router = useRouter()
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [collection, setCollection] = useState<Collection | null>(null)
+  const [access, setAccess] = useState<CollectionAccessLevel | null>(null)
+  const [collaborators, setCollaborators] = useState<CollectionCollaborator[]>([])
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+  const [shareOpen, setShareOpen] = useState(false)
+  const [deleteOpen, setDeleteOpen] = useState(false)
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false)
+  const [forkOpen, setForkOpen] = useState(false)
+
+  const collectionId = params.id as string
+
+  const fetchCollection = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setCollection(data.collection)
+        setAccess(data.access)
+      } else {
+        setNotFound(true)
+      }
+    } catch (error) {
+      console.error('Error fetching collection:', error)
+      setNotFound(true)
+    } finally {
+      setLoading(false)
+    }
+  }, [collectionId])
+
+  const fetchCollaborators = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/collaborators`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setCollaborators(data.collaborators)
+      }
+    } catch (error) {
+      console.error('Error fetching collaborators:', error)
+    }
+  }, [collectionId])
+
+  useEffect(() => {
+    fetchCollection()
+    fetchCollaborators()
+  }, [fetchCollection, fetchCollaborators])
+
+  const handlePermissionChange = async (userId: string, permissionLevel: string) => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/collaborators/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ permission_level: permissionLevel })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update collaborator')
+
+      setCollaborators(prev => prev.map(collaborator =>
+        collaborator.user_id === userId
+          ? { ...collaborator, permission_level: data.collaborator.permission_level }
+          : collaborator
+      ))
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update collaborator',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleRemoveCollaborator = async (userId: string) => {
+    const leaving = userId === user?.id
+
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/collaborators/${userId}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to remove collaborator')
+
+      if (leaving) {
+        toast({
+          title: 'Left collection',
+          description: `You are no longer a collaborator on "${collection?.title}"`,
+        })
+        router.push('/collections')
+        return
+      }
+
+      setCollaborators(prev => prev.filter(collaborator => collaborator.user_id !== userId))
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove collaborator',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  if (loading) {
+    return <div className="p-8 space-y-8 animate-pulse max-w-6xl mx-auto">
+      <div className="h-8 w-32 bg-slate-200 rounded" />
+      <div className="h-40 bg-slate-200 rounded-3xl" />
+      <div className="grid md:grid-cols-3 gap-8">
+        <div className="md:col-span-2 h-96 bg-slate-200 rounded-3xl" />
+        <div className="h-64 bg-slate-200 rounded-3xl" />
+      </div>
+    </div>
+  }
+
+  if (notFound || !collection || !access) {
+    return (
+      <div className="text-center py-20">
+        <FolderOpen className="mx-auto h-12 w-12 text-muted-foreground" />
+        <h3 className="mt-4 text-lg font-semibold">Collection not found</h3>
+        <p className="mt-2 text-muted-foreground">
+          This collection doesn&apos;t exist or you don&apos;t have access to it.
+        </p>
+        <Button variant="outline" className="mt-6" asChild>
+          <Link href="/collections">Back to Collections</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const { permissions } = access
+  const isOwner = access.level === 'owner'
+  const isCollaborator = !isOwner && collaborators.some(collaborator => collaborator.user_id === user?.id)
+
+  const VisibilityIcon = collection.is_public
+    ? (collection.is_collaborative ? Users : Globe)
+    : Lock
+  const visibilityText = collection.is_public
+    ? (collection.is_collaborative ? 'Public & Collaborative' : 'Public')
+    : 'Private'
+
+  return (
+    <div className="space-y-8 max-w-7xl mx-auto p-1">
+      <Button
+        variant="ghost"
+        onClick={() => router.push('/collections')}
+        className="hover:bg-slate-100 dark:hover:bg-slate-800"
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to Collections
+      </Button>
+
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div className="space-y-2">
+              <CardTitle className="text-3xl flex items-center gap-3">
+                <FolderOpen className="h-8 w-8 text-primary" />
+                {collection.title}
+              </CardTitle>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <User className="h-3 w-3" />
+                <span>{collection.creator?.full_name || 'Anonymous'}</span>
+                <span>•</span>
+                <Calendar className="h-3 w-3" />
+                <span>{formatDate(collection.created_at)}</span>
+                <span>•</span>
+                <VisibilityIcon className="h-3 w-3" />
+                <span>{visibilityText}</span>
+                {(collection.fork_count ?? 0) > 0 && (
+                  <>
+                    <span>•</span>
+                    <GitFork className="h-3 w-3" />
+                    <span>{collection.fork_count} fork{collection.fork_count !== 1 ? 's' : ''}</span>
+                  </>
+                )}
+              </div>
+              {collection.forked_from && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <GitFork className="h-3 w-3" />
+                  {collection.source ? (
+                    <span>
+                      Forked from{' '}
+                      <Link href={`/collections/${collection.source.id}`} className="font-medium hover:text-primary">
+                        {collection.source.title}
+                      </Link>
+                      {collection.source.creator?.full_name && ` by ${collection.source.creator.full_name}`}
+                    </span>
+                  ) : (
+                    <span>Forked from a collection that is no longer public</span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {permissions.can_edit && (
+                <Button variant="outline" asChild>
+                  <Link href={`/collections/${collection.id}/edit`}>
+                    <Edit3 className="mr-2 h-4 w-4" />
+                    Edit
+                  </Link>
+                </Button>
+              )}
+              {permissions.can_share && (
+                <Button variant="outline" onClick={() => setShareOpen(true)}>
+                  <Share2 className="mr-2 h-4 w-4" />
+                  Share
+                </Button>
+              )}
+              {user && collection.is_public && !isOwner && (
+                <Button variant="outline" onClick={() => setForkOpen(true)}>
+                  <GitFork className="mr-2 h-4 w-4" />
+                  Fork
+                </Button>
+              )}
+              {user && (collection.sections?.length ?? 0) > 0 && (
+                <Button variant="outline" onClick={() => setSaveTemplateOpen(true)}>
+                  <LayoutTemplate className="mr-2 h-4 w-4" />
+                  Save as Template
+                </Button>
+              )}
+              {isCollaborator && user && (
+                <Button variant="outline" onClick={() => handleRemoveCollaborator(user.id)}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Leave
+                </Button>
+              )}
+              {permissions.can_delete && (
+                <Button variant="destructive" onClick={() => setDeleteOpen(true)}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        {(collection.description || (collection.tags && collection.tags.length > 0)) && (
+          <CardContent className="space-y-4">
+            {collection.description && (
+              <p className="text-muted-foreground">{collection.description}</p>
+            )}
+            {collection.tags && collection.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {collection.tags.map(tag => (
+                  <Badge key={tag} variant="outline">#{tag}</Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      <div className="grid gap-8 lg:grid-cols-3">
+        {/* Resources */}
+        <div className="lg:col-span-2">
+          <CollectionResourceOrganizer
+            collection={collection}
+            onUpdate={setCollection}
+            canEdit={permissions.can_edit}
+          />
+        </div>
+
+        <div className="space-y-8">
+          {collection.forked_from && permissions.can_add_resources && (
+            <ForkSourceUpdates
+              collection={collection}
+              onUpdate={setCollection}
+              onResourcesAdded={fetchCollection}
+            />
+          )}
+
+          {/* Collaborators */}
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Collaborators
+                <Badge variant="secondary">{collaborators.length}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {collaborators.map(collaborator => {
+                const isCollectionOwner = collaborator.user_id === collection.created_by
+                const canManage = permissions.can_manage_collaborators && !isCollectionOwner
+
+                return (
+                  <div key={collaborator.id} className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {collaborator.user?.full_name || collaborator.user?.email || 'Unknown user'}
+                      </p>
+                      {collaborator.user?.department && (
+                        <p className="text-xs text-muted-foreground truncate">{collaborator.user.department}</p>
+                      )}
+                    </div>
+
+                    {isCollectionOwner ? (
+                      <Badge>Owner</Badge>
+                    ) : canManage ? (
+                      <div className="flex items-center gap-1">
+                        <Select
+                          value={collaborator.permission_level}
+                          onValueChange={(value) => handlePermissionChange(collaborator.user_id, value)}
+                        >
+                          <SelectTrigger className="h-8 w-[110px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(PERMISSION_LABELS).map(([level, label]) => (
+                              <SelectItem key={level} value={level}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => handleRemoveCollaborator(collaborator.user_id)}
+                          aria-label={`Remove ${collaborator.user?.full_name || 'collaborator'}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="outline">{PERMISSION_LABELS[collaborator.permission_level]}</Badge>
+                    )}
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+
+          <CollectionForks collectionId={collection.id} />
+        </div>
+      </div>
+
+      {user && collection.is_public && !isOwner && (
+        <ForkCollectionDialog
+          collection={collection}
+          isOpen={forkOpen}
+          onClose={() => setForkOpen(false)}
+        />
+      )}
+
+      {permissions.can_share && (
+        <ShareCollectionDialog
+          collection={collection}
+          isOpen={shareOpen}
+          onClose={() => {
+            setShareOpen(false)
+            fetchCollection()
+          }}
+        />
+      )}
+
+      {user && (
+        <SaveAsTemplateDialog
+          collection={collection}
+          isOpen={saveTemplateOpen}
+          onClose={() => setSaveTemplateOpen(false)}
+        />
+      )}
+
+      {permissions.can_delete && (
+        <DeleteCollectionDialog
+          collection={collection}
+          isOpen={deleteOpen}
+          onClose={() => setDeleteOpen(false)}
+          onDelete={() => router.push('/collections')}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CollectionForm } from '@/components/collections'
+import { Plus } from 'lucide-react'
+
+export default function NewCollectionPage() {
+  const router = useRouter()
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Create New Collection
+          </CardTitle>
+          <CardDescription>
+            Create a new collection to organize and share resources
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* The form opens the new collection once it's created */}
+          <CollectionForm
+            variant="page"
+            isOpen
+            onClose={() => router.push('/collections')}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  CollectionGrid,
+  CreateCollectionButton,
+  CollaborationInvitations,
+  CollectionTemplates
+} from '@/components/collections'
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Collection } from '@/types'
+import { FolderOpen, Search } from 'lucide-react'
+import { motion } from 'framer-motion'
+
+type CollectionScope = 'mine' | 'shared' | 'public'
+
+const EMPTY_MESSAGES: Record<CollectionScope, string> = {
+  mine: 'You haven\'t created any collections yet',
+  shared: 'Collections others add you to will show up here',
+  public: 'No public collections match your search'
+}
+
+export default function CollectionsPage() {
+  const router = useRouter()
+  const [scope, setScope] = useState<CollectionScope | 'templates'>('mine')
+  const [collections, setCollections] = useState<Collection[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+
+  useEffect(() => {
+    // Templates load their own data
+    if (scope === 'templates') return
+
+    const fetchCollections = async () => {
+      setLoading(true)
+      try {
+        const params = new URLSearchParams({
+          scope,
+          ...(scope === 'public' && { page: page.toString() }),
+          ...(scope === 'public' && search && { search })
+        })
+
+        const response = await fetch(`/api/collections?${params}`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setCollections(data.collections)
+          setTotalPages(data.totalPages || 1)
+        }
+      } catch (error) {
+        console.error('Error fetching collections:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCollections()
+  }, [scope, page, search])
+
+  const handleScopeChange = (value: string) => {
+    setScope(value as CollectionScope | 'templates')
+    setPage(1)
+  }
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value)
+    setPage(1)
+  }
+
+  // Updates from the card don't carry the resource count, so keep the listed one
+  const handleUpdate = (updated: Collection) => {
+    setCollections(prev => prev.map(collection =>
+      collection.id === updated.id ? { ...collection, ...updated } : collection
+    ))
+  }
+
+  const handleDelete = (collectionId: string) => {
+    setCollections(prev => prev.filter(collection => collection.id !== collectionId))
+  }
+
+  return (
+    <div className="space-y-8 p-1">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="relative overflow-hidden rounded-3xl bg-gradient-to-br from-indigo-600 to-purple-700 p-8 sm:p-12 text-white shadow-2xl"
+      >
+        <div className="absolute inset-0 bg-[url('/grid.svg')] opacity-20 mix-blend-overlay" />
+
+        <div className="relative z-10 flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+          <div className="space-y-4 max-w-2xl">
+            <h1 className="text-4xl md:text-5xl font-bold font-heading tracking-tight flex items-center gap-3">
+              <FolderOpen className="h-10 w-10 text-white/90" />
+              Collections
+            </h1>
+            <p className="text-lg text-indigo-100">
+              Organize resources into study sets, reading lists and course packs,
+              and build them together with your classmates.
+            </p>
+          </div>
+          <CreateCollectionButton
+            className="bg-white text-indigo-600 hover:bg-white/90 shadow-xl border-0 font-semibold rounded-full px-8"
+          />
+        </div>
+      </motion.div>
+
+      <div className="grid gap-8 lg:grid-cols-4">
+        {/* Main Content */}
+        <div className="lg:col-span-3 space-y-6">
+          <Tabs value={scope} onValueChange={handleScopeChange}>
+            <TabsList>
+              <TabsTrigger value="mine">My Collections</TabsTrigger>
+              <TabsTrigger value="shared">Shared with Me</TabsTrigger>
+              <TabsTrigger value="public">Discover</TabsTrigger>
+              <TabsTrigger value="templates">Templates</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="templates" className="mt-6">
+              <CollectionTemplates
+                onTemplateSelect={(collection) => router.push(`/collections/${collection.id}`)}
+              />
+            </TabsContent>
+
+            {scope !== 'templates' && (
+              <TabsContent value={scope} className="space-y-6 mt-6">
+                {scope === 'public' && (
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                    <Input
+                      placeholder="Search public collections..."
+                      className="pl-10 h-12 rounded-xl text-lg glass"
+                      value={search}
+                      onChange={(e) => handleSearchChange(e.target.value)}
+                    />
+                  </div>
+                )}
+
+                {loading ? (
+                  <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                    {[1, 2, 3].map((i) => (
+                      <div key={i} className="h-64 rounded-xl skeleton animate-pulse bg-muted" />
+                    ))}
+                  </div>
+                ) : (
+                  <CollectionGrid
+                    collections={collections}
+                    onUpdate={handleUpdate}
+                    onDelete={handleDelete}
+                    emptyMessage={EMPTY_MESSAGES[scope]}
+                  />
+                )}
+
+                {scope === 'public' && totalPages > 1 && (
+                  <div className="flex justify-center pt-8">
+                    <div className="flex items-center gap-2 p-2 rounded-full glass border">
+                      <Button
+                        variant="ghost"
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 1}
+                        className="rounded-full"
+                      >
+                        Previous
+                      </Button>
+                      <span className="text-sm font-medium px-4">
+                        Page {page} of {totalPages}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        onClick={() => setPage(page + 1)}
+                        disabled={page === totalPages}
+                        className="rounded-full"
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </TabsContent>
+            )}
+          </Tabs>
+        </div>
+
+        {/* Invitations Sidebar */}
+        <div className="lg:col-span-1">
+          <div className="lg:sticky lg:top-24">
+            <CollaborationInvitations />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
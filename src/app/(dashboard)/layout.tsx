@@ -2,6 +2,8 @@ import { Navbar } from '@/components/layout/navbar'
 import { AuthGuard } from '@/features/auth'
 import { NavigationBreadcrumb } from '@/components/common/navigation-breadcrumb'
 import { KeyboardShortcutsProvider } from '@/components/providers/keyboard-shortcuts-provider'
+import { LiveNotificationToaster } from '@/components/notifications/live-notification-toaster'
+import { AchievementNotificationSystem } from '@/features/gamification/components'
 
 export default function DashboardLayout({
   children,
@@ -23,6 +25,8 @@ export default function DashboardLayout({
             </main>
           </div>
         </div>
+        <LiveNotificationToaster />
+        <AchievementNotificationSystem />
       </KeyboardShortcutsProvider>
     </AuthGuard>
   )
@@ -8,25 +8,28 @@ import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
 import {
   Download, ThumbsUp, ThumbsDown, Calendar,
-  User, FileIcon, ArrowLeft, Flag, Eye, Share2, BookOpen
+  User, FileIcon, ArrowLeft, Flag, Eye, Share2, BookOpen, ShieldCheck
 } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { Resource } from '@/types'
 import { formatBytes, formatDate } from '@/lib/utils'
 import { useToast } from '@/lib/hooks/use-toast'
-import { useAuth } from '@/features/auth'
-import { ResourcePreview } from '@/features/resources'
+import { useAuth, hasPermission } from '@/features/auth'
+import { ResourcePreview, ResourceComments, ReportResourceDialog, VerifyResourceDialog, FollowButton, submitVote, useFollows } from '@/features/resources'
 import { motion } from 'framer-motion'
 import { cn } from '@/lib/utils'
 
 export default function ResourceViewPage() {
   const params = useParams()
   const router = useRouter()
-  const { user } = useAuth()
+  const { user, profile } = useAuth()
   const { toast } = useToast()
   const [resource, setResource] = useState<Resource | null>(null)
   const [loading, setLoading] = useState(true)
   const [voting, setVoting] = useState(false)
+  const [reportOpen, setReportOpen] = useState(false)
+  const [verifyOpen, setVerifyOpen] = useState(false)
+  const { isFollowing, toggleFollow } = useFollows()
   const supabase = createClient()
 
   useEffect(() => {
@@ -39,7 +42,8 @@ export default function ResourceViewPage() {
         .from('resources')
         .select(`
           *,
-          uploader:users!uploaded_by(id, full_name, department)
+          uploader:users!uploaded_by(id, full_name, department),
+          verifier:users!verified_by(id, full_name, department, role)
         `)
         .eq('id', params.id)
         .single()
@@ -81,16 +85,23 @@ export default function ResourceViewPage() {
       return
     }
     setVoting(true)
-    // Optimistic update logic would go here in a real app, 
-    // for now we just skip to the server call for safety.
     try {
-      // ... (standard tracking/voting logic similar to ResourceCard)
-      // For simplicity reusing similar logic or just notifying user
-      toast({ title: "Vote recorded", description: `You ${type}d this resource.` })
-      // Re-fetch to allow server to handle counts mostly
-      fetchResource()
-    } catch (e) { /* handle error */ }
-    finally { setVoting(false) }
+      const result = await submitVote(resource.id, type)
+      setResource({
+        ...resource,
+        upvotes: result.upvotes,
+        downvotes: result.downvotes,
+        user_vote: result.user_vote
+      })
+    } catch (error) {
+      toast({
+        title: "Vote failed",
+        description: error instanceof Error ? error.message : "Failed to record vote",
+        variant: "destructive"
+      })
+    } finally {
+      setVoting(false)
+    }
   }
 
   const handleDownload = async () => {
@@ -143,6 +154,8 @@ export default function ResourceViewPage() {
 
   if (!resource) return null
 
+  const canVerify = hasPermission(profile, 'verify_resources') && user?.id !== resource.uploaded_by
+
   return (
     <div className="space-y-8 mt-4 max-w-7xl mx-auto p-1">
       <motion.div
@@ -191,6 +204,11 @@ export default function ResourceViewPage() {
               {resource.description || "No description provided."}
             </p>
           </div>
+
+          <ResourceComments
+            resource={resource}
+            className="bg-white/50 dark:bg-slate-900/50 backdrop-blur-xl border border-white/20 rounded-2xl shadow-xl"
+          />
         </motion.div>
 
         {/* Right Column: Details & Actions */}
@@ -216,6 +234,17 @@ export default function ResourceViewPage() {
                 <Badge variant="outline" className="border-primary/20 text-primary bg-primary/5">{resource.subject}</Badge>
                 <Badge variant="secondary">Sem {resource.semester}</Badge>
               </div>
+              {resource.is_verified && (
+                <div className="mt-4 flex items-start gap-2 rounded-xl bg-blue-500/10 p-3 text-sm">
+                  <ShieldCheck className="h-4 w-4 text-blue-500 mt-0.5 shrink-0" />
+                  <div>
+                    <p className="font-medium">Verified by {resource.verifier?.full_name || 'faculty'}</p>
+                    {resource.verification_note && (
+                      <p className="text-muted-foreground italic">&ldquo;{resource.verification_note}&rdquo;</p>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-2 gap-4 py-6 border-y border-slate-200 dark:border-slate-800">
@@ -238,6 +267,14 @@ export default function ResourceViewPage() {
                   <User className="h-4 w-4 text-blue-500" />
                   {resource.uploader?.full_name || 'Anonymous'}
                 </div>
+                {user && resource.uploader && resource.uploaded_by !== user.id && (
+                  <FollowButton
+                    label={resource.uploader.full_name}
+                    following={isFollowing('uploader', resource.uploaded_by)}
+                    onToggle={() => toggleFollow('uploader', resource.uploaded_by)}
+                    className="mt-1 h-7 max-w-full px-2 text-xs"
+                  />
+                )}
               </div>
               <div className="space-y-1">
                 <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Date</span>
@@ -272,13 +309,51 @@ export default function ResourceViewPage() {
 
             <div className="pt-4 flex justify-between items-center text-sm text-muted-foreground">
               <span className="flex items-center gap-1"><Eye className="h-4 w-4" /> {resource.views || 0} views</span>
-              <Button variant="link" size="sm" className="h-auto p-0 text-muted-foreground hover:text-red-500">
-                <Flag className="h-3 w-3 mr-1" /> Report Issue
-              </Button>
+              {canVerify && !resource.is_verified && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-muted-foreground hover:text-blue-500"
+                  onClick={() => setVerifyOpen(true)}
+                >
+                  <ShieldCheck className="h-3 w-3 mr-1" /> Verify
+                </Button>
+              )}
+              {user?.id !== resource.uploaded_by && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-muted-foreground hover:text-red-500"
+                  onClick={() => {
+                    if (!user) {
+                      toast({ title: "Please login to report resources", variant: "destructive" })
+                      return
+                    }
+                    setReportOpen(true)
+                  }}
+                >
+                  <Flag className="h-3 w-3 mr-1" /> Report Issue
+                </Button>
+              )}
             </div>
           </div>
         </motion.div>
       </div>
+
+      <ReportResourceDialog
+        resource={resource}
+        isOpen={reportOpen}
+        onClose={() => setReportOpen(false)}
+      />
+
+      {canVerify && (
+        <VerifyResourceDialog
+          resource={resource}
+          isOpen={verifyOpen}
+          onClose={() => setVerifyOpen(false)}
+          onVerified={(verified) => setResource({ ...resource, ...verified })}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
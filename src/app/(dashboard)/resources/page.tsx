@@ -18,6 +18,7 @@ export default function ResourcesPage() {
   const [filters, setFilters] = useState({
     search: '',
     department: '',
+    course: '',
     semester: '',
     sortBy: 'recent',
   })
@@ -35,6 +36,7 @@ export default function ResourcesPage() {
         sortBy: filters.sortBy,
         ...(filters.search && { search: filters.search }),
         ...(filters.department && { department: filters.department }),
+        ...(filters.course && { course: filters.course }),
         ...(filters.semester && { semester: filters.semester }),
       })
 
@@ -142,12 +144,13 @@ export default function ResourcesPage() {
               </div>
               <h3 className="text-2xl font-bold mb-2">No resources found</h3>
               <p className="text-muted-foreground mb-8 max-w-md mx-auto">
-                We couldn't find any resources matching your criteria. Try adjusting your filters or search terms.
+                We couldn&apos;t find any resources matching your criteria. Try adjusting your filters or search terms.
               </p>
               <Button
                 onClick={() => handleFilterChange({
                   search: '',
                   department: '',
+                  course: '',
                   semester: '',
                   sortBy: 'recent',
                 })}
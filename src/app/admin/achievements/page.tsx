@@ -0,0 +1,16 @@
+import { AchievementManagement } from '@/components/admin/achievement-management'
+
+export default function AchievementsAdminPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <AchievementManagement />
+    </div>
+  )
+}
+
+import { config } from '@/shared/config'
+
+export const metadata = {
+  title: `Achievements - ${config.branding.appName} Admin`,
+  description: 'Create, dry-run, publish and retire achievements'
+}
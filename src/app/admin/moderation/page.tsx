@@ -0,0 +1,16 @@
+import { ModerationQueue } from '@/components/admin/moderation-queue'
+
+export default function ModerationPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <ModerationQueue />
+    </div>
+  )
+}
+
+import { config } from '@/shared/config'
+
+export const metadata = {
+  title: `Moderation Queue - ${config.branding.appName} Admin`,
+  description: 'Review reported resources and take moderation action'
+}
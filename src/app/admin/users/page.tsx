@@ -0,0 +1,16 @@
+import { RoleManagement } from '@/components/admin/role-management'
+
+export default function UserRolesPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <RoleManagement />
+    </div>
+  )
+}
+
+import { config } from '@/shared/config'
+
+export const metadata = {
+  title: `User Roles - ${config.branding.appName} Admin`,
+  description: 'Assign roles and permissions to users'
+}
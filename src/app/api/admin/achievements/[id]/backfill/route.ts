@@ -0,0 +1,48 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/features/auth/utils'
+import { achievementAdminService } from '@/lib/services/achievements/achievement-admin-service'
+
+// Awards an active achievement to everyone who already qualifies for it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!hasPermission(profile, 'manage_achievements')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const achievement = await achievementAdminService.getAchievement(params.id)
+    if (!achievement) {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 })
+    }
+
+    if (achievement.status !== 'active') {
+      return NextResponse.json({ error: 'Only active achievements can be backfilled' }, { status: 400 })
+    }
+
+    const result = await achievementAdminService.backfill(achievement, user.id)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Achievement backfill error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/features/auth/utils'
+import {
+  achievementAdminService,
+  validateAchievementInput,
+  type AchievementInput
+} from '@/lib/services/achievements/achievement-admin-service'
+
+// Edits an achievement, or changes its status: publish a draft ('active'),
+// retire it ('retired') or bring it back. Earned achievements are kept.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!hasPermission(profile, 'manage_achievements')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const changes = await request.json() as AchievementInput
+    if (changes.id !== undefined && changes.id !== params.id) {
+      return NextResponse.json({ error: 'The id of an achievement cannot be changed' }, { status: 400 })
+    }
+
+    const validationError = validateAchievementInput(changes, true)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const achievement = await achievementAdminService.updateAchievement(params.id, changes)
+    if (!achievement) {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ achievement })
+  } catch (error) {
+    console.error('Achievement update error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
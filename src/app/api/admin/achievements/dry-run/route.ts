@@ -0,0 +1,49 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/features/auth/utils'
+import { validateCriteria } from '@/lib/services/achievements'
+import { achievementAdminService } from '@/lib/services/achievements/achievement-admin-service'
+import type { AchievementCriteria } from '@/lib/services/gamification'
+
+// How many users qualify for criteria, e.g. while editing an achievement.
+// Body: { criteria, achievement_id? }; nothing is awarded.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!hasPermission(profile, 'manage_achievements')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { criteria, achievement_id } = await request.json() as {
+      criteria: AchievementCriteria
+      achievement_id?: string
+    }
+
+    const validationError = validateCriteria(criteria)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const result = await achievementAdminService.dryRun(criteria, achievement_id)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Achievement dry run error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/features/auth/utils'
+import {
+  achievementAdminService,
+  validateAchievementInput,
+  type AchievementInput
+} from '@/lib/services/achievements/achievement-admin-service'
+
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!hasPermission(profile, 'manage_achievements')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const achievements = await achievementAdminService.listAchievements()
+
+    return NextResponse.json({ achievements })
+  } catch (error) {
+    console.error('Achievements fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!hasPermission(profile, 'manage_achievements')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const input = await request.json() as AchievementInput
+    const validationError = validateAchievementInput(input, false)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (await achievementAdminService.getAchievement(input.id!)) {
+      return NextResponse.json({ error: 'An achievement with this id already exists' }, { status: 409 })
+    }
+
+    const achievement = await achievementAdminService.createAchievement(input, user.id)
+
+    return NextResponse.json({ achievement }, { status: 201 })
+  } catch (error) {
+    console.error('Achievement create error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
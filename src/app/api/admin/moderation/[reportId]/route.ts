@@ -0,0 +1,175 @@
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/features/auth/utils'
+import { NotificationService } from '@/lib/services/notification-service'
+import { notifyUsers } from '@/lib/services/server-notifications'
+
+type ModerationAction = 'hide' | 'restore' | 'delete' | 'dismiss'
+
+type ModerationResolution = 'hidden' | 'restored' | 'deleted' | 'dismissed'
+
+const RESOLUTIONS: Record<ModerationAction, { status: string; resolution_action: ModerationResolution }> = {
+  hide: { status: 'resolved', resolution_action: 'hidden' },
+  restore: { status: 'resolved', resolution_action: 'restored' },
+  delete: { status: 'resolved', resolution_action: 'deleted' },
+  dismiss: { status: 'dismissed', resolution_action: 'dismissed' }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (!hasPermission(profile, 'moderate_content')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { action, note } = await request.json() as { action: ModerationAction; note?: string }
+
+    if (!action || !(action in RESOLUTIONS)) {
+      return NextResponse.json(
+        { error: 'Invalid action. Use: hide, restore, delete, or dismiss' },
+        { status: 400 }
+      )
+    }
+
+    const admin = createAdminClient()
+
+    const { data: report, error: reportError } = await admin
+      .from('resource_reports')
+      .select('*')
+      .eq('id', params.reportId)
+      .single()
+
+    if (reportError || !report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 })
+    }
+
+    if (!report.resource_id && action !== 'dismiss') {
+      return NextResponse.json(
+        { error: 'The reported resource no longer exists' },
+        { status: 400 }
+      )
+    }
+
+    // A decision covers every open report on the same resource
+    let reportIds: string[] = [report.id]
+    if (report.resource_id) {
+      const { data: openReports } = await admin
+        .from('resource_reports')
+        .select('id')
+        .eq('resource_id', report.resource_id)
+        .eq('status', 'pending')
+
+      reportIds = Array.from(new Set([report.id, ...(openReports?.map(r => r.id) || [])]))
+    }
+
+    let actionError: { message: string } | null = null
+
+    switch (action) {
+      case 'hide': {
+        const { error } = await admin
+          .from('resources')
+          .update({ is_hidden: true, hidden_at: new Date().toISOString() })
+          .eq('id', report.resource_id)
+        actionError = error
+        break
+      }
+
+      case 'restore': {
+        const { error } = await admin
+          .from('resources')
+          .update({ is_hidden: false, hidden_at: null })
+          .eq('id', report.resource_id)
+        actionError = error
+        break
+      }
+
+      case 'delete': {
+        const { data: resource } = await admin
+          .from('resources')
+          .select('file_url, content_metadata')
+          .eq('id', report.resource_id)
+          .single()
+
+        const { error } = await admin
+          .from('resources')
+          .delete()
+          .eq('id', report.resource_id)
+        actionError = error
+
+        // Uploaded files live at the root of the resources bucket
+        const storedFiles = [
+          resource?.file_url?.split('/resources/').pop(),
+          resource?.content_metadata?.thumbnailPath
+        ].filter(Boolean) as string[]
+        if (!error && storedFiles.length > 0) {
+          await admin.storage.from('resources').remove(storedFiles)
+        }
+        break
+      }
+    }
+
+    if (actionError) {
+      return NextResponse.json({ error: actionError.message }, { status: 500 })
+    }
+
+    // Reports are only closed once the decision has been carried out
+    const { error: resolveError } = await admin
+      .from('resource_reports')
+      .update({
+        ...RESOLUTIONS[action],
+        resolution_note: note?.trim() || null,
+        resolved_by: user.id,
+        resolved_at: new Date().toISOString()
+      })
+      .in('id', reportIds)
+
+    if (resolveError) {
+      return NextResponse.json({ error: resolveError.message }, { status: 500 })
+    }
+
+    if (report.uploaded_by) {
+      try {
+        await notifyUsers(user.id, [report.uploaded_by], NotificationService.moderationDecisionNotification(
+          report.resource_title,
+          RESOLUTIONS[action].resolution_action,
+          note?.trim() || undefined
+        ))
+      } catch (notifyError) {
+        console.error('Error notifying uploader of moderation decision:', notifyError)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      action: RESOLUTIONS[action].resolution_action,
+      resolved_reports: reportIds.length,
+      resource: {
+        id: report.resource_id,
+        title: report.resource_title,
+        uploaded_by: report.uploaded_by
+      }
+    })
+  } catch (error) {
+    console.error('Moderation decision error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
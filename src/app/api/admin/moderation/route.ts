@@ -0,0 +1,69 @@
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/features/auth/utils'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (!hasPermission(profile, 'moderate_content')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'pending'
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '25')
+
+    // Reports are private to their reporters under RLS, so the queue reads them
+    // with the service role once the moderator has been authorized above
+    const admin = createAdminClient()
+
+    let query = admin
+      .from('resource_reports')
+      .select(`
+        *,
+        reporter:users!reported_by(id, full_name, department),
+        resource:resources(id, title, resource_type, department, course, uploaded_by, is_hidden, file_url, external_url)
+      `, { count: 'exact' })
+      .order('created_at', { ascending: status === 'pending' })
+
+    if (status !== 'all') {
+      query = query.eq('status', status)
+    }
+
+    const start = (page - 1) * limit
+    query = query.range(start, start + limit - 1)
+
+    const { data: reports, error, count } = await query
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      reports,
+      totalCount: count,
+      currentPage: page,
+      totalPages: Math.ceil((count || 0) / limit),
+    })
+  } catch (error) {
+    console.error('Moderation queue fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
 import { APIMonitoringService } from '@/lib/services/api-monitoring'
+import { hasPermission } from '@/features/auth/utils'
+
+async function authorizeMonitoring(): Promise<NextResponse | null> {
+  const supabase = createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!hasPermission(profile, 'view_monitoring')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  return null
+}
 
 export async function GET(request: NextRequest) {
   try {
+    const denied = await authorizeMonitoring()
+    if (denied) return denied
+
     const { searchParams } = new URL(request.url)
     const service = searchParams.get('service') as 'youtube' | 'github' | null
     const action = searchParams.get('action')
@@ -67,6 +93,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await authorizeMonitoring()
+    if (denied) return denied
+
     const { searchParams } = new URL(request.url)
     const action = searchParams.get('action')
 
@@ -0,0 +1,64 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission, ROLE_PERMISSIONS } from '@/features/auth/utils'
+import type { UserRole } from '@/types'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!hasPermission(profile, 'manage_roles')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { role } = await request.json() as { role: UserRole }
+
+    if (!role || !(role in ROLE_PERMISSIONS)) {
+      return NextResponse.json(
+        { error: 'Invalid role. Use: student, faculty, moderator, or admin' },
+        { status: 400 }
+      )
+    }
+
+    // Prevent admins from locking themselves out
+    if (params.id === user.id && role !== 'admin') {
+      return NextResponse.json(
+        { error: 'You cannot remove your own admin role' },
+        { status: 400 }
+      )
+    }
+
+    const { data: updatedUser, error } = await supabase
+      .from('users')
+      .update({ role })
+      .eq('id', params.id)
+      .select('id, email, full_name, department, role, points, badge_level, created_at')
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ user: updatedUser })
+  } catch (error) {
+    console.error('Update user role error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
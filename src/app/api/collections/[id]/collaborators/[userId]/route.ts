@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollaborativeCollectionService } from '@/lib/services/collaborative-collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+
+const PERMISSION_LEVELS = ['view', 'edit', 'admin']
+
+// Changes a collaborator's permission level: { permission_level }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_manage_collaborators) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { permission_level } = await request.json()
+    if (!PERMISSION_LEVELS.includes(permission_level)) {
+      return NextResponse.json({ error: 'Invalid permission level' }, { status: 400 })
+    }
+
+    const { data: collection } = await supabase
+      .from('collections')
+      .select('created_by')
+      .eq('id', params.id)
+      .single()
+
+    if (collection?.created_by === params.userId) {
+      return NextResponse.json({ error: 'The owner\'s access cannot be changed' }, { status: 400 })
+    }
+
+    const collaborator = await new CollaborativeCollectionService(supabase).updateCollaboratorPermission(
+      params.id,
+      params.userId,
+      permission_level
+    )
+
+    if (!collaborator) {
+      return NextResponse.json({ error: 'Collaborator not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ collaborator })
+  } catch (error) {
+    console.error('Update collaborator error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Removes a collaborator; collaborators can also remove themselves to leave
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (params.userId !== user.id && !permissions.can_manage_collaborators) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { data: collection } = await supabase
+      .from('collections')
+      .select('created_by')
+      .eq('id', params.id)
+      .single()
+
+    if (collection?.created_by === params.userId) {
+      return NextResponse.json({ error: 'The owner cannot be removed' }, { status: 400 })
+    }
+
+    const removed = await new CollaborativeCollectionService(supabase).removeCollaborator(params.id, params.userId)
+    if (!removed) {
+      return NextResponse.json({ error: 'Collaborator not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Remove collaborator error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
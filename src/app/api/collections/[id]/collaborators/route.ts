@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollaborativeCollectionService } from '@/lib/services/collaborative-collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    const collaborators = await new CollaborativeCollectionService(supabase).getCollaborators(params.id)
+
+    return NextResponse.json({ collaborators })
+  } catch (error) {
+    console.error('Get collaborators error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollectionService } from '@/lib/services/collection-service'
+import type { Collection } from '@/types'
+import { POST } from './route'
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }))
+
+function signIn(userId: string | null) {
+  vi.mocked(createClient).mockReturnValue({
+    auth: { getUser: async () => ({ data: { user: userId ? { id: userId } : null }, error: null }) }
+  } as unknown as ReturnType<typeof createClient>)
+}
+
+const fork = (body?: unknown) =>
+  POST(
+    new NextRequest('http://localhost/api/collections/source-1/fork', {
+      method: 'POST',
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }),
+    { params: { id: 'source-1' } }
+  )
+
+describe('POST /api/collections/[id]/fork', () => {
+  let forkCollection: MockInstance<CollectionService['forkCollection']>
+
+  beforeEach(() => {
+    forkCollection = vi.spyOn(CollectionService.prototype, 'forkCollection')
+      .mockResolvedValue({ id: 'fork-1', forked_from: 'source-1' } as Collection)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('requires a signed-in user', async () => {
+    signIn(null)
+
+    expect((await fork()).status).toBe(401)
+    expect(forkCollection).not.toHaveBeenCalled()
+  })
+
+  it('forks with the trimmed title and the follow choice', async () => {
+    signIn('user-1')
+
+    const response = await fork({ title: '  My Exam Prep  ', follow_updates: true })
+
+    expect(response.status).toBe(201)
+    expect(await response.json()).toEqual({ collection: { id: 'fork-1', forked_from: 'source-1' } })
+    expect(forkCollection).toHaveBeenCalledWith('source-1', { title: 'My Exam Prep', follow_updates: true })
+  })
+
+  it('keeps the source title when none or a blank one is given', async () => {
+    signIn('user-1')
+
+    await fork()
+    await fork({ title: '   ' })
+
+    expect(forkCollection).toHaveBeenNthCalledWith(1, 'source-1', { title: undefined, follow_updates: false })
+    expect(forkCollection).toHaveBeenNthCalledWith(2, 'source-1', { title: undefined, follow_updates: false })
+  })
+
+  it('rejects a title that is not a string', async () => {
+    signIn('user-1')
+
+    expect((await fork({ title: 42 })).status).toBe(400)
+    expect(forkCollection).not.toHaveBeenCalled()
+  })
+
+  it('maps the errors fork_collection raises', async () => {
+    signIn('user-1')
+
+    forkCollection.mockRejectedValueOnce({ code: 'P0002', message: 'Collection not found', details: '', hint: '' })
+    expect((await fork()).status).toBe(404)
+
+    forkCollection.mockRejectedValueOnce({ code: 'CF001', message: 'Cannot fork your own collection', details: '', hint: '' })
+    const own = await fork()
+    expect(own.status).toBe(400)
+    expect(await own.json()).toEqual({ error: 'You cannot fork your own collection' })
+  })
+
+  it('reports anything else as a server error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    signIn('user-1')
+    forkCollection.mockRejectedValueOnce(new Error('connection reset'))
+
+    expect((await fork()).status).toBe(500)
+  })
+})
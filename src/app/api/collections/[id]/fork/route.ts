@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isPostgrestError } from '@/lib/supabase/errors'
+import { CollectionService } from '@/lib/services/collection-service'
+
+// SQLSTATE fork_collection raises when the caller owns the source
+const OWN_COLLECTION_ERROR = 'CF001'
+
+// Copies a public collection into the caller's account: { title?, follow_updates? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { title, follow_updates } = await request.json().catch(() => ({}))
+    if (title !== undefined && title !== null && typeof title !== 'string') {
+      return NextResponse.json({ error: 'Title must be a string' }, { status: 400 })
+    }
+
+    try {
+      const collection = await new CollectionService(supabase).forkCollection(params.id, {
+        title: title?.trim() || undefined,
+        follow_updates: !!follow_updates
+      })
+
+      return NextResponse.json({ collection }, { status: 201 })
+    } catch (error) {
+      const code = isPostgrestError(error) ? error.code : undefined
+      // Raised by fork_collection: missing or private source, or the caller's own
+      if (code === 'P0002') {
+        return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+      }
+      if (code === OWN_COLLECTION_ERROR) {
+        return NextResponse.json({ error: 'You cannot fork your own collection' }, { status: 400 })
+      }
+      throw error
+    }
+  } catch (error) {
+    console.error('Fork collection error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
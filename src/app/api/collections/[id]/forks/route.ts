@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollectionService } from '@/lib/services/collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+
+// Lists the forks of a collection. fork_count covers every fork, while the
+// list only has the ones the caller can see, as most forks stay private.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user?.id || null)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    const { data: collection, error } = await supabase
+      .from('collections')
+      .select('fork_count')
+      .eq('id', params.id)
+      .single()
+
+    if (error) throw error
+
+    const forks = await new CollectionService(supabase).getForks(params.id)
+
+    return NextResponse.json({ forks, fork_count: collection.fork_count })
+  } catch (error) {
+    console.error('Get collection forks error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
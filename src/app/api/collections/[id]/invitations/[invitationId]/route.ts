@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollaborativeCollectionService } from '@/lib/services/collaborative-collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+
+// Revokes a pending invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; invitationId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_manage_collaborators) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const revoked = await new CollaborativeCollectionService(supabase).revokeInvitation(params.id, params.invitationId)
+    if (!revoked) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Revoke collection invitation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollaborativeCollectionService } from '@/lib/services/collaborative-collection-service'
+import { domainEvents } from '@/lib/services/events'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+
+const PERMISSION_LEVELS = ['view', 'edit', 'admin']
+
+// Lists the collection's pending invitations
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_manage_collaborators) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const invitations = await new CollaborativeCollectionService(supabase).getCollectionInvitations(params.id)
+
+    return NextResponse.json({ invitations })
+  } catch (error) {
+    console.error('Get collection invitations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Invites someone by email: { email, permission_level?, message? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_manage_collaborators) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { email, permission_level = 'edit', message } = await request.json()
+    if (!email || typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 })
+    }
+    if (!PERMISSION_LEVELS.includes(permission_level)) {
+      return NextResponse.json({ error: 'Invalid permission level' }, { status: 400 })
+    }
+
+    const invitation = await new CollaborativeCollectionService(supabase).sendCollaborationInvitation(
+      params.id,
+      user.id,
+      email.trim().toLowerCase(),
+      permission_level
+    )
+
+    // Notify the invitee if they already have an account
+    if (invitation.invited_user_id) {
+      const { data: collection } = await supabase
+        .from('collections')
+        .select('title, creator:created_by(full_name)')
+        .eq('id', params.id)
+        .single()
+
+      await domainEvents.emit('collection.shared', user.id, {
+        collectionId: params.id,
+        collectionTitle: collection?.title,
+        sharedByName: (collection?.creator as any)?.full_name,
+        recipientIds: [invitation.invited_user_id],
+        canCollaborate: permission_level !== 'view',
+        message: message?.trim() || undefined,
+        invitationId: invitation.id,
+        permissionLevel: permission_level
+      }, supabase)
+    }
+
+    return NextResponse.json({ invitation }, { status: 201 })
+  } catch (error) {
+    console.error('Send collection invitation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isPostgrestError } from '@/lib/supabase/errors'
+import { CollectionService } from '@/lib/services/collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+
+// Updates the notes on a resource in the collection: { notes }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; resourceId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_edit) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { notes } = await request.json()
+    if (notes !== null && typeof notes !== 'string') {
+      return NextResponse.json({ error: 'notes must be a string or null' }, { status: 400 })
+    }
+
+    try {
+      const collectionResource = await new CollectionService(supabase).updateResourceNotes(
+        params.id,
+        params.resourceId,
+        notes?.trim() || null,
+        user.id
+      )
+
+      return NextResponse.json({ collection_resource: collectionResource })
+    } catch (error) {
+      const code = isPostgrestError(error) ? error.code : undefined
+      // No matching row for .single()
+      if (code === 'PGRST116') {
+        return NextResponse.json({ error: 'Resource is not in this collection' }, { status: 404 })
+      }
+      throw error
+    }
+  } catch (error) {
+    console.error('Update collection resource error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; resourceId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_remove_resources) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await new CollectionService(supabase).removeResourceFromCollection(params.id, params.resourceId, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Remove collection resource error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollectionService } from '@/lib/services/collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+
+// Saves the order of the collection's resources: { resource_ids } listing
+// every resource in the collection in its new order, and optionally
+// { section_ids } mapping each resource to its section (null for unsorted)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_reorder) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { resource_ids, section_ids } = await request.json()
+    if (!Array.isArray(resource_ids) || resource_ids.some(id => typeof id !== 'string')) {
+      return NextResponse.json({ error: 'resource_ids must be an array of ids' }, { status: 400 })
+    }
+    if (section_ids !== undefined && (typeof section_ids !== 'object' || section_ids === null || Array.isArray(section_ids))) {
+      return NextResponse.json({ error: 'section_ids must map resource ids to section ids' }, { status: 400 })
+    }
+
+    // The new order must cover exactly the resources in the collection, so a
+    // stale list can't add resources or leave gaps
+    const { data: current, error } = await supabase
+      .from('collection_resources')
+      .select('resource_id')
+      .eq('collection_id', params.id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const currentIds = new Set((current || []).map(row => row.resource_id))
+    const requestedIds = new Set<string>(resource_ids)
+    if (
+      requestedIds.size !== resource_ids.length ||
+      requestedIds.size !== currentIds.size ||
+      resource_ids.some((id: string) => !currentIds.has(id))
+    ) {
+      return NextResponse.json(
+        { error: 'resource_ids must list every resource in the collection once' },
+        { status: 409 }
+      )
+    }
+
+    if (section_ids) {
+      const { data: sections, error: sectionsError } = await supabase
+        .from('collection_sections')
+        .select('id')
+        .eq('collection_id', params.id)
+
+      if (sectionsError) {
+        return NextResponse.json({ error: sectionsError.message }, { status: 500 })
+      }
+
+      const sectionIds = new Set((sections || []).map(section => section.id))
+      const unknown = Object.values(section_ids).some(id => id !== null && !sectionIds.has(id as string))
+      if (unknown) {
+        return NextResponse.json({ error: 'Section not found in this collection' }, { status: 400 })
+      }
+    }
+
+    await new CollectionService(supabase).reorderCollectionResources(params.id, resource_ids, user.id, section_ids)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Reorder collection resources error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isPostgrestError } from '@/lib/supabase/errors'
+import { CollectionService } from '@/lib/services/collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+
+// Adds a resource to the collection: { resource_id, notes?, section_id? }.
+// Without a section_id the section is suggested from the sections' rules;
+// null adds it unsorted.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_add_resources) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { resource_id, notes, section_id } = await request.json()
+    if (!resource_id || typeof resource_id !== 'string') {
+      return NextResponse.json({ error: 'resource_id is required' }, { status: 400 })
+    }
+
+    if (section_id) {
+      const { data: section } = await supabase
+        .from('collection_sections')
+        .select('id')
+        .eq('id', section_id)
+        .eq('collection_id', params.id)
+        .maybeSingle()
+
+      if (!section) {
+        return NextResponse.json({ error: 'Section not found in this collection' }, { status: 400 })
+      }
+    }
+
+    try {
+      const collectionResource = await new CollectionService(supabase).addResourceToCollection(
+        params.id,
+        resource_id,
+        user.id,
+        { notes: notes?.trim() || undefined, section_id }
+      )
+
+      return NextResponse.json({ collection_resource: collectionResource }, { status: 201 })
+    } catch (error) {
+      const code = isPostgrestError(error) ? error.code : undefined
+      if (code === '23505') {
+        return NextResponse.json({ error: 'Resource is already in this collection' }, { status: 409 })
+      }
+      if (code === '23503') {
+        return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+      }
+      throw error
+    }
+  } catch (error) {
+    console.error('Add collection resource error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
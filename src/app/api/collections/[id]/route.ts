@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollectionService } from '@/lib/services/collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+import type { UpdateCollectionData } from '@/lib/services/collection-service'
+
+// Returns the collection with its resources and the caller's access to it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+
+    // Private collections the caller can't see are reported as missing
+    const access = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user?.id || null)
+    if (!access.permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    const collection = await new CollectionService(supabase).getCollectionById(params.id)
+    if (!collection) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ collection, access })
+  } catch (error) {
+    console.error('Collection fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_edit) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const update: UpdateCollectionData = {}
+
+    if (body.title !== undefined) {
+      const title = typeof body.title === 'string' ? body.title.trim() : ''
+      if (!title) {
+        return NextResponse.json({ error: 'Title cannot be empty' }, { status: 400 })
+      }
+      update.title = title
+    }
+    if (body.description !== undefined) update.description = body.description?.trim() || null
+    if (body.tags !== undefined) {
+      if (!Array.isArray(body.tags)) {
+        return NextResponse.json({ error: 'Tags must be an array' }, { status: 400 })
+      }
+      update.tags = body.tags
+    }
+
+    // Visibility and collaboration are sharing settings
+    if (body.is_public !== undefined || body.is_collaborative !== undefined) {
+      if (!permissions.can_share) {
+        return NextResponse.json(
+          { error: 'Only people who can share this collection can change its visibility' },
+          { status: 403 }
+        )
+      }
+      if (body.is_public !== undefined) update.is_public = !!body.is_public
+      if (body.is_collaborative !== undefined) update.is_collaborative = !!body.is_collaborative
+    }
+
+    if (body.follow_source_updates !== undefined) {
+      update.follow_source_updates = !!body.follow_source_updates
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    const collection = await new CollectionService(supabase).updateCollection(params.id, update, user.id)
+
+    return NextResponse.json({ collection })
+  } catch (error) {
+    console.error('Update collection error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_delete) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await new CollectionService(supabase).deleteCollection(params.id, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete collection error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
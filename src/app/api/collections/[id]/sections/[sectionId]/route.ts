@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollectionService } from '@/lib/services/collection-service'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+import type { UpdateSectionData } from '@/lib/services/collection-service'
+
+// Renames, describes or moves a section: { name?, description?, order_index? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; sectionId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_edit) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const update: UpdateSectionData = {}
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name) {
+        return NextResponse.json({ error: 'Name cannot be empty' }, { status: 400 })
+      }
+      update.name = name
+    }
+    if (body.description !== undefined) update.description = body.description?.trim() || null
+    if (body.order_index !== undefined) {
+      if (!Number.isInteger(body.order_index) || body.order_index < 0) {
+        return NextResponse.json({ error: 'order_index must be a non-negative integer' }, { status: 400 })
+      }
+      update.order_index = body.order_index
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    const section = await new CollectionService(supabase).updateSection(params.id, params.sectionId, update, user.id)
+    if (!section) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ section })
+  } catch (error) {
+    console.error('Update collection section error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Deletes a section; its resources stay in the collection, unsorted
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; sectionId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_edit) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const deleted = await new CollectionService(supabase).deleteSection(params.id, params.sectionId, user.id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete collection section error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
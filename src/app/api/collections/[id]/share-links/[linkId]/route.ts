@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+import { revokeShareLink } from '@/lib/services/collection-share-links'
+
+// Revokes a share link; visitors who already opened it lose access too
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; linkId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_share) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const link = await revokeShareLink(supabase, params.id, params.linkId)
+    if (!link) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ link })
+  } catch (error) {
+    console.error('Revoke collection share link error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
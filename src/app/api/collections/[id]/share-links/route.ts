@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+import {
+  createShareLink,
+  listShareLinks,
+  MAX_SHARE_LINK_DAYS
+} from '@/lib/services/collection-share-links'
+
+const SCOPES = ['view', 'edit']
+const MAX_USES_LIMIT = 10000
+
+// Lists the collection's share links, including revoked and expired ones
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_share) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const links = await listShareLinks(supabase, params.id)
+
+    return NextResponse.json({ links })
+  } catch (error) {
+    console.error('Get collection share links error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Creates a share link: { scope?, expires_in_days?, password?, max_uses? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_share) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { scope = 'view', expires_in_days = 7, password, max_uses } = await request.json()
+
+    if (!SCOPES.includes(scope)) {
+      return NextResponse.json({ error: 'Invalid scope' }, { status: 400 })
+    }
+    if (!Number.isInteger(expires_in_days) || expires_in_days < 1 || expires_in_days > MAX_SHARE_LINK_DAYS) {
+      return NextResponse.json(
+        { error: `expires_in_days must be between 1 and ${MAX_SHARE_LINK_DAYS}` },
+        { status: 400 }
+      )
+    }
+    if (password !== undefined && password !== null &&
+        (typeof password !== 'string' || password.length < 4 || password.length > 128)) {
+      return NextResponse.json({ error: 'Password must be 4 to 128 characters' }, { status: 400 })
+    }
+    if (max_uses !== undefined && max_uses !== null &&
+        (!Number.isInteger(max_uses) || max_uses < 1 || max_uses > MAX_USES_LIMIT)) {
+      return NextResponse.json(
+        { error: `max_uses must be between 1 and ${MAX_USES_LIMIT}` },
+        { status: 400 }
+      )
+    }
+
+    const link = await createShareLink(supabase, params.id, user.id, {
+      scope,
+      expires_in_days,
+      password: password || undefined,
+      max_uses: max_uses ?? undefined
+    })
+
+    return NextResponse.json({ link }, { status: 201 })
+  } catch (error) {
+    console.error('Create collection share link error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
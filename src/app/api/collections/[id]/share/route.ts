@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { domainEvents } from '@/lib/services/events'
+import { appUrl } from '@/lib/services/email/templates'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+import type { ShareResult } from '@/lib/utils/collection-sharing'
+
+// Shares a collection: { make_public?, enable_collaboration?, user_emails?, message? }.
+// People with an account are notified; the result lists who was reached.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { permissions } = await new CollectionPermissionsUtil(supabase).getUserAccessLevel(params.id, user.id)
+    if (!permissions.can_view) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!permissions.can_share) {
+      return NextResponse.json({ error: 'You do not have permission to share this collection' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const userEmails: string[] = Array.isArray(body.user_emails)
+      ? body.user_emails.filter((email: unknown) => typeof email === 'string' && email.includes('@'))
+      : []
+    const canCollaborate = !!body.enable_collaboration
+    const message = typeof body.message === 'string' ? body.message.trim() || undefined : undefined
+
+    const result: ShareResult = {
+      success: false,
+      share_url: appUrl(`/collections/${params.id}`),
+      shared_with: [],
+      errors: []
+    }
+
+    const update: { is_public?: boolean; is_collaborative?: boolean } = {}
+    if (body.make_public !== undefined) update.is_public = !!body.make_public
+    if (body.enable_collaboration !== undefined) update.is_collaborative = canCollaborate
+
+    if (Object.keys(update).length > 0) {
+      const { error } = await supabase
+        .from('collections')
+        .update(update)
+        .eq('id', params.id)
+
+      if (error) throw error
+    }
+
+    if (userEmails.length > 0) {
+      const [{ data: collection, error: collectionError }, { data: users, error: usersError }] = await Promise.all([
+        supabase.from('collections').select('title, creator:created_by(full_name)').eq('id', params.id).single(),
+        supabase.from('users').select('id, email').in('email', userEmails)
+      ])
+
+      if (collectionError) throw collectionError
+      if (usersError) throw usersError
+
+      const foundEmails = (users || []).map(u => u.email)
+      const notFoundEmails = userEmails.filter(email => !foundEmails.includes(email))
+      if (notFoundEmails.length > 0) {
+        result.errors.push(`Users not found: ${notFoundEmails.join(', ')}`)
+      }
+
+      if (users && users.length > 0) {
+        const notified = await domainEvents.emit('collection.shared', user.id, {
+          collectionId: params.id,
+          collectionTitle: collection.title,
+          sharedByName: (collection.creator as any)?.full_name,
+          recipientIds: users.map(u => u.id),
+          canCollaborate,
+          message
+        }, supabase)
+
+        if (notified) {
+          result.shared_with = foundEmails
+        } else {
+          result.errors.push('Failed to send notifications to some users')
+        }
+      }
+    }
+
+    result.success = result.errors.length === 0
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Share collection error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollaborativeCollectionService } from '@/lib/services/collaborative-collection-service'
+import { domainEvents } from '@/lib/services/events'
+
+// Answers an invitation sent to the signed-in user: { action: 'accept' | 'decline' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { invitationId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { action } = await request.json()
+    const service = new CollaborativeCollectionService(supabase)
+
+    if (action === 'accept') {
+      const result = await service.acceptCollaborationInvitation(params.invitationId, user.id)
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
+      }
+
+      const [{ data: collection }, { data: acceptedBy }] = await Promise.all([
+        supabase.from('collections').select('title').eq('id', result.collection_id).single(),
+        supabase.from('users').select('full_name').eq('id', user.id).single()
+      ])
+
+      await domainEvents.emit('invitation.accepted', user.id, {
+        collectionId: result.collection_id!,
+        collectionTitle: collection?.title,
+        invitationId: params.invitationId,
+        invitedBy: result.invited_by!,
+        acceptedByName: acceptedBy?.full_name
+      }, supabase)
+
+      return NextResponse.json({ success: true, collection_id: result.collection_id })
+    }
+
+    if (action === 'decline') {
+      const declined = await service.declineCollaborationInvitation(params.invitationId, user.id)
+      if (!declined) {
+        return NextResponse.json({ error: 'Failed to decline invitation' }, { status: 400 })
+      }
+      return NextResponse.json({ success: true })
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+  } catch (error) {
+    console.error('Respond to collaboration invitation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
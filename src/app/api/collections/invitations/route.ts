@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CollaborativeCollectionService } from '@/lib/services/collaborative-collection-service'
+
+// Lists the signed-in user's pending collaboration invitations
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const invitations = await new CollaborativeCollectionService(supabase).getUserCollaborationInvitations(user.id)
+
+    return NextResponse.json({ invitations })
+  } catch (error) {
+    console.error('Get collaboration invitations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { CollectionService } from '@/lib/services/collection-service'
+import { CollectionTemplatesService } from '@/lib/services/collection-templates-service'
+
+const COLLECTION_SCOPES = ['mine', 'shared', 'public'] as const
+type CollectionScope = typeof COLLECTION_SCOPES[number]
+
+// Lists collections: ?scope=mine (default), shared (added as a collaborator)
+// or public, which also takes search, tags, page and limit
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const scope = (searchParams.get('scope') || 'mine') as CollectionScope
+
+    if (!COLLECTION_SCOPES.includes(scope)) {
+      return NextResponse.json({ error: 'Invalid scope' }, { status: 400 })
+    }
+
+    const collectionService = new CollectionService(supabase)
+
+    if (scope === 'mine') {
+      const collections = await collectionService.getCollectionsByUser(user.id, true)
+      return NextResponse.json({ collections, total: collections.length })
+    }
+
+    if (scope === 'shared') {
+      const collections = await collectionService.getSharedCollections(user.id)
+      return NextResponse.json({ collections, total: collections.length })
+    }
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1'), 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20'), 1), 100)
+    const tags = searchParams.get('tags')?.split(',').filter(Boolean)
+
+    const { collections, total } = await collectionService.getPublicCollections(limit, (page - 1) * limit, {
+      search: searchParams.get('search') || undefined,
+      tags: tags?.length ? tags : undefined
+    })
+
+    return NextResponse.json({
+      collections,
+      total,
+      currentPage: page,
+      totalPages: Math.ceil(total / limit)
+    })
+  } catch (error) {
+    console.error('Collections fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Creates a collection, or with template_id one laid out from that template,
+// which counts a use of it
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+
+    if (body.tags !== undefined && !Array.isArray(body.tags)) {
+      return NextResponse.json({ error: 'Tags must be an array' }, { status: 400 })
+    }
+
+    if (typeof body.template_id === 'string' && body.template_id) {
+      const templates = new CollectionTemplatesService(supabase)
+
+      // Only templates the user can see: system ones, their own and their
+      // department's
+      if (!(await templates.getTemplate(body.template_id))) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+      }
+
+      const collection = await templates.createCollectionFromTemplate(body.template_id, user.id, {
+        title: title || undefined,
+        description: body.description?.trim() || undefined,
+        tags: body.tags,
+        is_public: !!body.is_public,
+        is_collaborative: !!body.is_collaborative
+      })
+
+      await recordTemplateUsage(body.template_id)
+
+      return NextResponse.json({ collection }, { status: 201 })
+    }
+
+    if (!title) {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 })
+    }
+
+    const collection = await new CollectionService(supabase).createCollection({
+      title,
+      description: body.description?.trim() || undefined,
+      is_public: !!body.is_public,
+      is_collaborative: !!body.is_collaborative,
+      tags: body.tags
+    }, user.id)
+
+    return NextResponse.json({ collection }, { status: 201 })
+  } catch (error) {
+    console.error('Create collection error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Usage counts are only written here, with the service role, so they can't
+// be inflated by calling the function directly
+async function recordTemplateUsage(templateId: string) {
+  const { error } = await createAdminClient()
+    .rpc('record_template_usage', { p_template_id: templateId })
+
+  // The collection already exists; a missed count shouldn't fail creating it
+  if (error) {
+    console.error('Error recording template usage:', error)
+  }
+}
@@ -17,16 +17,21 @@ export async function GET(request: NextRequest) {
     const department = searchParams.get('department')
     const course = searchParams.get('course')
     const timeframe = searchParams.get('timeframe') || 'all_time'
+    const season = searchParams.get('season')
     const limit = parseInt(searchParams.get('limit') || '50')
 
     const scope: LeaderboardScope = {
       type: type as 'global' | 'department' | 'course',
       department: department || undefined,
       course: course || undefined,
-      timeframe: timeframe as 'daily' | 'weekly' | 'monthly' | 'all_time'
+      timeframe: timeframe as 'daily' | 'weekly' | 'monthly' | 'all_time',
+      season: season || undefined
     }
 
-    const leaderboard = await gamificationEngine.getLeaderboard(scope, limit)
+    // Archived seasons are read from their frozen standings
+    const leaderboard = scope.season
+      ? await gamificationEngine.getSeasonLeaderboard(scope.season, scope, limit)
+      : await gamificationEngine.getLeaderboard(scope, limit)
 
     // Find current user's position
     const userPosition = leaderboard.findIndex(entry => entry.user_id === user.id)
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { gamificationEngine } from '@/lib/services/gamification'
+import { leaderboardSeasonService } from '@/lib/services/leaderboard-seasons'
+
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const seasons = await gamificationEngine.getSeasons()
+
+    return NextResponse.json({ seasons })
+  } catch (error) {
+    console.error('Error fetching leaderboard seasons:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch seasons' },
+      { status: 500 }
+    )
+  }
+}
+
+// Opens the current season and archives ended ones. Called daily by a cron
+// job; re-runs are safe.
+export async function POST(request: NextRequest) {
+  try {
+    const apiKey = request.nextUrl.searchParams.get('api_key')
+    if (!apiKey || apiKey !== process.env.SEASONS_API_KEY) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const report = await leaderboardSeasonService.runRollover()
+
+    return NextResponse.json({ success: true, ...report })
+  } catch (error) {
+    console.error('Season rollover error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,13 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { emailDigestService } from '@/lib/services/email-digest-service'
+import { emailService } from '@/lib/services/email'
+import { notificationEmailService } from '@/lib/services/notification-email-service'
+import { getDigestSchedule } from '@/lib/services/digest-schedule'
+import type { EmailDelivery } from '@/types'
 
 export async function POST(request: Request) {
   try {
-    const supabase = createClient()
-    
     // This endpoint should be protected and only called by cron jobs or admin users
     const { searchParams } = new URL(request.url)
     const apiKey = searchParams.get('api_key')
@@ -15,42 +17,17 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Get inactive users (users who haven't been active in the last 7 days)
-    const inactiveUsers = await emailDigestService.getInactiveUsers(7)
-    
-    let successCount = 0
-    let errorCount = 0
-
-    // Generate and send digest for each inactive user
-    for (const userId of inactiveUsers) {
-      try {
-        const digestData = await emailDigestService.generateWeeklyDigest(userId)
-        
-        if (digestData) {
-          // Only send if there's meaningful content
-          const hasContent = digestData.newResources.length > 0 || 
-                           digestData.achievements.length > 0
-
-          if (hasContent) {
-            const sent = await emailDigestService.sendDigestEmail(digestData)
-            if (sent) {
-              successCount++
-            } else {
-              errorCount++
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`Error processing digest for user ${userId}:`, error)
-        errorCount++
-      }
-    }
+    // Sends every digest due this hour. Meant to be called hourly; digests
+    // already sent for the current period are skipped, so re-runs are safe.
+    const report = await emailDigestService.runScheduledDigests()
+    // Notifications whose type the recipient moved to the email channel go
+    // out on the same run, in the same batch
+    const notificationEmails = await notificationEmailService.dispatchPending(report.batch_id)
 
     return NextResponse.json({
       success: true,
-      processed: inactiveUsers.length,
-      sent: successCount,
-      errors: errorCount
+      ...report,
+      notification_emails: notificationEmails
     })
   } catch (error) {
     console.error('Digest generation error:', error)
@@ -61,9 +38,33 @@ export async function POST(request: Request) {
   }
 }
 
-// Manual digest generation for a specific user (for testing)
+// Manual digest generation for a specific user (for testing), or with
+// ?batch_id and the API key, the current status of a previous run's emails
 export async function GET(request: Request) {
   try {
+    const { searchParams } = new URL(request.url)
+    const batchId = searchParams.get('batch_id')
+
+    if (batchId) {
+      const apiKey = searchParams.get('api_key')
+      if (!apiKey || apiKey !== process.env.DIGEST_API_KEY) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const deliveries = await emailService.getDeliveries(batchId)
+      const countByStatus = (status: EmailDelivery['status']) =>
+        deliveries.filter(d => d.status === status).length
+
+      return NextResponse.json({
+        batch_id: batchId,
+        sent: countByStatus('sent'),
+        failed: countByStatus('failed'),
+        bounced: countByStatus('bounced'),
+        pending: countByStatus('pending'),
+        deliveries
+      })
+    }
+
     const supabase = createClient()
     
     // Get current user
@@ -72,7 +73,9 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const digestData = await emailDigestService.generateWeeklyDigest(user.id)
+    const settings = await emailDigestService.getDigestSettings(user.id)
+    const schedule = getDigestSchedule(settings)
+    const digestData = await emailDigestService.generateDigest(user.id, settings, schedule.periodStart)
     
     if (!digestData) {
       return NextResponse.json({ error: 'Could not generate digest' }, { status: 400 })
@@ -81,6 +84,7 @@ export async function GET(request: Request) {
     // Return the digest data for preview (don't actually send email)
     return NextResponse.json({
       digestData,
+      hasContent: emailDigestService.hasContent(digestData),
       emailHTML: emailDigestService.generateEmailHTML(digestData)
     })
   } catch (error) {
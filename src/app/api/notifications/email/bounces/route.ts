@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { emailService } from '@/lib/services/email'
+
+// Bounce webhook for the mail relay. Accepts one report or an array of them:
+// { message_id?, email?, reason?, permanent? }
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const apiKey = searchParams.get('api_key')
+
+    if (!apiKey || apiKey !== process.env.EMAIL_WEBHOOK_API_KEY) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const reports = Array.isArray(body) ? body : [body]
+
+    if (reports.some(report => !report?.message_id && !report?.email)) {
+      return NextResponse.json(
+        { error: 'Each bounce needs a message_id or email' },
+        { status: 400 }
+      )
+    }
+
+    let recorded = 0
+    for (const report of reports) {
+      const delivery = await emailService.recordBounce({
+        messageId: report.message_id,
+        email: report.email,
+        reason: report.reason,
+        permanent: report.permanent === true
+      })
+      if (delivery) recorded++
+    }
+
+    return NextResponse.json({
+      success: true,
+      received: reports.length,
+      recorded
+    })
+  } catch (error) {
+    console.error('Bounce webhook error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
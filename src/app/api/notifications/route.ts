@@ -1,6 +1,9 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { Notification } from '@/shared/types'
+import { Notification, NotificationGroup, NotificationView } from '@/shared/types'
+import { NotificationService } from '@/lib/services/notification-service'
+
+const NOTIFICATION_VIEWS: NotificationView[] = ['inbox', 'snoozed', 'archived']
 
 export async function GET(request: Request) {
   try {
@@ -8,6 +11,12 @@ export async function GET(request: Request) {
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '20')
     const unreadOnly = searchParams.get('unread_only') === 'true'
+    const type = searchParams.get('type')
+    const view = (searchParams.get('view') || 'inbox') as NotificationView
+
+    if (!NOTIFICATION_VIEWS.includes(view)) {
+      return NextResponse.json({ error: 'Invalid view' }, { status: 400 })
+    }
     
     const supabase = createClient()
     
@@ -17,30 +26,81 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    let query = supabase
-      .from('notifications')
-      .select('*', { count: 'exact' })
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
+    const { data: groupRows, error } = await supabase.rpc('get_notification_groups', {
+      p_view: view,
+      p_unread_only: unreadOnly,
+      p_type: type,
+      p_limit: limit,
+      p_offset: (page - 1) * limit
+    })
 
-    if (unreadOnly) {
-      query = query.eq('is_read', false)
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
-    const start = (page - 1) * limit
-    query = query.range(start, start + limit - 1)
+    const rows = (groupRows || []) as {
+      group_key: string
+      latest_id: string
+      notification_ids: string[]
+      count: number
+      unread_count: number
+      actor_count: number
+      total_groups: number
+    }[]
 
-    const { data: notifications, error, count } = await query
+    // Load the newest notification of each group to describe it
+    let latestById = new Map<string, Notification>()
+    if (rows.length > 0) {
+      const { data: latest, error: latestError } = await supabase
+        .from('notifications')
+        .select('*')
+        .in('id', rows.map(row => row.latest_id))
 
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 })
+      if (latestError) {
+        return NextResponse.json({ error: latestError.message }, { status: 500 })
+      }
+      latestById = new Map((latest || []).map(n => [n.id, n as Notification]))
     }
 
+    const groups: NotificationGroup[] = rows
+      .filter(row => latestById.has(row.latest_id))
+      .map(row => {
+        const latest = latestById.get(row.latest_id)!
+        const stats = {
+          count: Number(row.count),
+          unread_count: Number(row.unread_count),
+          actor_count: Number(row.actor_count)
+        }
+
+        return {
+          group_key: row.group_key,
+          type: latest.type,
+          ...NotificationService.summarizeGroup(latest, stats),
+          latest,
+          notification_ids: row.notification_ids,
+          ...stats
+        }
+      })
+
+    // Unread count for the bell: unread in-app notifications in the inbox
+    const now = new Date().toISOString()
+    const { count: unreadCount } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('delivery_channel', 'in_app')
+      .eq('is_read', false)
+      .is('archived_at', null)
+      .or(`snoozed_until.is.null,snoozed_until.lte.${now}`)
+
+    const totalCount = rows.length > 0 ? Number(rows[0].total_groups) : 0
+
     return NextResponse.json({
-      notifications,
-      totalCount: count,
+      groups,
+      totalCount,
       currentPage: page,
-      totalPages: Math.ceil((count || 0) / limit),
+      totalPages: Math.ceil(totalCount / limit),
+      unreadCount: unreadCount || 0,
     })
   } catch (error) {
     console.error('Notifications fetch error:', error)
@@ -51,7 +111,9 @@ export async function GET(request: Request) {
   }
 }
 
-export async function POST(request: Request) {
+// Updates several notifications at once, e.g. every notification in a group:
+// { ids, is_read?, archived?, snoozed_until? }
+export async function PATCH(request: Request) {
   try {
     const supabase = createClient()
     
@@ -62,40 +124,84 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { type, title, message, data, target_user_id } = body
-
-    // Validate required fields
-    if (!type || !title) {
-      return NextResponse.json(
-        { error: 'Missing required fields: type, title' },
-        { status: 400 }
-      )
+    const { ids, is_read, archived, snoozed_until } = body
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json({ error: 'ids must be a non-empty array' }, { status: 400 })
     }
 
-    // Create notification
-    const { data: notification, error } = await supabase
+    const update: Record<string, any> = {}
+    if (typeof is_read === 'boolean') update.is_read = is_read
+    if (typeof archived === 'boolean') update.archived_at = archived ? new Date().toISOString() : null
+    if (snoozed_until !== undefined) {
+      if (snoozed_until !== null && isNaN(Date.parse(snoozed_until))) {
+        return NextResponse.json({ error: 'Invalid snoozed_until' }, { status: 400 })
+      }
+      update.snoozed_until = snoozed_until
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
       .from('notifications')
-      .insert({
-        user_id: target_user_id || user.id,
-        type,
-        title,
-        message,
-        data: data || {},
-        is_read: false
-      })
-      .select()
-      .single()
+      .update(update)
+      .in('id', ids)
+      .eq('user_id', user.id) // Ensure user can only update their own notifications
+      .select('id')
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
-    return NextResponse.json(notification, { status: 201 })
+    return NextResponse.json({
+      success: true,
+      updated_count: data?.length || 0
+    })
   } catch (error) {
-    console.error('Create notification error:', error)
+    console.error('Update notifications error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// Deletes the notifications in ?ids=a,b,c
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const ids = (searchParams.get('ids') || '').split(',').filter(Boolean)
+
+    if (ids.length === 0) {
+      return NextResponse.json({ error: 'ids is required' }, { status: 400 })
+    }
+
+    const supabase = createClient()
+    
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .in('id', ids)
+      .eq('user_id', user.id) // Ensure user can only delete their own notifications
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete notifications error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
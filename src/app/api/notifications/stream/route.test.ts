@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createClient } from '@/lib/supabase/server'
+import { GET } from './route'
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }))
+
+const NOTIFICATION_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+
+// Records the filters of each poll and answers with the given rows
+function fakeClient(rows: Record<string, unknown>[], userId: string | null = 'user-1') {
+  const polls: [string, ...unknown[]][][] = []
+
+  const from = () => {
+    const calls: [string, ...unknown[]][] = []
+    polls.push(calls)
+    const builder: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown) => resolve({ data: rows, error: null })
+    }
+    for (const method of ['select', 'eq', 'is', 'or', 'order', 'limit']) {
+      builder[method] = (...args: unknown[]) => {
+        calls.push([method, ...args])
+        return builder
+      }
+    }
+    return builder
+  }
+
+  vi.mocked(createClient).mockReturnValue({
+    auth: { getUser: async () => ({ data: { user: userId ? { id: userId } : null }, error: null }) },
+    from
+  } as unknown as ReturnType<typeof createClient>)
+
+  return { polls }
+}
+
+// Reads what the first poll sent, then disconnects like a closed tab
+async function firstEvents(headers: Record<string, string> = {}, query = '') {
+  const abort = new AbortController()
+  const response = await GET(new Request(`http://localhost/api/notifications/stream${query}`, { headers, signal: abort.signal }))
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+
+  let text = ''
+  while (!text.includes('keep-alive') && !text.includes('event: notification')) {
+    const { value } = await reader.read()
+    text += decoder.decode(value)
+  }
+  abort.abort()
+
+  return { response, text }
+}
+
+describe('GET /api/notifications/stream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('requires a signed-in user', async () => {
+    fakeClient([], null)
+
+    const response = await GET(new Request('http://localhost/api/notifications/stream'))
+    expect(response.status).toBe(401)
+  })
+
+  it('streams new notifications as server-sent events', async () => {
+    const notification = { id: NOTIFICATION_ID, created_at: '2024-11-04T09:00:00.123456+00:00', title: 'Hello' }
+    fakeClient([notification])
+
+    const { response, text } = await firstEvents()
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+    expect(text).toBe(
+      'retry: 3000\n\n' +
+      `id: 2024-11-04T09:00:00.123456+00:00|${NOTIFICATION_ID}\nevent: notification\ndata: ${JSON.stringify(notification)}\n\n`
+    )
+  })
+
+  it('only polls what the inbox shows', async () => {
+    const { polls } = fakeClient([])
+
+    const { text } = await firstEvents()
+
+    expect(text).toContain(': keep-alive\n\n')
+    expect(polls[0]).toContainEqual(['eq', 'user_id', 'user-1'])
+    expect(polls[0]).toContainEqual(['eq', 'delivery_channel', 'in_app'])
+    expect(polls[0]).toContainEqual(['is', 'archived_at', null])
+    expect(polls[0].filter(([method]) => method === 'or')[0][1]).toMatch(/^snoozed_until\.is\.null,snoozed_until\.lte\./)
+  })
+
+  it('resumes after the Last-Event-ID', async () => {
+    const { polls } = fakeClient([])
+
+    await firstEvents({ 'Last-Event-ID': `2024-11-04T09:00:00.123456+00:00|${NOTIFICATION_ID}` })
+
+    const cursor = polls[0].filter(([method]) => method === 'or')[1][1]
+    expect(cursor).toBe(
+      'created_at.gt."2024-11-04T09:00:00.123456+00:00",' +
+      `and(created_at.eq."2024-11-04T09:00:00.123456+00:00",id.gt.${NOTIFICATION_ID})`
+    )
+  })
+
+  it('starts at the given time when the cursor has no valid id', async () => {
+    const { polls } = fakeClient([])
+
+    await firstEvents({}, `?since=${encodeURIComponent('2024-11-04T09:00:00Z|not-a-uuid')}`)
+
+    const cursor = polls[0].filter(([method]) => method === 'or')[1][1] as string
+    expect(cursor).toContain('created_at.gt."2024-11-04T09:00:00.000Z"')
+    expect(cursor).toContain('id.gt.00000000-0000-0000-0000-000000000000')
+  })
+
+  it('does not pass quotes from the cursor into the filter', async () => {
+    const { polls } = fakeClient([])
+
+    await firstEvents({ 'Last-Event-ID': `2024-11-04T09:00:00Z",id.gt.0|${NOTIFICATION_ID}` })
+
+    const cursor = polls[0].filter(([method]) => method === 'or')[1][1] as string
+    expect(cursor).not.toContain('id.gt.0"')
+    expect(cursor).not.toContain(NOTIFICATION_ID)
+  })
+})
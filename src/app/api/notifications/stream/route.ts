@@ -0,0 +1,124 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+
+export const dynamic = 'force-dynamic'
+
+const POLL_INTERVAL_MS = 3000
+// Ends the response before the platform's function timeout; EventSource
+// reconnects on its own and resumes from the Last-Event-ID header
+const STREAM_DURATION_MS = 25000
+
+// Orders notifications created in the same instant, so none are skipped
+// when a batch ends between them
+const FIRST_ID = '00000000-0000-0000-0000-000000000000'
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Server-Sent Events fallback for clients that cannot use Supabase realtime.
+// Streams the user's new in-app notifications as `notification` events, each
+// with `created_at|id` as the event id.
+export async function GET(request: Request) {
+  try {
+    const supabase = createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const [requestedSince, requestedId] = (request.headers.get('last-event-id') || searchParams.get('since') || '').split('|')
+    const validSince = !!requestedSince && !isNaN(Date.parse(requestedSince))
+    const resuming = validSince && !!requestedId && UUID_PATTERN.test(requestedId) && !requestedSince.includes('"')
+    // Resuming from an event keeps its created_at as stored, since rounding
+    // it would resend or skip rows from the same instant
+    let since = resuming
+      ? requestedSince
+      : validSince ? new Date(requestedSince).toISOString() : new Date().toISOString()
+    let sinceId = resuming ? requestedId : FIRST_ID
+
+    const encoder = new TextEncoder()
+    let closed = false
+    let polling = false
+    let pollTimer: ReturnType<typeof setInterval> | undefined
+    let endTimer: ReturnType<typeof setTimeout> | undefined
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk))
+        }
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          clearInterval(pollTimer)
+          clearTimeout(endTimer)
+          controller.close()
+        }
+
+        const poll = async () => {
+          if (polling || closed) return
+          polling = true
+
+          try {
+            // Only what the inbox shows: email-only, archived and snoozed
+            // notifications stay out of the bell and toasts
+            const { data: notifications, error } = await supabase
+              .from('notifications')
+              .select('*')
+              .eq('user_id', user.id)
+              .eq('delivery_channel', 'in_app')
+              .is('archived_at', null)
+              .or(`snoozed_until.is.null,snoozed_until.lte.${new Date().toISOString()}`)
+              .or(`created_at.gt."${since}",and(created_at.eq."${since}",id.gt.${sinceId})`)
+              .order('created_at', { ascending: true })
+              .order('id', { ascending: true })
+              .limit(50)
+
+            if (error) {
+              console.error('Notification stream poll error:', error)
+            } else if (notifications && notifications.length > 0) {
+              for (const notification of notifications) {
+                since = notification.created_at
+                sinceId = notification.id
+                send(`id: ${notification.created_at}|${notification.id}\nevent: notification\ndata: ${JSON.stringify(notification)}\n\n`)
+              }
+            } else {
+              // Comment line keeps proxies from closing an idle connection
+              send(': keep-alive\n\n')
+            }
+          } finally {
+            polling = false
+          }
+        }
+
+        send(`retry: ${POLL_INTERVAL_MS}\n\n`)
+        await poll()
+
+        pollTimer = setInterval(poll, POLL_INTERVAL_MS)
+        endTimer = setTimeout(close, STREAM_DURATION_MS)
+        request.signal.addEventListener('abort', close)
+      },
+      cancel() {
+        closed = true
+        clearInterval(pollTimer)
+        clearTimeout(endTimer)
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    })
+  } catch (error) {
+    console.error('Notification stream error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
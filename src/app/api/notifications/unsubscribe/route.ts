@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { emailService, verifyUnsubscribeToken } from '@/lib/services/email'
+
+// Handles both the RFC 8058 one-click POST that mail clients send from the
+// List-Unsubscribe header (token in the query string) and the unsubscribe
+// page (token and optional resubscribe in a JSON body). No session is
+// needed: the signed token identifies the user.
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    let token = searchParams.get('token')
+    let resubscribe = false
+
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json().catch(() => ({}))
+      token = body.token || token
+      resubscribe = body.resubscribe === true
+    }
+
+    const userId = verifyUnsubscribeToken(token)
+    if (!userId) {
+      return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 })
+    }
+
+    await emailService.setEmailDigest(userId, resubscribe)
+
+    return NextResponse.json({ success: true, email_digest: resubscribe })
+  } catch (error) {
+    console.error('Unsubscribe error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+
+const MAX_COMMENT_LENGTH = 2000
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { content } = await request.json()
+    const trimmed = typeof content === 'string' ? content.trim() : ''
+
+    if (!trimmed) {
+      return NextResponse.json({ error: 'Comment cannot be empty' }, { status: 400 })
+    }
+
+    if (trimmed.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment must be ${MAX_COMMENT_LENGTH} characters or fewer` },
+        { status: 400 }
+      )
+    }
+
+    const { data: comment, error } = await supabase
+      .from('resource_comments')
+      .update({ content: trimmed, is_edited: true })
+      .match({ id: params.commentId, resource_id: params.id, user_id: user.id, is_deleted: false })
+      .select(`
+        *,
+        author:users!user_id(id, full_name, department, badge_level)
+      `)
+      .single()
+
+    if (error || !comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ comment })
+  } catch (error) {
+    console.error('Update comment error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Soft delete so replies keep their place in the thread
+    const { data: comment, error } = await supabase
+      .from('resource_comments')
+      .update({ content: '', is_deleted: true })
+      .match({ id: params.commentId, resource_id: params.id, user_id: user.id })
+      .select('id')
+      .single()
+
+    if (error || !comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Comment deleted successfully' })
+  } catch (error) {
+    console.error('Delete comment error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,142 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { gamificationEngine } from '@/lib/services/gamification'
+import { NotificationService } from '@/lib/services/notification-service'
+import { notifyUsers } from '@/lib/services/server-notifications'
+
+const MAX_COMMENT_LENGTH = 2000
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: comments, error } = await supabase
+      .from('resource_comments')
+      .select(`
+        *,
+        author:users!user_id(id, full_name, department, badge_level)
+      `)
+      .eq('resource_id', params.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ comments: comments || [] })
+  } catch (error) {
+    console.error('Comments fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { content, parent_id } = await request.json()
+    const trimmed = typeof content === 'string' ? content.trim() : ''
+
+    if (!trimmed) {
+      return NextResponse.json({ error: 'Comment cannot be empty' }, { status: 400 })
+    }
+
+    if (trimmed.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment must be ${MAX_COMMENT_LENGTH} characters or fewer` },
+        { status: 400 }
+      )
+    }
+
+    const { data: resource, error: resourceError } = await supabase
+      .from('resources')
+      .select('id, title, uploaded_by, resource_type')
+      .eq('id', params.id)
+      .single()
+
+    if (resourceError || !resource) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    }
+
+    // Replies must belong to the same resource's discussion
+    if (parent_id) {
+      const { data: parent } = await supabase
+        .from('resource_comments')
+        .select('id, resource_id, is_deleted')
+        .eq('id', parent_id)
+        .single()
+
+      if (!parent || parent.resource_id !== params.id || parent.is_deleted) {
+        return NextResponse.json({ error: 'Cannot reply to this comment' }, { status: 400 })
+      }
+    }
+
+    const { data: comment, error } = await supabase
+      .from('resource_comments')
+      .insert({
+        resource_id: params.id,
+        user_id: user.id,
+        parent_id: parent_id || null,
+        content: trimmed
+      })
+      .select(`
+        *,
+        author:users!user_id(id, full_name, department, badge_level)
+      `)
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    // Award points for taking part in the discussion
+    try {
+      await gamificationEngine.updateUserProgress(user.id, {
+        type: 'comment_resource',
+        userId: user.id,
+        resourceId: params.id,
+        resourceType: resource.resource_type,
+        metadata: {
+          comment_id: comment.id,
+          is_reply: !!parent_id
+        }
+      })
+    } catch (pointsError) {
+      console.error('Error awarding comment points:', pointsError)
+    }
+
+    // Let the uploader know someone is asking about their resource
+    if (resource.uploaded_by && resource.uploaded_by !== user.id) {
+      try {
+        await notifyUsers(user.id, [resource.uploaded_by], NotificationService.commentReceivedNotification(
+          resource,
+          comment.author?.full_name || 'Someone'
+        ))
+      } catch (notifyError) {
+        console.error('Error notifying uploader of comment:', notifyError)
+      }
+    }
+
+    return NextResponse.json({ comment }, { status: 201 })
+  } catch (error) {
+    console.error('Create comment error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { POST } from './route'
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }))
+
+const resource = { id: 'resource-1', uploaded_by: 'uploader-1' }
+
+// Just the calls the route makes: the resource lookup and the report insert
+function fakeClient(options: { userId?: string; resource?: typeof resource | null; insertError?: { code: string; message: string } } = {}) {
+  const inserted: Record<string, unknown>[] = []
+  const client = {
+    auth: {
+      getUser: async () => ({ data: { user: options.userId ? { id: options.userId } : null }, error: null })
+    },
+    from: (table: string) => table === 'resources'
+      ? {
+          select: () => ({
+            eq: () => ({
+              single: async () => options.resource === null
+                ? { data: null, error: { code: 'PGRST116', message: 'No rows' } }
+                : { data: options.resource || resource, error: null }
+            })
+          })
+        }
+      : {
+          insert: (row: Record<string, unknown>) => {
+            inserted.push(row)
+            return {
+              select: () => ({
+                single: async () => options.insertError
+                  ? { data: null, error: options.insertError }
+                  : { data: { id: 'report-1', ...row }, error: null }
+              })
+            }
+          }
+        }
+  }
+
+  vi.mocked(createClient).mockReturnValue(client as unknown as ReturnType<typeof createClient>)
+  return { inserted }
+}
+
+const report = (body: Record<string, unknown>) =>
+  POST(
+    new NextRequest('http://localhost/api/resources/resource-1/report', { method: 'POST', body: JSON.stringify(body) }),
+    { params: { id: 'resource-1' } }
+  )
+
+describe('POST /api/resources/[id]/report', () => {
+  beforeEach(() => {
+    vi.mocked(createClient).mockReset()
+  })
+
+  it('requires a signed-in user', async () => {
+    fakeClient()
+    expect((await report({ reason: 'spam' })).status).toBe(401)
+  })
+
+  it('rejects unknown reasons and long details', async () => {
+    fakeClient({ userId: 'reporter-1' })
+
+    expect((await report({ reason: 'boring' })).status).toBe(400)
+    expect((await report({ reason: 'spam', details: 'x'.repeat(1001) })).status).toBe(400)
+  })
+
+  it('does not let uploaders report their own resource', async () => {
+    const { inserted } = fakeClient({ userId: 'uploader-1' })
+
+    const response = await report({ reason: 'spam' })
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'You cannot report your own resource' })
+    expect(inserted).toHaveLength(0)
+  })
+
+  it('returns 404 for a missing resource', async () => {
+    fakeClient({ userId: 'reporter-1', resource: null })
+    expect((await report({ reason: 'spam' })).status).toBe(404)
+  })
+
+  it('inserts only the reporter\'s own fields', async () => {
+    const { inserted } = fakeClient({ userId: 'reporter-1' })
+
+    const response = await report({
+      reason: 'copyright',
+      details: '  Scanned textbook  ',
+      status: 'resolved',
+      resource_title: 'Forged',
+      resource_uploaded_by: 'someone-else'
+    })
+
+    expect(response.status).toBe(201)
+    expect(inserted).toEqual([{
+      resource_id: 'resource-1',
+      reported_by: 'reporter-1',
+      reason: 'copyright',
+      details: 'Scanned textbook'
+    }])
+  })
+
+  it('reports a duplicate open report as a conflict', async () => {
+    fakeClient({ userId: 'reporter-1', insertError: { code: '23505', message: 'duplicate key value' } })
+    expect((await report({ reason: 'spam' })).status).toBe(409)
+  })
+})
@@ -0,0 +1,80 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { REPORT_REASONS } from '@/shared/constants'
+
+const VALID_REASONS: string[] = REPORT_REASONS.map(r => r.value)
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { reason, details } = await request.json()
+
+    if (!reason || !VALID_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { error: `Invalid reason. Use: ${VALID_REASONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (details && (typeof details !== 'string' || details.length > 1000)) {
+      return NextResponse.json(
+        { error: 'Details must be 1000 characters or fewer' },
+        { status: 400 }
+      )
+    }
+
+    const { data: resource, error: resourceError } = await supabase
+      .from('resources')
+      .select('id, uploaded_by')
+      .eq('id', params.id)
+      .single()
+
+    if (resourceError || !resource) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    }
+
+    if (resource.uploaded_by === user.id) {
+      return NextResponse.json({ error: 'You cannot report your own resource' }, { status: 400 })
+    }
+
+    const { data: report, error } = await supabase
+      .from('resource_reports')
+      .insert({
+        // Title and uploader are filled in from the resource by the database
+        resource_id: resource.id,
+        reported_by: user.id,
+        reason,
+        details: details?.trim() || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // Unique violation: this user already has an open report on the resource
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'You have already reported this resource' },
+          { status: 409 }
+        )
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ report }, { status: 201 })
+  } catch (error) {
+    console.error('Report resource error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { gamificationEngine } from '@/lib/services/gamification'
+import { notifyUsers } from '@/lib/services/server-notifications'
+import { DELETE, POST } from './route'
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }))
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: vi.fn() }))
+vi.mock('@/lib/services/server-notifications', () => ({ notifyUsers: vi.fn() }))
+vi.mock('@/lib/services/gamification', () => ({
+  gamificationEngine: { updateUserProgress: vi.fn(), reverseUserProgress: vi.fn() }
+}))
+
+interface StoredResource {
+  id: string
+  title: string
+  uploaded_by: string
+  resource_type: string
+  is_verified: boolean
+  verified_by: string | null
+}
+
+// The verifier's profile lookup, and the resource reads and writes made
+// with the service role
+function setup(role: string, resource: StoredResource) {
+  const updates: Record<string, unknown>[] = []
+
+  vi.mocked(createClient).mockReturnValue({
+    auth: { getUser: async () => ({ data: { user: { id: 'faculty-1' } }, error: null }) },
+    from: () => ({
+      select: () => ({ eq: () => ({ single: async () => ({ data: { role, full_name: 'Dr. Rao' }, error: null }) }) })
+    })
+  } as unknown as ReturnType<typeof createClient>)
+
+  vi.mocked(createAdminClient).mockReturnValue({
+    from: () => ({
+      select: () => ({ eq: () => ({ single: async () => ({ data: resource, error: null }) }) }),
+      update: (row: Record<string, unknown>) => {
+        updates.push(row)
+        return { eq: () => ({ select: () => ({ single: async () => ({ data: { ...resource, ...row }, error: null }) }) }) }
+      }
+    })
+  } as unknown as ReturnType<typeof createAdminClient>)
+
+  return { updates }
+}
+
+const resource = (overrides: Partial<StoredResource> = {}): StoredResource => ({
+  id: 'resource-1',
+  title: 'Thermodynamics Notes',
+  uploaded_by: 'uploader-1',
+  resource_type: 'document',
+  is_verified: false,
+  verified_by: null,
+  ...overrides
+})
+
+const request = (method: string, body?: Record<string, unknown>) =>
+  new NextRequest('http://localhost/api/resources/resource-1/verify', {
+    method,
+    body: body ? JSON.stringify(body) : undefined
+  })
+
+const params = { params: { id: 'resource-1' } }
+
+describe('POST /api/resources/[id]/verify', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('only lets faculty and moderators verify', async () => {
+    const { updates } = setup('student', resource())
+
+    expect((await POST(request('POST'), params)).status).toBe(403)
+    expect(updates).toHaveLength(0)
+  })
+
+  it('does not let uploaders verify their own resource', async () => {
+    const { updates } = setup('faculty', resource({ uploaded_by: 'faculty-1' }))
+
+    expect((await POST(request('POST'), params)).status).toBe(400)
+    expect(updates).toHaveLength(0)
+  })
+
+  it('awards the bonus and notifies the uploader on first verification', async () => {
+    const { updates } = setup('faculty', resource())
+
+    const response = await POST(request('POST', { note: '  Accurate and complete  ' }), params)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ newly_verified: true })
+    expect(updates[0]).toMatchObject({ is_verified: true, verified_by: 'faculty-1', verification_note: 'Accurate and complete' })
+    expect(gamificationEngine.updateUserProgress).toHaveBeenCalledWith('uploader-1', expect.objectContaining({
+      type: 'verify_resource',
+      resourceId: 'resource-1'
+    }))
+    expect(notifyUsers).toHaveBeenCalledWith('faculty-1', ['uploader-1'], expect.objectContaining({
+      message: 'Dr. Rao verified "Thermodynamics Notes": Accurate and complete'
+    }))
+  })
+
+  it('does not award again when a verification is edited', async () => {
+    setup('faculty', resource({ is_verified: true, verified_by: 'faculty-2' }))
+
+    const response = await POST(request('POST', { note: 'Updated note' }), params)
+
+    expect(await response.json()).toMatchObject({ newly_verified: false })
+    expect(gamificationEngine.updateUserProgress).not.toHaveBeenCalled()
+    expect(notifyUsers).not.toHaveBeenCalled()
+  })
+})
+
+describe('DELETE /api/resources/[id]/verify', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('takes the bonus back when removing a verification', async () => {
+    const { updates } = setup('moderator', resource({ is_verified: true, verified_by: 'faculty-2' }))
+
+    expect((await DELETE(request('DELETE'), params)).status).toBe(200)
+    expect(updates[0]).toEqual({ is_verified: false, verified_by: null, verified_at: null, verification_note: null })
+    expect(gamificationEngine.reverseUserProgress).toHaveBeenCalledWith('uploader-1', expect.objectContaining({
+      type: 'verify_resource',
+      metadata: { is_verified: true, verified_by: 'faculty-2' }
+    }))
+  })
+
+  it('has nothing to take back from an unverified resource', async () => {
+    setup('faculty', resource())
+
+    expect((await DELETE(request('DELETE'), params)).status).toBe(200)
+    expect(gamificationEngine.reverseUserProgress).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,201 @@
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission } from '@/features/auth/utils'
+import { gamificationEngine, type UserAction } from '@/lib/services/gamification'
+import { NotificationService } from '@/lib/services/notification-service'
+import { notifyUsers } from '@/lib/services/server-notifications'
+
+const MAX_NOTE_LENGTH = 500
+
+const VERIFICATION_SELECT = `
+  id, is_verified, verified_by, verified_at, verification_note,
+  verifier:users!verified_by(id, full_name, department, role)
+`
+
+async function authorizeVerifier() {
+  const supabase = createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { user: null, profile: null, denied: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('role, full_name')
+    .eq('id', user.id)
+    .single()
+
+  if (!hasPermission(profile, 'verify_resources')) {
+    return {
+      user: null,
+      profile: null,
+      denied: NextResponse.json({ error: 'Only faculty and moderators can verify resources' }, { status: 403 })
+    }
+  }
+
+  return { user, profile, denied: null }
+}
+
+// The uploader's verified-content bonus, awarded on verification and taken
+// back when it is removed
+function verificationAction(
+  resource: { id: string; uploaded_by: string; resource_type: string },
+  verifierId: string | null
+): UserAction {
+  return {
+    type: 'verify_resource',
+    userId: resource.uploaded_by,
+    resourceId: resource.id,
+    resourceType: resource.resource_type,
+    metadata: {
+      is_verified: true,
+      verified_by: verifierId
+    }
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, profile, denied } = await authorizeVerifier()
+    if (!user) return denied
+
+    const { note } = await request.json().catch(() => ({})) as { note?: string }
+    const trimmedNote = note?.trim() || null
+
+    if (trimmedNote && trimmedNote.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Endorsement note must be ${MAX_NOTE_LENGTH} characters or less` },
+        { status: 400 }
+      )
+    }
+
+    // Verification columns are guarded by a trigger, so writes go through the
+    // service role once the verifier has been authorized above
+    const admin = createAdminClient()
+
+    const { data: resource, error: resourceError } = await admin
+      .from('resources')
+      .select('id, title, uploaded_by, resource_type, is_verified')
+      .eq('id', params.id)
+      .single()
+
+    if (resourceError || !resource) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    }
+
+    if (resource.uploaded_by === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot verify your own resource' },
+        { status: 400 }
+      )
+    }
+
+    const { data: verified, error } = await admin
+      .from('resources')
+      .update({
+        is_verified: true,
+        verified_by: user.id,
+        verified_at: new Date().toISOString(),
+        verification_note: trimmedNote
+      })
+      .eq('id', params.id)
+      .select(VERIFICATION_SELECT)
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    // The verified-content bonus and the uploader's notification only come when
+    // an unverified resource is verified, not when a verification is edited.
+    // Removing a verification takes the bonus back.
+    if (!resource.is_verified) {
+      try {
+        await gamificationEngine.updateUserProgress(resource.uploaded_by, verificationAction(resource, user.id))
+      } catch (pointsError) {
+        console.error('Error awarding verification points:', pointsError)
+      }
+
+      try {
+        await notifyUsers(user.id, [resource.uploaded_by], NotificationService.resourceVerifiedNotification(
+          resource,
+          profile?.full_name || 'A faculty member',
+          trimmedNote || undefined
+        ))
+      } catch (notifyError) {
+        console.error('Error notifying uploader of verification:', notifyError)
+      }
+    }
+
+    return NextResponse.json({
+      resource: verified,
+      newly_verified: !resource.is_verified
+    })
+  } catch (error) {
+    console.error('Verify resource error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, denied } = await authorizeVerifier()
+    if (!user) return denied
+
+    const admin = createAdminClient()
+
+    const { data: current, error: resourceError } = await admin
+      .from('resources')
+      .select('id, uploaded_by, resource_type, is_verified, verified_by')
+      .eq('id', params.id)
+      .single()
+
+    if (resourceError || !current) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    }
+
+    const { data: resource, error } = await admin
+      .from('resources')
+      .update({
+        is_verified: false,
+        verified_by: null,
+        verified_at: null,
+        verification_note: null
+      })
+      .eq('id', params.id)
+      .select('id, is_verified, verified_by, verified_at, verification_note')
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    // Otherwise unverifying and verifying again would award the bonus twice
+    if (current.is_verified) {
+      try {
+        await gamificationEngine.reverseUserProgress(current.uploaded_by, verificationAction(current, current.verified_by))
+      } catch (pointsError) {
+        console.error('Error reversing verification points:', pointsError)
+      }
+    }
+
+    return NextResponse.json({ resource })
+  } catch (error) {
+    console.error('Remove verification error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createClient } from '@/lib/supabase/server'
+import { domainEvents } from '@/lib/services/events'
+import { POST } from './route'
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }))
+vi.mock('@/lib/services/events', () => ({ domainEvents: { emit: vi.fn() } }))
+
+// The signed-in user and the result of the cast_vote RPC
+function fakeClient(result: { data?: Record<string, unknown>; error?: { code: string; message: string } }, userId: string | null = 'voter-1') {
+  const rpc = vi.fn(() => ({
+    single: async () => ({ data: result.data || null, error: result.error || null })
+  }))
+
+  const client = {
+    auth: { getUser: async () => ({ data: { user: userId ? { id: userId } : null } }) },
+    rpc
+  }
+  vi.mocked(createClient).mockReturnValue(client as unknown as ReturnType<typeof createClient>)
+
+  return { client, rpc }
+}
+
+const vote = (voteType: unknown) =>
+  POST(
+    new Request('http://localhost/api/resources/resource-1/vote', { method: 'POST', body: JSON.stringify({ vote_type: voteType }) }),
+    { params: { id: 'resource-1' } }
+  )
+
+const switched = {
+  action: 'switched',
+  user_vote: 'downvote',
+  previous_vote: 'upvote',
+  upvotes: 4,
+  downvotes: 2,
+  uploaded_by: 'uploader-1',
+  resource_type: 'video'
+}
+
+describe('POST /api/resources/[id]/vote', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects unknown vote types before touching the database', async () => {
+    const { rpc } = fakeClient({ data: switched })
+
+    expect((await vote('sidevote')).status).toBe(400)
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('requires a signed-in user', async () => {
+    fakeClient({ data: switched }, null)
+    expect((await vote('upvote')).status).toBe(401)
+  })
+
+  it('casts the vote in one RPC and returns the server tallies', async () => {
+    const { rpc } = fakeClient({ data: switched })
+
+    const response = await vote('downvote')
+
+    expect(rpc).toHaveBeenCalledWith('cast_vote', { p_resource_id: 'resource-1', p_vote_type: 'downvote' })
+    expect(await response.json()).toEqual({
+      success: true,
+      action: 'switched',
+      user_vote: 'downvote',
+      upvotes: 4,
+      downvotes: 2
+    })
+  })
+
+  it('raises a vote.cast event with the previous vote', async () => {
+    const { client } = fakeClient({ data: switched })
+
+    await vote('downvote')
+
+    expect(domainEvents.emit).toHaveBeenCalledWith('vote.cast', 'voter-1', {
+      resourceId: 'resource-1',
+      resourceType: 'video',
+      uploaderId: 'uploader-1',
+      voteType: 'downvote',
+      previousVote: 'upvote'
+    }, client)
+  })
+
+  it('maps cast_vote errors to HTTP statuses', async () => {
+    fakeClient({ error: { code: 'P0002', message: 'resource not found' } })
+    const notFound = await vote('upvote')
+    expect(notFound.status).toBe(404)
+    expect(await notFound.json()).toEqual({ error: 'Resource not found' })
+
+    fakeClient({ error: { code: '40001', message: 'could not serialize access' } })
+    expect((await vote('upvote')).status).toBe(500)
+    expect(domainEvents.emit).not.toHaveBeenCalled()
+  })
+})
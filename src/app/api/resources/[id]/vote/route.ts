@@ -1,6 +1,16 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { gamificationEngine } from '@/lib/services/gamification'
+import { domainEvents } from '@/lib/services/events'
+import type { VoteResult } from '@/types'
+
+const VOTE_TYPES = ['upvote', 'downvote']
+
+// Postgres error codes raised by cast_vote
+const CAST_VOTE_ERRORS: Record<string, { message: string; status: number }> = {
+  '28000': { message: 'Unauthorized', status: 401 },
+  '22023': { message: 'Invalid vote type', status: 400 },
+  'P0002': { message: 'Resource not found', status: 404 },
+}
 
 export async function POST(
   request: Request,
@@ -10,6 +20,10 @@ export async function POST(
     const { vote_type } = await request.json()
     const resourceId = params.id
 
+    if (!VOTE_TYPES.includes(vote_type)) {
+      return NextResponse.json({ error: 'Invalid vote type' }, { status: 400 })
+    }
+
     const supabase = createClient()
     const { data: { user } } = await supabase.auth.getUser()
 
@@ -17,81 +31,46 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Check existing vote
-    const { data: existingVote } = await supabase
-      .from('votes')
-      .select('*')
-      .match({ user_id: user.id, resource_id: resourceId })
+    // Toggle, switch or create the vote and recount the tallies in one transaction
+    const { data, error } = await supabase
+      .rpc('cast_vote', { p_resource_id: resourceId, p_vote_type: vote_type })
       .single()
 
-    if (existingVote) {
-      if (existingVote.vote_type === vote_type) {
-        // Remove vote
-        await supabase
-          .from('votes')
-          .delete()
-          .match({ user_id: user.id, resource_id: resourceId })
-
-        // Update resource vote count
-        const field = vote_type === 'upvote' ? 'upvotes' : 'downvotes'
-        await supabase.rpc(`decrement_${field}`, { resource_id: resourceId })
-
-        return NextResponse.json({ success: true, action: 'removed' })
-      } else {
-        // Update vote
-        await supabase
-          .from('votes')
-          .update({ vote_type })
-          .match({ user_id: user.id, resource_id: resourceId })
-
-        // Update both vote counts
-        if (vote_type === 'upvote') {
-          await supabase.rpc('increment_upvotes', { resource_id: resourceId })
-          await supabase.rpc('decrement_downvotes', { resource_id: resourceId })
-        } else {
-          await supabase.rpc('decrement_upvotes', { resource_id: resourceId })
-          await supabase.rpc('increment_downvotes', { resource_id: resourceId })
-        }
-
-        return NextResponse.json({ success: true, action: 'updated' })
-      }
-    } else {
-      // Create new vote
-      await supabase
-        .from('votes')
-        .insert({ user_id: user.id, resource_id: resourceId, vote_type })
-
-      // Update resource vote count
-      const field = vote_type === 'upvote' ? 'upvotes' : 'downvotes'
-      await supabase.rpc(`increment_${field}`, { resource_id: resourceId })
+    if (error) {
+      const known = CAST_VOTE_ERRORS[error.code]
+      return NextResponse.json(
+        { error: known?.message || error.message },
+        { status: known?.status || 500 }
+      )
+    }
 
-      // Get resource owner to award them points
-      const { data: resource } = await supabase
-        .from('resources')
-        .select('uploaded_by, resource_type')
-        .eq('id', resourceId)
-        .single()
+    const result = data as VoteResult & {
+      previous_vote: VoteResult['user_vote']
+      uploaded_by: string
+      resource_type: string
+    }
 
-      if (resource) {
-        // Award points to resource owner for receiving votes
-        await gamificationEngine.updateUserProgress(resource.uploaded_by, {
-          type: vote_type === 'upvote' ? 'receive_upvote' : 'receive_downvote',
-          userId: resource.uploaded_by,
-          resourceId: resourceId,
-          resourceType: resource.resource_type,
-          metadata: {
-            voter_id: user.id,
-            vote_type: vote_type
-          }
-        })
-      }
+    // Points and the uploader's notification are handled by subscribers
+    await domainEvents.emit('vote.cast', user.id, {
+      resourceId,
+      resourceType: result.resource_type,
+      uploaderId: result.uploaded_by,
+      voteType: result.user_vote,
+      previousVote: result.previous_vote
+    }, supabase)
 
-      return NextResponse.json({ success: true, action: 'created' })
-    }
+    return NextResponse.json({
+      success: true,
+      action: result.action,
+      user_vote: result.user_vote,
+      upvotes: result.upvotes,
+      downvotes: result.downvotes
+    })
   } catch (error) {
+    console.error('Vote error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
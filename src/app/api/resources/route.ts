@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
+import { domainEvents } from '@/lib/services/events'
 
 // GET /api/resources - List all resources with optional filtering
 export async function GET(request: NextRequest) {
@@ -20,7 +21,8 @@ export async function GET(request: NextRequest) {
       .from('resources')
       .select(`
         *,
-        uploader:users!uploaded_by(id, full_name, department, badge_level)
+        uploader:users!uploaded_by(id, full_name, department, badge_level),
+        verifier:users!verified_by(id, full_name, department, role)
       `, { count: 'exact' })
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1)
@@ -30,7 +32,8 @@ export async function GET(request: NextRequest) {
       query = query.eq('department', department)
     }
     if (course) {
-      query = query.eq('course', course)
+      // Course codes are matched case-insensitively
+      query = query.ilike('course', course)
     }
     if (semester) {
       query = query.eq('semester', parseInt(semester))
@@ -105,6 +108,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    await domainEvents.emit('resource.uploaded', user.id, { resource }, supabase)
+
     return NextResponse.json({ resource }, { status: 201 })
   } catch (error) {
     return NextResponse.json(
@@ -0,0 +1,93 @@
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { ResourceUploadService } from '@/lib/services/resource-upload'
+
+// Receive one chunk as the raw request body. Chunks may arrive in any order
+// and re-sending a chunk is harmless.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; index: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('upload_sessions')
+      .select('id, user_id, file_size, chunk_size, total_chunks, status, expires_at')
+      .eq('id', params.id)
+      .single()
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Upload session not found' }, { status: 404 })
+    }
+
+    if (session.status !== 'uploading') {
+      return NextResponse.json(
+        { error: `Upload session is ${session.status}` },
+        { status: 409 }
+      )
+    }
+
+    if (new Date(session.expires_at) < new Date()) {
+      return NextResponse.json({ error: 'Upload session has expired' }, { status: 410 })
+    }
+
+    const chunkIndex = Number(params.index)
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= session.total_chunks) {
+      return NextResponse.json(
+        { error: `Chunk index must be between 0 and ${session.total_chunks - 1}` },
+        { status: 400 }
+      )
+    }
+
+    // Every chunk is full size except the last one
+    const expectedSize = chunkIndex === session.total_chunks - 1
+      ? session.file_size - session.chunk_size * (session.total_chunks - 1)
+      : session.chunk_size
+
+    const data = await request.arrayBuffer()
+    if (data.byteLength !== expectedSize) {
+      return NextResponse.json(
+        { error: `Chunk ${chunkIndex} should be ${expectedSize} bytes, received ${data.byteLength}` },
+        { status: 400 }
+      )
+    }
+
+    const storeError = await ResourceUploadService.storeChunk(createAdminClient(), session, chunkIndex, data)
+    if (storeError) {
+      return NextResponse.json({ error: storeError }, { status: 500 })
+    }
+
+    const { data: receivedChunks, error } = await supabase
+      .rpc('mark_upload_chunk_received', {
+        p_session_id: session.id,
+        p_chunk_index: chunkIndex
+      })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    // The session was completed or cancelled while this chunk was in flight
+    if (!receivedChunks) {
+      return NextResponse.json({ error: 'Upload session is no longer accepting chunks' }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      received_chunks: receivedChunks,
+      total_chunks: session.total_chunks
+    })
+  } catch (error) {
+    console.error('Upload chunk error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { ResourceUploadService, type StoreResourceResult } from '@/lib/services/resource-upload'
+
+// Join the received chunks into the file and create the resource from it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('upload_sessions')
+      .select('*')
+      .eq('id', params.id)
+      .single()
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Upload session not found' }, { status: 404 })
+    }
+
+    // A retried completion whose first response was lost
+    if (session.status === 'completed' && session.resource_id) {
+      const { data: resource } = await supabase
+        .from('resources')
+        .select('*')
+        .eq('id', session.resource_id)
+        .single()
+
+      return NextResponse.json({ success: true, resource })
+    }
+
+    const missingChunks = Array.from({ length: session.total_chunks }, (_, index) => index)
+      .filter(index => !session.received_chunks.includes(index))
+
+    if (missingChunks.length > 0) {
+      return NextResponse.json({
+        error: 'Upload is missing chunks',
+        missing_chunks: missingChunks
+      }, { status: 400 })
+    }
+
+    // Sessions are only updated with the service role, now that the select
+    // above has shown this one is the caller's
+    const admin = createAdminClient()
+
+    // Claim the session so a double-submitted completion cannot create two
+    // resources. A completion that was cut off before it finished can be
+    // claimed again once it is stale.
+    const { data: claimed } = await admin
+      .from('upload_sessions')
+      .update({ status: 'completing', updated_at: new Date().toISOString() })
+      .eq('id', session.id)
+      .or(`status.eq.uploading,and(status.eq.completing,updated_at.lt.${ResourceUploadService.getStaleCompletionCutoff()})`)
+      .select('id')
+      .maybeSingle()
+
+    if (!claimed) {
+      return NextResponse.json(
+        { error: 'Upload is already being completed' },
+        { status: 409 }
+      )
+    }
+
+    let result: StoreResourceResult
+
+    try {
+      result = await ResourceUploadService.storeChunkedResource(supabase, admin, user, session)
+    } catch (error) {
+      result = { resource: null, error: error instanceof Error ? error.message : 'Failed to assemble upload' }
+    }
+
+    if (result.error || !result.resource) {
+      // Leave the chunks in place so completion can be retried
+      await admin
+        .from('upload_sessions')
+        .update({ status: 'uploading', updated_at: new Date().toISOString() })
+        .eq('id', session.id)
+
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    await admin
+      .from('upload_sessions')
+      .update({
+        status: 'completed',
+        resource_id: result.resource.id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', session.id)
+
+    await ResourceUploadService.removeChunks(admin, session)
+
+    return NextResponse.json({ success: true, resource: result.resource })
+  } catch (error) {
+    console.error('Complete upload session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { ResourceUploadService } from '@/lib/services/resource-upload'
+
+// Upload progress, used to find which chunks still need sending after an interruption
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: session, error } = await supabase
+      .from('upload_sessions')
+      .select('*')
+      .eq('id', params.id)
+      .single()
+
+    if (error || !session) {
+      return NextResponse.json({ error: 'Upload session not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ session })
+  } catch (error) {
+    console.error('Get upload session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Cancel an upload and discard the chunks received so far
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+
+    const { data: session, error } = await admin
+      .from('upload_sessions')
+      .update({ status: 'aborted', updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .eq('status', 'uploading')
+      .select('id, user_id, total_chunks')
+      .single()
+
+    if (error || !session) {
+      return NextResponse.json(
+        { error: 'Upload session not found or already finished' },
+        { status: 404 }
+      )
+    }
+
+    await ResourceUploadService.removeChunks(admin, session)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Abort upload session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
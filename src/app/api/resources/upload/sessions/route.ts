@@ -0,0 +1,149 @@
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { ResourceUploadService } from '@/lib/services/resource-upload'
+import { validateFileUpload } from '@/features/resources/utils'
+import { config } from '@/shared/config'
+
+// Start a resumable upload, or pick up the unfinished session for the same
+// local file. The file is then sent with PUT .../chunks/[index] and turned
+// into a resource with POST .../complete.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { file_name, file_size, file_type, fingerprint, metadata } = await request.json()
+
+    if (!file_name || typeof file_size !== 'number' || file_size <= 0) {
+      return NextResponse.json(
+        { error: 'file_name and a positive file_size are required' },
+        { status: 400 }
+      )
+    }
+
+    if (file_size > config.upload.maxFileSize) {
+      return NextResponse.json(
+        { error: `File exceeds the ${Math.round(config.upload.maxFileSize / 1024 / 1024)}MB limit` },
+        { status: 400 }
+      )
+    }
+
+    const validation = validateFileUpload(file_name, file_size, file_type)
+    if (!validation.isValid) {
+      return NextResponse.json({
+        error: 'File validation failed',
+        details: validation.errors
+      }, { status: 400 })
+    }
+
+    await abortExpiredSessions(user.id)
+
+    if (fingerprint) {
+      const { data: existing } = await supabase
+        .from('upload_sessions')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('fingerprint', fingerprint)
+        .in('status', ['uploading', 'completing'])
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (existing) {
+        if (existing.status === 'completing' && !ResourceUploadService.isStaleCompletion(existing)) {
+          return NextResponse.json(
+            { error: 'This file is still being processed. Try again in a few minutes.' },
+            { status: 409 }
+          )
+        }
+
+        // Keep the form fields from this attempt; they may have been edited.
+        // A completion that was cut off goes back to uploading so it can be
+        // finished again. Sessions are only updated by these routes, with the
+        // service role.
+        let resume = createAdminClient()
+          .from('upload_sessions')
+          .update({
+            status: 'uploading',
+            metadata: metadata || existing.metadata,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', existing.id)
+          .eq('user_id', user.id)
+          .eq('status', existing.status)
+
+        if (existing.status === 'completing') {
+          resume = resume.lt('updated_at', ResourceUploadService.getStaleCompletionCutoff())
+        }
+
+        const { data: session } = await resume.select().maybeSingle()
+
+        // Another request resumed or completed it first
+        if (!session && existing.status === 'completing') {
+          return NextResponse.json(
+            { error: 'This file is still being processed. Try again in a few minutes.' },
+            { status: 409 }
+          )
+        }
+
+        return NextResponse.json({ session: session || existing, resumed: true })
+      }
+    }
+
+    const chunkSize = config.upload.chunkSize
+
+    // Only this route creates sessions, so the size, type and chunking
+    // checked above are what completion relies on
+    const { data: session, error } = await createAdminClient()
+      .from('upload_sessions')
+      .insert({
+        user_id: user.id,
+        file_name,
+        file_size,
+        file_type: file_type || 'application/octet-stream',
+        fingerprint: fingerprint || null,
+        chunk_size: chunkSize,
+        total_chunks: Math.ceil(file_size / chunkSize),
+        metadata: metadata || {}
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ session, resumed: false }, { status: 201 })
+  } catch (error) {
+    console.error('Create upload session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Expired sessions would otherwise keep their staged chunks forever,
+// including completions that were cut off
+async function abortExpiredSessions(userId: string) {
+  const admin = createAdminClient()
+  const staleBefore = ResourceUploadService.getStaleCompletionCutoff()
+
+  const { data: expired } = await admin
+    .from('upload_sessions')
+    .update({ status: 'aborted', updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .or(`status.eq.uploading,and(status.eq.completing,updated_at.lt.${staleBefore})`)
+    .lt('expires_at', new Date().toISOString())
+    .select('id, user_id, total_chunks')
+
+  for (const session of expired || []) {
+    await ResourceUploadService.removeChunks(admin, session)
+  }
+}
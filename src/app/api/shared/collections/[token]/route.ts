@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { checkRateLimit, getRateLimitKey, rateLimitConfigs } from '@/lib/security'
+import {
+  createShareSession,
+  getShareSessionCookieName,
+  joinFromShareLink,
+  redeemShareLink,
+  verifyShareToken
+} from '@/lib/services/collection-share-links'
+
+// Opens a collection from a share link: { password? }. Works without an
+// account; signed-in visitors of an 'edit' link join as editors instead.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const linkId = verifyShareToken(params.token)
+    if (!linkId) {
+      return NextResponse.json({ error: 'This link is invalid or has expired' }, { status: 404 })
+    }
+
+    const { password } = await request.json().catch(() => ({}))
+
+    // Password guesses count like sign-in attempts
+    if (password && checkRateLimit(getRateLimitKey(request, 'collection_share'), rateLimitConfigs.auth).limited) {
+      return NextResponse.json({ error: 'Too many attempts, try again later' }, { status: 429 })
+    }
+
+    const cookieName = getShareSessionCookieName(linkId)
+    const result = await redeemShareLink(params.token, {
+      password: typeof password === 'string' ? password : undefined,
+      session: request.cookies.get(cookieName)?.value
+    })
+
+    if (result.status === 'invalid') {
+      return NextResponse.json({ error: 'This link is invalid or has expired' }, { status: 404 })
+    }
+    if (result.status === 'password_required' || result.status === 'wrong_password') {
+      return NextResponse.json(
+        {
+          error: result.status === 'wrong_password' ? 'Incorrect password' : 'This link is password protected',
+          password_required: true
+        },
+        { status: 401 }
+      )
+    }
+
+    const { link, collection } = result
+
+    const supabase = createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    let joined = false
+    if (user && link.scope === 'edit') {
+      await joinFromShareLink(link, user.id)
+      joined = true
+    }
+
+    const response = NextResponse.json({
+      collection,
+      share: { scope: link.scope, expires_at: link.expires_at },
+      joined
+    })
+
+    response.cookies.set(cookieName, createShareSession(linkId), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: new Date(link.expires_at)
+    })
+
+    return response
+  } catch (error) {
+    console.error('Open shared collection error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,7 +7,8 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { parseUserAgent, getGeoFromIP } from '@/lib/services/tracking-service'
+import { parseUserAgent } from '@/lib/services/tracking-service'
+import { getGeoFromIP } from '@/lib/services/geoip'
 
 export async function POST(request: NextRequest) {
     try {
@@ -51,7 +52,7 @@ export async function POST(request: NextRequest) {
         // Parse device info
         const deviceInfo = parseUserAgent(userAgent)
 
-        // Get geolocation (async, but we'll await it)
+        // Get geolocation from the local GeoIP database
         const geoInfo = await getGeoFromIP(ip)
 
         // Insert tracking log using service role (bypasses RLS)
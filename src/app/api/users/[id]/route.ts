@@ -33,7 +33,8 @@ export async function PUT(
 ) {
   try {
     const supabase = createClient()
-    const body = await request.json()
+    // Roles are assigned through /api/admin/users only
+    const { role: _role, ...body } = await request.json()
     
     const { data: user, error } = await supabase
       .from('users')
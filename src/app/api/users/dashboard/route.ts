@@ -160,6 +160,7 @@ export async function GET(request: NextRequest) {
       .from('notifications')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .eq('delivery_channel', 'in_app')
       .eq('is_read', false)
 
     dashboardData.unread_notifications = unreadNotifications || 0
@@ -0,0 +1,68 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import type { FollowingFeedItem, FollowTargetType } from '@/types'
+
+// GET /api/users/follows/feed - Resources matching the current user's follows
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1'), 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20'), 1), 50)
+
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // One extra row tells whether there is another page
+    const { data: matches, error } = await supabase.rpc('get_following_feed', {
+      p_limit: limit + 1,
+      p_offset: (page - 1) * limit
+    })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const rows = (matches || []) as { resource_id: string; target_type: FollowTargetType; target_value: string }[]
+    const pageRows = rows.slice(0, limit)
+
+    if (pageRows.length === 0) {
+      return NextResponse.json({ resources: [], hasMore: false })
+    }
+
+    const { data: resources, error: resourcesError } = await supabase
+      .from('resources')
+      .select(`
+        *,
+        uploader:users!uploaded_by(id, full_name, department, badge_level)
+      `)
+      .in('id', pageRows.map(row => row.resource_id))
+
+    if (resourcesError) {
+      return NextResponse.json({ error: resourcesError.message }, { status: 500 })
+    }
+
+    const byId = new Map((resources || []).map(resource => [resource.id, resource]))
+    const feed: FollowingFeedItem[] = pageRows
+      .filter(row => byId.has(row.resource_id))
+      .map(row => ({
+        ...byId.get(row.resource_id),
+        followed_type: row.target_type,
+        followed_value: row.target_value
+      }))
+
+    return NextResponse.json({
+      resources: feed,
+      hasMore: rows.length > limit
+    })
+  } catch (error) {
+    console.error('Following feed error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { FOLLOW_TARGET_TYPES, normalizeFollowTarget } from '@/lib/services/follow-service'
+import type { Follow, FollowTargetType } from '@/types'
+
+// GET /api/users/follows - The current user's follows, newest first
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: follows, error } = await supabase
+      .from('follows')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    // Uploader follows store an id; show the name instead
+    const uploaderIds = (follows as Follow[])
+      .filter(follow => follow.target_type === 'uploader')
+      .map(follow => follow.target_value)
+
+    const names = new Map<string, string>()
+    if (uploaderIds.length > 0) {
+      const { data: uploaders } = await supabase
+        .from('users')
+        .select('id, full_name')
+        .in('id', uploaderIds)
+
+      uploaders?.forEach(uploader => names.set(uploader.id, uploader.full_name))
+    }
+
+    return NextResponse.json({
+      follows: (follows as Follow[]).map(follow => ({
+        ...follow,
+        label: follow.target_type === 'uploader' ? names.get(follow.target_value) : undefined
+      }))
+    })
+  } catch (error) {
+    console.error('Follows fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/users/follows - Follow a course, department, semester, tag or uploader
+export async function POST(request: Request) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { target_type, target_value } = await request.json()
+
+    if (!FOLLOW_TARGET_TYPES.includes(target_type)) {
+      return NextResponse.json(
+        { error: `target_type must be one of: ${FOLLOW_TARGET_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const targetType = target_type as FollowTargetType
+    const targetValue = normalizeFollowTarget(targetType, target_value)
+    if (!targetValue) {
+      return NextResponse.json({ error: `Invalid ${targetType}` }, { status: 400 })
+    }
+
+    let label: string | undefined
+    if (targetType === 'uploader') {
+      if (targetValue === user.id) {
+        return NextResponse.json({ error: 'You cannot follow yourself' }, { status: 400 })
+      }
+
+      const { data: uploader } = await supabase
+        .from('users')
+        .select('full_name')
+        .eq('id', targetValue)
+        .single()
+
+      if (!uploader) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+      label = uploader.full_name
+    }
+
+    // Following something twice is a no-op
+    const { data: existing } = await supabase
+      .from('follows')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('target_type', targetType)
+      .eq('target_value', targetValue)
+      .maybeSingle()
+
+    if (existing) {
+      return NextResponse.json({ follow: { ...existing, label } })
+    }
+
+    const { data: follow, error } = await supabase
+      .from('follows')
+      .insert({
+        user_id: user.id,
+        target_type: targetType,
+        target_value: targetValue
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ follow: { ...follow, label } }, { status: 201 })
+  } catch (error) {
+    console.error('Create follow error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
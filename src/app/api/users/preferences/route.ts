@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { UserPreferences } from '@/shared/types'
+import { DEFAULT_DIGEST_SETTINGS, normalizeDigestSettings } from '@/lib/services/digest-schedule'
 
 export async function GET(request: Request) {
   try {
@@ -40,7 +41,8 @@ export async function GET(request: Request) {
         privacy_settings: {
           profile_visibility: 'public',
           activity_visibility: 'public'
-        }
+        },
+        digest_settings: DEFAULT_DIGEST_SETTINGS
       }
       return NextResponse.json(defaultPreferences)
     }
@@ -66,7 +68,7 @@ export async function PUT(request: Request) {
     }
 
     const body = await request.json()
-    const { notification_settings, recommendation_settings, privacy_settings } = body
+    const { notification_settings, recommendation_settings, privacy_settings, digest_settings } = body
 
     // Validate required fields
     if (!notification_settings || !recommendation_settings || !privacy_settings) {
@@ -84,6 +86,8 @@ export async function PUT(request: Request) {
         notification_settings,
         recommendation_settings,
         privacy_settings,
+        // Older clients do not send digest settings; leave them untouched
+        ...(digest_settings && { digest_settings: normalizeDigestSettings(digest_settings) }),
         updated_at: new Date().toISOString()
       }, {
         onConflict: 'user_id'
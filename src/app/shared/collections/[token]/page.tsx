@@ -0,0 +1,15 @@
+import { SharedCollectionView } from '@/components/collections'
+
+export default function SharedCollectionPage({
+  params,
+}: {
+  params: { token: string }
+}) {
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto max-w-5xl py-10">
+        <SharedCollectionView token={params.token} />
+      </main>
+    </div>
+  )
+}
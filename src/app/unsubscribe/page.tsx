@@ -0,0 +1,13 @@
+import { EmailUnsubscribe } from '@/features/user-management'
+
+export default function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: { token?: string }
+}) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-primary-50 to-white dark:from-gray-900 dark:to-gray-950">
+      <EmailUnsubscribe token={searchParams.token || ''} />
+    </div>
+  )
+}
@@ -99,6 +99,24 @@ export const thinkchristConfig = {
         }
     },
 
+    // Activity tracking configuration
+    tracking: {
+        // How precisely to record where activity comes from: 'city' or 'country'
+        geoPrecision: 'city' as 'city' | 'country'
+    },
+
+    // Leaderboard seasons follow the academic calendar. Each term starts on
+    // its month-day and runs until the next one starts; the first term
+    // starts the academic year.
+    seasons: {
+        terms: [
+            { name: 'Odd Semester', start: '06-01' },
+            { name: 'Even Semester', start: '11-15' }
+        ],
+        // Season badges go to this many top contributors per department (at most 3)
+        awardsPerDepartment: 3
+    },
+
     // Theme configuration
     theme: {
         colors: {
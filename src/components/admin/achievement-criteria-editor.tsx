@@ -0,0 +1,232 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, X } from 'lucide-react'
+import { ACHIEVEMENT_METRICS, CRITERIA_TIMEFRAMES } from '@/lib/services/achievements'
+import type { AchievementCriteria, AchievementMetric, CriteriaTimeframe } from '@/lib/services/gamification'
+import type { Resource } from '@/types'
+import { cn } from '@/lib/utils'
+
+const RULE_TYPES: { id: AchievementCriteria['type']; label: string }[] = [
+  { id: 'count', label: 'Count' },
+  { id: 'streak', label: 'Streak' },
+  { id: 'all', label: 'All of' },
+  { id: 'any', label: 'Any of' },
+]
+
+const RESOURCE_TYPES: Resource['resource_type'][] = ['document', 'video', 'link', 'code', 'article']
+
+// Shown when switching a rule to a type, keeping what carries over
+function defaultRule(type: AchievementCriteria['type'], previous: AchievementCriteria): AchievementCriteria {
+  const target = 'target' in previous ? previous.target : 1
+
+  switch (type) {
+    case 'count':
+      return { type: 'count', metric: 'uploads', target }
+    case 'streak':
+      return { type: 'streak', target, unit: 'day' }
+    default:
+      return {
+        type,
+        rules: 'rules' in previous ? previous.rules : [previous],
+      }
+  }
+}
+
+interface AchievementCriteriaEditorProps {
+  criteria: AchievementCriteria
+  onChange: (criteria: AchievementCriteria) => void
+  onRemove?: () => void
+  disabled?: boolean
+  depth?: number
+}
+
+export function AchievementCriteriaEditor({
+  criteria,
+  onChange,
+  onRemove,
+  disabled,
+  depth = 0
+}: AchievementCriteriaEditorProps) {
+  const metric = criteria.type === 'count'
+    ? ACHIEVEMENT_METRICS.find(m => m.id === criteria.metric)
+    : undefined
+
+  const setTarget = (value: string) => {
+    if (criteria.type !== 'count' && criteria.type !== 'streak') return
+    onChange({ ...criteria, target: parseInt(value, 10) || 0 })
+  }
+
+  const setMetric = (value: AchievementMetric) => {
+    if (criteria.type !== 'count') return
+    const next = ACHIEVEMENT_METRICS.find(m => m.id === value)
+    onChange({
+      type: 'count',
+      metric: value,
+      target: criteria.target,
+      // Drop filters the new metric does not support
+      ...(next?.supportsTimeframe && criteria.timeframe ? { timeframe: criteria.timeframe } : {}),
+      ...(next?.supportsResourceType && criteria.resource_type ? { resource_type: criteria.resource_type } : {}),
+    })
+  }
+
+  return (
+    <div className={cn('space-y-3', depth > 0 && 'rounded-md border p-3')}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={criteria.type}
+          onValueChange={(value) => onChange(defaultRule(value as AchievementCriteria['type'], criteria))}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_TYPES.map(type => (
+              <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {(criteria.type === 'count' || criteria.type === 'streak') && (
+          <Input
+            type="number"
+            min={1}
+            value={criteria.target || ''}
+            onChange={(e) => setTarget(e.target.value)}
+            className="w-24"
+            aria-label="Target"
+            disabled={disabled}
+          />
+        )}
+
+        {criteria.type === 'count' && (
+          <>
+            <Select value={criteria.metric} onValueChange={(value) => setMetric(value as AchievementMetric)} disabled={disabled}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACHIEVEMENT_METRICS.map(m => (
+                  <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {metric?.supportsResourceType && (
+              <Select
+                value={criteria.resource_type || 'any'}
+                onValueChange={(value) => {
+                  const { resource_type: _removed, ...rest } = criteria
+                  onChange(value === 'any' ? rest : { ...rest, resource_type: value as Resource['resource_type'] })
+                }}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any type</SelectItem>
+                  {RESOURCE_TYPES.map(type => (
+                    <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {metric?.supportsTimeframe && (
+              <Select
+                value={criteria.timeframe || 'all_time'}
+                onValueChange={(value) => {
+                  const { timeframe: _removed, ...rest } = criteria
+                  onChange(value === 'all_time' ? rest : { ...rest, timeframe: value as CriteriaTimeframe })
+                }}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CRITERIA_TIMEFRAMES.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </>
+        )}
+
+        {criteria.type === 'streak' && (
+          <Select
+            value={criteria.unit || 'day'}
+            onValueChange={(value) => onChange({ ...criteria, unit: value as 'day' | 'week' })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">days in a row</SelectItem>
+              <SelectItem value="week">weeks in a row</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+
+        {onRemove && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 ml-auto"
+            onClick={onRemove}
+            disabled={disabled}
+            title="Remove rule"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {(criteria.type === 'all' || criteria.type === 'any') && (
+        <div className="space-y-2 pl-4 border-l-2">
+          {criteria.rules.map((rule, index) => (
+            <AchievementCriteriaEditor
+              key={index}
+              criteria={rule}
+              depth={depth + 1}
+              disabled={disabled}
+              onChange={(updated) => onChange({
+                ...criteria,
+                rules: criteria.rules.map((r, i) => (i === index ? updated : r))
+              })}
+              onRemove={criteria.rules.length > 1
+                ? () => onChange({ ...criteria, rules: criteria.rules.filter((_, i) => i !== index) })
+                : undefined}
+            />
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({
+              ...criteria,
+              rules: [...criteria.rules, { type: 'count', metric: 'uploads', target: 1 }]
+            })}
+            disabled={disabled}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add rule
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,540 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertTriangle,
+  Archive,
+  Award,
+  FlaskConical,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Rocket,
+  Undo2,
+  UserPlus
+} from 'lucide-react'
+import { useToast } from '@/lib/hooks/use-toast'
+import { logger } from '@/lib/logger'
+import { cn } from '@/lib/utils'
+import { describeCriteria, validateCriteria } from '@/lib/services/achievements'
+import { AchievementCriteriaEditor } from './achievement-criteria-editor'
+import type { Achievement, AchievementDefinition, AchievementStatus } from '@/lib/services/gamification'
+import type { AchievementDryRun } from '@/lib/services/achievements/achievement-admin-service'
+
+type StatusFilter = AchievementStatus | 'all'
+
+type AchievementForm = Pick<
+  AchievementDefinition,
+  'id' | 'title' | 'description' | 'icon' | 'points' | 'category' | 'rarity' | 'criteria'
+>
+
+const EMPTY_FORM: AchievementForm = {
+  id: '',
+  title: '',
+  description: '',
+  icon: '🏅',
+  points: 25,
+  category: 'milestone',
+  rarity: 'common',
+  criteria: { type: 'count', metric: 'uploads', target: 1 },
+}
+
+const CATEGORIES: Achievement['category'][] = ['upload', 'engagement', 'curation', 'social', 'milestone']
+const RARITIES: Achievement['rarity'][] = ['common', 'rare', 'epic', 'legendary']
+
+const rarityColors: Record<Achievement['rarity'], string> = {
+  common: 'bg-gray-100 text-gray-800',
+  rare: 'bg-blue-100 text-blue-800',
+  epic: 'bg-purple-100 text-purple-800',
+  legendary: 'bg-yellow-100 text-yellow-800',
+}
+
+const statusVariants: Record<AchievementStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  draft: 'secondary',
+  retired: 'outline',
+}
+
+export function AchievementManagement() {
+  const { toast } = useToast()
+  const [achievements, setAchievements] = useState<AchievementDefinition[]>([])
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [processing, setProcessing] = useState<string | null>(null)
+
+  // Editor state; `editingId` is null when creating
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<AchievementForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [dryRun, setDryRun] = useState<AchievementDryRun | null>(null)
+  const [dryRunning, setDryRunning] = useState(false)
+
+  const fetchAchievements = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/achievements')
+      if (!response.ok) {
+        throw new Error(response.status === 403 ? 'You do not have access to manage achievements' : 'Failed to fetch achievements')
+      }
+      const result = await response.json()
+      setAchievements(result.achievements || [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchAchievements()
+  }, [fetchAchievements])
+
+  const showError = (err: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: err instanceof Error ? err.message : fallback,
+      variant: 'destructive',
+    })
+  }
+
+  const openEditor = (achievement?: AchievementDefinition) => {
+    setEditingId(achievement?.id || null)
+    setForm(achievement
+      ? {
+          id: achievement.id,
+          title: achievement.title,
+          description: achievement.description,
+          icon: achievement.icon,
+          points: achievement.points,
+          category: achievement.category,
+          rarity: achievement.rarity,
+          criteria: achievement.criteria,
+        }
+      : EMPTY_FORM)
+    setDryRun(null)
+    setEditorOpen(true)
+  }
+
+  const updateForm = <K extends keyof AchievementForm>(key: K, value: AchievementForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }))
+    if (key === 'criteria') setDryRun(null)
+  }
+
+  const criteriaError = validateCriteria(form.criteria)
+
+  const runDryRun = async () => {
+    setDryRunning(true)
+    try {
+      const response = await fetch('/api/admin/achievements/dry-run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ criteria: form.criteria, achievement_id: editingId || undefined })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Dry run failed')
+      }
+      setDryRun(result)
+    } catch (err) {
+      logger.error('Achievement dry run failed', { error: err })
+      showError(err, 'Dry run failed')
+    } finally {
+      setDryRunning(false)
+    }
+  }
+
+  const saveAchievement = async (status?: AchievementStatus) => {
+    setSaving(true)
+    try {
+      const response = await fetch(
+        editingId ? `/api/admin/achievements/${editingId}` : '/api/admin/achievements',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...form, ...(status ? { status } : {}) })
+        }
+      )
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save achievement')
+      }
+
+      toast({
+        title: editingId ? 'Achievement updated' : 'Achievement created',
+        description: status === 'active' ? `"${form.title}" is now being awarded.` : `"${form.title}" was saved.`,
+      })
+      setEditorOpen(false)
+      fetchAchievements()
+    } catch (err) {
+      logger.error('Failed to save achievement', { error: err, achievementId: form.id })
+      showError(err, 'Failed to save achievement')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setStatus = async (achievement: AchievementDefinition, status: AchievementStatus) => {
+    setProcessing(achievement.id)
+    try {
+      const response = await fetch(`/api/admin/achievements/${achievement.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update achievement')
+      }
+
+      toast({
+        title: status === 'retired' ? 'Achievement retired' : 'Achievement published',
+        description: status === 'retired'
+          ? `"${achievement.title}" is no longer awarded. Users keep it if they earned it.`
+          : `"${achievement.title}" is now being awarded.`,
+      })
+      fetchAchievements()
+    } catch (err) {
+      logger.error('Failed to update achievement status', { error: err, achievementId: achievement.id })
+      showError(err, 'Failed to update achievement')
+    } finally {
+      setProcessing(null)
+    }
+  }
+
+  const backfill = async (achievement: AchievementDefinition) => {
+    if (!confirm(`Award "${achievement.title}" to everyone who already qualifies? This also gives them its points.`)) {
+      return
+    }
+
+    setProcessing(achievement.id)
+    try {
+      const response = await fetch(`/api/admin/achievements/${achievement.id}/backfill`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Backfill failed')
+      }
+
+      toast({
+        title: 'Backfill complete',
+        description: `Awarded "${achievement.title}" to ${result.awarded} user${result.awarded === 1 ? '' : 's'}.`,
+      })
+      fetchAchievements()
+    } catch (err) {
+      logger.error('Achievement backfill failed', { error: err, achievementId: achievement.id })
+      showError(err, 'Backfill failed')
+    } finally {
+      setProcessing(null)
+    }
+  }
+
+  const visible = statusFilter === 'all'
+    ? achievements
+    : achievements.filter(a => a.status === statusFilter)
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold font-heading">Achievements</h2>
+          <p className="text-muted-foreground">Define what users earn badges for, and when</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={fetchAchievements} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button onClick={() => openEditor()} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Achievement
+          </Button>
+        </div>
+      </div>
+
+      <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="draft">Drafts</TabsTrigger>
+          <TabsTrigger value="retired">Retired</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between">
+            <span>{error}</span>
+            <Button onClick={fetchAchievements} variant="outline" size="sm">
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : loading ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-36 rounded-xl bg-muted animate-pulse" />
+          ))}
+        </div>
+      ) : visible.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Award className="h-10 w-10 mx-auto mb-3" />
+            No {statusFilter === 'all' ? '' : `${statusFilter} `}achievements.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {visible.map(achievement => {
+            const isBusy = processing === achievement.id
+
+            return (
+              <Card key={achievement.id} className={cn(achievement.status === 'retired' && 'opacity-70')}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                      <span className="text-3xl" aria-hidden>{achievement.icon}</span>
+                      <div className="space-y-1">
+                        <CardTitle className="text-lg">{achievement.title}</CardTitle>
+                        <CardDescription>{achievement.description}</CardDescription>
+                      </div>
+                    </div>
+                    <Badge variant={statusVariants[achievement.status]} className="shrink-0 capitalize">
+                      {achievement.status}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm bg-muted rounded-md p-3">{describeCriteria(achievement.criteria)}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <Badge className={cn('capitalize', rarityColors[achievement.rarity])}>{achievement.rarity}</Badge>
+                    <span className="capitalize">{achievement.category}</span>
+                    <span>· +{achievement.points} points</span>
+                    <span>· Earned by {achievement.earned_count ?? 0}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openEditor(achievement)} disabled={isBusy}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    {achievement.status === 'draft' && (
+                      <Button size="sm" onClick={() => setStatus(achievement, 'active')} disabled={isBusy}>
+                        <Rocket className="h-4 w-4 mr-1" />
+                        Publish
+                      </Button>
+                    )}
+                    {achievement.status === 'active' && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => backfill(achievement)} disabled={isBusy}>
+                          <UserPlus className="h-4 w-4 mr-1" />
+                          Backfill
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setStatus(achievement, 'retired')} disabled={isBusy}>
+                          <Archive className="h-4 w-4 mr-1" />
+                          Retire
+                        </Button>
+                      </>
+                    )}
+                    {achievement.status === 'retired' && (
+                      <Button variant="outline" size="sm" onClick={() => setStatus(achievement, 'active')} disabled={isBusy}>
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Reactivate
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Achievement' : 'New Achievement'}</DialogTitle>
+            <DialogDescription>
+              {editingId
+                ? 'Changes apply to future awards; users who earned it keep it.'
+                : 'New achievements start as drafts so you can dry-run them before publishing.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="achievement_id">Id</Label>
+                <Input
+                  id="achievement_id"
+                  value={form.id}
+                  onChange={(e) => updateForm('id', e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_'))}
+                  placeholder="e.g. video_creator"
+                  disabled={!!editingId}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="achievement_title">Title</Label>
+                <Input
+                  id="achievement_title"
+                  value={form.title}
+                  onChange={(e) => updateForm('title', e.target.value)}
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="achievement_description">Description</Label>
+                <Textarea
+                  id="achievement_description"
+                  value={form.description}
+                  onChange={(e) => updateForm('description', e.target.value)}
+                  rows={2}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="achievement_icon">Icon</Label>
+                <Input
+                  id="achievement_icon"
+                  value={form.icon}
+                  onChange={(e) => updateForm('icon', e.target.value)}
+                  maxLength={16}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="achievement_points">Bonus points</Label>
+                <Input
+                  id="achievement_points"
+                  type="number"
+                  min={0}
+                  value={form.points}
+                  onChange={(e) => updateForm('points', parseInt(e.target.value, 10) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={(value) => updateForm('category', value as Achievement['category'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Rarity</Label>
+                <Select value={form.rarity} onValueChange={(value) => updateForm('rarity', value as Achievement['rarity'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RARITIES.map(rarity => (
+                      <SelectItem key={rarity} value={rarity} className="capitalize">{rarity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Criteria</Label>
+              <AchievementCriteriaEditor
+                criteria={form.criteria}
+                onChange={(criteria) => updateForm('criteria', criteria)}
+              />
+              {criteriaError && <p className="text-sm text-destructive">{criteriaError}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              <div className="flex items-start gap-3 rounded-lg border p-4">
+                <span className="text-3xl" aria-hidden>{form.icon}</span>
+                <div className="space-y-1">
+                  <p className="font-semibold">{form.title || 'Untitled achievement'}</p>
+                  <p className="text-sm text-muted-foreground">{form.description || 'No description'}</p>
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge className={cn('capitalize', rarityColors[form.rarity])}>{form.rarity}</Badge>
+                    <span className="text-muted-foreground">+{form.points} points</span>
+                  </div>
+                  {!criteriaError && (
+                    <p className="text-xs text-muted-foreground">Earned for: {describeCriteria(form.criteria)}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Dry run</Label>
+                <Button variant="outline" size="sm" onClick={runDryRun} disabled={dryRunning || !!criteriaError}>
+                  <FlaskConical className="h-4 w-4 mr-1" />
+                  {dryRunning ? 'Checking...' : 'Check who qualifies'}
+                </Button>
+              </div>
+              {dryRun && (
+                <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+                  <p>
+                    <span className="font-semibold">{dryRun.qualifying}</span> of {dryRun.total_users} users qualify
+                    {editingId && dryRun.already_earned > 0 && ` (${dryRun.already_earned} already have it)`}.
+                    {' '}A backfill would award <span className="font-semibold">{dryRun.would_award}</span>.
+                  </p>
+                  {dryRun.sample.length > 0 && (
+                    <p className="text-muted-foreground">
+                      For example: {dryRun.sample.map(u => u.full_name).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            {editingId ? (
+              <Button onClick={() => saveAchievement()} disabled={saving || !!criteriaError}>
+                {saving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => saveAchievement('draft')} disabled={saving || !!criteriaError}>
+                  Save as Draft
+                </Button>
+                <Button onClick={() => saveAchievement('active')} disabled={saving || !!criteriaError}>
+                  {saving ? 'Saving...' : 'Publish'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
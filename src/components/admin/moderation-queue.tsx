@@ -0,0 +1,253 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  AlertTriangle,
+  EyeOff,
+  Eye,
+  Trash2,
+  XCircle,
+  RefreshCw,
+  Flag,
+  ExternalLink,
+  ShieldCheck
+} from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { useToast } from '@/lib/hooks/use-toast'
+import { REPORT_REASONS } from '@/shared/constants'
+import { logger } from '@/lib/logger'
+import { cn } from '@/lib/utils'
+import type { ResourceReport } from '@/types'
+
+type QueueStatus = 'pending' | 'resolved' | 'dismissed'
+type ModerationAction = 'hide' | 'restore' | 'delete' | 'dismiss'
+
+export function ModerationQueue() {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<QueueStatus>('pending')
+  const [reports, setReports] = useState<ResourceReport[]>([])
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [processing, setProcessing] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReports = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/moderation?status=${status}`)
+      if (!response.ok) {
+        throw new Error(response.status === 403 ? 'You do not have moderator access' : 'Failed to fetch reports')
+      }
+      const result = await response.json()
+      setReports(result.reports || [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchReports()
+  }, [fetchReports])
+
+  const handleDecision = async (report: ResourceReport, action: ModerationAction) => {
+    const note = notes[report.id]?.trim()
+    setProcessing(report.id)
+
+    try {
+      const response = await fetch(`/api/admin/moderation/${report.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to apply decision')
+      }
+
+      toast({
+        title: 'Decision recorded',
+        description: `Resolved ${result.resolved_reports} report${result.resolved_reports === 1 ? '' : 's'} for "${report.resource_title}".`,
+      })
+      setNotes(prev => ({ ...prev, [report.id]: '' }))
+      fetchReports()
+    } catch (err) {
+      logger.error('Failed to apply moderation decision', { error: err, reportId: report.id })
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to apply decision',
+        variant: 'destructive',
+      })
+    } finally {
+      setProcessing(null)
+    }
+  }
+
+  const getReasonLabel = (reason: string) => {
+    return REPORT_REASONS.find(r => r.value === reason)?.label || reason
+  }
+
+  const getReasonColor = (reason: string) => {
+    switch (reason) {
+      case 'copyright':
+        return 'bg-orange-100 text-orange-800'
+      case 'offensive':
+        return 'bg-red-100 text-red-800'
+      case 'spam':
+        return 'bg-yellow-100 text-yellow-800'
+      case 'wrong_course':
+        return 'bg-blue-100 text-blue-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold font-heading">Moderation Queue</h2>
+          <p className="text-muted-foreground">Review reported resources and take action</p>
+        </div>
+        <Button onClick={fetchReports} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as QueueStatus)}>
+        <TabsList>
+          <TabsTrigger value="pending">Pending</TabsTrigger>
+          <TabsTrigger value="resolved">Resolved</TabsTrigger>
+          <TabsTrigger value="dismissed">Dismissed</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between">
+            <span>{error}</span>
+            <Button onClick={fetchReports} variant="outline" size="sm">
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : loading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-40 rounded-xl bg-muted animate-pulse" />
+          ))}
+        </div>
+      ) : reports.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <ShieldCheck className="h-10 w-10 mx-auto mb-3 text-green-500" />
+            No {status} reports.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {reports.map(report => {
+            const isHidden = report.resource?.is_hidden
+            const isBusy = processing === report.id
+
+            return (
+              <Card key={report.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Flag className="h-4 w-4 text-red-500" />
+                        {report.resource_title}
+                        {isHidden && <Badge variant="secondary">Hidden</Badge>}
+                        {!report.resource_id && <Badge variant="destructive">Deleted</Badge>}
+                      </CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        Reported by {report.reporter?.full_name || 'Unknown'}{' '}
+                        {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                        {report.resource && ` · ${report.resource.department} - ${report.resource.course}`}
+                      </p>
+                    </div>
+                    <Badge className={cn('shrink-0', getReasonColor(report.reason))}>
+                      {getReasonLabel(report.reason)}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {report.details && (
+                    <p className="text-sm bg-muted rounded-md p-3 whitespace-pre-wrap">{report.details}</p>
+                  )}
+
+                  {report.resource_id && (
+                    <Link
+                      href={`/resources/${report.resource_id}`}
+                      target="_blank"
+                      className="inline-flex items-center text-sm text-primary hover:underline"
+                    >
+                      <ExternalLink className="h-3 w-3 mr-1" />
+                      Open resource
+                    </Link>
+                  )}
+
+                  {report.status !== 'pending' && (
+                    <div className="text-sm text-muted-foreground">
+                      <span className="font-medium capitalize">{report.resolution_action}</span>
+                      {report.resolved_at && ` ${formatDistanceToNow(new Date(report.resolved_at), { addSuffix: true })}`}
+                      {report.resolution_note && <p className="mt-1 italic">&ldquo;{report.resolution_note}&rdquo;</p>}
+                    </div>
+                  )}
+
+                  {(report.status === 'pending' || (isHidden && report.resource_id)) && (
+                    <div className="space-y-3 pt-2 border-t">
+                      <Textarea
+                        value={notes[report.id] || ''}
+                        onChange={(e) => setNotes(prev => ({ ...prev, [report.id]: e.target.value }))}
+                        placeholder="Resolution note (shared with the uploader)"
+                        className="min-h-[60px]"
+                        aria-label="Resolution note"
+                      />
+                      <div className="flex flex-wrap gap-2">
+                        {isHidden ? (
+                          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => handleDecision(report, 'restore')}>
+                            <Eye className="h-4 w-4 mr-2" />
+                            Restore
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => handleDecision(report, 'hide')}>
+                            <EyeOff className="h-4 w-4 mr-2" />
+                            Hide
+                          </Button>
+                        )}
+                        <Button size="sm" variant="destructive" disabled={isBusy} onClick={() => handleDecision(report, 'delete')}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
+                        {report.status === 'pending' && (
+                          <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => handleDecision(report, 'dismiss')}>
+                            <XCircle className="h-4 w-4 mr-2" />
+                            Dismiss
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
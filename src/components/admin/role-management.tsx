@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { AlertTriangle, RefreshCw, Search, Users } from 'lucide-react'
+import { useToast } from '@/lib/hooks/use-toast'
+import { useAuth } from '@/features/auth'
+import { USER_ROLES } from '@/shared/constants'
+import { logger } from '@/lib/logger'
+import { cn } from '@/lib/utils'
+import type { User, UserRole } from '@/types'
+
+type ManagedUser = Pick<User, 'id' | 'email' | 'full_name' | 'department' | 'role' | 'points' | 'badge_level' | 'created_at'>
+
+export function RoleManagement() {
+  const { user: currentUser } = useAuth()
+  const { toast } = useToast()
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [search, setSearch] = useState('')
+  const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all')
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ role: roleFilter })
+      if (search.trim()) params.append('search', search.trim())
+
+      const response = await fetch(`/api/admin/users?${params.toString()}`)
+      if (!response.ok) {
+        throw new Error(response.status === 403 ? 'You do not have permission to manage roles' : 'Failed to fetch users')
+      }
+      const result = await response.json()
+      setUsers(result.users || [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }, [roleFilter, search])
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchUsers, 300)
+    return () => clearTimeout(timeout)
+  }, [fetchUsers])
+
+  const handleRoleChange = async (target: ManagedUser, role: UserRole) => {
+    if (role === target.role) return
+    setUpdating(target.id)
+
+    try {
+      const response = await fetch(`/api/admin/users/${target.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update role')
+      }
+
+      setUsers(prev => prev.map(u => (u.id === target.id ? { ...u, role: result.user.role } : u)))
+      toast({
+        title: 'Role updated',
+        description: `${target.full_name} is now ${getRoleLabel(role).toLowerCase()}.`,
+      })
+    } catch (err) {
+      logger.error('Failed to update user role', { error: err, userId: target.id })
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to update role',
+        variant: 'destructive',
+      })
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const getRoleLabel = (role: string) => {
+    return USER_ROLES.find(r => r.value === role)?.label || role
+  }
+
+  const getRoleColor = (role: string) => {
+    switch (role) {
+      case 'admin':
+        return 'bg-red-100 text-red-800'
+      case 'moderator':
+        return 'bg-purple-100 text-purple-800'
+      case 'faculty':
+        return 'bg-blue-100 text-blue-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold font-heading">User Roles</h2>
+          <p className="text-muted-foreground">Assign faculty, moderator and admin access</p>
+        </div>
+        <Button onClick={fetchUsers} variant="outline" size="sm">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Users
+          </CardTitle>
+          <CardDescription>
+            Faculty can verify resources, moderators handle reports and tags, admins manage everything
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name or email"
+                className="pl-9"
+                aria-label="Search users"
+              />
+            </div>
+            <Select value={roleFilter} onValueChange={(value) => setRoleFilter(value as UserRole | 'all')}>
+              <SelectTrigger className="sm:w-44" aria-label="Filter by role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                {USER_ROLES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="flex items-center justify-between">
+                <span>{error}</span>
+                <Button onClick={fetchUsers} variant="outline" size="sm">
+                  Retry
+                </Button>
+              </AlertDescription>
+            </Alert>
+          ) : loading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-14 rounded-lg bg-muted animate-pulse" />
+              ))}
+            </div>
+          ) : users.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No users found.</p>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {users.map(managed => {
+                const isSelf = managed.id === currentUser?.id
+
+                return (
+                  <div key={managed.id} className="flex items-center justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{managed.full_name}</span>
+                        {isSelf && <Badge variant="outline">You</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {managed.email} · {managed.department}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <Badge className={cn('hidden sm:inline-flex', getRoleColor(managed.role))}>
+                        {getRoleLabel(managed.role)}
+                      </Badge>
+                      <Select
+                        value={managed.role}
+                        onValueChange={(value) => handleRoleChange(managed, value as UserRole)}
+                        disabled={isSelf || updating === managed.id}
+                      >
+                        <SelectTrigger className="w-36" aria-label={`Role for ${managed.full_name}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
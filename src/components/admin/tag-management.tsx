@@ -36,6 +36,7 @@ import {
 import { useTagAnalytics } from '@/lib/hooks/use-tags'
 import { TagManagementService, type TagAnalytics } from '@/lib/services/tag-management'
 import { useToast } from '@/lib/hooks/use-toast'
+import { useAuth, hasPermission } from '@/features/auth'
 import { cn } from '@/lib/utils'
 
 interface TagMergeCandidate {
@@ -47,6 +48,8 @@ interface TagMergeCandidate {
 export function TagManagement() {
   const { analytics, loading, error, fetchAnalytics } = useTagAnalytics()
   const { toast } = useToast()
+  const { profile } = useAuth()
+  const canMerge = hasPermission(profile, 'manage_tags')
   
   const [searchQuery, setSearchQuery] = useState('')
   const [sortBy, setSortBy] = useState<'usage' | 'trending' | 'alphabetical'>('usage')
@@ -280,6 +283,7 @@ export function TagManagement() {
                   </div>
                   <Button
                     size="sm"
+                    disabled={!canMerge}
                     onClick={() => handleMergeTags(candidate.primary, candidate.duplicates)}
                   >
                     <Merge className="h-3 w-3 mr-1" />
@@ -305,7 +309,7 @@ export function TagManagement() {
             
             <Dialog open={mergeDialogOpen} onOpenChange={setMergeDialogOpen}>
               <DialogTrigger asChild>
-                <Button variant="outline">
+                <Button variant="outline" disabled={!canMerge}>
                   <Merge className="h-4 w-4 mr-2" />
                   Custom Merge
                 </Button>
@@ -437,6 +441,7 @@ export function TagManagement() {
                     </DropdownMenuTrigger>
                     <DropdownMenuContent>
                       <DropdownMenuItem
+                        disabled={!canMerge}
                         onClick={() => {
                           setSelectedTags([tag.tag])
                           setMergeTarget(tag.tag)
@@ -9,7 +9,7 @@ import {
   FolderOpen, Users, Lock, Globe, 
   Calendar, User, MoreVertical, 
   Edit3, Trash2, Share2, Eye,
-  FileText
+  FileText, GitFork
 } from 'lucide-react'
 import {
   DropdownMenu,
@@ -46,7 +46,7 @@ export function CollectionCard({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
 
   const isOwner = user?.id === collection.created_by
-  const resourceCount = collection.resources?.length || 0
+  const resourceCount = collection.resource_count ?? collection.resources?.length ?? 0
 
   // Generate unique IDs for accessibility
   const cardId = `collection-card-${collection.id}`
@@ -175,12 +175,23 @@ export function CollectionCard({
               </span>
             </div>
             
-            <div className="flex items-center gap-1 text-sm text-muted-foreground">
-              <FileText className="h-4 w-4" aria-hidden="true" />
-              <span>
-                <span className="sr-only">Contains </span>
-                {resourceCount} resource{resourceCount !== 1 ? 's' : ''}
-              </span>
+            <div className="flex items-center gap-3 text-sm text-muted-foreground">
+              {(collection.fork_count ?? 0) > 0 && (
+                <div className="flex items-center gap-1">
+                  <GitFork className="h-4 w-4" aria-hidden="true" />
+                  <span>
+                    {collection.fork_count}
+                    <span className="sr-only"> fork{collection.fork_count !== 1 ? 's' : ''}</span>
+                  </span>
+                </div>
+              )}
+              <div className="flex items-center gap-1">
+                <FileText className="h-4 w-4" aria-hidden="true" />
+                <span>
+                  <span className="sr-only">Contains </span>
+                  {resourceCount} resource{resourceCount !== 1 ? 's' : ''}
+                </span>
+              </div>
             </div>
           </div>
           
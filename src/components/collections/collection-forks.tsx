@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { useToast } from '@/lib/hooks/use-toast'
+import { formatDate } from '@/lib/utils'
+import type { Collection, CollectionResource } from '@/types'
+import { GitFork, Loader2, RefreshCw } from 'lucide-react'
+
+interface CollectionForksProps {
+  collectionId: string
+  className?: string
+}
+
+// Forks of a collection; most stay private, so the list can be shorter
+// than the count
+export function CollectionForks({ collectionId, className }: CollectionForksProps) {
+  const [forks, setForks] = useState<Collection[]>([])
+  const [forkCount, setForkCount] = useState(0)
+
+  useEffect(() => {
+    const fetchForks = async () => {
+      try {
+        const response = await fetch(`/api/collections/${collectionId}/forks`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setForks(data.forks)
+          setForkCount(data.fork_count)
+        }
+      } catch (error) {
+        console.error('Error fetching forks:', error)
+      }
+    }
+
+    fetchForks()
+  }, [collectionId])
+
+  if (forkCount === 0) return null
+
+  const hiddenCount = forkCount - forks.length
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitFork className="h-5 w-5" />
+          Forks
+          <Badge variant="secondary">{forkCount}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {forks.map(fork => (
+          <div key={fork.id} className="min-w-0">
+            <Link
+              href={`/collections/${fork.id}`}
+              className="text-sm font-medium truncate block hover:text-primary transition-colors"
+            >
+              {fork.title}
+            </Link>
+            <p className="text-xs text-muted-foreground truncate">
+              {fork.creator?.full_name || 'Anonymous'} • {formatDate(fork.created_at)}
+            </p>
+          </div>
+        ))}
+        {hiddenCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {forks.length > 0 ? `+${hiddenCount} private` : `${hiddenCount} private`} fork{hiddenCount !== 1 ? 's' : ''}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface ForkSourceUpdatesProps {
+  collection: Collection
+  onUpdate: (collection: Collection) => void
+  onResourcesAdded: () => void
+  className?: string
+}
+
+// Lets the people who edit a fork follow its source and pick which of the
+// resources the source added since to bring over
+export function ForkSourceUpdates({
+  collection,
+  onUpdate,
+  onResourcesAdded,
+  className
+}: ForkSourceUpdatesProps) {
+  const { toast } = useToast()
+  const [updates, setUpdates] = useState<CollectionResource[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const following = !!collection.follow_source_updates
+
+  useEffect(() => {
+    if (!following) {
+      setUpdates([])
+      return
+    }
+
+    const fetchUpdates = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/collections/${collection.id}/updates`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setUpdates(data.updates)
+          setSelected(new Set(data.updates.map((item: CollectionResource) => item.resource_id)))
+        }
+      } catch (error) {
+        console.error('Error fetching source updates:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchUpdates()
+  }, [collection.id, following])
+
+  const handleFollowChange = async (follow: boolean) => {
+    try {
+      const response = await fetch(`/api/collections/${collection.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ follow_source_updates: follow })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update collection')
+
+      onUpdate({ ...collection, follow_source_updates: data.collection.follow_source_updates })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update collection',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const toggleSelected = (resourceId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(resourceId)
+      } else {
+        next.delete(resourceId)
+      }
+      return next
+    })
+  }
+
+  // Adds the selected updates; the rest are dismissed
+  const applyUpdates = async (resourceIds: string[]) => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/collections/${collection.id}/updates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resource_ids: resourceIds })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to apply updates')
+
+      setUpdates([])
+      setSelected(new Set())
+
+      if (data.added.length > 0) {
+        toast({
+          title: 'Fork updated',
+          description: `Added ${data.added.length} resource${data.added.length !== 1 ? 's' : ''} from the original`,
+        })
+        onResourcesAdded()
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to apply updates',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          Updates from Original
+          {updates.length > 0 && <Badge>{updates.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="follow_source_updates" className="text-sm">
+            Offer resources the original adds
+          </Label>
+          <Switch
+            id="follow_source_updates"
+            checked={following}
+            onCheckedChange={handleFollowChange}
+          />
+        </div>
+
+        {following && (
+          loading ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : updates.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Your fork is up to date with the original.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {updates.map(item => (
+                  <div key={item.id} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`update-${item.id}`}
+                      checked={selected.has(item.resource_id)}
+                      onCheckedChange={(checked) => toggleSelected(item.resource_id, !!checked)}
+                      disabled={saving}
+                    />
+                    <Label htmlFor={`update-${item.id}`} className="text-sm leading-tight">
+                      {item.resource?.title || 'Untitled resource'}
+                      <span className="block text-xs text-muted-foreground font-normal">
+                        Added {formatDate(item.added_at)}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => applyUpdates(Array.from(selected))}
+                  disabled={saving || selected.size === 0}
+                >
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Add Selected
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => applyUpdates([])}
+                  disabled={saving}
+                >
+                  Dismiss All
+                </Button>
+              </div>
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -19,7 +19,6 @@ import {
 } from '@/components/ui/dialog'
 import { useToast } from '@/lib/hooks/use-toast'
 import { useAuth } from '@/features/auth'
-import { collectionService } from '@/lib/services/collection-service'
 import type { Collection } from '@/types'
 import type { CreateCollectionData, UpdateCollectionData } from '@/lib/services/collection-service'
 import { Loader2, Plus, Edit3 } from 'lucide-react'
@@ -30,6 +29,8 @@ interface CollectionFormProps {
   onClose: () => void
   onSuccess?: (collection: Collection) => void
   trigger?: React.ReactNode
+  // 'page' renders the form inline, e.g. on the new and edit collection pages
+  variant?: 'dialog' | 'page'
 }
 
 export function CollectionForm({ 
@@ -37,7 +38,8 @@ export function CollectionForm({
   isOpen, 
   onClose, 
   onSuccess,
-  trigger 
+  trigger,
+  variant = 'dialog'
 }: CollectionFormProps) {
   const { user } = useAuth()
   const { toast } = useToast()
@@ -78,17 +80,27 @@ export function CollectionForm({
     setLoading(true)
 
     try {
-      let result: Collection
+      let response: Response
 
       if (isEditing) {
+        // An empty description clears it; visibility is only sent when it
+        // changed since changing it needs the share permission
         const updateData: UpdateCollectionData = {
           title: formData.title.trim(),
-          description: formData.description.trim() || undefined,
-          is_public: formData.is_public,
-          is_collaborative: formData.is_collaborative,
+          description: formData.description.trim(),
           tags: formData.tags
         }
-        result = await collectionService.updateCollection(collection.id, updateData, user.id)
+        if (formData.is_public !== collection.is_public) {
+          updateData.is_public = formData.is_public
+        }
+        if (formData.is_collaborative !== collection.is_collaborative) {
+          updateData.is_collaborative = formData.is_collaborative
+        }
+        response = await fetch(`/api/collections/${collection.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updateData)
+        })
       } else {
         const createData: CreateCollectionData = {
           title: formData.title.trim(),
@@ -97,16 +109,29 @@ export function CollectionForm({
           is_collaborative: formData.is_collaborative,
           tags: formData.tags
         }
-        result = await collectionService.createCollection(createData, user.id)
+        response = await fetch('/api/collections', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(createData)
+        })
+      }
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save collection')
       }
 
+      const result: Collection = data.collection
+
       toast({
         title: isEditing ? 'Collection updated' : 'Collection created',
         description: `"${result.title}" has been ${isEditing ? 'updated' : 'created'} successfully`,
       })
 
       onSuccess?.(result)
-      onClose()
+      if (variant === 'dialog') {
+        onClose()
+      }
 
       // Navigate to the collection if it's a new one
       if (!isEditing) {
@@ -129,6 +154,119 @@ export function CollectionForm({
     setFormData(prev => ({ ...prev, tags }))
   }
 
+  const fields = (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="title">Title *</Label>
+        <Input
+          id="title"
+          placeholder="Enter collection title"
+          value={formData.title}
+          onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+          disabled={loading}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          placeholder="Describe what this collection is about (optional)"
+          value={formData.description}
+          onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+          disabled={loading}
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Tags</Label>
+        <TagInput
+          tags={formData.tags}
+          onTagsChange={handleTagsChange}
+          placeholder="Add tags to help others discover your collection"
+          disabled={loading}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Visibility & Collaboration</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="is_public"
+              checked={formData.is_public}
+              onCheckedChange={(checked) => 
+                setFormData(prev => ({ ...prev, is_public: !!checked }))
+              }
+              disabled={loading}
+            />
+            <div className="grid gap-1.5 leading-none">
+              <Label 
+                htmlFor="is_public"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Make this collection public
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Public collections can be discovered and viewed by anyone
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="is_collaborative"
+              checked={formData.is_collaborative}
+              onCheckedChange={(checked) => 
+                setFormData(prev => ({ ...prev, is_collaborative: !!checked }))
+              }
+              disabled={loading}
+            />
+            <div className="grid gap-1.5 leading-none">
+              <Label 
+                htmlFor="is_collaborative"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Allow collaboration
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Others can add and organize resources in this collection
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+
+  const actions = (
+    <>
+      <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+        Cancel
+      </Button>
+      <Button type="submit" disabled={loading}>
+        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {isEditing ? 'Update Collection' : 'Create Collection'}
+      </Button>
+    </>
+  )
+
+  if (variant === 'page') {
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {fields}
+
+        <div className="flex justify-end gap-2">
+          {actions}
+        </div>
+      </form>
+    )
+  }
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       {trigger}
@@ -156,101 +294,10 @@ export function CollectionForm({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="title">Title *</Label>
-              <Input
-                id="title"
-                placeholder="Enter collection title"
-                value={formData.title}
-                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
-                disabled={loading}
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="description">Description</Label>
-              <Textarea
-                id="description"
-                placeholder="Describe what this collection is about (optional)"
-                value={formData.description}
-                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                disabled={loading}
-                rows={3}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label>Tags</Label>
-              <TagInput
-                tags={formData.tags}
-                onTagsChange={handleTagsChange}
-                placeholder="Add tags to help others discover your collection"
-                disabled={loading}
-              />
-            </div>
-
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-base">Visibility & Collaboration</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="is_public"
-                    checked={formData.is_public}
-                    onCheckedChange={(checked) => 
-                      setFormData(prev => ({ ...prev, is_public: !!checked }))
-                    }
-                    disabled={loading}
-                  />
-                  <div className="grid gap-1.5 leading-none">
-                    <Label 
-                      htmlFor="is_public"
-                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                    >
-                      Make this collection public
-                    </Label>
-                    <p className="text-xs text-muted-foreground">
-                      Public collections can be discovered and viewed by anyone
-                    </p>
-                  </div>
-                </div>
-
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="is_collaborative"
-                    checked={formData.is_collaborative}
-                    onCheckedChange={(checked) => 
-                      setFormData(prev => ({ ...prev, is_collaborative: !!checked }))
-                    }
-                    disabled={loading}
-                  />
-                  <div className="grid gap-1.5 leading-none">
-                    <Label 
-                      htmlFor="is_collaborative"
-                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                    >
-                      Allow collaboration
-                    </Label>
-                    <p className="text-xs text-muted-foreground">
-                      Others can add and organize resources in this collection
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+          {fields}
 
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={loading}>
-              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {isEditing ? 'Update Collection' : 'Create Collection'}
-            </Button>
+            {actions}
           </DialogFooter>
         </form>
       </DialogContent>
@@ -1,18 +1,19 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { 
   GripVertical, X, FileText, ExternalLink, 
-  Save, Undo, Eye, Download, Calendar, User 
+  Save, Undo, Eye, Download, Calendar, User,
+  Plus, Trash2
 } from 'lucide-react'
 import { useToast } from '@/lib/hooks/use-toast'
 import { useAuth } from '@/features/auth'
-import { collectionService } from '@/lib/services/collection-service'
 import type { Collection, CollectionResource, Resource } from '@/types'
 import { formatDate, formatBytes } from '@/lib/utils'
 
@@ -26,6 +27,21 @@ interface DraggableResourceItem extends CollectionResource {
   tempId: string // For drag and drop
 }
 
+// Droppable id of the resources that aren't in any section
+const UNSORTED = 'unsorted'
+
+// Splits resources by section, keeping their order within each; resources of
+// unknown sections count as unsorted
+function groupBySection<T extends CollectionResource>(items: T[], groupOrder: string[]) {
+  const grouped: Record<string, T[]> = {}
+  groupOrder.forEach(groupId => { grouped[groupId] = [] })
+  items.forEach(item => {
+    const groupId = item.section_id && grouped[item.section_id] ? item.section_id : UNSORTED
+    grouped[groupId].push(item)
+  })
+  return grouped
+}
+
 export function CollectionResourceOrganizer({ 
   collection, 
   onUpdate,
@@ -39,14 +55,30 @@ export function CollectionResourceOrganizer({
   const [saving, setSaving] = useState(false)
   const [editingNotes, setEditingNotes] = useState<string | null>(null)
   const [noteValues, setNoteValues] = useState<Record<string, string>>({})
+  const [newSectionName, setNewSectionName] = useState('')
+
+  const sections = useMemo(
+    () => [...(collection.sections || [])].sort((a, b) => a.order_index - b.order_index),
+    [collection.sections]
+  )
+  const hasSections = sections.length > 0
+  // Sections in order, then the unsorted resources
+  const groupOrder = useMemo(() => [...sections.map(section => section.id), UNSORTED], [sections])
 
-  // Initialize resources with temp IDs for drag and drop
+  const groups = groupBySection(resources, groupOrder)
+
+  // Initialize resources with temp IDs for drag and drop, in the order they
+  // are shown so a saved order keeps each section together
   useEffect(() => {
     if (collection.resources) {
-      const resourcesWithTempId = collection.resources.map((resource, index) => ({
-        ...resource,
-        tempId: `${resource.id}-${index}`
-      }))
+      const grouped = groupBySection(
+        collection.resources.map((resource, index) => ({
+          ...resource,
+          tempId: `${resource.id}-${index}`
+        })),
+        groupOrder
+      )
+      const resourcesWithTempId = groupOrder.flatMap(groupId => grouped[groupId])
       setResources(resourcesWithTempId)
       setOriginalOrder([...resourcesWithTempId])
       
@@ -56,8 +88,9 @@ export function CollectionResourceOrganizer({
         notes[resource.id] = resource.notes || ''
       })
       setNoteValues(notes)
+      setHasChanges(false)
     }
-  }, [collection.resources])
+  }, [collection.resources, groupOrder])
 
   const getResourceIcon = (resourceType: string, fileType?: string) => {
     switch (resourceType) {
@@ -77,6 +110,14 @@ export function CollectionResourceOrganizer({
     }
   }
 
+  const refreshCollection = async () => {
+    const response = await fetch(`/api/collections/${collection.id}`)
+    if (response.ok) {
+      const { collection: updatedCollection } = await response.json()
+      onUpdate?.(updatedCollection)
+    }
+  }
+
   const handleDragEnd = (result: DropResult) => {
     if (!canEdit) return
     
@@ -91,11 +132,15 @@ export function CollectionResourceOrganizer({
       return
     }
 
-    const newResources = Array.from(resources)
-    const [reorderedItem] = newResources.splice(source.index, 1)
-    newResources.splice(destination.index, 0, reorderedItem)
+    // Dropping into another section moves the resource there
+    const grouped = groupBySection(resources, groupOrder)
+    const [movedItem] = grouped[source.droppableId].splice(source.index, 1)
+    grouped[destination.droppableId].splice(destination.index, 0, {
+      ...movedItem,
+      section_id: destination.droppableId === UNSORTED ? null : destination.droppableId
+    })
 
-    setResources(newResources)
+    setResources(groupOrder.flatMap(groupId => grouped[groupId]))
     setHasChanges(true)
   }
 
@@ -105,11 +150,22 @@ export function CollectionResourceOrganizer({
     setSaving(true)
     try {
       const resourceIds = resources.map(resource => resource.resource_id)
-      await collectionService.reorderCollectionResources(
-        collection.id,
-        resourceIds,
-        user.id
-      )
+      const response = await fetch(`/api/collections/${collection.id}/resources/order`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resource_ids: resourceIds,
+          ...(hasSections && {
+            section_ids: Object.fromEntries(
+              resources.map(resource => [resource.resource_id, resource.section_id ?? null])
+            )
+          })
+        })
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save resource order')
+      }
 
       setOriginalOrder([...resources])
       setHasChanges(false)
@@ -119,16 +175,12 @@ export function CollectionResourceOrganizer({
         description: 'Resource order has been updated successfully',
       })
 
-      // Refresh collection data
-      const updatedCollection = await collectionService.getCollectionById(collection.id)
-      if (updatedCollection) {
-        onUpdate?.(updatedCollection)
-      }
+      await refreshCollection()
     } catch (error) {
       console.error('Error saving order:', error)
       toast({
         title: 'Error',
-        description: 'Failed to save resource order',
+        description: error instanceof Error ? error.message : 'Failed to save resource order',
         variant: 'destructive',
       })
     } finally {
@@ -136,6 +188,61 @@ export function CollectionResourceOrganizer({
     }
   }
 
+  const handleAddSection = async () => {
+    const name = newSectionName.trim()
+    if (!user || !canEdit || !name) return
+
+    try {
+      const response = await fetch(`/api/collections/${collection.id}/sections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to add section')
+      }
+
+      setNewSectionName('')
+      await refreshCollection()
+    } catch (error) {
+      console.error('Error adding section:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add section',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleDeleteSection = async (sectionId: string) => {
+    if (!user || !canEdit) return
+
+    try {
+      const response = await fetch(`/api/collections/${collection.id}/sections/${sectionId}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete section')
+      }
+
+      toast({
+        title: 'Section deleted',
+        description: 'Its resources are now unsorted',
+      })
+
+      await refreshCollection()
+    } catch (error) {
+      console.error('Error deleting section:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete section',
+        variant: 'destructive',
+      })
+    }
+  }
+
   const handleResetOrder = () => {
     setResources([...originalOrder])
     setHasChanges(false)
@@ -145,11 +252,13 @@ export function CollectionResourceOrganizer({
     if (!user || !canEdit) return
 
     try {
-      await collectionService.removeResourceFromCollection(
-        collection.id,
-        resourceId,
-        user.id
-      )
+      const response = await fetch(`/api/collections/${collection.id}/resources/${resourceId}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove resource from collection')
+      }
 
       setResources(prev => prev.filter(r => r.resource_id !== resourceId))
       setOriginalOrder(prev => prev.filter(r => r.resource_id !== resourceId))
@@ -159,27 +268,42 @@ export function CollectionResourceOrganizer({
         description: 'Resource has been removed from the collection',
       })
 
-      // Refresh collection data
-      const updatedCollection = await collectionService.getCollectionById(collection.id)
-      if (updatedCollection) {
-        onUpdate?.(updatedCollection)
-      }
+      await refreshCollection()
     } catch (error) {
       console.error('Error removing resource:', error)
       toast({
         title: 'Error',
-        description: 'Failed to remove resource from collection',
+        description: error instanceof Error ? error.message : 'Failed to remove resource from collection',
         variant: 'destructive',
       })
     }
   }
 
-  const handleSaveNotes = async (resourceId: string) => {
+  const handleSaveNotes = async (collectionResourceId: string) => {
     if (!user || !canEdit) return
 
+    const collectionResource = resources.find(r => r.id === collectionResourceId)
+    if (!collectionResource) return
+
     try {
-      // Note: This would require extending the collection service to update notes
-      // For now, we'll just update the local state
+      const notes = noteValues[collectionResourceId]?.trim() || null
+      const response = await fetch(
+        `/api/collections/${collection.id}/resources/${collectionResource.resource_id}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ notes })
+        }
+      )
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save notes')
+      }
+
+      const update = (r: DraggableResourceItem) =>
+        r.id === collectionResourceId ? { ...r, notes: notes || undefined } : r
+      setResources(prev => prev.map(update))
+      setOriginalOrder(prev => prev.map(update))
       setEditingNotes(null)
       
       toast({
@@ -190,7 +314,7 @@ export function CollectionResourceOrganizer({
       console.error('Error saving notes:', error)
       toast({
         title: 'Error',
-        description: 'Failed to save notes',
+        description: error instanceof Error ? error.message : 'Failed to save notes',
         variant: 'destructive',
       })
     }
@@ -207,14 +331,211 @@ export function CollectionResourceOrganizer({
     }
   }
 
-  if (!collection.resources || collection.resources.length === 0) {
+  const renderResource = (collectionResource: DraggableResourceItem, index: number) => {
+    const resource = collectionResource.resource
+    if (!resource) return null
+
+    return (
+      <Draggable
+        key={collectionResource.tempId}
+        draggableId={collectionResource.tempId}
+        index={index}
+        isDragDisabled={!canEdit}
+      >
+        {(provided, snapshot) => (
+          <Card
+            ref={provided.innerRef}
+            {...provided.draggableProps}
+            className={`${
+              snapshot.isDragging ? 'shadow-lg rotate-2' : ''
+            } ${canEdit ? 'cursor-move' : ''}`}
+          >
+            <CardHeader className="pb-3">
+              <div className="flex items-start gap-3">
+                {canEdit && (
+                  <div
+                    {...provided.dragHandleProps}
+                    className="mt-1 text-muted-foreground hover:text-foreground"
+                  >
+                    <GripVertical className="h-5 w-5" />
+                  </div>
+                )}
+                
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1 flex-1">
+                      <h4 className="font-medium line-clamp-2">
+                        {getResourceIcon(resource.resource_type, resource.file_type)} {resource.title}
+                      </h4>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <User className="h-3 w-3" />
+                        <span>{resource.uploader?.full_name || 'Anonymous'}</span>
+                        <span>•</span>
+                        <Calendar className="h-3 w-3" />
+                        <span>{formatDate(resource.created_at)}</span>
+                      </div>
+                    </div>
+                    
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => handleRemoveResource(resource.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  
+                  {resource.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-2 mt-2">
+                      {resource.description}
+                    </p>
+                  )}
+                  
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <Badge variant="secondary">{resource.resource_type}</Badge>
+                    <Badge variant="outline">{resource.department}</Badge>
+                    <Badge variant="outline">{resource.subject}</Badge>
+                    {resource.file_size && (
+                      <Badge variant="outline">{formatBytes(resource.file_size)}</Badge>
+                    )}
+                  </div>
+                  
+                  {/* Notes Section */}
+                  {(collectionResource.notes || canEdit) && (
+                    <div className="mt-3 p-3 bg-muted/50 rounded-lg">
+                      {editingNotes === collectionResource.id ? (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={noteValues[collectionResource.id] || ''}
+                            onChange={(e) => setNoteValues(prev => ({
+                              ...prev,
+                              [collectionResource.id]: e.target.value
+                            }))}
+                            placeholder="Add notes about this resource..."
+                            rows={3}
+                          />
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => handleSaveNotes(collectionResource.id)}
+                            >
+                              Save
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setEditingNotes(null)}
+                            >
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          {collectionResource.notes ? (
+                            <p className="text-sm">{collectionResource.notes}</p>
+                          ) : (
+                            <p className="text-sm text-muted-foreground italic">
+                              No notes added
+                            </p>
+                          )}
+                          {canEdit && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setEditingNotes(collectionResource.id)}
+                            >
+                              {collectionResource.notes ? 'Edit Notes' : 'Add Notes'}
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  
+                  {/* Actions */}
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResourceAction(resource, 'view')}
+                    >
+                      <Eye className="mr-2 h-4 w-4" />
+                      View
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResourceAction(resource, 'download')}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      {resource.external_url ? 'Open' : 'Download'}
+                    </Button>
+                    {resource.external_url && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        asChild
+                      >
+                        <a 
+                          href={resource.external_url} 
+                          target="_blank" 
+                          rel="noopener noreferrer"
+                        >
+                          <ExternalLink className="mr-2 h-4 w-4" />
+                          External Link
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+        )}
+      </Draggable>
+    )
+  }
+
+  const addSectionForm = canEdit && (
+    <form
+      className="flex gap-2 pt-2"
+      onSubmit={(e) => {
+        e.preventDefault()
+        handleAddSection()
+      }}
+    >
+      <Input
+        placeholder="New section name"
+        value={newSectionName}
+        onChange={(e) => setNewSectionName(e.target.value)}
+        disabled={hasChanges || saving}
+      />
+      <Button
+        type="submit"
+        variant="outline"
+        disabled={!newSectionName.trim() || hasChanges || saving}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Section
+      </Button>
+    </form>
+  )
+
+  if ((!collection.resources || collection.resources.length === 0) && !hasSections) {
     return (
       <div className="text-center py-12">
         <FileText className="mx-auto h-12 w-12 text-muted-foreground" />
         <h3 className="mt-4 text-lg font-semibold">No Resources</h3>
         <p className="mt-2 text-muted-foreground">
-          This collection doesn't have any resources yet.
+          This collection doesn&apos;t have any resources yet.
         </p>
+        {addSectionForm && (
+          <div className="max-w-md mx-auto mt-6">{addSectionForm}</div>
+        )}
       </div>
     )
   }
@@ -226,7 +547,7 @@ export function CollectionResourceOrganizer({
         <Card>
           <CardContent className="flex items-center justify-between p-4">
             <p className="text-sm text-muted-foreground">
-              You have unsaved changes to the resource order
+              You have unsaved changes to the resource order{hasSections ? ' and sections' : ''}
             </p>
             <div className="flex gap-2">
               <Button
@@ -253,188 +574,66 @@ export function CollectionResourceOrganizer({
 
       {/* Resource List */}
       <DragDropContext onDragEnd={handleDragEnd}>
-        <Droppable droppableId="collection-resources">
-          {(provided, snapshot) => (
-            <div
-              {...provided.droppableProps}
-              ref={provided.innerRef}
-              className={`space-y-3 ${
-                snapshot.isDraggingOver ? 'bg-muted/50 rounded-lg p-2' : ''
-              }`}
-            >
-              {resources.map((collectionResource, index) => {
-                const resource = collectionResource.resource
-                if (!resource) return null
-
-                return (
-                  <Draggable
-                    key={collectionResource.tempId}
-                    draggableId={collectionResource.tempId}
-                    index={index}
-                    isDragDisabled={!canEdit}
+        {groupOrder.map(groupId => {
+          const section = sections.find(s => s.id === groupId)
+          const items = groups[groupId]
+
+          // Without sections, or with nothing unsorted, there's no unsorted group to show
+          if (!section && hasSections && items.length === 0) return null
+
+          return (
+            <div key={groupId} className="space-y-3">
+              {hasSections && (
+                <div className="flex items-start justify-between gap-2 pt-2">
+                  <div>
+                    <h3 className="font-semibold flex items-center gap-2">
+                      {section ? section.name : 'Unsorted'}
+                      <Badge variant="secondary">{items.length}</Badge>
+                    </h3>
+                    {section?.description && (
+                      <p className="text-sm text-muted-foreground">{section.description}</p>
+                    )}
+                  </div>
+                  {section && canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDeleteSection(section.id)}
+                      disabled={hasChanges || saving}
+                      aria-label={`Delete section ${section.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              <Droppable droppableId={groupId}>
+                {(provided, snapshot) => (
+                  <div
+                    {...provided.droppableProps}
+                    ref={provided.innerRef}
+                    className={`space-y-3 ${
+                      snapshot.isDraggingOver ? 'bg-muted/50 rounded-lg p-2' : ''
+                    } ${hasSections && items.length === 0 ? 'min-h-[64px] rounded-lg border border-dashed' : ''}`}
                   >
-                    {(provided, snapshot) => (
-                      <Card
-                        ref={provided.innerRef}
-                        {...provided.draggableProps}
-                        className={`${
-                          snapshot.isDragging ? 'shadow-lg rotate-2' : ''
-                        } ${canEdit ? 'cursor-move' : ''}`}
-                      >
-                        <CardHeader className="pb-3">
-                          <div className="flex items-start gap-3">
-                            {canEdit && (
-                              <div
-                                {...provided.dragHandleProps}
-                                className="mt-1 text-muted-foreground hover:text-foreground"
-                              >
-                                <GripVertical className="h-5 w-5" />
-                              </div>
-                            )}
-                            
-                            <div className="flex-1 min-w-0">
-                              <div className="flex items-start justify-between">
-                                <div className="space-y-1 flex-1">
-                                  <h4 className="font-medium line-clamp-2">
-                                    {getResourceIcon(resource.resource_type, resource.file_type)} {resource.title}
-                                  </h4>
-                                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                                    <User className="h-3 w-3" />
-                                    <span>{resource.uploader?.full_name || 'Anonymous'}</span>
-                                    <span>•</span>
-                                    <Calendar className="h-3 w-3" />
-                                    <span>{formatDate(resource.created_at)}</span>
-                                  </div>
-                                </div>
-                                
-                                {canEdit && (
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                                    onClick={() => handleRemoveResource(resource.id)}
-                                  >
-                                    <X className="h-4 w-4" />
-                                  </Button>
-                                )}
-                              </div>
-                              
-                              {resource.description && (
-                                <p className="text-sm text-muted-foreground line-clamp-2 mt-2">
-                                  {resource.description}
-                                </p>
-                              )}
-                              
-                              <div className="flex flex-wrap gap-2 mt-2">
-                                <Badge variant="secondary">{resource.resource_type}</Badge>
-                                <Badge variant="outline">{resource.department}</Badge>
-                                <Badge variant="outline">{resource.subject}</Badge>
-                                {resource.file_size && (
-                                  <Badge variant="outline">{formatBytes(resource.file_size)}</Badge>
-                                )}
-                              </div>
-                              
-                              {/* Notes Section */}
-                              {(collectionResource.notes || canEdit) && (
-                                <div className="mt-3 p-3 bg-muted/50 rounded-lg">
-                                  {editingNotes === collectionResource.id ? (
-                                    <div className="space-y-2">
-                                      <Textarea
-                                        value={noteValues[collectionResource.id] || ''}
-                                        onChange={(e) => setNoteValues(prev => ({
-                                          ...prev,
-                                          [collectionResource.id]: e.target.value
-                                        }))}
-                                        placeholder="Add notes about this resource..."
-                                        rows={3}
-                                      />
-                                      <div className="flex gap-2">
-                                        <Button
-                                          size="sm"
-                                          onClick={() => handleSaveNotes(collectionResource.id)}
-                                        >
-                                          Save
-                                        </Button>
-                                        <Button
-                                          size="sm"
-                                          variant="outline"
-                                          onClick={() => setEditingNotes(null)}
-                                        >
-                                          Cancel
-                                        </Button>
-                                      </div>
-                                    </div>
-                                  ) : (
-                                    <div className="space-y-2">
-                                      {collectionResource.notes ? (
-                                        <p className="text-sm">{collectionResource.notes}</p>
-                                      ) : (
-                                        <p className="text-sm text-muted-foreground italic">
-                                          No notes added
-                                        </p>
-                                      )}
-                                      {canEdit && (
-                                        <Button
-                                          size="sm"
-                                          variant="ghost"
-                                          onClick={() => setEditingNotes(collectionResource.id)}
-                                        >
-                                          {collectionResource.notes ? 'Edit Notes' : 'Add Notes'}
-                                        </Button>
-                                      )}
-                                    </div>
-                                  )}
-                                </div>
-                              )}
-                              
-                              {/* Actions */}
-                              <div className="flex gap-2 mt-3">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleResourceAction(resource, 'view')}
-                                >
-                                  <Eye className="mr-2 h-4 w-4" />
-                                  View
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleResourceAction(resource, 'download')}
-                                >
-                                  <Download className="mr-2 h-4 w-4" />
-                                  {resource.external_url ? 'Open' : 'Download'}
-                                </Button>
-                                {resource.external_url && (
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    asChild
-                                  >
-                                    <a 
-                                      href={resource.external_url} 
-                                      target="_blank" 
-                                      rel="noopener noreferrer"
-                                    >
-                                      <ExternalLink className="mr-2 h-4 w-4" />
-                                      External Link
-                                    </a>
-                                  </Button>
-                                )}
-                              </div>
-                            </div>
-                          </div>
-                        </CardHeader>
-                      </Card>
+                    {hasSections && items.length === 0 && !snapshot.isDraggingOver && (
+                      <p className="text-sm text-muted-foreground text-center py-5">
+                        {canEdit ? 'Drag resources here' : 'No resources in this section'}
+                      </p>
                     )}
-                  </Draggable>
-                )
-              })}
-              {provided.placeholder}
+                    {items.map((collectionResource, index) => renderResource(collectionResource, index))}
+                    {provided.placeholder}
+                  </div>
+                )}
+              </Droppable>
             </div>
-          )}
-        </Droppable>
+          )
+        })}
       </DragDropContext>
+
+      {addSectionForm}
     </div>
   )
 }
\ No newline at end of file
@@ -17,12 +17,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { 
   Search, Sparkles, Folder, Plus, 
   BookOpen, Code, Users, FileText,
-  Loader2, Check, ArrowRight
+  Loader2, Check, ArrowRight, Star,
+  Globe, Lock, Trash2
 } from 'lucide-react'
 import { useToast } from '@/lib/hooks/use-toast'
 import { useAuth } from '@/features/auth'
 import { collectionTemplatesService } from '@/lib/services/collection-templates-service'
-import type { CollectionTemplate } from '@/lib/services/collection-templates-service'
+import type { CollectionTemplate, TemplateVisibility } from '@/lib/services/collection-templates-service'
+import type { Collection } from '@/types'
 import { cn } from '@/lib/utils'
 
 interface CollectionTemplatesProps {
@@ -47,14 +49,11 @@ export function CollectionTemplates({ onTemplateSelect, className }: CollectionT
   useEffect(() => {
     const loadTemplates = async () => {
       try {
-        const [allTemplates, allCategories] = await Promise.all([
-          collectionTemplatesService.getTemplates(),
-          Promise.resolve(collectionTemplatesService.getTemplateCategories())
-        ])
+        const allTemplates = await collectionTemplatesService.getTemplates()
         
         setTemplates(allTemplates)
         setFilteredTemplates(allTemplates)
-        setCategories(['all', ...allCategories])
+        setCategories(['all', ...collectionTemplatesService.getTemplateCategories(allTemplates)])
       } catch (error) {
         console.error('Error loading templates:', error)
         toast({
@@ -81,7 +80,7 @@ export function CollectionTemplates({ onTemplateSelect, className }: CollectionT
 
     // Filter by search query
     if (searchQuery.trim()) {
-      const searchResults = collectionTemplatesService.searchTemplates(searchQuery)
+      const searchResults = collectionTemplatesService.searchTemplates(searchQuery, templates)
       filtered = filtered.filter(template => 
         searchResults.some(result => result.id === template.id)
       )
@@ -105,11 +104,19 @@ export function CollectionTemplates({ onTemplateSelect, className }: CollectionT
 
     setCreating(true)
     try {
-      const collection = await collectionTemplatesService.createCollectionFromTemplate(
-        selectedTemplate.id,
-        user.id,
-        customization
-      )
+      // Created by the API, which also counts the template's use
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...customization, template_id: selectedTemplate.id })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create collection')
+      }
+
+      const collection: Collection = data.collection
 
       toast({
         title: 'Collection created',
@@ -131,6 +138,73 @@ export function CollectionTemplates({ onTemplateSelect, className }: CollectionT
     }
   }
 
+  const updateTemplate = (templateId: string, update: Partial<CollectionTemplate>) => {
+    setTemplates(prev => prev.map(template =>
+      template.id === templateId ? { ...template, ...update } : template
+    ))
+  }
+
+  const handleRate = async (template: CollectionTemplate, rating: number) => {
+    try {
+      const result = await collectionTemplatesService.rateTemplate(template.id, rating)
+      updateTemplate(template.id, { ...result, user_rating: rating })
+    } catch (error) {
+      console.error('Error rating template:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to rate template',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleVisibilityChange = async (template: CollectionTemplate, visibility: TemplateVisibility) => {
+    if (!user) return
+
+    try {
+      const updated = await collectionTemplatesService.setTemplateVisibility(template.id, user.id, visibility)
+      updateTemplate(template.id, {
+        visibility: updated.visibility,
+        department: updated.department
+      })
+
+      toast({
+        title: visibility === 'department' ? 'Template published' : 'Template unpublished',
+        description: visibility === 'department'
+          ? `"${template.name}" is now available to ${updated.department}`
+          : `"${template.name}" is now only visible to you`,
+      })
+    } catch (error) {
+      console.error('Error updating template visibility:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update template',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleDelete = async (template: CollectionTemplate) => {
+    if (!user) return
+
+    try {
+      await collectionTemplatesService.deleteTemplate(template.id, user.id)
+      setTemplates(prev => prev.filter(t => t.id !== template.id))
+
+      toast({
+        title: 'Template deleted',
+        description: `"${template.name}" has been deleted`,
+      })
+    } catch (error) {
+      console.error('Error deleting template:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to delete template',
+        variant: 'destructive',
+      })
+    }
+  }
+
   const getTemplateIcon = (template: CollectionTemplate) => {
     return template.icon || '📁'
   }
@@ -186,7 +260,7 @@ export function CollectionTemplates({ onTemplateSelect, className }: CollectionT
 
         <CardContent>
           <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="flex w-full flex-wrap h-auto">
               {categories.map((category) => (
                 <TabsTrigger key={category} value={category} className="flex items-center gap-1">
                   {category !== 'all' && getCategoryIcon(category)}
@@ -210,7 +284,11 @@ export function CollectionTemplates({ onTemplateSelect, className }: CollectionT
                     <TemplateCard
                       key={template.id}
                       template={template}
+                      isOwn={!template.is_system && template.created_by === user?.id}
                       onSelect={() => handleTemplateSelect(template)}
+                      onRate={(rating) => handleRate(template, rating)}
+                      onVisibilityChange={(visibility) => handleVisibilityChange(template, visibility)}
+                      onDelete={() => handleDelete(template)}
                     />
                   ))}
                 </div>
@@ -237,10 +315,23 @@ export function CollectionTemplates({ onTemplateSelect, className }: CollectionT
 
 interface TemplateCardProps {
   template: CollectionTemplate
+  isOwn: boolean
   onSelect: () => void
+  onRate: (rating: number) => void
+  onVisibilityChange: (visibility: TemplateVisibility) => void
+  onDelete: () => void
 }
 
-function TemplateCard({ template, onSelect }: TemplateCardProps) {
+function TemplateCard({
+  template,
+  isOwn,
+  onSelect,
+  onRate,
+  onVisibilityChange,
+  onDelete
+}: TemplateCardProps) {
+  const isPublished = template.visibility === 'department'
+
   return (
     <Card className="hover:shadow-md transition-shadow cursor-pointer" onClick={onSelect}>
       <CardHeader className="pb-3">
@@ -249,9 +340,19 @@ function TemplateCard({ template, onSelect }: TemplateCardProps) {
             <span className="text-2xl">{template.icon}</span>
             <div>
               <h4 className="font-medium">{template.name}</h4>
-              <Badge variant="outline" className="text-xs">
-                {template.category}
-              </Badge>
+              <div className="flex flex-wrap gap-1">
+                <Badge variant="outline" className="text-xs">
+                  {template.category}
+                </Badge>
+                {!template.is_system && (
+                  <Badge variant="secondary" className="text-xs">
+                    {isOwn ? (isPublished ? template.department : 'Private') : template.department}
+                  </Badge>
+                )}
+              </div>
+              {!template.is_system && !isOwn && template.creator?.full_name && (
+                <p className="text-xs text-muted-foreground mt-1">by {template.creator.full_name}</p>
+              )}
             </div>
           </div>
           <div className="text-xs text-muted-foreground">
@@ -278,14 +379,85 @@ function TemplateCard({ template, onSelect }: TemplateCardProps) {
           )}
         </div>
         
-        <div className="text-xs text-muted-foreground">
-          {template.structure.sections.length} sections
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-xs text-muted-foreground">
+            {template.structure.sections.length} sections
+          </div>
+
+          {!template.is_system && (isOwn ? (
+            <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => onVisibilityChange(isPublished ? 'private' : 'department')}
+              >
+                {isPublished
+                  ? <><Lock className="mr-1 h-3 w-3" />Unpublish</>
+                  : <><Globe className="mr-1 h-3 w-3" />Publish</>}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={onDelete}
+                aria-label={`Delete ${template.name}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ) : (
+            <TemplateRating template={template} onRate={onRate} />
+          ))}
         </div>
+
+        {isOwn && isPublished && (template.rating_count ?? 0) > 0 && (
+          <div className="mt-2 text-xs text-muted-foreground">
+            Rated {Number(template.rating_average).toFixed(1)} by {template.rating_count}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
 }
 
+interface TemplateRatingProps {
+  template: CollectionTemplate
+  onRate: (rating: number) => void
+}
+
+// Stars show the user's own rating once they've rated, the average before
+function TemplateRating({ template, onRate }: TemplateRatingProps) {
+  const [hovered, setHovered] = useState(0)
+  const shown = hovered || template.user_rating || Math.round(template.rating_average ?? 0)
+
+  return (
+    <div
+      className="flex items-center gap-1"
+      onClick={(e) => e.stopPropagation()}
+      onMouseLeave={() => setHovered(0)}
+    >
+      {[1, 2, 3, 4, 5].map(value => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onRate(value)}
+          onMouseEnter={() => setHovered(value)}
+          aria-label={`Rate ${value} out of 5`}
+        >
+          <Star
+            className={cn(
+              'h-3 w-3',
+              value <= shown ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+            )}
+          />
+        </button>
+      ))}
+      <span className="text-xs text-muted-foreground">({template.rating_count ?? 0})</span>
+    </div>
+  )
+}
+
 interface TemplateCustomizationDialogProps {
   template: CollectionTemplate | null
   isOpen: boolean
@@ -327,7 +499,7 @@ function TemplateCustomizationDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <span className="text-2xl">{template.icon}</span>
-            Create from "{template.name}" Template
+            Create from &quot;{template.name}&quot; Template
           </DialogTitle>
           <DialogDescription>
             Customize your collection before creating it from this template
@@ -14,7 +14,6 @@ import {
 } from '@/components/ui/dialog'
 import { useToast } from '@/lib/hooks/use-toast'
 import { useAuth } from '@/features/auth'
-import { collectionService } from '@/lib/services/collection-service'
 import type { Collection } from '@/types'
 import { Trash2, AlertTriangle, Loader2 } from 'lucide-react'
 
@@ -36,7 +35,7 @@ export function DeleteCollectionDialog({
   const [loading, setLoading] = useState(false)
   const [confirmationText, setConfirmationText] = useState('')
 
-  const resourceCount = collection.resources?.length || 0
+  const resourceCount = collection.resource_count ?? collection.resources?.length ?? 0
   const isConfirmed = confirmationText === collection.title
 
   const handleDelete = async () => {
@@ -61,7 +60,11 @@ export function DeleteCollectionDialog({
     setLoading(true)
 
     try {
-      await collectionService.deleteCollection(collection.id, user.id)
+      const response = await fetch(`/api/collections/${collection.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete collection')
+      }
       
       toast({
         title: 'Collection deleted',
@@ -107,10 +110,10 @@ export function DeleteCollectionDialog({
                 Deleting this collection will:
               </p>
               <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1">
-                <li>Permanently remove the collection "{collection.title}"</li>
+                <li>Permanently remove the collection &quot;{collection.title}&quot;</li>
                 <li>Remove all {resourceCount} resource{resourceCount !== 1 ? 's' : ''} from this collection</li>
                 <li>Delete any sharing settings and permissions</li>
-                <li>Remove the collection from any user's saved collections</li>
+                <li>Remove the collection from any user&apos;s saved collections</li>
               </ul>
               <p className="text-sm text-muted-foreground mt-2">
                 <strong>Note:</strong> The individual resources will not be deleted and will remain available in the main library.
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog'
+import { useToast } from '@/lib/hooks/use-toast'
+import type { Collection } from '@/types'
+import { GitFork, Loader2 } from 'lucide-react'
+
+interface ForkCollectionDialogProps {
+  collection: Collection
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function ForkCollectionDialog({
+  collection,
+  isOpen,
+  onClose
+}: ForkCollectionDialogProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [title, setTitle] = useState('')
+  const [followUpdates, setFollowUpdates] = useState(true)
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(collection.title)
+      setFollowUpdates(true)
+    }
+  }, [isOpen, collection.title])
+
+  const handleFork = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/collections/${collection.id}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: title.trim(), follow_updates: followUpdates })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fork collection')
+
+      toast({
+        title: 'Collection forked',
+        description: `"${data.collection.title}" is now in your collections`,
+      })
+
+      onClose()
+      router.push(`/collections/${data.collection.id}`)
+    } catch (error) {
+      console.error('Error forking collection:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fork collection',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitFork className="h-5 w-5" />
+            Fork Collection
+          </DialogTitle>
+          <DialogDescription>
+            Copy &quot;{collection.title}&quot; with its sections, resources and notes into your
+            collections. Your fork starts private and links back to the original.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="fork_title">Title</Label>
+            <Input
+              id="fork_title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="follow_updates"
+              checked={followUpdates}
+              onCheckedChange={(checked) => setFollowUpdates(!!checked)}
+              disabled={loading}
+            />
+            <div className="grid gap-1.5 leading-none">
+              <Label
+                htmlFor="follow_updates"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Offer me updates
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                When the original adds resources, you can choose which to add to your fork
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={handleFork} disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Fork Collection
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,6 +2,10 @@ export { CollectionForm, CreateCollectionButton } from './collection-form'
 export { CollectionCard, CollectionGrid } from './collection-card'
 export { ShareCollectionDialog } from './share-collection-dialog'
 export { DeleteCollectionDialog } from './delete-collection-dialog'
+export { SaveAsTemplateDialog } from './save-as-template-dialog'
+export { SharedCollectionView } from './shared-collection-view'
+export { ForkCollectionDialog } from './fork-collection-dialog'
+export { CollectionForks, ForkSourceUpdates } from './collection-forks'
 export { CollectionResourceOrganizer } from './collection-resource-organizer'
 export { CollaborationActivityFeed, CollaborationActivityIndicator } from './collaboration-activity-feed'
 export { CollaborationInvitations } from './collaboration-invitations'
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog'
+import { useToast } from '@/lib/hooks/use-toast'
+import { useAuth } from '@/features/auth'
+import { collectionTemplatesService } from '@/lib/services/collection-templates-service'
+import type { Collection } from '@/types'
+import { LayoutTemplate, Loader2 } from 'lucide-react'
+
+interface SaveAsTemplateDialogProps {
+  collection: Collection
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function SaveAsTemplateDialog({
+  collection,
+  isOpen,
+  onClose
+}: SaveAsTemplateDialogProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    category: 'Community',
+    publish: false
+  })
+
+  const sections = [...(collection.sections || [])].sort((a, b) => a.order_index - b.order_index)
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({
+        name: collection.title,
+        description: collection.description || '',
+        category: 'Community',
+        publish: false
+      })
+    }
+  }, [isOpen, collection.title, collection.description])
+
+  const handleSave = async () => {
+    if (!user) {
+      toast({
+        title: 'Authentication required',
+        description: 'Please sign in to save templates',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    if (!formData.name.trim()) {
+      toast({
+        title: 'Name required',
+        description: 'Please give the template a name',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const template = await collectionTemplatesService.createTemplateFromCollection(
+        collection.id,
+        user.id,
+        {
+          name: formData.name.trim(),
+          description: formData.description.trim(),
+          category: formData.category.trim() || 'Community',
+          visibility: formData.publish ? 'department' : 'private'
+        }
+      )
+
+      toast({
+        title: 'Template saved',
+        description: template.visibility === 'department'
+          ? `"${template.name}" is now available to ${template.department}`
+          : `"${template.name}" has been saved to your templates`,
+      })
+
+      onClose()
+    } catch (error) {
+      console.error('Error saving template:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save template',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="h-5 w-5" />
+            Save as Template
+          </DialogTitle>
+          <DialogDescription>
+            Templates keep this collection&apos;s sections and their rules, not its resources.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sections.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            This collection has no sections yet. Add sections to organize its resources before saving it as a template.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template_name">Name *</Label>
+              <Input
+                id="template_name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                disabled={loading}
+                maxLength={100}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template_description">Description</Label>
+              <Textarea
+                id="template_description"
+                placeholder="What is this template good for? (optional)"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                disabled={loading}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template_category">Category</Label>
+              <Input
+                id="template_category"
+                value={formData.category}
+                onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+                disabled={loading}
+                maxLength={50}
+              />
+            </div>
+
+            <div className="p-4 bg-muted rounded-lg">
+              <h4 className="text-sm font-medium mb-2">Sections</h4>
+              <ol className="text-sm text-muted-foreground list-decimal list-inside space-y-1">
+                {sections.map(section => (
+                  <li key={section.id}>{section.name}</li>
+                ))}
+              </ol>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="publish"
+                checked={formData.publish}
+                onCheckedChange={(checked) =>
+                  setFormData(prev => ({ ...prev, publish: !!checked }))
+                }
+                disabled={loading}
+              />
+              <div className="grid gap-1.5 leading-none">
+                <Label
+                  htmlFor="publish"
+                  className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                >
+                  Publish to my department
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Others in your department can use and rate published templates
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={loading || sections.length === 0}
+          >
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
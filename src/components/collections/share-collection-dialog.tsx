@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -16,15 +16,38 @@ import {
 } from '@/components/ui/dialog'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { useToast } from '@/lib/hooks/use-toast'
 import { useAuth } from '@/features/auth'
 import { collectionSharing } from '@/lib/utils/collection-sharing'
+import { formatDate } from '@/lib/utils'
 import type { Collection } from '@/types'
+import type { CollectionShareLink, ShareLinkScope } from '@/lib/services/collection-share-links'
 import { 
   Share2, Copy, Mail, Globe, Users, 
-  Lock, Loader2, Check, X 
+  Lock, Loader2, Check, X, Link2
 } from 'lucide-react'
 
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' }
+]
+
+function getShareLinkStatus(link: CollectionShareLink): string | null {
+  if (link.revoked_at) return 'Revoked'
+  if (new Date(link.expires_at) <= new Date()) return 'Expired'
+  if (link.max_uses !== null && link.use_count >= link.max_uses) return 'Used up'
+  return null
+}
+
 interface ShareCollectionDialogProps {
   collection: Collection
   isOpen: boolean
@@ -48,23 +71,99 @@ export function ShareCollectionDialog({
     message: ''
   })
 
+  const [shareLinks, setShareLinks] = useState<CollectionShareLink[]>([])
+  const [creatingLink, setCreatingLink] = useState(false)
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null)
+  const [linkSettings, setLinkSettings] = useState({
+    scope: 'view' as ShareLinkScope,
+    expires_in_days: 7,
+    password: '',
+    max_uses: ''
+  })
+
   const shareUrl = collectionSharing.getCollectionShareUrl(collection.id)
 
-  const handleCopyUrl = async () => {
+  useEffect(() => {
+    if (!isOpen) return
+
+    collectionSharing.getShareLinks(collection.id)
+      .then(setShareLinks)
+      .catch(error => console.error('Error loading share links:', error))
+  }, [isOpen, collection.id])
+
+  const copyToClipboard = async (text: string) => {
     try {
-      await navigator.clipboard.writeText(shareUrl)
-      setCopied(true)
+      await navigator.clipboard.writeText(text)
       toast({
         title: 'Link copied',
         description: 'Collection link has been copied to clipboard',
       })
-      setTimeout(() => setCopied(false), 2000)
+      return true
     } catch (error) {
       toast({
         title: 'Failed to copy',
         description: 'Could not copy link to clipboard',
         variant: 'destructive',
       })
+      return false
+    }
+  }
+
+  const handleCopyUrl = async () => {
+    if (await copyToClipboard(shareUrl)) {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  const handleCopyShareLink = async (link: CollectionShareLink) => {
+    if (await copyToClipboard(link.url)) {
+      setCopiedLinkId(link.id)
+      setTimeout(() => setCopiedLinkId(null), 2000)
+    }
+  }
+
+  const handleCreateShareLink = async () => {
+    setCreatingLink(true)
+
+    try {
+      const link = await collectionSharing.generateShareableLink(collection.id, {
+        scope: linkSettings.scope,
+        expires_in_days: linkSettings.expires_in_days,
+        password: linkSettings.password || undefined,
+        max_uses: linkSettings.max_uses ? parseInt(linkSettings.max_uses, 10) : undefined
+      })
+
+      setShareLinks(prev => [link, ...prev])
+      setLinkSettings(prev => ({ ...prev, password: '', max_uses: '' }))
+      await handleCopyShareLink(link)
+    } catch (error) {
+      console.error('Error creating share link:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create share link',
+        variant: 'destructive',
+      })
+    } finally {
+      setCreatingLink(false)
+    }
+  }
+
+  const handleRevokeShareLink = async (link: CollectionShareLink) => {
+    try {
+      const revoked = await collectionSharing.revokeShareLink(collection.id, link.id)
+      setShareLinks(prev => prev.map(l => l.id === link.id ? revoked : l))
+      toast({
+        title: 'Link revoked',
+        description: 'The link no longer opens this collection',
+      })
+    } catch (error) {
+      console.error('Error revoking share link:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to revoke share link',
+        variant: 'destructive',
+      })
     }
   }
 
@@ -88,7 +187,6 @@ export function ShareCollectionDialog({
 
       const result = await collectionSharing.shareCollection(
         collection.id,
-        user.id,
         {
           make_public: shareSettings.make_public,
           enable_collaboration: shareSettings.enable_collaboration,
@@ -144,7 +242,7 @@ export function ShareCollectionDialog({
             Share Collection
           </DialogTitle>
           <DialogDescription>
-            Share "{collection.title}" with others or make it publicly available
+            Share &quot;{collection.title}&quot; with others or make it publicly available
           </DialogDescription>
         </DialogHeader>
 
@@ -181,6 +279,152 @@ export function ShareCollectionDialog({
             </CardContent>
           </Card>
 
+          {/* Share Links */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Link2 className="h-4 w-4" />
+                Share Links
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-xs text-muted-foreground">
+                Links open a read-only copy of this collection for anyone, even without an account.
+                Signed-in visitors of an edit link join as editors.
+              </p>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Access</Label>
+                  <Select
+                    value={linkSettings.scope}
+                    onValueChange={(value) => setLinkSettings(prev => ({ ...prev, scope: value as ShareLinkScope }))}
+                    disabled={creatingLink}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="view">View only</SelectItem>
+                      <SelectItem value="edit">Can edit</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Expires after</Label>
+                  <Select
+                    value={linkSettings.expires_in_days.toString()}
+                    onValueChange={(value) => setLinkSettings(prev => ({ ...prev, expires_in_days: parseInt(value, 10) }))}
+                    disabled={creatingLink}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map(option => (
+                        <SelectItem key={option.days} value={option.days.toString()}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="link_password">Password (optional)</Label>
+                  <Input
+                    id="link_password"
+                    type="password"
+                    value={linkSettings.password}
+                    onChange={(e) => setLinkSettings(prev => ({ ...prev, password: e.target.value }))}
+                    disabled={creatingLink}
+                    autoComplete="new-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="link_max_uses">Maximum uses (optional)</Label>
+                  <Input
+                    id="link_max_uses"
+                    type="number"
+                    min={1}
+                    value={linkSettings.max_uses}
+                    onChange={(e) => setLinkSettings(prev => ({ ...prev, max_uses: e.target.value }))}
+                    disabled={creatingLink}
+                  />
+                </div>
+              </div>
+
+              <Button
+                variant="outline"
+                onClick={handleCreateShareLink}
+                disabled={creatingLink || (linkSettings.password.length > 0 && linkSettings.password.length < 4)}
+              >
+                {creatingLink && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Link
+              </Button>
+
+              {shareLinks.length > 0 && (
+                <div className="space-y-2">
+                  {shareLinks.map(link => {
+                    const status = getShareLinkStatus(link)
+
+                    return (
+                      <div key={link.id} className="flex items-center justify-between gap-2 p-3 bg-muted rounded-lg">
+                        <div className="min-w-0 space-y-1">
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge variant={link.scope === 'edit' ? 'default' : 'secondary'}>
+                              {link.scope === 'edit' ? 'Can edit' : 'View only'}
+                            </Badge>
+                            {link.has_password && (
+                              <Badge variant="outline" className="gap-1">
+                                <Lock className="h-3 w-3" />
+                                Password
+                              </Badge>
+                            )}
+                            {status && <Badge variant="destructive">{status}</Badge>}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {link.use_count}{link.max_uses !== null && ` / ${link.max_uses}`} uses
+                            {' • '}
+                            {status === 'Revoked' ? 'Revoked' : 'Expires'} {formatDate(link.revoked_at || link.expires_at)}
+                          </p>
+                        </div>
+
+                        {!status && (
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleCopyShareLink(link)}
+                              aria-label="Copy link"
+                            >
+                              {copiedLinkId === link.id ? (
+                                <Check className="h-4 w-4" />
+                              ) : (
+                                <Copy className="h-4 w-4" />
+                              )}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-muted-foreground hover:text-destructive"
+                              onClick={() => handleRevokeShareLink(link)}
+                              aria-label="Revoke link"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Visibility Settings */}
           <Card>
             <CardHeader>
@@ -0,0 +1,263 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Calendar, Clock, ExternalLink, Eye, FolderOpen,
+  Loader2, Lock, User
+} from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import type { Collection, CollectionResource } from '@/types'
+
+interface SharedCollectionViewProps {
+  token: string
+}
+
+type ViewState =
+  | { status: 'loading' }
+  | { status: 'password'; error?: string }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; collection: Collection; expiresAt: string }
+
+// Read-only page for visitors who open a collection share link, with or
+// without an account
+export function SharedCollectionView({ token }: SharedCollectionViewProps) {
+  const router = useRouter()
+  const [state, setState] = useState<ViewState>({ status: 'loading' })
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const openLink = useCallback(async (linkPassword?: string) => {
+    try {
+      const response = await fetch(`/api/shared/collections/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(linkPassword ? { password: linkPassword } : {})
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        // Edit links make signed-in visitors editors; take them to the real page
+        if (data.joined) {
+          router.push(`/collections/${data.collection.id}`)
+          return
+        }
+        setState({ status: 'ready', collection: data.collection, expiresAt: data.share.expires_at })
+      } else if (data.password_required) {
+        setState({ status: 'password', error: linkPassword ? data.error : undefined })
+      } else {
+        setState({ status: 'error', error: data.error || 'Failed to open shared collection' })
+      }
+    } catch (error) {
+      console.error('Error opening shared collection:', error)
+      setState({ status: 'error', error: 'Failed to open shared collection' })
+    }
+  }, [token, router])
+
+  useEffect(() => {
+    openLink()
+  }, [openLink])
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!password) return
+
+    setSubmitting(true)
+    await openLink(password)
+    setSubmitting(false)
+  }
+
+  if (state.status === 'loading') {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (state.status === 'error') {
+    return (
+      <div className="text-center py-20">
+        <FolderOpen className="mx-auto h-12 w-12 text-muted-foreground" />
+        <h3 className="mt-4 text-lg font-semibold">Link unavailable</h3>
+        <p className="mt-2 text-muted-foreground">{state.error}</p>
+        <Button variant="outline" className="mt-6" asChild>
+          <Link href="/">Go to homepage</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (state.status === 'password') {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Password required
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handlePasswordSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="share_password">Enter the password you were given with this link</Label>
+              <Input
+                id="share_password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={submitting}
+                autoFocus
+              />
+              {state.error && (
+                <p className="text-sm text-destructive">{state.error}</p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={submitting || !password}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Open Collection
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { collection, expiresAt } = state
+  const sections = [...(collection.sections || [])].sort((a, b) => a.order_index - b.order_index)
+  const resources = collection.resources || []
+  const sectionIds = new Set(sections.map(section => section.id))
+  const unsorted = resources.filter(item => !item.section_id || !sectionIds.has(item.section_id))
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <div className="space-y-2">
+            <CardTitle className="text-3xl flex items-center gap-3">
+              <FolderOpen className="h-8 w-8 text-primary" />
+              {collection.title}
+            </CardTitle>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <User className="h-3 w-3" />
+              <span>{collection.creator?.full_name || 'Anonymous'}</span>
+              <span>•</span>
+              <Calendar className="h-3 w-3" />
+              <span>{formatDate(collection.created_at)}</span>
+              <span>•</span>
+              <Eye className="h-3 w-3" />
+              <span>View only</span>
+              <span>•</span>
+              <Clock className="h-3 w-3" />
+              <span>Link expires {formatDate(expiresAt)}</span>
+            </div>
+          </div>
+        </CardHeader>
+        {(collection.description || (collection.tags && collection.tags.length > 0)) && (
+          <CardContent className="space-y-4">
+            {collection.description && (
+              <p className="text-muted-foreground">{collection.description}</p>
+            )}
+            {collection.tags && collection.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {collection.tags.map(tag => (
+                  <Badge key={tag} variant="outline">#{tag}</Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {resources.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">This collection has no resources yet.</p>
+      ) : (
+        <>
+          {sections.map(section => {
+            const items = resources.filter(item => item.section_id === section.id)
+            if (items.length === 0) return null
+
+            return (
+              <SharedSection
+                key={section.id}
+                title={section.name}
+                description={section.description}
+                items={items}
+              />
+            )
+          })}
+          {unsorted.length > 0 && (
+            <SharedSection
+              title={sections.length > 0 ? 'Other resources' : 'Resources'}
+              items={unsorted}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+interface SharedSectionProps {
+  title: string
+  description?: string | null
+  items: CollectionResource[]
+}
+
+function SharedSection({ title, description, items }: SharedSectionProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          {title}
+          <Badge variant="secondary">{items.length}</Badge>
+        </CardTitle>
+        {description && (
+          <p className="text-sm text-muted-foreground">{description}</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.map(item => {
+          const resource = item.resource
+          if (!resource) return null
+          const href = resource.external_url || resource.file_url
+
+          return (
+            <div key={item.id} className="p-3 rounded-lg border space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{resource.title}</p>
+                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                    <Badge variant="outline" className="text-xs capitalize">{resource.resource_type}</Badge>
+                    {resource.course && (
+                      <Badge variant="secondary" className="text-xs">{resource.course}</Badge>
+                    )}
+                  </div>
+                </div>
+                {href && (
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={href} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </Button>
+                )}
+              </div>
+              {resource.description && (
+                <p className="text-sm text-muted-foreground line-clamp-2">{resource.description}</p>
+              )}
+              {item.notes && (
+                <p className="text-sm italic text-muted-foreground">{item.notes}</p>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useAuth } from '@/features/auth'
+import { followService, describeFollowTarget } from '@/lib/services/follow-service'
+import { FollowingFeedItem } from '@/types'
+import {
+  BellRing,
+  BookOpen,
+  FileText,
+  Video,
+  Link,
+  Code,
+  ThumbsUp,
+  Download,
+  Loader2
+} from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+
+const resourceTypeIcons = {
+  document: FileText,
+  video: Video,
+  link: Link,
+  code: Code,
+  article: BookOpen
+}
+
+const PAGE_SIZE = 20
+
+export function FollowingFeed() {
+  const { user } = useAuth()
+  const [feedItems, setFeedItems] = useState<FollowingFeedItem[]>([])
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    const response = await followService.getFollowingFeed(pageToLoad, PAGE_SIZE)
+    if (!response) return
+
+    setFeedItems(prev => pageToLoad === 1 ? response.resources : [...prev, ...response.resources])
+    setHasMore(response.hasMore)
+    setPage(pageToLoad)
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+
+    setLoading(true)
+    loadPage(1).finally(() => setLoading(false))
+  }, [user, loadPage])
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true)
+    await loadPage(page + 1)
+    setLoadingMore(false)
+  }
+
+  const handleResourceClick = (resourceId: string) => {
+    window.location.href = `/resources/${resourceId}`
+  }
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Following
+        </CardTitle>
+        <CardDescription>
+          New resources in the courses, departments, tags and people you follow
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="space-y-2">
+                <div className="h-4 bg-muted animate-pulse rounded w-3/4" />
+                <div className="h-3 bg-muted animate-pulse rounded w-1/2" />
+              </div>
+            ))}
+          </div>
+        ) : feedItems.length === 0 ? (
+          <div className="text-center py-8">
+            <BellRing className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground mb-2">Nothing here yet</p>
+            <p className="text-sm text-muted-foreground">
+              Follow a course, department, tag or uploader from the resources page to see their new uploads here
+            </p>
+          </div>
+        ) : (
+          <ScrollArea className="h-[400px]">
+            <div className="space-y-4 pr-4">
+              {feedItems.map((item) => {
+                const ResourceIcon = resourceTypeIcons[item.resource_type] || FileText
+
+                return (
+                  <div
+                    key={item.id}
+                    className="border rounded-lg p-3 hover:bg-muted/50 transition-colors cursor-pointer"
+                    onClick={() => handleResourceClick(item.id)}
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="flex-shrink-0">
+                        <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                          <ResourceIcon className="h-4 w-4 text-primary" />
+                        </div>
+                      </div>
+
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-sm leading-tight mb-1 line-clamp-2">
+                          {item.title}
+                        </h4>
+
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                          <Badge variant="secondary" className="text-xs">
+                            {describeFollowTarget({
+                              target_type: item.followed_type,
+                              target_value: item.followed_value,
+                              label: item.uploader?.full_name
+                            })}
+                          </Badge>
+                          <Badge variant="outline" className="text-xs">
+                            {item.course}
+                          </Badge>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                            <div className="flex items-center gap-1">
+                              <ThumbsUp className="h-3 w-3" />
+                              <span>{item.upvotes}</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Download className="h-3 w-3" />
+                              <span>{item.downloads}</span>
+                            </div>
+                          </div>
+
+                          <div className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+
+              {hasMore && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                >
+                  {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
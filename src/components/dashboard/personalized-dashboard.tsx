@@ -23,6 +23,7 @@ import { Recommendations } from './recommendations'
 import { ActivityFeed } from './activity-feed'
 import { RecentUploads } from './recent-uploads'
 import { PersonalizedFeed } from './personalized-feed'
+import { FollowingFeed } from './following-feed'
 import { QuickInsights } from './quick-insights'
 import { NotificationCenter } from '../notifications/notification-center'
 import {
@@ -34,6 +35,7 @@ import {
   BookOpen,
   Target,
   Bell,
+  BellRing,
   RefreshCw,
   Layout,
   Zap,
@@ -78,6 +80,16 @@ const availableWidgets: DashboardWidget[] = [
     customizable: true,
     className: 'md:col-span-2'
   },
+  {
+    id: 'following-feed',
+    title: 'Following',
+    component: FollowingFeed,
+    icon: BellRing,
+    description: 'New resources from the courses, tags and people you follow',
+    defaultVisible: true,
+    customizable: true,
+    className: 'md:col-span-1'
+  },
   {
     id: 'recommendations',
     title: 'AI Recommendations',
@@ -4,8 +4,9 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { ThemeToggle } from '@/components/common/theme-toggle'
-import { useAuth } from '@/features/auth'
-import { BookOpen, Trophy, Upload, User, LogOut, Sparkles, LayoutDashboard } from 'lucide-react'
+import { NotificationBell } from '@/components/notifications/notification-bell'
+import { useAuth, hasPermission } from '@/features/auth'
+import { BookOpen, Trophy, Upload, User, LogOut, Sparkles, LayoutDashboard, Shield, Activity, Users, Award, FolderOpen } from 'lucide-react'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -27,9 +28,17 @@ export function Navbar() {
     { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { href: '/resources', label: 'Resources', icon: BookOpen },
     { href: '/resources/upload', label: 'Upload', icon: Upload },
+    { href: '/collections', label: 'Collections', icon: FolderOpen },
     { href: '/leaderboard', label: 'Leaderboard', icon: Trophy },
   ]
 
+  const adminItems = [
+    { href: '/admin/moderation', label: 'Moderation', icon: Shield, permission: 'moderate_content' as const },
+    { href: '/admin/monitoring', label: 'Monitoring', icon: Activity, permission: 'view_monitoring' as const },
+    { href: '/admin/users', label: 'User Roles', icon: Users, permission: 'manage_roles' as const },
+    { href: '/admin/achievements', label: 'Achievements', icon: Award, permission: 'manage_achievements' as const },
+  ].filter(item => hasPermission(profile, item.permission))
+
   return (
     <nav
       className="sticky top-0 z-50 w-full"
@@ -80,6 +89,7 @@ export function Navbar() {
 
               <div className="flex items-center gap-2">
                 <ThemeToggle />
+                <NotificationBell />
 
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -106,6 +116,22 @@ export function Navbar() {
                         <User className="mr-2 h-4 w-4" /> Profile
                       </Link>
                     </DropdownMenuItem>
+                    {adminItems.length > 0 && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuLabel className="font-heading">Admin</DropdownMenuLabel>
+                        {adminItems.map((item) => {
+                          const Icon = item.icon
+                          return (
+                            <DropdownMenuItem key={item.href} asChild className="rounded-lg focus:bg-primary/10 cursor-pointer">
+                              <Link href={item.href} className="flex items-center">
+                                <Icon className="mr-2 h-4 w-4" /> {item.label}
+                              </Link>
+                            </DropdownMenuItem>
+                          )
+                        })}
+                      </>
+                    )}
                     <DropdownMenuItem
                       onClick={() => signOut()}
                       className="rounded-lg focus:bg-red-500/10 text-red-600 focus:text-red-600 cursor-pointer"
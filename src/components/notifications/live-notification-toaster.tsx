@@ -0,0 +1,25 @@
+'use client'
+
+import { useToast } from '@/lib/hooks/use-toast'
+import { useLiveNotifications } from '@/hooks/use-notifications'
+import { isQuietNotification } from '@/lib/services/notification-service'
+
+/**
+ * Shows a toast for each notification as it arrives. Achievements get their
+ * own popup from AchievementNotificationSystem, so they are skipped here, as
+ * are notifications snoozed by quiet hours or meant for email.
+ */
+export function LiveNotificationToaster() {
+  const { toast } = useToast()
+
+  useLiveNotifications((notification) => {
+    if (notification.type === 'achievement' || isQuietNotification(notification)) return
+
+    toast({
+      title: notification.title,
+      description: notification.message,
+    })
+  })
+
+  return null
+}
@@ -18,11 +18,14 @@ import Link from 'next/link'
 export function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false)
   const { 
-    notifications, 
+    groups, 
+    totalCount,
     unreadCount, 
     markAllAsRead, 
     markAsRead, 
-    deleteNotification 
+    archive,
+    snooze,
+    deleteGroup 
   } = useNotifications({ 
     limit: 5 // Show only recent notifications in dropdown
   })
@@ -64,7 +67,7 @@ export function NotificationBell() {
           </div>
         </div>
         
-        {notifications.length === 0 ? (
+        {groups.length === 0 ? (
           <div className="p-4 text-center text-muted-foreground">
             <Bell className="h-8 w-8 mx-auto mb-2 opacity-50" />
             <p className="text-sm">No notifications</p>
@@ -73,18 +76,20 @@ export function NotificationBell() {
           <>
             <ScrollArea className="max-h-80">
               <div className="p-2 space-y-1">
-                {notifications.slice(0, 5).map((notification) => (
+                {groups.slice(0, 5).map((group) => (
                   <NotificationItem
-                    key={notification.id}
-                    notification={notification}
+                    key={group.group_key}
+                    group={group}
                     onMarkAsRead={markAsRead}
-                    onDelete={deleteNotification}
+                    onDelete={deleteGroup}
+                    onArchive={archive}
+                    onSnooze={snooze}
                   />
                 ))}
               </div>
             </ScrollArea>
             
-            {notifications.length > 5 && (
+            {totalCount > 5 && (
               <div className="p-2 border-t">
                 <Link href="/notifications">
                   <Button variant="ghost" className="w-full" size="sm">
@@ -5,6 +5,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { NotificationView } from '@/types'
 import { useNotifications } from '@/hooks/use-notifications'
 import { NotificationItem } from './notification-item'
 import { Bell, CheckCheck, Loader2 } from 'lucide-react'
@@ -15,16 +17,22 @@ interface NotificationCenterProps {
 
 export function NotificationCenter({ className }: NotificationCenterProps) {
   const [showUnreadOnly, setShowUnreadOnly] = useState(false)
+  const [view, setView] = useState<NotificationView>('inbox')
   const { 
-    notifications, 
+    groups, 
     loading, 
     error, 
     unreadCount, 
     markAllAsRead, 
     markAsRead, 
-    deleteNotification 
+    archive,
+    unarchive,
+    snooze,
+    unsnooze,
+    deleteGroup 
   } = useNotifications({ 
     unreadOnly: showUnreadOnly,
+    view,
     limit: 50 
   })
 
@@ -91,24 +99,40 @@ export function NotificationCenter({ className }: NotificationCenterProps) {
         <CardDescription>
           Stay updated with your latest activities and achievements.
         </CardDescription>
+        <Tabs value={view} onValueChange={(value) => setView(value as NotificationView)}>
+          <TabsList>
+            <TabsTrigger value="inbox">Inbox</TabsTrigger>
+            <TabsTrigger value="snoozed">Snoozed</TabsTrigger>
+            <TabsTrigger value="archived">Archived</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </CardHeader>
       <CardContent>
-        {notifications.length === 0 ? (
+        {groups.length === 0 ? (
           <div className="text-center py-8">
             <Bell className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <p className="text-muted-foreground">
-              {showUnreadOnly ? 'No unread notifications' : 'No notifications yet'}
+              {view === 'snoozed'
+                ? 'No snoozed notifications'
+                : view === 'archived'
+                  ? 'No archived notifications'
+                  : showUnreadOnly ? 'No unread notifications' : 'No notifications yet'}
             </p>
           </div>
         ) : (
           <ScrollArea className="h-[400px]">
             <div className="space-y-2">
-              {notifications.map((notification) => (
+              {groups.map((group) => (
                 <NotificationItem
-                  key={notification.id}
-                  notification={notification}
+                  key={group.group_key}
+                  group={group}
+                  view={view}
                   onMarkAsRead={markAsRead}
-                  onDelete={deleteNotification}
+                  onDelete={deleteGroup}
+                  onArchive={archive}
+                  onUnarchive={unarchive}
+                  onSnooze={snooze}
+                  onUnsnooze={unsnooze}
                 />
               ))}
             </div>
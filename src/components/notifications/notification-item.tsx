@@ -4,8 +4,15 @@ import { useState } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Notification } from '@/types'
-import { formatDistanceToNow } from 'date-fns'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { NotificationGroup, NotificationView } from '@/types'
+import { formatDistanceToNow, format } from 'date-fns'
 import { 
   Trophy, 
   ThumbsUp, 
@@ -14,14 +21,25 @@ import {
   Info, 
   Check, 
   Trash2,
-  ThumbsDown
+  ThumbsDown,
+  MessageSquare,
+  UserCheck,
+  Archive,
+  ArchiveRestore,
+  Clock,
+  BellRing
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 interface NotificationItemProps {
-  notification: Notification
-  onMarkAsRead: (id: string) => Promise<boolean>
-  onDelete: (id: string) => Promise<boolean>
+  group: NotificationGroup
+  view?: NotificationView
+  onMarkAsRead: (group: NotificationGroup) => Promise<boolean>
+  onDelete: (group: NotificationGroup) => Promise<boolean>
+  onArchive?: (group: NotificationGroup) => Promise<boolean>
+  onUnarchive?: (group: NotificationGroup) => Promise<boolean>
+  onSnooze?: (group: NotificationGroup, until: Date) => Promise<boolean>
+  onUnsnooze?: (group: NotificationGroup) => Promise<boolean>
 }
 
 const notificationIcons = {
@@ -29,6 +47,8 @@ const notificationIcons = {
   vote_received: ThumbsUp,
   new_resource: FileText,
   collection_shared: Users,
+  comment_received: MessageSquare,
+  invitation_accepted: UserCheck,
   system: Info,
 }
 
@@ -37,31 +57,59 @@ const notificationColors = {
   vote_received: 'text-blue-600',
   new_resource: 'text-green-600',
   collection_shared: 'text-purple-600',
+  comment_received: 'text-indigo-600',
+  invitation_accepted: 'text-purple-600',
   system: 'text-gray-600',
 }
 
-export function NotificationItem({ notification, onMarkAsRead, onDelete }: NotificationItemProps) {
+function getSnoozeOptions(now: Date = new Date()): { label: string; until: Date }[] {
+  const tomorrow = new Date(now)
+  tomorrow.setDate(tomorrow.getDate() + 1)
+  tomorrow.setHours(8, 0, 0, 0)
+
+  // Next Monday morning
+  const nextWeek = new Date(now)
+  nextWeek.setDate(nextWeek.getDate() + ((8 - nextWeek.getDay()) % 7 || 7))
+  nextWeek.setHours(8, 0, 0, 0)
+
+  return [
+    { label: 'For 1 hour', until: new Date(now.getTime() + 60 * 60 * 1000) },
+    { label: 'For 3 hours', until: new Date(now.getTime() + 3 * 60 * 60 * 1000) },
+    { label: 'Until tomorrow', until: tomorrow },
+    { label: 'Until next week', until: nextWeek },
+  ]
+}
+
+export function NotificationItem({
+  group,
+  view = 'inbox',
+  onMarkAsRead,
+  onDelete,
+  onArchive,
+  onUnarchive,
+  onSnooze,
+  onUnsnooze
+}: NotificationItemProps) {
   const [loading, setLoading] = useState(false)
+  const notification = group.latest
+  const isRead = group.unread_count === 0
   
-  const Icon = notificationIcons[notification.type as keyof typeof notificationIcons] || Info
-  const iconColor = notificationColors[notification.type as keyof typeof notificationColors] || 'text-gray-600'
+  const Icon = notificationIcons[group.type as keyof typeof notificationIcons] || Info
+  const iconColor = notificationColors[group.type as keyof typeof notificationColors] || 'text-gray-600'
 
-  const handleMarkAsRead = async () => {
-    if (notification.is_read) return
-    
+  const run = async (action: () => Promise<boolean>) => {
     setLoading(true)
-    await onMarkAsRead(notification.id)
+    await action()
     setLoading(false)
   }
 
-  const handleDelete = async () => {
-    setLoading(true)
-    await onDelete(notification.id)
-    setLoading(false)
+  const handleMarkAsRead = async () => {
+    if (isRead) return
+    await run(() => onMarkAsRead(group))
   }
 
   const getNotificationContent = () => {
-    switch (notification.type) {
+    switch (group.type) {
       case 'vote_received':
         const voteType = notification.data?.vote_type
         const VoteIcon = voteType === 'downvote' ? ThumbsDown : ThumbsUp
@@ -69,8 +117,10 @@ export function NotificationItem({ notification, onMarkAsRead, onDelete }: Notif
           <div className="flex items-start gap-2">
             <VoteIcon className={cn('h-4 w-4 mt-0.5', voteType === 'downvote' ? 'text-red-600' : 'text-blue-600')} />
             <div>
-              <p className="font-medium">{notification.title}</p>
-              <p className="text-sm text-muted-foreground">{notification.message}</p>
+              <p className="font-medium">{group.title}</p>
+              {group.message && (
+                <p className="text-sm text-muted-foreground">{group.message}</p>
+              )}
             </div>
           </div>
         )
@@ -80,9 +130,9 @@ export function NotificationItem({ notification, onMarkAsRead, onDelete }: Notif
           <div className="flex items-start gap-2">
             <Trophy className="h-4 w-4 mt-0.5 text-yellow-600" />
             <div>
-              <p className="font-medium">{notification.title}</p>
-              <p className="text-sm text-muted-foreground">{notification.message}</p>
-              {notification.data?.points && (
+              <p className="font-medium">{group.title}</p>
+              <p className="text-sm text-muted-foreground">{group.message}</p>
+              {group.count === 1 && notification.data?.points && (
                 <Badge variant="secondary" className="mt-1">
                   +{notification.data.points} points
                 </Badge>
@@ -96,9 +146,9 @@ export function NotificationItem({ notification, onMarkAsRead, onDelete }: Notif
           <div className="flex items-start gap-2">
             <Icon className={cn('h-4 w-4 mt-0.5', iconColor)} />
             <div>
-              <p className="font-medium">{notification.title}</p>
-              {notification.message && (
-                <p className="text-sm text-muted-foreground">{notification.message}</p>
+              <p className="font-medium">{group.title}</p>
+              {group.message && (
+                <p className="text-sm text-muted-foreground">{group.message}</p>
               )}
             </div>
           </div>
@@ -110,7 +160,7 @@ export function NotificationItem({ notification, onMarkAsRead, onDelete }: Notif
     <Card 
       className={cn(
         'transition-all duration-200 hover:shadow-md cursor-pointer',
-        !notification.is_read && 'border-l-4 border-l-blue-500 bg-blue-50/50'
+        !isRead && 'border-l-4 border-l-blue-500 bg-blue-50/50'
       )}
       onClick={handleMarkAsRead}
     >
@@ -122,38 +172,106 @@ export function NotificationItem({ notification, onMarkAsRead, onDelete }: Notif
               <span className="text-xs text-muted-foreground">
                 {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
               </span>
-              {!notification.is_read && (
+              {group.count > 1 && (
+                <Badge variant="outline" className="text-xs">
+                  {group.count}
+                </Badge>
+              )}
+              {!isRead && (
                 <Badge variant="secondary" className="text-xs">
-                  New
+                  {group.unread_count > 1 ? `${group.unread_count} new` : 'New'}
                 </Badge>
               )}
+              {view === 'snoozed' && notification.snoozed_until && (
+                <span className="text-xs text-muted-foreground">
+                  Until {format(new Date(notification.snoozed_until), 'MMM d, h:mm a')}
+                </span>
+              )}
             </div>
           </div>
           
-          <div className="flex items-center gap-1">
-            {!notification.is_read && (
+          <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+            {!isRead && (
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={(e) => {
-                  e.stopPropagation()
-                  handleMarkAsRead()
-                }}
+                onClick={handleMarkAsRead}
                 disabled={loading}
                 className="h-8 w-8 p-0"
+                title="Mark as read"
               >
                 <Check className="h-4 w-4" />
               </Button>
             )}
+            {view === 'inbox' && onSnooze && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={loading}
+                    className="h-8 w-8 p-0"
+                    title="Snooze"
+                  >
+                    <Clock className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Snooze</DropdownMenuLabel>
+                  {getSnoozeOptions().map((option) => (
+                    <DropdownMenuItem
+                      key={option.label}
+                      onClick={() => run(() => onSnooze(group, option.until))}
+                    >
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {view === 'snoozed' && onUnsnooze && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => run(() => onUnsnooze(group))}
+                disabled={loading}
+                className="h-8 w-8 p-0"
+                title="Unsnooze"
+              >
+                <BellRing className="h-4 w-4" />
+              </Button>
+            )}
+            {view !== 'archived' && onArchive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => run(() => onArchive(group))}
+                disabled={loading}
+                className="h-8 w-8 p-0"
+                title="Archive"
+              >
+                <Archive className="h-4 w-4" />
+              </Button>
+            )}
+            {view === 'archived' && onUnarchive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => run(() => onUnarchive(group))}
+                disabled={loading}
+                className="h-8 w-8 p-0"
+                title="Move to inbox"
+              >
+                <ArchiveRestore className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
-              onClick={(e) => {
-                e.stopPropagation()
-                handleDelete()
-              }}
+              onClick={() => run(() => onDelete(group))}
               disabled={loading}
               className="h-8 w-8 p-0 text-muted-foreground hover:text-red-600"
+              title="Delete"
             >
               <Trash2 className="h-4 w-4" />
             </Button>
@@ -162,4 +280,4 @@ export function NotificationItem({ notification, onMarkAsRead, onDelete }: Notif
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
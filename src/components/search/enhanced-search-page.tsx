@@ -84,6 +84,7 @@ export function EnhancedSearchPage({
     if (departments?.length) urlFilters.departments = departments
     if (courses?.length) urlFilters.courses = courses
     if (tags?.length) urlFilters.tags = tags
+    if (searchParams.get('verified') === 'true') urlFilters.verifiedOnly = true
 
     setQuery(urlQuery)
     setFilters(urlFilters)
@@ -288,6 +289,9 @@ export function EnhancedSearchPage({
     if (searchFilters.tags?.length) {
       params.set('tags', searchFilters.tags.join(','))
     }
+    if (searchFilters.verifiedOnly) {
+      params.set('verified', 'true')
+    }
 
     const newURL = params.toString() ? `/search?${params.toString()}` : '/search'
     router.replace(newURL, { scroll: false })
@@ -328,6 +332,7 @@ export function EnhancedSearchPage({
     if (filters.tags?.length) count += filters.tags.length
     if (filters.difficulty?.length) count += filters.difficulty.length
     if (filters.dateRange) count += 1
+    if (filters.verifiedOnly) count += 1
     return count
   }, [filters])
 
@@ -416,6 +421,20 @@ export function EnhancedSearchPage({
                 </button>
               </Badge>
             ))}
+            {filters.verifiedOnly && (
+              <Badge variant="secondary" className="gap-1 pl-3 pr-1 py-1.5 bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors">
+                Verified only
+                <button
+                  className="ml-1 rounded-full p-0.5 hover:bg-black/10 dark:hover:bg-white/10"
+                  onClick={() => handleFiltersChange({
+                    ...filters,
+                    verifiedOnly: undefined
+                  })}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
             <Button variant="ghost" size="sm" onClick={clearAll} className="h-7 text-xs text-muted-foreground hover:text-foreground">
               Clear All
             </Button>
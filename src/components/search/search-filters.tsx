@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import {
   Select,
   SelectContent,
@@ -32,7 +33,8 @@ import {
   Calendar,
   Tag,
   Building,
-  GraduationCap
+  GraduationCap,
+  ShieldCheck
 } from 'lucide-react'
 import type { SearchFilters } from '@/types'
 import { cn } from '@/lib/utils'
@@ -149,6 +151,7 @@ export function SearchFilters({
     if (filters.tags?.length) count += filters.tags.length
     if (filters.difficulty?.length) count += filters.difficulty.length
     if (filters.dateRange) count += 1
+    if (filters.verifiedOnly) count += 1
     return count
   }
 
@@ -180,6 +183,22 @@ export function SearchFilters({
           )}
         </div>
 
+        {/* Verified Only */}
+        <div className="flex items-center justify-between">
+          <Label
+            htmlFor="verified-only"
+            className="flex items-center gap-2 font-medium cursor-pointer"
+          >
+            <ShieldCheck className="h-4 w-4" />
+            Verified only
+          </Label>
+          <Switch
+            id="verified-only"
+            checked={filters.verifiedOnly || false}
+            onCheckedChange={(checked) => updateFilters('verifiedOnly', checked || undefined)}
+          />
+        </div>
+
         {/* Resource Types */}
         <Collapsible
           open={openSections.resourceTypes}
@@ -402,6 +402,12 @@ export function HighlightedResourceCard({
               {highlightText(resource.description)}
             </p>
           )}
+          {resource.content_snippet && (
+            <p className="text-xs text-muted-foreground border-l-2 border-primary/30 pl-2 line-clamp-3 mt-2">
+              <span className="font-medium text-foreground">In file: </span>
+              {highlightText(resource.content_snippet)}
+            </p>
+          )}
         </div>
 
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
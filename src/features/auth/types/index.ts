@@ -26,4 +26,12 @@ export interface AuthUser extends SupabaseUser {
   profile?: DBUser
 }
 
-export type AuthState = 'loading' | 'authenticated' | 'unauthenticated'
\ No newline at end of file
+export type AuthState = 'loading' | 'authenticated' | 'unauthenticated'
+
+export type Permission =
+  | 'verify_resources'
+  | 'moderate_content'
+  | 'manage_tags'
+  | 'manage_roles'
+  | 'view_monitoring'
+  | 'manage_achievements'
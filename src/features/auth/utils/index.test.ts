@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { getUserRole, hasPermission, hasRole } from './index'
+
+describe('getUserRole', () => {
+  it('defaults to student for missing or unknown roles', () => {
+    expect(getUserRole(null)).toBe('student')
+    expect(getUserRole({})).toBe('student')
+    expect(getUserRole({ role: 'superuser' })).toBe('student')
+  })
+
+  it('returns known roles', () => {
+    expect(getUserRole({ role: 'faculty' })).toBe('faculty')
+  })
+})
+
+describe('hasRole', () => {
+  it('matches any of the given roles', () => {
+    expect(hasRole({ role: 'moderator' }, ['moderator', 'admin'])).toBe(true)
+    expect(hasRole({ role: 'faculty' }, ['moderator', 'admin'])).toBe(false)
+    expect(hasRole(null, ['student'])).toBe(false)
+  })
+})
+
+describe('hasPermission', () => {
+  it('lets faculty verify but not moderate', () => {
+    expect(hasPermission({ role: 'faculty' }, 'verify_resources')).toBe(true)
+    expect(hasPermission({ role: 'faculty' }, 'moderate_content')).toBe(false)
+  })
+
+  it('gives students no permissions', () => {
+    expect(hasPermission({ role: 'student' }, 'verify_resources')).toBe(false)
+    expect(hasPermission({}, 'verify_resources')).toBe(false)
+  })
+
+  it('gives admins every permission', () => {
+    expect(hasPermission({ role: 'admin' }, 'manage_roles')).toBe(true)
+    expect(hasPermission({ role: 'admin' }, 'manage_achievements')).toBe(true)
+  })
+
+  it('denies signed-out users', () => {
+    expect(hasPermission(null, 'verify_resources')).toBe(false)
+  })
+})
@@ -1,4 +1,6 @@
 import { config } from '@/shared/config'
+import type { UserRole } from '@/types'
+import type { Permission } from '../types'
 
 /**
  * Validates if an email is a valid institutional email
@@ -45,18 +47,42 @@ export function formatUserDisplayName(user: { full_name?: string; email?: string
   return 'Unknown User'
 }
 
+/**
+ * Permissions granted to each role. Admins implicitly hold every permission.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  student: [],
+  faculty: ['verify_resources'],
+  moderator: ['verify_resources', 'moderate_content', 'manage_tags'],
+  admin: ['verify_resources', 'moderate_content', 'manage_tags', 'manage_roles', 'view_monitoring', 'manage_achievements']
+}
+
+/**
+ * Gets a user's role, defaulting to student for profiles without one
+ */
+export function getUserRole(user: { role?: string } | null | undefined): UserRole {
+  const role = user?.role as UserRole | undefined
+  return role && role in ROLE_PERMISSIONS ? role : 'student'
+}
+
+/**
+ * Checks if user has one of the given roles
+ */
+export function hasRole(user: { role?: string } | null | undefined, roles: UserRole[]): boolean {
+  if (!user) return false
+  return roles.includes(getUserRole(user))
+}
+
 /**
  * Checks if user has required permissions
  */
-export function hasPermission(user: any, permission: string): boolean {
-  // Basic permission checking - can be extended based on requirements
+export function hasPermission(user: any, permission: Permission): boolean {
   if (!user) return false
 
   // Admin users have all permissions
   if (user.role === 'admin') return true
 
-  // Add more permission logic as needed
-  return false
+  return ROLE_PERMISSIONS[getUserRole(user)].includes(permission)
 }
 
 /**
@@ -5,11 +5,14 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { X, Trophy, Star, Sparkles } from 'lucide-react'
-import { Achievement } from '@/lib/services/gamification'
+import { AchievementDisplay } from '@/lib/services/gamification'
 import { useAchievementNotifications } from '@/features/gamification/hooks'
+import { useLiveNotifications } from '@/hooks/use-notifications'
+import { isQuietNotification } from '@/lib/services/notification-service'
+import type { Notification } from '@/types'
 
 interface AchievementNotificationProps {
-  achievement: Achievement
+  achievement: AchievementDisplay
   onDismiss: () => void
   autoHide?: boolean
   duration?: number
@@ -126,9 +129,31 @@ export function AchievementNotification({
   )
 }
 
-// Global achievement notification system
+function achievementFromNotification(notification: Notification): AchievementDisplay {
+  const { data } = notification
+
+  return {
+    id: data.achievement_id || notification.id,
+    title: data.achievement || notification.title,
+    description: data.description || notification.message || '',
+    icon: data.icon || '🏆',
+    points: data.points || 0,
+    category: data.category || 'milestone',
+    rarity: data.rarity || 'common'
+  }
+}
+
+// Global achievement notification system. Pops up as soon as an achievement
+// notification arrives on the live notification channel, unless it arrives
+// during quiet hours or the user moved achievements to email.
 export function AchievementNotificationSystem() {
-  const { newAchievements, showNotification, dismissNotification } = useAchievementNotifications()
+  const { newAchievements, showNotification, showAchievement, dismissNotification } = useAchievementNotifications()
+
+  useLiveNotifications((notification) => {
+    if (notification.type === 'achievement' && !isQuietNotification(notification)) {
+      showAchievement(achievementFromNotification(notification))
+    }
+  })
 
   if (!showNotification || newAchievements.length === 0) {
     return null
@@ -157,7 +182,7 @@ export function AchievementNotificationSystem() {
 export function useAchievementToast() {
   const { showAchievement } = useAchievementNotifications()
 
-  const showAchievementToast = (achievement: Achievement) => {
+  const showAchievementToast = (achievement: AchievementDisplay) => {
     showAchievement(achievement)
   }
 
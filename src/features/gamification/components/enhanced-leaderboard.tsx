@@ -6,8 +6,8 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Trophy, Medal, Award, TrendingUp, Users, Calendar } from 'lucide-react'
-import { useGamification } from '@/features/gamification/hooks'
+import { Trophy, Medal, Award, TrendingUp, Users, Calendar, History } from 'lucide-react'
+import { useGamification, useLeaderboardSeasons } from '@/features/gamification/hooks'
 import { LeaderboardScope } from '@/lib/services/gamification'
 
 interface EnhancedLeaderboardProps {
@@ -22,6 +22,7 @@ export function EnhancedLeaderboard({
   compact = false 
 }: EnhancedLeaderboardProps) {
   const { leaderboard, userRank, loading, refreshLeaderboard } = useGamification()
+  const { archivedSeasons, currentSeason } = useLeaderboardSeasons()
   const [scope, setScope] = useState<LeaderboardScope>(initialScope)
   const [selectedDepartment, setSelectedDepartment] = useState<string>('')
 
@@ -33,6 +34,8 @@ export function EnhancedLeaderboard({
     setScope(prev => ({ ...prev, ...newScope }))
   }
 
+  const selectedSeason = archivedSeasons.find(season => season.id === scope.season)
+
   const getBadgeColor = (level: string) => {
     switch (level) {
       case 'Master': return 'bg-purple-500 text-white'
@@ -52,6 +55,8 @@ export function EnhancedLeaderboard({
     }
   }
 
+  const seasonAwardIcons = ['🥇', '🥈', '🥉']
+
   if (loading) {
     return (
       <Card>
@@ -85,6 +90,11 @@ export function EnhancedLeaderboard({
         <CardTitle className="flex items-center gap-2">
           <Trophy className="h-5 w-5" />
           Leaderboard
+          {selectedSeason && (
+            <span className="text-sm font-normal text-gray-500">
+              {selectedSeason.name} · Final standings
+            </span>
+          )}
           {userRank && (
             <Badge variant="outline" className="ml-auto">
               Your Rank: #{userRank}
@@ -107,18 +117,40 @@ export function EnhancedLeaderboard({
               </TabsList>
             </Tabs>
 
-            <Select value={scope.timeframe} onValueChange={(value) => handleScopeChange({ timeframe: value as any })}>
-              <SelectTrigger className="w-40">
-                <Calendar className="h-4 w-4 mr-2" />
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="daily">Today</SelectItem>
-                <SelectItem value="weekly">This Week</SelectItem>
-                <SelectItem value="monthly">This Month</SelectItem>
-                <SelectItem value="all_time">All Time</SelectItem>
-              </SelectContent>
-            </Select>
+            {archivedSeasons.length > 0 && (
+              <Select
+                value={scope.season || 'live'}
+                onValueChange={(value) => handleScopeChange({ season: value === 'live' ? undefined : value })}
+              >
+                <SelectTrigger className="w-56">
+                  <History className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="live">
+                    {currentSeason ? `${currentSeason.name} (live)` : 'Live'}
+                  </SelectItem>
+                  {archivedSeasons.map(season => (
+                    <SelectItem key={season.id} value={season.id}>{season.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {!scope.season && (
+              <Select value={scope.timeframe} onValueChange={(value) => handleScopeChange({ timeframe: value as any })}>
+                <SelectTrigger className="w-40">
+                  <Calendar className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Today</SelectItem>
+                  <SelectItem value="weekly">This Week</SelectItem>
+                  <SelectItem value="monthly">This Month</SelectItem>
+                  <SelectItem value="all_time">All Time</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
 
             {scope.type === 'department' && (
               <Select value={selectedDepartment} onValueChange={(value) => {
@@ -171,6 +203,11 @@ export function EnhancedLeaderboard({
                     <Badge className={getBadgeColor(entry.badge_level)}>
                       {entry.badge_level}
                     </Badge>
+                    {entry.season_award && (
+                      <Badge variant="outline" title={`Season badge: #${entry.season_award} in ${entry.department}`}>
+                        {seasonAwardIcons[entry.season_award - 1]} #{entry.season_award} in department
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex items-center gap-4 text-sm text-gray-600">
                     <span>{entry.department}</span>
@@ -194,7 +231,7 @@ export function EnhancedLeaderboard({
                   <div className="font-bold text-lg text-gray-900">
                     {entry.total_points.toLocaleString()}
                   </div>
-                  <div className="text-xs text-gray-500">points</div>
+                  <div className="text-xs text-gray-500">{scope.season ? 'season points' : 'points'}</div>
                 </div>
               </div>
             ))}
@@ -1 +1 @@
-export { useGamification, usePointsAward, useAchievementNotifications } from './use-gamification'
\ No newline at end of file
+export { useGamification, usePointsAward, useAchievementNotifications, useLeaderboardSeasons } from './use-gamification'
\ No newline at end of file
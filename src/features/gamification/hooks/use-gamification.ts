@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from '@/features/auth'
-import { Achievement, UserProgress, LeaderboardEntry, LeaderboardScope, UserAction } from '@/lib/services/gamification'
+import { Achievement, AchievementDisplay, UserProgress, LeaderboardEntry, LeaderboardScope, LeaderboardSeason, UserAction } from '@/lib/services/gamification'
 
 interface UseGamificationReturn {
   userProgress: UserProgress | null
@@ -57,6 +57,7 @@ export function useGamification(): UseGamificationReturn {
       if (scope?.department) params.append('department', scope.department)
       if (scope?.course) params.append('course', scope.course)
       if (scope?.timeframe) params.append('timeframe', scope.timeframe)
+      if (scope?.season) params.append('season', scope.season)
 
       const response = await fetch(`/api/gamification/leaderboard?${params}`)
       if (!response.ok) {
@@ -156,6 +157,27 @@ export function useGamification(): UseGamificationReturn {
   }
 }
 
+// Hook for the leaderboard seasons, newest first
+export function useLeaderboardSeasons() {
+  const { user } = useAuth()
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([])
+
+  useEffect(() => {
+    if (!user) return
+
+    fetch('/api/gamification/seasons')
+      .then(response => response.ok ? response.json() : { seasons: [] })
+      .then(data => setSeasons(data.seasons || []))
+      .catch(err => console.error('Error fetching leaderboard seasons:', err))
+  }, [user])
+
+  return {
+    seasons,
+    archivedSeasons: seasons.filter(season => season.status === 'archived'),
+    currentSeason: seasons.find(season => season.status === 'active') || null
+  }
+}
+
 // Hook for awarding points for specific actions
 export function usePointsAward() {
   const { awardPoints } = useGamification()
@@ -210,10 +232,10 @@ export function usePointsAward() {
 
 // Hook for achievement notifications
 export function useAchievementNotifications() {
-  const [newAchievements, setNewAchievements] = useState<Achievement[]>([])
+  const [newAchievements, setNewAchievements] = useState<AchievementDisplay[]>([])
   const [showNotification, setShowNotification] = useState(false)
 
-  const showAchievement = useCallback((achievement: Achievement) => {
+  const showAchievement = useCallback((achievement: AchievementDisplay) => {
     setNewAchievements(prev => [...prev, achievement])
     setShowNotification(true)
   }, [])
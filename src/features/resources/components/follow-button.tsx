@@ -0,0 +1,57 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/lib/hooks/use-toast'
+import { BellPlus, BellRing, Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface FollowButtonProps {
+  following: boolean
+  onToggle: () => Promise<boolean>
+  // What is being followed, e.g. "CS301" or "#algorithms"
+  label: string
+  size?: 'sm' | 'default'
+  className?: string
+}
+
+export function FollowButton({ following, onToggle, label, size = 'sm', className }: FollowButtonProps) {
+  const { toast } = useToast()
+  const [pending, setPending] = useState(false)
+
+  const handleClick = async () => {
+    setPending(true)
+    const success = await onToggle()
+    setPending(false)
+
+    if (!success) {
+      toast({
+        title: following ? 'Could not unfollow' : 'Could not follow',
+        description: 'Please try again.',
+        variant: 'destructive',
+      })
+    } else if (!following) {
+      toast({
+        title: `Following ${label}`,
+        description: "You'll be notified when new resources are posted.",
+      })
+    }
+  }
+
+  const Icon = pending ? Loader2 : following ? BellRing : BellPlus
+
+  return (
+    <Button
+      type="button"
+      variant={following ? 'secondary' : 'outline'}
+      size={size}
+      onClick={handleClick}
+      disabled={pending}
+      aria-pressed={following}
+      className={cn('gap-1', className)}
+    >
+      <Icon className={cn('h-4 w-4', pending && 'animate-spin')} aria-hidden="true" />
+      <span className="truncate">{following ? `Following ${label}` : `Follow ${label}`}</span>
+    </Button>
+  )
+}
@@ -1,12 +1,16 @@
 // Resource management feature components
+export { FollowButton } from './follow-button'
 export { ResourceCard } from './resource-card'
 export { ResourceCardWithTracking } from './resource-card-with-tracking'
+export { ResourceComments } from './resource-comments'
 export { ResourceFilters } from './resource-filters'
 export { ResourceGrid } from './resource-grid'
 export { ResourceViewer } from './resource-viewer'
+export { ReportResourceDialog } from './report-resource-dialog'
 export { TagFilters } from './tag-filters'
 export { TagNavigation } from './tag-navigation'
 export { UploadForm } from './upload-form'
+export { VerifyResourceDialog } from './verify-resource-dialog'
 
 // Preview components
 export * from './previews'
\ No newline at end of file
@@ -1,10 +1,12 @@
 'use client'
 
-import { FileText, Download, Eye, Calendar, HardDrive, FileType } from 'lucide-react'
+import { useState } from 'react'
+import { FileText, Download, Eye, Calendar, HardDrive, FileType, Presentation, Type, ListTree } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { LinkPreview, Resource } from '@/types'
 import { BasePreview } from './base-preview'
+import { ResourceThumbnail } from './resource-thumbnail'
 import { cn } from '@/lib/utils'
 
 interface DocumentPreviewProps {
@@ -56,9 +58,18 @@ export function DocumentPreview({
       ) : (
         <div className="border rounded-lg p-4 space-y-3">
           <div className="flex items-start gap-3">
-            <div className="text-2xl">
-              {getFileIcon(fileInfo.type)}
-            </div>
+            {resource ? (
+              <ResourceThumbnail
+                resource={resource}
+                className="h-20 w-16 flex-shrink-0 rounded border"
+                sizes="64px"
+                fallback={<div className="text-2xl">{getFileIcon(fileInfo.type)}</div>}
+              />
+            ) : (
+              <div className="text-2xl">
+                {getFileIcon(fileInfo.type)}
+              </div>
+            )}
             <div className="flex-1 min-w-0">
               <h3 className="font-semibold text-sm leading-tight line-clamp-2">
                 {title}
@@ -131,6 +142,20 @@ function DocumentContent({
               <span>{fileInfo.pages} pages</span>
             </div>
           )}
+
+          {fileInfo.slides && (
+            <div className="flex items-center gap-1">
+              <Presentation className="h-3 w-3" />
+              <span>{fileInfo.slides} slides</span>
+            </div>
+          )}
+
+          {fileInfo.words && (
+            <div className="flex items-center gap-1">
+              <Type className="h-3 w-3" />
+              <span>{fileInfo.words.toLocaleString()} words</span>
+            </div>
+          )}
           
           {resource?.created_at && (
             <div className="flex items-center gap-1 col-span-2">
@@ -141,6 +166,15 @@ function DocumentContent({
         </div>
       )}
 
+      {/* Slide titles or headings */}
+      {fileInfo.outline.length > 0 && (
+        <DocumentOutline
+          entries={fileInfo.outline}
+          label={fileInfo.slides ? 'Slides' : 'Contents'}
+          numbered={!!fileInfo.slides}
+        />
+      )}
+
       {/* Document stats */}
       {resource && (
         <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
@@ -206,23 +240,84 @@ function DocumentContent({
   )
 }
 
+const COLLAPSED_OUTLINE_ENTRIES = 6
+
+interface DocumentOutlineProps {
+  entries: OutlineEntry[]
+  label: string
+  numbered: boolean
+}
+
+function DocumentOutline({ entries, label, numbered }: DocumentOutlineProps) {
+  const [expanded, setExpanded] = useState(false)
+  const visibleEntries = expanded ? entries : entries.slice(0, COLLAPSED_OUTLINE_ENTRIES)
+  const hiddenCount = entries.length - visibleEntries.length
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 text-xs font-medium">
+        <ListTree className="h-3 w-3" />
+        <span>{label}</span>
+      </div>
+      <ol className="space-y-0.5 text-xs text-muted-foreground">
+        {visibleEntries.map((entry, index) => (
+          <li
+            key={index}
+            className="flex gap-2 truncate"
+            style={{ paddingLeft: `${(entry.level - 1) * 0.75}rem` }}
+          >
+            {numbered && <span className="w-5 shrink-0 text-right tabular-nums">{index + 1}.</span>}
+            <span className="truncate" title={entry.text}>{entry.text}</span>
+          </li>
+        ))}
+      </ol>
+      {entries.length > COLLAPSED_OUTLINE_ENTRIES && (
+        <button
+          type="button"
+          className="text-xs text-primary hover:underline"
+          onClick={() => setExpanded(!expanded)}
+        >
+          {expanded ? 'Show less' : `Show ${hiddenCount} more`}
+        </button>
+      )}
+    </div>
+  )
+}
+
+interface OutlineEntry {
+  level: number
+  text: string
+}
+
 interface FileInfo {
   type: string
   format?: string
   size?: number
   pages?: number
+  slides?: number
+  words?: number
+  outline: OutlineEntry[]
   textPreview?: string
 }
 
 function getFileInfo(resource?: Resource, metadata?: Record<string, any>): FileInfo {
   const fileType = resource?.file_type || metadata?.fileType || 'document'
   const extension = resource?.file_name?.split('.').pop()?.toLowerCase() || ''
-  
+  const content = resource?.content_metadata || {}
+
+  // Decks are outlined by slide title, documents by heading
+  const outline: OutlineEntry[] = content.slideTitles?.length
+    ? content.slideTitles.map((text) => ({ level: 1, text }))
+    : content.headings || []
+
   return {
     type: getFileTypeFromExtension(extension) || 'document',
     format: extension.toUpperCase(),
     size: resource?.file_size || metadata?.size,
-    pages: metadata?.pages || metadata?.pageCount,
+    pages: metadata?.pages || metadata?.pageCount || content.pageCount,
+    slides: content.slideCount,
+    words: content.wordCount,
+    outline,
     textPreview: metadata?.textPreview || metadata?.excerpt
   }
 }
@@ -4,4 +4,5 @@ export { CodePreview } from './code-preview'
 export { LinkPreviewComponent as LinkPreview } from './link-preview'
 export { DocumentPreview } from './document-preview'
 export { BasePreview } from './base-preview'
-export { PreviewError } from './preview-error'
\ No newline at end of file
+export { PreviewError } from './preview-error'
+export { ResourceThumbnail } from './resource-thumbnail'
\ No newline at end of file
@@ -0,0 +1,47 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import Image from 'next/image'
+import { Resource } from '@/types'
+import { cn } from '@/lib/utils'
+
+interface ResourceThumbnailProps {
+  resource: Pick<Resource, 'title' | 'content_metadata'>
+  className?: string
+  sizes?: string
+  fallback?: ReactNode
+  children?: ReactNode
+}
+
+/**
+ * Rendered first page or video frame generated on upload. Shows the fallback
+ * when the resource has no thumbnail or the image fails to load.
+ */
+export function ResourceThumbnail({
+  resource,
+  className,
+  sizes = '(max-width: 768px) 100vw, 33vw',
+  fallback = null,
+  children
+}: ResourceThumbnailProps) {
+  const [failed, setFailed] = useState(false)
+  const thumbnailUrl = resource.content_metadata?.thumbnailUrl
+
+  if (!thumbnailUrl || failed) {
+    return <>{fallback}</>
+  }
+
+  return (
+    <div className={cn('relative overflow-hidden bg-muted', className)}>
+      <Image
+        src={thumbnailUrl}
+        alt={`Preview of ${resource.title}`}
+        fill
+        sizes={sizes}
+        className="object-cover object-top"
+        onError={() => setFailed(true)}
+      />
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { useToast } from '@/lib/hooks/use-toast'
+import { useAuth } from '@/features/auth'
+import { REPORT_REASONS } from '@/shared/constants'
+import type { Resource, ReportReason } from '@/types'
+import { Flag, Loader2 } from 'lucide-react'
+
+interface ReportResourceDialogProps {
+  resource: Pick<Resource, 'id' | 'title'>
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function ReportResourceDialog({ resource, isOpen, onClose }: ReportResourceDialogProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [reason, setReason] = useState<ReportReason | ''>('')
+  const [details, setDetails] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleClose = () => {
+    setReason('')
+    setDetails('')
+    onClose()
+  }
+
+  const handleSubmit = async () => {
+    if (!user) {
+      toast({
+        title: 'Authentication required',
+        description: 'Please sign in to report resources',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    if (!reason) return
+
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/resources/${resource.id}/report`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason, details }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit report')
+      }
+
+      toast({
+        title: 'Report submitted',
+        description: 'Thanks for letting us know. A moderator will review this resource.',
+      })
+      handleClose()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit report',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-red-500" />
+            Report Resource
+          </DialogTitle>
+          <DialogDescription>
+            Tell the moderators what is wrong with &quot;{resource.title}&quot;.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-reason">Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+              <SelectTrigger id="report-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_REASONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="e.g. this is the CS302 syllabus, not CS301"
+              maxLength={1000}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={loading || !reason}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -17,7 +17,8 @@ import { formatBytes, formatDate, cn } from '@/lib/utils'
 import { useToast } from '@/lib/hooks/use-toast'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/features/auth'
-import { ResourcePreview } from './previews'
+import { ResourcePreview, ResourceThumbnail } from './previews'
+import { submitVote } from '../utils/vote-helpers'
 import { BackwardCompatibilityService } from '@/shared/utils/backward-compatibility'
 import { ErrorHandlingService } from '@/lib/services/error-handling'
 import { ResourceErrorBoundary } from '@/components/common/error-boundary'
@@ -124,49 +125,10 @@ export function ResourceCard({
     setVoting(true)
 
     try {
-      // If user already voted the same way, remove the vote
-      if (userVote === voteType) {
-        const { error } = await supabase
-          .from('votes')
-          .delete()
-          .match({ user_id: user.id, resource_id: resource.id })
-
-        if (!error) {
-          setUserVote(null)
-          if (voteType === 'upvote') {
-            setUpvotes(upvotes - 1)
-          } else {
-            setDownvotes(downvotes - 1)
-          }
-        }
-      } else {
-        // Insert or update vote
-        const { error } = await supabase
-          .from('votes')
-          .upsert({
-            user_id: user.id,
-            resource_id: resource.id,
-            vote_type: voteType,
-          })
-
-        if (!error) {
-          // Update counts
-          if (userVote === 'upvote') {
-            setUpvotes(upvotes - 1)
-            setDownvotes(downvotes + 1)
-          } else if (userVote === 'downvote') {
-            setDownvotes(downvotes - 1)
-            setUpvotes(upvotes + 1)
-          } else {
-            if (voteType === 'upvote') {
-              setUpvotes(upvotes + 1)
-            } else {
-              setDownvotes(downvotes + 1)
-            }
-          }
-          setUserVote(voteType)
-        }
-      }
+      const result = await submitVote(resource.id, voteType)
+      setUserVote(result.user_vote)
+      setUpvotes(result.upvotes)
+      setDownvotes(result.downvotes)
 
       if (onVote) onVote()
     } catch (error) {
@@ -270,6 +232,22 @@ export function ResourceCard({
           </div>
         )}
 
+        {/* Uploaded PDFs and videos show their generated thumbnail instead */}
+        {showPreview && !isCompact && !resource.link_preview && !resource.external_url && (
+          <ResourceThumbnail resource={resource} className="h-40 w-full rounded-t-lg">
+            <div className="absolute top-2 left-2">
+              <Badge
+                variant="secondary"
+                className="flex items-center gap-1"
+                aria-label={`Resource type: ${getResourceTypeLabel(resource.resource_type)}`}
+              >
+                <span aria-hidden="true">{getResourceIcon(resource.resource_type, resource.file_type)}</span>
+                {getResourceTypeLabel(resource.resource_type)}
+              </Badge>
+            </div>
+          </ResourceThumbnail>
+        )}
+
         <CardHeader className={cn("pb-3", isCompact && "pb-2 pt-4")}>
           <div className="flex items-start justify-between gap-3">
             <div className="space-y-2 flex-1 min-w-0">
@@ -289,8 +267,9 @@ export function ResourceCard({
                 {resource.is_verified && (
                   <Badge
                     variant="secondary"
-                    className="flex items-center gap-1"
-                    aria-label="Verified resource"
+                    className="flex items-center gap-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                    aria-label={resource.verifier ? `Verified by ${resource.verifier.full_name}` : 'Verified resource'}
+                    title={resource.verifier ? `Verified by ${resource.verifier.full_name}` : undefined}
                   >
                     <CheckCircle className="h-3 w-3" aria-hidden="true" />
                     Verified
@@ -333,6 +312,13 @@ export function ResourceCard({
             </p>
           )}
 
+          {showHighlighting && resource.content_snippet && (
+            <p className="text-xs text-muted-foreground border-l-2 border-primary/30 pl-2 line-clamp-3">
+              <span className="font-medium text-foreground">In file: </span>
+              {highlightText(resource.content_snippet)}
+            </p>
+          )}
+
           {/* Enhanced Metadata Section */}
           {showMetadata && (
             <div id={metadataId} className="space-y-3">
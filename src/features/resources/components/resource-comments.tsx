@@ -0,0 +1,281 @@
+'use client'
+
+import { useState } from 'react'
+import { Resource, ResourceComment } from '@/types'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Skeleton } from '@/components/ui/skeleton'
+import { MessageSquare, Reply, Pencil, Trash2, User } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { useToast } from '@/lib/hooks/use-toast'
+import { useAuth } from '@/features/auth'
+import { useResourceComments } from '../hooks/use-resource-comments'
+
+// Deeper replies are still shown, just without further indentation
+const MAX_THREAD_DEPTH = 3
+
+interface ResourceCommentsProps {
+  resource: Pick<Resource, 'id' | 'title' | 'uploaded_by'>
+  className?: string
+}
+
+export function ResourceComments({ resource, className }: ResourceCommentsProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const { threads, commentCount, loading, addComment, editComment, deleteComment } = useResourceComments(resource)
+  const [newComment, setNewComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async () => {
+    if (!newComment.trim()) return
+
+    setSubmitting(true)
+    const success = await addComment(newComment)
+    setSubmitting(false)
+
+    if (success) {
+      setNewComment('')
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to post comment. Please try again.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-primary" />
+          Discussion
+          <span className="text-sm font-normal text-muted-foreground">({commentCount})</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {user ? (
+          <div className="space-y-2">
+            <Textarea
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              placeholder="Ask a question or share a tip about this resource..."
+              maxLength={2000}
+              aria-label="Write a comment"
+            />
+            <div className="flex justify-end">
+              <Button onClick={handleSubmit} disabled={submitting || !newComment.trim()}>
+                {submitting ? 'Posting...' : 'Post Comment'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Sign in to join the discussion.</p>
+        )}
+
+        {loading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="space-y-2">
+                <Skeleton className="h-4 w-32" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ))}
+          </div>
+        ) : threads.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No comments yet. Be the first to start the discussion.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {threads.map(comment => (
+              <CommentThread
+                key={comment.id}
+                comment={comment}
+                depth={0}
+                currentUserId={user?.id}
+                onReply={addComment}
+                onEdit={editComment}
+                onDelete={deleteComment}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface CommentThreadProps {
+  comment: ResourceComment
+  depth: number
+  currentUserId?: string
+  onReply: (content: string, parentId?: string) => Promise<boolean>
+  onEdit: (commentId: string, content: string) => Promise<boolean>
+  onDelete: (commentId: string) => Promise<boolean>
+}
+
+function CommentThread({ comment, depth, currentUserId, onReply, onEdit, onDelete }: CommentThreadProps) {
+  const { toast } = useToast()
+  const [replying, setReplying] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const isAuthor = currentUserId === comment.user_id
+
+  const getBadgeColor = (level?: string) => {
+    switch (level) {
+      case 'Master': return 'bg-purple-500 text-white'
+      case 'Expert': return 'bg-blue-500 text-white'
+      case 'Advanced': return 'bg-green-500 text-white'
+      case 'Intermediate': return 'bg-yellow-500 text-black'
+      default: return 'bg-gray-500 text-white'
+    }
+  }
+
+  const handleSave = async () => {
+    if (!draft.trim()) return
+
+    setBusy(true)
+    const success = editing
+      ? await onEdit(comment.id, draft)
+      : await onReply(draft, comment.id)
+    setBusy(false)
+
+    if (success) {
+      setDraft('')
+      setEditing(false)
+      setReplying(false)
+    } else {
+      toast({
+        title: 'Error',
+        description: editing ? 'Failed to update comment.' : 'Failed to post reply.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleDelete = async () => {
+    setBusy(true)
+    const success = await onDelete(comment.id)
+    setBusy(false)
+
+    if (!success) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete comment.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <div className={cn(depth > 0 && depth <= MAX_THREAD_DEPTH && 'ml-6 pl-4 border-l')}>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 flex-wrap text-sm">
+          <User className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">
+            {comment.is_deleted ? 'Deleted comment' : comment.author?.full_name || 'Anonymous'}
+          </span>
+          {!comment.is_deleted && comment.author?.badge_level && (
+            <Badge className={cn('text-xs', getBadgeColor(comment.author.badge_level))}>
+              {comment.author.badge_level}
+            </Badge>
+          )}
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+            {comment.is_edited && !comment.is_deleted && ' (edited)'}
+          </span>
+        </div>
+
+        {!editing && (
+          <p className={cn('text-sm whitespace-pre-wrap', comment.is_deleted && 'italic text-muted-foreground')}>
+            {comment.is_deleted ? 'This comment was deleted.' : comment.content}
+          </p>
+        )}
+
+        {!comment.is_deleted && currentUserId && !editing && !replying && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => { setDraft(''); setReplying(true) }}
+            >
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+            {isAuthor && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => { setDraft(comment.content); setEditing(true) }}
+                >
+                  <Pencil className="h-3 w-3 mr-1" />
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs hover:text-red-600"
+                  onClick={handleDelete}
+                  disabled={busy}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Delete
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {(editing || replying) && (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={editing ? 'Edit your comment...' : 'Write a reply...'}
+              maxLength={2000}
+              aria-label={editing ? 'Edit comment' : 'Write a reply'}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => { setEditing(false); setReplying(false) }}
+              >
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={busy || !draft.trim()}>
+                {editing ? 'Save' : 'Reply'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {comment.replies && comment.replies.length > 0 && (
+        <div className="mt-4 space-y-4">
+          {comment.replies.map(reply => (
+            <CommentThread
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              currentUserId={currentUserId}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -12,8 +12,12 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Search, Filter, X } from 'lucide-react'
+import { useAuth } from '@/features/auth'
 import { getDepartments } from '@/features/auth/utils'
+import { normalizeFollowTarget } from '@/lib/services/follow-service'
+import { useFollows } from '../hooks/use-follows'
 import { TagFilters } from './tag-filters'
+import { FollowButton } from './follow-button'
 
 interface ResourceFiltersProps {
   onFilterChange: (filters: any) => void
@@ -22,14 +26,18 @@ interface ResourceFiltersProps {
 export function ResourceFilters({ onFilterChange }: ResourceFiltersProps) {
   const [search, setSearch] = useState('')
   const [department, setDepartment] = useState('')
+  const [course, setCourse] = useState('')
   const [semester, setSemester] = useState('')
   const [sortBy, setSortBy] = useState('recent')
   const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const { user } = useAuth()
+  const { isFollowing, toggleFollow } = useFollows()
 
   const handleFilterChange = () => {
     onFilterChange({
       search,
       department,
+      course,
       semester,
       sortBy,
       tags: selectedTags,
@@ -39,18 +47,27 @@ export function ResourceFilters({ onFilterChange }: ResourceFiltersProps) {
   const clearFilters = () => {
     setSearch('')
     setDepartment('')
+    setCourse('')
     setSemester('')
     setSortBy('recent')
     setSelectedTags([])
     onFilterChange({
       search: '',
       department: '',
+      course: '',
       semester: '',
       sortBy: 'recent',
       tags: [],
     })
   }
 
+  // Selected filters can be followed to be told about new matching resources
+  const followTargets = [
+    { type: 'department' as const, value: department, label: department },
+    { type: 'course' as const, value: course, label: normalizeFollowTarget('course', course) || '' },
+    { type: 'semester' as const, value: semester, label: `Semester ${semester}` },
+  ].filter(target => normalizeFollowTarget(target.type, target.value))
+
   return (
     <Card className="p-4">
       <div className="space-y-4">
@@ -112,6 +129,27 @@ export function ResourceFilters({ onFilterChange }: ResourceFiltersProps) {
             </SelectContent>
           </Select>
         </div>
+
+        <Input
+          type="text"
+          placeholder="Course code, e.g. CS301"
+          value={course}
+          onChange={(e) => setCourse(e.target.value)}
+          onKeyUp={(e) => e.key === 'Enter' && handleFilterChange()}
+        />
+
+        {user && followTargets.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {followTargets.map(({ type, value, label }) => (
+              <FollowButton
+                key={type}
+                label={label}
+                following={isFollowing(type, value)}
+                onToggle={() => toggleFollow(type, value)}
+              />
+            ))}
+          </div>
+        )}
         
         <Select
           value={sortBy}
@@ -140,6 +178,7 @@ export function ResourceFilters({ onFilterChange }: ResourceFiltersProps) {
             onFilterChange({
               search,
               department,
+              course,
               semester,
               sortBy,
               tags,
@@ -10,13 +10,16 @@ import {
   Calendar, User, Clock, BarChart3, Tag, 
   ExternalLink, FileText, Play, Code, 
   Link as LinkIcon, Newspaper, CheckCircle,
-  ArrowLeft, Bookmark, Flag
+  ArrowLeft, Bookmark, Flag, ShieldCheck
 } from 'lucide-react'
 import { formatBytes, formatDate, cn } from '@/lib/utils'
 import { useToast } from '@/lib/hooks/use-toast'
-import { createClient } from '@/lib/supabase/client'
-import { useAuth } from '@/features/auth'
+import { useAuth, hasPermission } from '@/features/auth'
 import { ResourcePreview } from './previews'
+import { submitVote } from '../utils/vote-helpers'
+import { ResourceComments } from './resource-comments'
+import { ReportResourceDialog } from './report-resource-dialog'
+import { VerifyResourceDialog } from './verify-resource-dialog'
 import Link from 'next/link'
 
 interface ResourceViewerProps {
@@ -27,14 +30,25 @@ interface ResourceViewerProps {
 }
 
 export function ResourceViewer({ resource, onBack, onVote, className }: ResourceViewerProps) {
-  const { user } = useAuth()
+  const { user, profile } = useAuth()
   const { toast } = useToast()
   const [voting, setVoting] = useState(false)
   const [userVote, setUserVote] = useState(resource.user_vote)
   const [upvotes, setUpvotes] = useState(resource.upvotes)
   const [downvotes, setDownvotes] = useState(resource.downvotes)
   const [views, setViews] = useState(resource.views)
-  const supabase = createClient()
+  const [reportOpen, setReportOpen] = useState(false)
+  const [verifyOpen, setVerifyOpen] = useState(false)
+  const [verification, setVerification] = useState<
+    Pick<Resource, 'is_verified' | 'verified_at' | 'verification_note' | 'verifier'>
+  >({
+    is_verified: resource.is_verified,
+    verified_at: resource.verified_at,
+    verification_note: resource.verification_note,
+    verifier: resource.verifier
+  })
+
+  const canVerify = hasPermission(profile, 'verify_resources') && user?.id !== resource.uploaded_by
 
   const getResourceIcon = (resourceType: string) => {
     switch (resourceType) {
@@ -78,31 +92,11 @@ export function ResourceViewer({ resource, onBack, onVote, className }: Resource
     setVoting(true)
     
     try {
-      if (userVote === voteType) {
-        await supabase.from('votes').delete().match({ user_id: user.id, resource_id: resource.id })
-        setUserVote(null)
-        if (voteType === 'upvote') setUpvotes(upvotes - 1)
-        else setDownvotes(downvotes - 1)
-      } else {
-        await supabase.from('votes').upsert({
-          user_id: user.id,
-          resource_id: resource.id,
-          vote_type: voteType,
-        })
-        
-        if (userVote === 'upvote') {
-          setUpvotes(upvotes - 1)
-          setDownvotes(downvotes + 1)
-        } else if (userVote === 'downvote') {
-          setDownvotes(downvotes - 1)
-          setUpvotes(upvotes + 1)
-        } else {
-          if (voteType === 'upvote') setUpvotes(upvotes + 1)
-          else setDownvotes(downvotes + 1)
-        }
-        setUserVote(voteType)
-      }
-      
+      const result = await submitVote(resource.id, voteType)
+      setUserVote(result.user_vote)
+      setUpvotes(result.upvotes)
+      setDownvotes(result.downvotes)
+
       if (onVote) onVote()
     } catch (error) {
       toast({
@@ -115,6 +109,28 @@ export function ResourceViewer({ resource, onBack, onVote, className }: Resource
     }
   }
 
+  const handleRemoveVerification = async () => {
+    try {
+      const response = await fetch(`/api/resources/${resource.id}/verify`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove verification')
+      }
+
+      setVerification({ is_verified: false, verified_at: null, verification_note: null, verifier: undefined })
+      toast({
+        title: 'Verification removed',
+        description: `"${resource.title}" is no longer marked as verified.`,
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove verification',
+        variant: 'destructive',
+      })
+    }
+  }
+
   const handleDownload = async () => {
     const url = resource.external_url || resource.file_url
     if (url) window.open(url, '_blank')
@@ -168,7 +184,7 @@ export function ResourceViewer({ resource, onBack, onVote, className }: Resource
           <div className="flex items-start justify-between gap-4">
             <div className="space-y-3 flex-1">
               <div className="flex items-center gap-2 flex-wrap">
-                {resource.is_verified && (
+                {verification.is_verified && (
                   <Badge variant="secondary" className="flex items-center gap-1">
                     <CheckCircle className="h-3 w-3" />
                     Verified
@@ -208,11 +224,55 @@ export function ResourceViewer({ resource, onBack, onVote, className }: Resource
               <Button variant="outline" size="sm" onClick={handleShare}>
                 <Share2 className="h-4 w-4" />
               </Button>
+              {canVerify && !verification.is_verified && (
+                <Button variant="outline" size="sm" onClick={() => setVerifyOpen(true)}>
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Verify
+                </Button>
+              )}
+              {user && user.id !== resource.uploaded_by && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setReportOpen(true)}
+                  aria-label="Report resource"
+                  className="hover:text-red-500"
+                >
+                  <Flag className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
 
         <CardContent className="space-y-6">
+          {verification.is_verified && (
+            <div className="flex items-start justify-between gap-4 rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-900 dark:bg-blue-950/40">
+              <div className="flex items-start gap-3">
+                <ShieldCheck className="h-5 w-5 text-blue-600 mt-0.5 shrink-0" />
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">
+                    Verified by {verification.verifier?.full_name || 'faculty'}
+                    {verification.verifier?.department && (
+                      <span className="text-muted-foreground font-normal"> · {verification.verifier.department}</span>
+                    )}
+                  </p>
+                  {verification.verification_note && (
+                    <p className="text-muted-foreground italic">&ldquo;{verification.verification_note}&rdquo;</p>
+                  )}
+                  {verification.verified_at && (
+                    <p className="text-xs text-muted-foreground">{formatDate(verification.verified_at)}</p>
+                  )}
+                </div>
+              </div>
+              {canVerify && (
+                <Button variant="ghost" size="sm" onClick={handleRemoveVerification}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          )}
+
           {resource.description && (
             <div>
               <h3 className="font-semibold mb-2">Description</h3>
@@ -329,6 +389,23 @@ export function ResourceViewer({ resource, onBack, onVote, className }: Resource
           </div>
         </CardContent>
       </Card>
+
+      <ResourceComments resource={resource} />
+
+      <ReportResourceDialog
+        resource={resource}
+        isOpen={reportOpen}
+        onClose={() => setReportOpen(false)}
+      />
+
+      {canVerify && (
+        <VerifyResourceDialog
+          resource={resource}
+          isOpen={verifyOpen}
+          onClose={() => setVerifyOpen(false)}
+          onVerified={(verified) => setVerification(verified)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
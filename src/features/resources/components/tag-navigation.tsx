@@ -9,6 +9,9 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { TagCloud } from '@/components/ui/tag-cloud'
 import { TagFilters } from './tag-filters'
 import { ResourceGrid } from './resource-grid'
+import { FollowButton } from './follow-button'
+import { useFollows } from '../hooks/use-follows'
+import { useAuth } from '@/features/auth'
 import { ArrowLeft, Tag as TagIcon, TrendingUp, Users, BookOpen } from 'lucide-react'
 import { TagManagementService, type TagAnalytics } from '@/lib/services/tag-management'
 import { DatabaseUtils } from '@/lib/database-utils'
@@ -24,6 +27,8 @@ export function TagNavigation({ department, course }: TagNavigationProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
   const selectedTag = searchParams.get('tag')
+  const { user } = useAuth()
+  const { isFollowing, toggleFollow } = useFollows()
   
   const [tagAnalytics, setTagAnalytics] = useState<TagAnalytics[]>([])
   const [resources, setResources] = useState<Resource[]>([])
@@ -172,13 +177,23 @@ export function TagNavigation({ department, course }: TagNavigationProps) {
         </div>
         
         {selectedTags.length > 0 && (
-          <Button
-            variant="outline"
-            onClick={() => setSelectedTags([])}
-          >
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Clear Selection
-          </Button>
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            {user && selectedTags.map((tag) => (
+              <FollowButton
+                key={tag}
+                label={`#${tag}`}
+                following={isFollowing('tag', tag)}
+                onToggle={() => toggleFollow('tag', tag)}
+              />
+            ))}
+            <Button
+              variant="outline"
+              onClick={() => setSelectedTags([])}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Clear Selection
+            </Button>
+          </div>
         )}
       </div>
 
@@ -17,14 +17,16 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Upload, FileIcon, X, Loader2, Link, Video, Code, FileText, Tag, Plus } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
+import { Upload, FileIcon, X, Loader2, Link, Video, Code, FileText, Tag, Plus, Pause, Play } from 'lucide-react'
 import { useToast } from '@/lib/hooks/use-toast'
-import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/features/auth'
 import { useTags } from '@/lib/hooks/use-tags'
 import { formatBytes } from '@/lib/utils'
 import { getDepartments } from '@/features/auth/utils'
 import { detectResourceType, validateFileUpload, validateURL } from '@/features/resources/utils'
+import { useChunkedUpload } from '@/features/resources/hooks'
+import { config } from '@/shared/config'
 import { LinkPreviewService } from '@/lib/services/link-preview'
 import { MetadataExtractionService, type FileMetadata } from '@/lib/services/metadata-extraction'
 import { UploadValidationService, type ValidationResult } from '@/lib/services/upload-validation'
@@ -70,7 +72,7 @@ export function UploadForm() {
   const [metadataLoading, setMetadataLoading] = useState(false)
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
   const [tags, setTags] = useState<string[]>([])
-  const supabase = createClient()
+  const chunkedUpload = useChunkedUpload()
 
   const form = useForm<UploadFormData>({
     resolver: zodResolver(uploadSchema),
@@ -353,31 +355,30 @@ export function UploadForm() {
       }
 
       if (uploadMode === 'file' && file) {
-        // Upload file to storage
-        const fileExt = file.name.split('.').pop()
-        const fileName = `${user?.id}-${Date.now()}.${fileExt}`
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from('resources')
-          .upload(fileName, file)
-
-        if (uploadError) {
-          throw uploadError
+        // Files go through the upload API so metadata and document text are
+        // extracted server-side, whichever client uploaded them
+        const uploadMetadata = {
+          ...resourceData,
+          content_metadata: fileMetadata || {},
         }
 
-        // Get public URL
-        const { data: { publicUrl } } = supabase.storage
-          .from('resources')
-          .getPublicUrl(fileName)
-
-        resourceData = {
-          ...resourceData,
-          file_url: publicUrl,
-          file_name: file.name,
-          file_size: file.size,
-          file_type: file.type,
-          content_metadata: fileMetadata ? JSON.stringify(fileMetadata) : null,
-          estimated_time: fileMetadata?.estimatedTime || null,
-          difficulty_level: fileMetadata ? MetadataExtractionService.estimateDifficulty(fileMetadata, detectedResourceType || 'document') : null,
+        if (file.size > config.upload.chunkSize) {
+          // Large files are sent in resumable chunks
+          await chunkedUpload.upload(file, uploadMetadata)
+        } else {
+          const formData = new FormData()
+          formData.append('file', file)
+          formData.append('metadata', JSON.stringify(uploadMetadata))
+
+          const response = await fetch('/api/resources/upload', {
+            method: 'POST',
+            body: formData,
+          })
+
+          const result = await response.json()
+          if (!response.ok) {
+            throw new Error(result.error || 'Failed to upload file')
+          }
         }
       } else if (uploadMode === 'url') {
         resourceData = {
@@ -385,45 +386,28 @@ export function UploadForm() {
           external_url: data.external_url,
           link_preview: linkPreview ? JSON.stringify(linkPreview) : null,
         }
-      }
-
-      // Ensure backward compatibility - set default values for new fields
-      const compatibleResourceData = {
-        ...resourceData,
-        resource_type: resourceData.resource_type || 'document',
-        tags: resourceData.tags || [],
-        views: 0,
-        content_metadata: resourceData.content_metadata || {},
-      }
 
-      // Create resource record
-      const { data: resource, error: dbError } = await supabase
-        .from('resources')
-        .insert(compatibleResourceData)
-        .select()
-        .single()
-
-      if (dbError) {
-        throw dbError
-      }
+        // Ensure backward compatibility - set default values for new fields
+        const compatibleResourceData = {
+          ...resourceData,
+          resource_type: resourceData.resource_type || 'document',
+          tags: resourceData.tags || [],
+          views: 0,
+          content_metadata: resourceData.content_metadata || {},
+        }
 
-      // Add contribution points
-      await supabase
-        .from('contributions')
-        .insert({
-          user_id: user?.id,
-          type: 'upload',
-          resource_id: resource.id,
-          points_earned: 10, // 10 points for upload
+        // Create resource record; the API raises the upload event
+        const response = await fetch('/api/resources', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(compatibleResourceData),
         })
 
-      // Update user points
-      await supabase
-        .from('users')
-        .update({
-          points: (profile?.points || 0) + 10
-        })
-        .eq('id', user?.id)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to create resource')
+        }
+      }
 
       toast({
         title: 'Success!',
@@ -432,6 +416,14 @@ export function UploadForm() {
 
       router.push('/resources')
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        toast({
+          title: 'Upload cancelled',
+          description: 'Nothing was saved. You can start the upload again at any time.',
+        })
+        return
+      }
+
       ErrorHandlingService.handleUploadError(error, {
         component: 'UploadForm',
         action: 'upload',
@@ -944,6 +936,53 @@ export function UploadForm() {
               </div>
             )}
 
+            {/* Chunked upload progress */}
+            {chunkedUpload.progress && chunkedUpload.status !== 'idle' && chunkedUpload.status !== 'completed' && (
+              <div className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">
+                    {chunkedUpload.status === 'paused' && 'Upload paused'}
+                    {chunkedUpload.status === 'uploading' && (chunkedUpload.resumed ? 'Resuming upload...' : 'Uploading...')}
+                    {chunkedUpload.status === 'completing' && 'Processing file...'}
+                    {chunkedUpload.status === 'error' && 'Upload interrupted'}
+                  </span>
+                  <span className="text-muted-foreground">{chunkedUpload.progress.percentage}%</span>
+                </div>
+                <Progress value={chunkedUpload.progress.percentage} className="h-2" />
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    Chunk {chunkedUpload.progress.uploadedChunks} of {chunkedUpload.progress.totalChunks}
+                    {' · '}
+                    {formatBytes(chunkedUpload.progress.uploadedBytes)} of {formatBytes(chunkedUpload.progress.totalBytes)}
+                  </span>
+                  {(chunkedUpload.status === 'uploading' || chunkedUpload.status === 'paused') && (
+                    <div className="flex gap-2">
+                      {chunkedUpload.status === 'paused' ? (
+                        <Button type="button" size="sm" variant="outline" onClick={chunkedUpload.resume}>
+                          <Play className="h-3 w-3 mr-1" />
+                          Resume
+                        </Button>
+                      ) : (
+                        <Button type="button" size="sm" variant="outline" onClick={chunkedUpload.pause}>
+                          <Pause className="h-3 w-3 mr-1" />
+                          Pause
+                        </Button>
+                      )}
+                      <Button type="button" size="sm" variant="ghost" onClick={chunkedUpload.cancel}>
+                        <X className="h-3 w-3 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {chunkedUpload.status === 'error' && (
+                  <p className="text-xs text-muted-foreground">
+                    Chunks received so far are kept for 24 hours. Submit again with the same file to continue.
+                  </p>
+                )}
+              </div>
+            )}
+
             <Button
               type="submit"
               className="w-full"
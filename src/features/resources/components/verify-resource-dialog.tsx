@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from '@/components/ui/dialog'
+import { useToast } from '@/lib/hooks/use-toast'
+import type { Resource } from '@/types'
+import { CheckCircle, Loader2 } from 'lucide-react'
+
+type VerificationFields = Pick<Resource, 'is_verified' | 'verified_by' | 'verified_at' | 'verification_note' | 'verifier'>
+
+interface VerifyResourceDialogProps {
+  resource: Pick<Resource, 'id' | 'title' | 'uploaded_by'>
+  isOpen: boolean
+  onClose: () => void
+  onVerified?: (verification: VerificationFields) => void
+}
+
+export function VerifyResourceDialog({ resource, isOpen, onClose, onVerified }: VerifyResourceDialogProps) {
+  const { toast } = useToast()
+  const [note, setNote] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleClose = () => {
+    setNote('')
+    onClose()
+  }
+
+  const handleSubmit = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/resources/${resource.id}/verify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ note }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to verify resource')
+      }
+
+      toast({
+        title: 'Resource verified',
+        description: `"${resource.title}" now shows your endorsement.`,
+      })
+      onVerified?.(data.resource)
+      handleClose()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to verify resource',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-blue-500" />
+            Verify Resource
+          </DialogTitle>
+          <DialogDescription>
+            Confirm that &quot;{resource.title}&quot; is accurate and suitable for its course.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="verification-note">Endorsement note (optional)</Label>
+          <Textarea
+            id="verification-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. covers everything on the midterm syllabus"
+            maxLength={500}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Verify
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,7 @@
 // Resource management feature hooks
 // Note: Most resource-related hooks are actually shared across features
-// and remain in src/hooks for now. This file is reserved for 
-// resource-specific hooks that may be created in the future.
-// Placeholder export to make this a valid module
-export {}
+// and remain in src/hooks for now. Resource-specific hooks live here.
+export { useResourceComments } from './use-resource-comments'
+export { useChunkedUpload } from './use-chunked-upload'
+export type { ChunkedUploadStatus, ChunkedUploadProgress } from './use-chunked-upload'
+export { useFollows } from './use-follows'
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { useState, useRef, useCallback } from 'react'
+import type { Resource, UploadSession } from '@/types'
+
+const MAX_CHUNK_ATTEMPTS = 3
+const RETRY_DELAY = 1000 // ms, doubled after each failed attempt
+
+export type ChunkedUploadStatus = 'idle' | 'uploading' | 'paused' | 'completing' | 'completed' | 'error'
+
+export interface ChunkedUploadProgress {
+  uploadedChunks: number
+  totalChunks: number
+  uploadedBytes: number
+  totalBytes: number
+  percentage: number
+}
+
+interface UseChunkedUploadReturn {
+  status: ChunkedUploadStatus
+  progress: ChunkedUploadProgress | null
+  resumed: boolean
+  error: string | null
+  upload: (file: File, metadata: Record<string, any>) => Promise<Resource>
+  pause: () => void
+  resume: () => void
+  cancel: () => Promise<void>
+}
+
+function getProgress(session: UploadSession, received: number[]): ChunkedUploadProgress {
+  // Every chunk is full size except the last one
+  const lastChunk = session.total_chunks - 1
+  const uploadedBytes = received.reduce((total, index) =>
+    total + (index === lastChunk ? session.file_size - session.chunk_size * lastChunk : session.chunk_size),
+    0
+  )
+
+  return {
+    uploadedChunks: received.length,
+    totalChunks: session.total_chunks,
+    uploadedBytes,
+    totalBytes: session.file_size,
+    percentage: Math.round((uploadedBytes / session.file_size) * 100)
+  }
+}
+
+/**
+ * Sends a file through the resumable upload API one chunk at a time. Chunks
+ * the server already has are skipped, so picking the same file again after a
+ * reload or a dropped connection continues where it stopped.
+ */
+export function useChunkedUpload(): UseChunkedUploadReturn {
+  const [status, setStatus] = useState<ChunkedUploadStatus>('idle')
+  const [progress, setProgress] = useState<ChunkedUploadProgress | null>(null)
+  const [resumed, setResumed] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const sessionRef = useRef<UploadSession | null>(null)
+  const pausedRef = useRef(false)
+  const cancelledRef = useRef(false)
+  const abortRef = useRef<AbortController | null>(null)
+  const resumeRef = useRef<(() => void) | null>(null)
+
+  // Resolves immediately unless paused, in which case it waits for resume()
+  const waitWhilePaused = useCallback(() => new Promise<void>((resolve) => {
+    if (!pausedRef.current) {
+      resolve()
+      return
+    }
+    resumeRef.current = resolve
+  }), [])
+
+  const sendChunk = useCallback(async (session: UploadSession, file: File, chunkIndex: number): Promise<number[]> => {
+    const start = chunkIndex * session.chunk_size
+    const chunk = file.slice(start, Math.min(start + session.chunk_size, session.file_size))
+
+    for (let attempt = 1; ; attempt++) {
+      await waitWhilePaused()
+      if (cancelledRef.current) {
+        throw new DOMException('Upload cancelled', 'AbortError')
+      }
+
+      const controller = new AbortController()
+      abortRef.current = controller
+
+      try {
+        const response = await fetch(`/api/resources/upload/sessions/${session.id}/chunks/${chunkIndex}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/octet-stream',
+          },
+          body: chunk,
+          signal: controller.signal,
+        })
+
+        const data = await response.json()
+        if (!response.ok) {
+          // Client errors (bad size, finished session) will not fix themselves
+          if (response.status < 500) {
+            throw Object.assign(new Error(data.error || 'Chunk rejected'), { permanent: true })
+          }
+          throw new Error(data.error || 'Failed to upload chunk')
+        }
+
+        return data.received_chunks
+      } catch (err) {
+        // Pausing aborts the chunk in flight; it is sent again on resume
+        if (controller.signal.aborted && !cancelledRef.current) {
+          attempt--
+          continue
+        }
+        if (cancelledRef.current || (err as { permanent?: boolean }).permanent || attempt >= MAX_CHUNK_ATTEMPTS) {
+          throw err
+        }
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * 2 ** (attempt - 1)))
+      } finally {
+        abortRef.current = null
+      }
+    }
+  }, [waitWhilePaused])
+
+  const upload = useCallback(async (file: File, metadata: Record<string, any>): Promise<Resource> => {
+    pausedRef.current = false
+    cancelledRef.current = false
+    setError(null)
+    setStatus('uploading')
+
+    try {
+      const initResponse = await fetch('/api/resources/upload/sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          file_name: file.name,
+          file_size: file.size,
+          file_type: file.type,
+          fingerprint: `${file.name}:${file.size}:${file.lastModified}`,
+          metadata,
+        }),
+      })
+
+      const initData = await initResponse.json()
+      if (!initResponse.ok) {
+        throw new Error(initData.error || 'Failed to start upload')
+      }
+
+      const session: UploadSession = initData.session
+      sessionRef.current = session
+      setResumed(initData.resumed)
+
+      let received: number[] = session.received_chunks
+      setProgress(getProgress(session, received))
+
+      for (let chunkIndex = 0; chunkIndex < session.total_chunks; chunkIndex++) {
+        if (received.includes(chunkIndex)) continue
+
+        received = await sendChunk(session, file, chunkIndex)
+        setProgress(getProgress(session, received))
+      }
+
+      await waitWhilePaused()
+      if (cancelledRef.current) {
+        throw new DOMException('Upload cancelled', 'AbortError')
+      }
+      setStatus('completing')
+
+      const completeResponse = await fetch(`/api/resources/upload/sessions/${session.id}/complete`, {
+        method: 'POST',
+      })
+
+      const completeData = await completeResponse.json()
+      if (!completeResponse.ok) {
+        throw new Error(completeData.error || 'Failed to finish upload')
+      }
+
+      setStatus('completed')
+      return completeData.resource
+    } catch (err) {
+      if (!cancelledRef.current) {
+        setStatus('error')
+        setError(err instanceof Error ? err.message : 'Upload failed')
+      }
+      throw err
+    } finally {
+      sessionRef.current = null
+    }
+  }, [sendChunk, waitWhilePaused])
+
+  const pause = useCallback(() => {
+    if (pausedRef.current) return
+
+    pausedRef.current = true
+    abortRef.current?.abort()
+    setStatus('paused')
+  }, [])
+
+  const resume = useCallback(() => {
+    if (!pausedRef.current) return
+
+    pausedRef.current = false
+    setStatus('uploading')
+    resumeRef.current?.()
+    resumeRef.current = null
+  }, [])
+
+  const cancel = useCallback(async () => {
+    const session = sessionRef.current
+    cancelledRef.current = true
+    abortRef.current?.abort()
+
+    // Wake a paused upload so it can see the cancellation and stop
+    pausedRef.current = false
+    resumeRef.current?.()
+    resumeRef.current = null
+
+    setProgress(null)
+    setStatus('idle')
+
+    if (session) {
+      await fetch(`/api/resources/upload/sessions/${session.id}`, { method: 'DELETE' }).catch(() => {})
+    }
+  }, [])
+
+  return {
+    status,
+    progress,
+    resumed,
+    error,
+    upload,
+    pause,
+    resume,
+    cancel
+  }
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/features/auth'
+import { followService, normalizeFollowTarget } from '@/lib/services/follow-service'
+import type { Follow, FollowTargetType } from '@/types'
+
+/**
+ * The signed-in user's follows, with helpers to follow and unfollow.
+ */
+export function useFollows() {
+  const { user } = useAuth()
+  const [follows, setFollows] = useState<Follow[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadFollows = useCallback(async () => {
+    if (!user) {
+      setFollows([])
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    setFollows(await followService.getFollows())
+    setLoading(false)
+  }, [user])
+
+  useEffect(() => {
+    loadFollows()
+  }, [loadFollows])
+
+  const getFollow = useCallback((targetType: FollowTargetType, targetValue: string) => {
+    const normalized = normalizeFollowTarget(targetType, targetValue)
+    return follows.find(follow =>
+      follow.target_type === targetType && follow.target_value === normalized
+    )
+  }, [follows])
+
+  const isFollowing = useCallback((targetType: FollowTargetType, targetValue: string) => {
+    return !!getFollow(targetType, targetValue)
+  }, [getFollow])
+
+  const follow = useCallback(async (targetType: FollowTargetType, targetValue: string) => {
+    const created = await followService.follow(targetType, targetValue)
+    if (!created) return false
+
+    setFollows(prev => [created, ...prev.filter(existing => existing.id !== created.id)])
+    return true
+  }, [])
+
+  const unfollow = useCallback(async (followId: string) => {
+    const success = await followService.unfollow(followId)
+    if (success) {
+      setFollows(prev => prev.filter(existing => existing.id !== followId))
+    }
+    return success
+  }, [])
+
+  const toggleFollow = useCallback(async (targetType: FollowTargetType, targetValue: string) => {
+    const existing = getFollow(targetType, targetValue)
+    return existing ? unfollow(existing.id) : follow(targetType, targetValue)
+  }, [getFollow, follow, unfollow])
+
+  return {
+    follows,
+    loading,
+    isFollowing,
+    follow,
+    unfollow,
+    toggleFollow,
+    refetch: loadFollows
+  }
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useAuth } from '@/features/auth'
+import { buildCommentTree, countVisibleComments } from '../utils/comment-helpers'
+import type { Resource, ResourceComment } from '@/types'
+
+interface UseResourceCommentsReturn {
+  comments: ResourceComment[]
+  threads: ResourceComment[]
+  commentCount: number
+  loading: boolean
+  error: string | null
+  addComment: (content: string, parentId?: string) => Promise<boolean>
+  editComment: (commentId: string, content: string) => Promise<boolean>
+  deleteComment: (commentId: string) => Promise<boolean>
+  refresh: () => Promise<void>
+}
+
+export function useResourceComments(resource: Pick<Resource, 'id'>): UseResourceCommentsReturn {
+  const { user } = useAuth()
+  const [comments, setComments] = useState<ResourceComment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchComments = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/resources/${resource.id}/comments`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch comments')
+      }
+
+      const data = await response.json()
+      setComments(data.comments)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [resource.id])
+
+  const addComment = useCallback(async (content: string, parentId?: string): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      const response = await fetch(`/api/resources/${resource.id}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content, parent_id: parentId }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to post comment')
+      }
+
+      const data = await response.json()
+      setComments(prev => [...prev, data.comment])
+
+      return true
+    } catch (err) {
+      console.error('Error posting comment:', err)
+      setError(err instanceof Error ? err.message : 'Failed to post comment')
+      return false
+    }
+  }, [user, resource.id])
+
+  const editComment = useCallback(async (commentId: string, content: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/resources/${resource.id}/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update comment')
+      }
+
+      const data = await response.json()
+      setComments(prev => prev.map(c => c.id === commentId ? data.comment : c))
+      return true
+    } catch (err) {
+      console.error('Error updating comment:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update comment')
+      return false
+    }
+  }, [resource.id])
+
+  const deleteComment = useCallback(async (commentId: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/resources/${resource.id}/comments/${commentId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete comment')
+      }
+
+      setComments(prev => prev.map(c =>
+        c.id === commentId ? { ...c, content: '', is_deleted: true } : c
+      ))
+      return true
+    } catch (err) {
+      console.error('Error deleting comment:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete comment')
+      return false
+    }
+  }, [resource.id])
+
+  useEffect(() => {
+    fetchComments()
+  }, [fetchComments])
+
+  const threads = useMemo(() => buildCommentTree(comments), [comments])
+
+  return {
+    comments,
+    threads,
+    commentCount: countVisibleComments(comments),
+    loading,
+    error,
+    addComment,
+    editComment,
+    deleteComment,
+    refresh: fetchComments
+  }
+}
@@ -12,6 +12,7 @@ export type {
   URLPatternMatch,
   LinkPreview as LinkPreviewType,
   Vote,
+  ResourceComment,
   Contribution,
   CollectionResource,
   UserInteraction,
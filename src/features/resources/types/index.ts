@@ -8,6 +8,7 @@ export type {
   URLPatternMatch,
   LinkPreview,
   Vote,
+  ResourceComment,
   Contribution,
   CollectionResource,
   UserInteraction,
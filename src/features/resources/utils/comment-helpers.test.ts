@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import type { ResourceComment } from '@/types'
+import { buildCommentTree, countVisibleComments } from './comment-helpers'
+
+function comment(id: string, parentId: string | null = null, overrides: Partial<ResourceComment> = {}): ResourceComment {
+  return {
+    id,
+    resource_id: 'resource-1',
+    user_id: 'user-1',
+    parent_id: parentId,
+    content: `Comment ${id}`,
+    is_edited: false,
+    is_deleted: false,
+    created_at: '2024-10-21T10:00:00Z',
+    updated_at: '2024-10-21T10:00:00Z',
+    ...overrides
+  }
+}
+
+describe('buildCommentTree', () => {
+  it('nests replies under their parents in order', () => {
+    const tree = buildCommentTree([
+      comment('a'),
+      comment('b'),
+      comment('a1', 'a'),
+      comment('a1x', 'a1'),
+      comment('a2', 'a')
+    ])
+
+    expect(tree.map(c => c.id)).toEqual(['a', 'b'])
+    expect(tree[0].replies!.map(c => c.id)).toEqual(['a1', 'a2'])
+    expect(tree[0].replies![0].replies!.map(c => c.id)).toEqual(['a1x'])
+    expect(tree[1].replies).toEqual([])
+  })
+
+  it('promotes replies whose parent is missing to the top level', () => {
+    const tree = buildCommentTree([comment('a'), comment('orphan', 'gone')])
+
+    expect(tree.map(c => c.id)).toEqual(['a', 'orphan'])
+  })
+
+  it('does not modify the comments it was given', () => {
+    const comments = [comment('a'), comment('a1', 'a')]
+
+    buildCommentTree(comments)
+
+    expect(comments[0].replies).toBeUndefined()
+  })
+})
+
+describe('countVisibleComments', () => {
+  it('leaves out deleted comments', () => {
+    expect(countVisibleComments([
+      comment('a'),
+      comment('b', null, { is_deleted: true }),
+      comment('c', 'a')
+    ])).toBe(2)
+  })
+})
@@ -0,0 +1,33 @@
+import type { ResourceComment } from '@/types'
+
+/**
+ * Build a nested comment tree from the flat, chronologically ordered list
+ * returned by the comments API. Replies whose parent is missing are promoted
+ * to the top level so they are never hidden.
+ */
+export function buildCommentTree(comments: ResourceComment[]): ResourceComment[] {
+  const byId = new Map<string, ResourceComment>()
+  const roots: ResourceComment[] = []
+
+  comments.forEach(comment => {
+    byId.set(comment.id, { ...comment, replies: [] })
+  })
+
+  byId.forEach(comment => {
+    const parent = comment.parent_id ? byId.get(comment.parent_id) : undefined
+    if (parent) {
+      parent.replies!.push(comment)
+    } else {
+      roots.push(comment)
+    }
+  })
+
+  return roots
+}
+
+/**
+ * Count comments that are still visible (not deleted)
+ */
+export function countVisibleComments(comments: ResourceComment[]): number {
+  return comments.filter(comment => !comment.is_deleted).length
+}
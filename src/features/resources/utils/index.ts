@@ -1,3 +1,5 @@
 // Resource management feature utilities
 export * from './resource-type-detection'
-export * from './interaction-helpers'
\ No newline at end of file
+export * from './interaction-helpers'
+export * from './comment-helpers'
+export * from './vote-helpers'
\ No newline at end of file
@@ -0,0 +1,23 @@
+import type { Vote, VoteResult } from '@/types'
+
+/**
+ * Cast, switch or withdraw the current user's vote. Voting the same way
+ * twice removes the vote. Resolves with the server's tallies, which callers
+ * should display instead of adjusting counts locally.
+ */
+export async function submitVote(resourceId: string, voteType: Vote['vote_type']): Promise<VoteResult> {
+  const response = await fetch(`/api/resources/${resourceId}/vote`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ vote_type: voteType }),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to vote')
+  }
+
+  return data
+}
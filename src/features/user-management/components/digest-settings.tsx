@@ -0,0 +1,234 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DIGEST_SECTIONS, isValidTimeZone } from '@/lib/services/digest-schedule'
+import type { DigestFrequency, DigestSection, DigestSettings as DigestSettingsValue } from '@/types'
+import { CalendarClock } from 'lucide-react'
+
+interface DigestSettingsProps {
+  settings: DigestSettingsValue
+  onUpdate: (settings: DigestSettingsValue) => Promise<boolean>
+  // The digest is switched off in the notification preferences
+  emailDigestEnabled: boolean
+  disabled?: boolean
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+function formatHour(hour: number) {
+  const suffix = hour < 12 ? 'AM' : 'PM'
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`
+}
+
+export function DigestSettings({ settings, onUpdate, emailDigestEnabled, disabled }: DigestSettingsProps) {
+  const [localSettings, setLocalSettings] = useState(settings)
+  const [saving, setSaving] = useState(false)
+
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  const timeZoneValid = isValidTimeZone(localSettings.timezone)
+  const inactive = disabled || !emailDigestEnabled
+
+  const update = <K extends keyof DigestSettingsValue>(key: K, value: DigestSettingsValue[K]) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      [key]: value
+    }))
+  }
+
+  const toggleSection = (section: DigestSection, checked: boolean) => {
+    update('sections', checked
+      ? DIGEST_SECTIONS.map(s => s.id).filter(id => id === section || localSettings.sections.includes(id))
+      : localSettings.sections.filter(id => id !== section))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    const success = await onUpdate(localSettings)
+    setSaving(false)
+
+    if (!success) {
+      // Reset to original settings on failure
+      setLocalSettings(settings)
+    }
+  }
+
+  const hasChanges = JSON.stringify(localSettings) !== JSON.stringify(settings)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Email Digest Schedule
+        </CardTitle>
+        <CardDescription>
+          {emailDigestEnabled
+            ? 'Choose how often your digest arrives, when, and what it covers.'
+            : 'Turn on Email Digest above to schedule your digest.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select
+              value={localSettings.frequency}
+              onValueChange={(value) => update('frequency', value as DigestFrequency)}
+              disabled={inactive}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {localSettings.frequency === 'weekly' && (
+            <div className="space-y-2">
+              <Label>Day</Label>
+              <Select
+                value={localSettings.day_of_week.toString()}
+                onValueChange={(value) => update('day_of_week', parseInt(value, 10))}
+                disabled={inactive}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={index.toString()}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {localSettings.frequency === 'monthly' && (
+            <div className="space-y-2">
+              <Label>Day of the month</Label>
+              <Select
+                value={localSettings.day_of_month.toString()}
+                onValueChange={(value) => update('day_of_month', parseInt(value, 10))}
+                disabled={inactive}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 28 }, (_, i) => i + 1).map((day) => (
+                    <SelectItem key={day} value={day.toString()}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Send after</Label>
+            <Select
+              value={localSettings.send_hour.toString()}
+              onValueChange={(value) => update('send_hour', parseInt(value, 10))}
+              disabled={inactive}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <SelectItem key={hour} value={hour.toString()}>{formatHour(hour)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="digest_timezone">Timezone</Label>
+            <div className="flex gap-2">
+              <Input
+                id="digest_timezone"
+                value={localSettings.timezone}
+                onChange={(e) => update('timezone', e.target.value)}
+                disabled={inactive}
+                aria-invalid={!timeZoneValid}
+              />
+              {browserTimeZone && browserTimeZone !== localSettings.timezone && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => update('timezone', browserTimeZone)}
+                  disabled={inactive}
+                >
+                  Use {browserTimeZone}
+                </Button>
+              )}
+            </div>
+            {!timeZoneValid && (
+              <p className="text-sm text-destructive">Enter a timezone such as Asia/Kolkata.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <Label>Sections</Label>
+          {DIGEST_SECTIONS.map((section) => (
+            <div key={section.id} className="space-y-1">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id={`digest_${section.id}`}
+                  checked={localSettings.sections.includes(section.id)}
+                  onCheckedChange={(checked) => toggleSection(section.id, checked as boolean)}
+                  disabled={inactive}
+                />
+                <Label htmlFor={`digest_${section.id}`} className="text-sm font-medium">
+                  {section.label}
+                </Label>
+              </div>
+              <p className="text-sm text-muted-foreground ml-7">{section.description}</p>
+            </div>
+          ))}
+          {localSettings.sections.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              With no sections selected, no digest will be sent.
+            </p>
+          )}
+        </div>
+
+        {hasChanges && (
+          <div className="flex justify-end pt-4 border-t">
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setLocalSettings(settings)}
+                disabled={disabled || saving}
+              >
+                Reset
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={inactive || saving || !timeZoneValid}
+              >
+                {saving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
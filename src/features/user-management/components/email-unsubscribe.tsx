@@ -0,0 +1,105 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { config } from '@/shared/config'
+import { Loader2, MailCheck, MailX, AlertCircle } from 'lucide-react'
+
+type UnsubscribeState = 'pending' | 'unsubscribed' | 'resubscribed' | 'error'
+
+interface EmailUnsubscribeProps {
+  token: string
+}
+
+/**
+ * Landing page for the unsubscribe link in digest emails. Unsubscribes as
+ * soon as it loads, with a way to undo it. Doing this client-side keeps link
+ * scanners that only fetch the page from unsubscribing people.
+ */
+export function EmailUnsubscribe({ token }: EmailUnsubscribeProps) {
+  const [state, setState] = useState<UnsubscribeState>('pending')
+  const [saving, setSaving] = useState(false)
+
+  const updateSubscription = useCallback(async (resubscribe: boolean) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/notifications/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, resubscribe }),
+      })
+      setState(response.ok ? (resubscribe ? 'resubscribed' : 'unsubscribed') : 'error')
+    } catch {
+      setState('error')
+    } finally {
+      setSaving(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    if (!token) {
+      setState('error')
+      return
+    }
+    updateSubscription(false)
+  }, [token, updateSubscription])
+
+  if (state === 'pending') {
+    return (
+      <div className="flex items-center text-muted-foreground">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        Updating your email preferences...
+      </div>
+    )
+  }
+
+  const content = {
+    unsubscribed: {
+      icon: MailX,
+      title: 'You have been unsubscribed',
+      description: `You will no longer receive the ${config.branding.appName} weekly digest.`,
+    },
+    resubscribed: {
+      icon: MailCheck,
+      title: 'You are subscribed again',
+      description: `The ${config.branding.appName} weekly digest will be back in your inbox next week.`,
+    },
+    error: {
+      icon: AlertCircle,
+      title: 'This link is not valid',
+      description: 'You can turn the weekly digest off from your notification settings instead.',
+    },
+  }[state]
+
+  const Icon = content.icon
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Icon className="h-6 w-6 text-primary" />
+          <CardTitle>{content.title}</CardTitle>
+        </div>
+        <CardDescription>{content.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {state === 'unsubscribed' && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => updateSubscription(true)}
+            disabled={saving}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Resubscribe
+          </Button>
+        )}
+        <Link href="/">
+          <Button className="w-full">Go to {config.branding.appName}</Button>
+        </Link>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useFollows } from '@/features/resources/hooks'
+import { getDepartments } from '@/features/auth/utils'
+import { describeFollowTarget } from '@/lib/services/follow-service'
+import { useToast } from '@/lib/hooks/use-toast'
+import type { FollowTargetType } from '@/types'
+import { BellRing, Loader2, Plus, X } from 'lucide-react'
+
+const TARGET_TYPE_LABELS: Record<FollowTargetType, string> = {
+  course: 'Courses',
+  department: 'Departments',
+  semester: 'Semesters',
+  tag: 'Tags',
+  uploader: 'Uploaders',
+}
+
+// Uploaders are followed from their resources, so they cannot be added here
+const ADDABLE_TYPES: { type: FollowTargetType; label: string }[] = [
+  { type: 'course', label: 'Course' },
+  { type: 'department', label: 'Department' },
+  { type: 'semester', label: 'Semester' },
+  { type: 'tag', label: 'Tag' },
+]
+
+export function FollowingSettings() {
+  const { follows, loading, follow, unfollow } = useFollows()
+  const { toast } = useToast()
+  const [targetType, setTargetType] = useState<FollowTargetType>('course')
+  const [targetValue, setTargetValue] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleAdd = async () => {
+    if (!targetValue.trim()) return
+
+    setSaving(true)
+    const success = await follow(targetType, targetValue)
+    setSaving(false)
+
+    if (success) {
+      setTargetValue('')
+    } else {
+      toast({
+        title: 'Could not follow',
+        description: `Check the ${targetType} and try again.`,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleTypeChange = (value: string) => {
+    setTargetType(value as FollowTargetType)
+    setTargetValue('')
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Following
+          </CardTitle>
+          <CardDescription>
+            Get notified and see new resources in your Following feed when they match something you follow.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Select value={targetType} onValueChange={handleTypeChange}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADDABLE_TYPES.map(({ type, label }) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {targetType === 'department' || targetType === 'semester' ? (
+              <Select value={targetValue} onValueChange={setTargetValue}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={targetType === 'department' ? 'Choose a department' : 'Choose a semester'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetType === 'department'
+                    ? getDepartments().map((dept) => (
+                        <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                      ))
+                    : [1, 2, 3, 4, 5, 6, 7, 8].map((sem) => (
+                        <SelectItem key={sem} value={sem.toString()}>Semester {sem}</SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                className="flex-1"
+                placeholder={targetType === 'course' ? 'Course code, e.g. CS301' : 'Tag, e.g. algorithms'}
+                value={targetValue}
+                onChange={(e) => setTargetValue(e.target.value)}
+                onKeyUp={(e) => e.key === 'Enter' && handleAdd()}
+              />
+            )}
+
+            <Button onClick={handleAdd} disabled={saving || !targetValue.trim()}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Follow
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading follows...
+            </div>
+          ) : follows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You are not following anything yet.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {(Object.keys(TARGET_TYPE_LABELS) as FollowTargetType[]).map((type) => {
+                const ofType = follows.filter(f => f.target_type === type)
+                if (ofType.length === 0) return null
+
+                return (
+                  <div key={type} className="space-y-2">
+                    <h4 className="text-sm font-medium">{TARGET_TYPE_LABELS[type]}</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {ofType.map((f) => (
+                        <Badge key={f.id} variant="secondary" className="gap-1 pr-1">
+                          {describeFollowTarget(f)}
+                          <button
+                            type="button"
+                            onClick={() => unfollow(f.id)}
+                            className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                            aria-label={`Unfollow ${describeFollowTarget(f)}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
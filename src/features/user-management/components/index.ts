@@ -1,4 +1,7 @@
 export { UserSettings } from './user-settings'
 export { NotificationSettings } from './notification-settings'
+export { DigestSettings } from './digest-settings'
+export { FollowingSettings } from './following-settings'
+export { EmailUnsubscribe } from './email-unsubscribe'
 export { PrivacySettings } from './privacy-settings'
 export { RecommendationSettings } from './recommendation-settings'
\ No newline at end of file
@@ -4,9 +4,19 @@ import { useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { UserPreferences } from '@/types'
-import { Bell, Mail, Trophy, ThumbsUp } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { NotificationChannel, NotificationType, QuietHours, UserPreferences } from '@/types'
+import { NOTIFICATION_CHANNEL_TYPES, getNotificationChannel } from '@/lib/services/notification-service'
+import { isValidTimeZone } from '@/lib/services/digest-schedule'
+import { Bell, Mail, Moon } from 'lucide-react'
 
 interface NotificationSettingsProps {
   settings: UserPreferences['notification_settings']
@@ -14,17 +24,51 @@ interface NotificationSettingsProps {
   disabled?: boolean
 }
 
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+  timezone: 'UTC',
+}
+
 export function NotificationSettings({ settings, onUpdate, disabled }: NotificationSettingsProps) {
   const [localSettings, setLocalSettings] = useState(settings)
   const [saving, setSaving] = useState(false)
 
-  const handleSettingChange = (key: keyof UserPreferences['notification_settings'], value: boolean) => {
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  const quietHours = localSettings.quiet_hours || { ...DEFAULT_QUIET_HOURS, timezone: browserTimeZone || 'UTC' }
+  const timeZoneValid = isValidTimeZone(quietHours.timezone)
+
+  const handleSettingChange = (key: 'email_digest', value: boolean) => {
     setLocalSettings(prev => ({
       ...prev,
       [key]: value
     }))
   }
 
+  // Keeps the older boolean in step, so anything still reading it agrees
+  const handleChannelChange = (type: NotificationType, channel: NotificationChannel) => {
+    const setting = NOTIFICATION_CHANNEL_TYPES.find(o => o.type === type)?.setting
+    setLocalSettings(prev => ({
+      ...prev,
+      ...(setting ? { [setting]: channel !== 'none' } : {}),
+      channels: {
+        ...prev.channels,
+        [type]: channel
+      }
+    }))
+  }
+
+  const handleQuietHoursChange = <K extends keyof QuietHours>(key: K, value: QuietHours[K]) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      quiet_hours: {
+        ...quietHours,
+        [key]: value
+      }
+    }))
+  }
+
   const handleSave = async () => {
     setSaving(true)
     const success = await onUpdate(localSettings)
@@ -69,74 +113,105 @@ export function NotificationSettings({ settings, onUpdate, disabled }: Notificat
               </div>
             </div>
             <p className="text-sm text-muted-foreground ml-7">
-              Receive weekly email summaries of new resources and activity in your departments.
+              Receive email summaries of new resources and activity, on the schedule you choose below.
             </p>
           </div>
 
-          <div className="space-y-4">
-            <div className="flex items-center space-x-3">
-              <Checkbox
-                id="new_resources"
-                checked={localSettings.new_resources}
-                onCheckedChange={(checked) => 
-                  handleSettingChange('new_resources', checked as boolean)
-                }
-                disabled={disabled}
-              />
-              <div className="flex items-center gap-2">
-                <Bell className="h-4 w-4 text-muted-foreground" />
-                <Label htmlFor="new_resources" className="text-sm font-medium">
-                  New Resources
+          {NOTIFICATION_CHANNEL_TYPES.map((option) => (
+            <div key={option.type} className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor={`channel_${option.type}`} className="text-sm font-medium">
+                  {option.label}
                 </Label>
+                <p className="text-sm text-muted-foreground">{option.description}</p>
               </div>
+              <Select
+                value={getNotificationChannel(localSettings, option.type)}
+                onValueChange={(value) => handleChannelChange(option.type, value as NotificationChannel)}
+                disabled={disabled}
+              >
+                <SelectTrigger id={`channel_${option.type}`} className="w-32 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="in_app">In app</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                  {option.setting && <SelectItem value="none">Off</SelectItem>}
+                </SelectContent>
+              </Select>
             </div>
-            <p className="text-sm text-muted-foreground ml-7">
-              Get notified when new resources are uploaded in your courses and departments.
-            </p>
-          </div>
+          ))}
 
-          <div className="space-y-4">
+          <div className="space-y-4 pt-4 border-t">
             <div className="flex items-center space-x-3">
               <Checkbox
-                id="votes_received"
-                checked={localSettings.votes_received}
+                id="quiet_hours"
+                checked={quietHours.enabled}
                 onCheckedChange={(checked) => 
-                  handleSettingChange('votes_received', checked as boolean)
+                  handleQuietHoursChange('enabled', checked as boolean)
                 }
                 disabled={disabled}
               />
               <div className="flex items-center gap-2">
-                <ThumbsUp className="h-4 w-4 text-muted-foreground" />
-                <Label htmlFor="votes_received" className="text-sm font-medium">
-                  Votes Received
+                <Moon className="h-4 w-4 text-muted-foreground" />
+                <Label htmlFor="quiet_hours" className="text-sm font-medium">
+                  Quiet Hours
                 </Label>
               </div>
             </div>
             <p className="text-sm text-muted-foreground ml-7">
-              Get notified when someone upvotes or downvotes your resources.
+              Notifications arriving in these hours are snoozed until they end, and emails wait until then.
             </p>
-          </div>
 
-          <div className="space-y-4">
-            <div className="flex items-center space-x-3">
-              <Checkbox
-                id="achievements"
-                checked={localSettings.achievements}
-                onCheckedChange={(checked) => 
-                  handleSettingChange('achievements', checked as boolean)
-                }
-                disabled={disabled}
-              />
-              <div className="flex items-center gap-2">
-                <Trophy className="h-4 w-4 text-muted-foreground" />
-                <Label htmlFor="achievements" className="text-sm font-medium">
-                  Achievements
-                </Label>
+            {quietHours.enabled && (
+              <div className="grid gap-4 sm:grid-cols-3 ml-7">
+                <div className="space-y-2">
+                  <Label htmlFor="quiet_hours_start">From</Label>
+                  <Input
+                    id="quiet_hours_start"
+                    type="time"
+                    value={quietHours.start}
+                    onChange={(e) => handleQuietHoursChange('start', e.target.value)}
+                    disabled={disabled}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quiet_hours_end">Until</Label>
+                  <Input
+                    id="quiet_hours_end"
+                    type="time"
+                    value={quietHours.end}
+                    onChange={(e) => handleQuietHoursChange('end', e.target.value)}
+                    disabled={disabled}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quiet_hours_timezone">Timezone</Label>
+                  <Input
+                    id="quiet_hours_timezone"
+                    value={quietHours.timezone}
+                    onChange={(e) => handleQuietHoursChange('timezone', e.target.value)}
+                    disabled={disabled}
+                    aria-invalid={!timeZoneValid}
+                  />
+                  {browserTimeZone && browserTimeZone !== quietHours.timezone && (
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => handleQuietHoursChange('timezone', browserTimeZone)}
+                      disabled={disabled}
+                    >
+                      Use {browserTimeZone}
+                    </Button>
+                  )}
+                </div>
+                {!timeZoneValid && (
+                  <p className="text-sm text-destructive sm:col-span-3">Enter a timezone such as Asia/Kolkata.</p>
+                )}
               </div>
-            </div>
-            <p className="text-sm text-muted-foreground ml-7">
-              Get notified when you earn new badges or reach point milestones.
-            </p>
+            )}
           </div>
 
           {hasChanges && (
@@ -151,7 +226,7 @@ export function NotificationSettings({ settings, onUpdate, disabled }: Notificat
                 </Button>
                 <Button
                   onClick={handleSave}
-                  disabled={disabled || saving}
+                  disabled={disabled || saving || (quietHours.enabled && !timeZoneValid)}
                 >
                   {saving ? 'Saving...' : 'Save Changes'}
                 </Button>
@@ -162,4 +237,4 @@ export function NotificationSettings({ settings, onUpdate, disabled }: Notificat
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -6,8 +6,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Button } from '@/components/ui/button'
 import { usePreferences } from '@/features/user-management/hooks'
 import { NotificationSettings } from './notification-settings'
+import { DigestSettings } from './digest-settings'
 import { RecommendationSettings } from './recommendation-settings'
 import { PrivacySettings } from './privacy-settings'
+import { FollowingSettings } from './following-settings'
+import { normalizeDigestSettings } from '@/lib/services/digest-schedule'
 import { Loader2 } from 'lucide-react'
 
 export function UserSettings() {
@@ -62,13 +65,14 @@ export function UserSettings() {
         <CardHeader>
           <CardTitle>User Settings</CardTitle>
           <CardDescription>
-            Manage your account preferences, notifications, and privacy settings.
+            Manage your account preferences, notifications, follows, and privacy settings.
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="notifications" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="notifications">Notifications</TabsTrigger>
+              <TabsTrigger value="following">Following</TabsTrigger>
               <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
               <TabsTrigger value="privacy">Privacy</TabsTrigger>
             </TabsList>
@@ -87,6 +91,24 @@ export function UserSettings() {
                 }}
                 disabled={saving}
               />
+              <DigestSettings
+                settings={normalizeDigestSettings(preferences.digest_settings)}
+                emailDigestEnabled={preferences.notification_settings.email_digest}
+                onUpdate={async (settings) => {
+                  setSaving(true)
+                  const success = await updatePreferences({
+                    ...preferences,
+                    digest_settings: settings
+                  })
+                  setSaving(false)
+                  return success
+                }}
+                disabled={saving}
+              />
+            </TabsContent>
+            
+            <TabsContent value="following" className="space-y-4">
+              <FollowingSettings />
             </TabsContent>
             
             <TabsContent value="recommendations" className="space-y-4">
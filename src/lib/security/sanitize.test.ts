@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { highlightSearchTerms } from './sanitize'
+
+describe('highlightSearchTerms', () => {
+    it('marks every search word, ignoring case', () => {
+        expect(highlightSearchTerms('Alkene and alkyne reactions', 'alkene REACTIONS', 'hl')).toBe(
+            '<mark class="hl">Alkene</mark> and alkyne <mark class="hl">reactions</mark>'
+        )
+    })
+
+    it('highlights the words of quoted phrases', () => {
+        expect(highlightSearchTerms('the double bond opens', '"double bond"', 'hl')).toBe(
+            'the <mark class="hl">double</mark> <mark class="hl">bond</mark> opens'
+        )
+    })
+
+    it('escapes the text and the terms', () => {
+        expect(highlightSearchTerms('<b>x</b> & yes', 'yes', 'hl')).toBe('&lt;b&gt;x&lt;&#x2F;b&gt; &amp; <mark class="hl">yes</mark>')
+        expect(highlightSearchTerms('a+b (c)', 'a+b (c)', 'hl')).toBe('<mark class="hl">a+b</mark> <mark class="hl">(c)</mark>')
+    })
+
+    it('leaves text without usable terms unmarked', () => {
+        expect(highlightSearchTerms('<i>Notes</i>', '" "')).toBe('&lt;i&gt;Notes&lt;&#x2F;i&gt;')
+    })
+})
@@ -57,7 +57,8 @@ export function highlightSearchTerms(
 ): string {
     if (!query.trim() || !text) return escapeHtml(text)
 
-    const terms = query.trim().split(/\s+/).filter(term => term.length > 1)
+    // Quotes only group phrases in the search box, so highlight the words inside them
+    const terms = query.replace(/"/g, ' ').trim().split(/\s+/).filter(term => term.length > 1)
     if (terms.length === 0) return escapeHtml(text)
 
     // Escape the text first to prevent XSS
@@ -0,0 +1,232 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { Achievement, AchievementCriteria, AchievementDefinition, AchievementStatus } from '@/lib/services/gamification'
+import { validateCriteria, meetsCriteria } from './criteria'
+import { loadUserActivity } from './activity'
+import { awardAchievement } from './awards'
+
+// Users evaluated per batch in dry-runs and backfills
+const USER_BATCH_SIZE = 200
+const SAMPLE_SIZE = 10
+
+const CATEGORIES: Achievement['category'][] = ['upload', 'engagement', 'curation', 'social', 'milestone']
+const RARITIES: Achievement['rarity'][] = ['common', 'rare', 'epic', 'legendary']
+const STATUSES: AchievementStatus[] = ['draft', 'active', 'retired']
+
+export type AchievementInput = Partial<Pick<
+  AchievementDefinition,
+  'id' | 'title' | 'description' | 'icon' | 'points' | 'category' | 'rarity' | 'criteria' | 'status'
+>>
+
+export interface AchievementDryRun {
+  total_users: number
+  qualifying: number
+  // Qualifying users who already have the achievement
+  already_earned: number
+  // Users a backfill would award it to now
+  would_award: number
+  sample: { id: string; full_name: string }[]
+}
+
+export interface AchievementBackfill {
+  awarded: number
+  failed: number
+}
+
+/**
+ * Checks a new achievement (`partial` false) or changes to an existing one.
+ * Returns an error message, or null when the input is valid.
+ */
+export function validateAchievementInput(input: AchievementInput, partial: boolean): string | null {
+  const required = ['id', 'title', 'description', 'category', 'criteria'] as const
+  if (!partial) {
+    const missing = required.find(field => input[field] === undefined || input[field] === '')
+    if (missing) return `${missing} is required`
+  }
+
+  if (input.id !== undefined && !/^[a-z0-9_]{1,100}$/.test(input.id)) {
+    return 'id may only contain lowercase letters, numbers and underscores'
+  }
+  if (input.title !== undefined && (!input.title.trim() || input.title.length > 100)) {
+    return 'title must be 1 to 100 characters'
+  }
+  if (input.points !== undefined && (!Number.isInteger(input.points) || input.points < 0)) {
+    return 'points must be a whole number of at least 0'
+  }
+  if (input.category !== undefined && !CATEGORIES.includes(input.category)) return 'Invalid category'
+  if (input.rarity !== undefined && !RARITIES.includes(input.rarity)) return 'Invalid rarity'
+  if (input.status !== undefined && !STATUSES.includes(input.status)) return 'Invalid status'
+  if (input.criteria !== undefined) return validateCriteria(input.criteria)
+
+  return null
+}
+
+/**
+ * Achievement management for admins. Uses the service role: callers must
+ * check the manage_achievements permission first.
+ */
+export class AchievementAdminService {
+  private _supabase: ReturnType<typeof createAdminClient> | null = null
+
+  private get supabase() {
+    if (!this._supabase) {
+      this._supabase = createAdminClient()
+    }
+    return this._supabase
+  }
+
+  async listAchievements(): Promise<AchievementDefinition[]> {
+    const { data, error } = await this.supabase
+      .from('achievements')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    const achievements = (data || []) as AchievementDefinition[]
+    const counts = await Promise.all(achievements.map(async achievement => {
+      const { count } = await this.supabase
+        .from('user_achievements')
+        .select('id', { count: 'exact', head: true })
+        .eq('achievement_id', achievement.id)
+      return count || 0
+    }))
+
+    return achievements.map((achievement, i) => ({ ...achievement, earned_count: counts[i] }))
+  }
+
+  async getAchievement(id: string): Promise<AchievementDefinition | null> {
+    const { data, error } = await this.supabase
+      .from('achievements')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    return data as AchievementDefinition | null
+  }
+
+  async createAchievement(input: AchievementInput, createdBy: string): Promise<AchievementDefinition> {
+    const { data, error } = await this.supabase
+      .from('achievements')
+      .insert({
+        ...input,
+        status: input.status || 'draft',
+        retired_at: input.status === 'retired' ? new Date().toISOString() : null,
+        created_by: createdBy
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data as AchievementDefinition
+  }
+
+  async updateAchievement(id: string, changes: AchievementInput): Promise<AchievementDefinition | null> {
+    // The id is what earned achievements refer to
+    const { id: _id, ...update } = changes
+    const statusChange = update.status
+      ? { retired_at: update.status === 'retired' ? new Date().toISOString() : null }
+      : {}
+
+    const { data, error } = await this.supabase
+      .from('achievements')
+      .update({ ...update, ...statusChange })
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data as AchievementDefinition | null
+  }
+
+  /**
+   * Walks every user in batches, calling `onBatch` with the ones meeting the
+   * criteria and the ids among them who already have `achievementId`.
+   */
+  private async forEachQualifyingBatch(
+    criteria: AchievementCriteria,
+    achievementId: string | undefined,
+    onBatch: (qualifying: { id: string; full_name: string }[], earned: Set<string>) => Promise<void>
+  ): Promise<number> {
+    const now = new Date()
+    let totalUsers = 0
+
+    for (let from = 0; ; from += USER_BATCH_SIZE) {
+      const { data: users, error } = await this.supabase
+        .from('users')
+        .select('id, full_name')
+        .order('id', { ascending: true })
+        .range(from, from + USER_BATCH_SIZE - 1)
+
+      if (error) throw error
+      if (!users || users.length === 0) break
+      totalUsers += users.length
+
+      const activity = await loadUserActivity(this.supabase, users.map(u => u.id))
+      const qualifying = users.filter(u => meetsCriteria(criteria, activity.get(u.id)!, now))
+
+      let earned = new Set<string>()
+      if (achievementId && qualifying.length > 0) {
+        const { data: rows, error: earnedError } = await this.supabase
+          .from('user_achievements')
+          .select('user_id')
+          .eq('achievement_id', achievementId)
+          .in('user_id', qualifying.map(u => u.id))
+
+        if (earnedError) throw earnedError
+        earned = new Set((rows || []).map(r => r.user_id as string))
+      }
+
+      await onBatch(qualifying, earned)
+      if (users.length < USER_BATCH_SIZE) break
+    }
+
+    return totalUsers
+  }
+
+  /**
+   * How many users the criteria would award, without awarding anything.
+   * `achievementId` excludes users who already have that achievement.
+   */
+  async dryRun(criteria: AchievementCriteria, achievementId?: string): Promise<AchievementDryRun> {
+    const result: AchievementDryRun = { total_users: 0, qualifying: 0, already_earned: 0, would_award: 0, sample: [] }
+
+    result.total_users = await this.forEachQualifyingBatch(criteria, achievementId, async (qualifying, earned) => {
+      result.qualifying += qualifying.length
+      result.already_earned += earned.size
+
+      qualifying
+        .filter(u => !earned.has(u.id))
+        .forEach(u => {
+          result.would_award++
+          if (result.sample.length < SAMPLE_SIZE) result.sample.push(u)
+        })
+    })
+
+    return result
+  }
+
+  /**
+   * Awards an active achievement to every user who already meets its
+   * criteria, with its points and the usual notification.
+   */
+  async backfill(achievement: Achievement, actorId: string): Promise<AchievementBackfill> {
+    const result: AchievementBackfill = { awarded: 0, failed: 0 }
+
+    await this.forEachQualifyingBatch(achievement.criteria, achievement.id, async (qualifying, earned) => {
+      for (const user of qualifying) {
+        if (earned.has(user.id)) continue
+
+        if (await awardAchievement(this.supabase, user.id, achievement, actorId)) {
+          result.awarded++
+        } else {
+          result.failed++
+        }
+      }
+    })
+
+    return result
+  }
+}
+
+export const achievementAdminService = new AchievementAdminService()
@@ -0,0 +1,74 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { UserActivity } from './criteria'
+
+// PostgREST returns at most this many rows per request by default
+const PAGE_SIZE = 1000
+
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+/**
+ * Loads what achievement criteria need for a batch of users: their points,
+ * contributions, uploaded resources and collections.
+ */
+export async function loadUserActivity(
+  supabase: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, UserActivity>> {
+  const activity = new Map<string, UserActivity>()
+  if (userIds.length === 0) return activity
+
+  userIds.forEach(id => {
+    activity.set(id, { points: 0, contributions: [], resources: [], collections: [] })
+  })
+
+  const [users, contributions, resources, collections] = await Promise.all([
+    fetchAllRows<{ id: string; points: number | null }>((from, to) =>
+      supabase.from('users').select('id, points').in('id', userIds).range(from, to)
+    ),
+    fetchAllRows<{ user_id: string } & UserActivity['contributions'][number]>((from, to) =>
+      supabase
+        .from('contributions')
+        .select('user_id, type, points_earned, created_at, metadata')
+        .in('user_id', userIds)
+        .order('created_at', { ascending: true })
+        .range(from, to)
+    ),
+    fetchAllRows<{ uploaded_by: string } & UserActivity['resources'][number]>((from, to) =>
+      supabase
+        .from('resources')
+        .select('uploaded_by, resource_type, upvotes, is_verified, created_at')
+        .in('uploaded_by', userIds)
+        .range(from, to)
+    ),
+    fetchAllRows<{ created_by: string; created_at: string }>((from, to) =>
+      supabase.from('collections').select('created_by, created_at').in('created_by', userIds).range(from, to)
+    ),
+  ])
+
+  users.forEach(({ id, points }) => {
+    activity.get(id)!.points = points || 0
+  })
+  contributions.forEach(({ user_id, ...contribution }) => {
+    activity.get(user_id)?.contributions.push(contribution)
+  })
+  resources.forEach(({ uploaded_by, ...resource }) => {
+    activity.get(uploaded_by)?.resources.push(resource)
+  })
+  collections.forEach(({ created_by, created_at }) => {
+    activity.get(created_by)?.collections.push({ created_at })
+  })
+
+  return activity
+}
@@ -0,0 +1,51 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Achievement } from '@/lib/services/gamification'
+import { domainEvents } from '@/lib/services/events'
+
+/**
+ * Records an achievement for a user, adds its bonus points and announces it.
+ * Returns false if the user already had it or it could not be recorded.
+ */
+export async function awardAchievement(
+  supabase: SupabaseClient,
+  userId: string,
+  achievement: Achievement,
+  actorId: string = userId
+): Promise<boolean> {
+  // Record the achievement
+  const { error: achievementError } = await supabase
+    .from('user_achievements')
+    .insert({
+      user_id: userId,
+      achievement_id: achievement.id,
+      points_earned: achievement.points,
+      earned_at: new Date().toISOString()
+    })
+
+  if (achievementError) {
+    // Already earned, e.g. two checks racing
+    if (achievementError.code !== '23505') {
+      console.error('Error awarding achievement:', achievementError)
+    }
+    return false
+  }
+
+  // Award bonus points
+  await supabase.rpc('increment_user_points', {
+    user_id: userId,
+    points: achievement.points
+  })
+
+  await domainEvents.emit('achievement.awarded', actorId, {
+    userId,
+    achievementId: achievement.id,
+    title: achievement.title,
+    description: achievement.description,
+    icon: achievement.icon,
+    category: achievement.category,
+    points: achievement.points,
+    rarity: achievement.rarity
+  }, supabase)
+
+  return true
+}
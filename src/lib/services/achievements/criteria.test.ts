@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import type { AchievementCriteria } from '@/lib/services/gamification'
+import { describeCriteria, getMetricValue, getStreak, meetsCriteria, validateCriteria, type UserActivity } from './criteria'
+
+// Wednesday
+const now = new Date('2024-11-06T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+
+const activity: UserActivity = {
+  points: 120,
+  contributions: [
+    { type: 'upload', points_earned: 10, created_at: daysAgo(0), metadata: { resource_type: 'video' } },
+    { type: 'upload', points_earned: 10, created_at: daysAgo(1), metadata: { resource_type: 'document' } },
+    { type: 'upload', points_earned: 10, created_at: daysAgo(17), metadata: { resource_type: 'video' } },
+    { type: 'download', points_earned: 1, created_at: daysAgo(2) },
+    { type: 'vote', points_earned: 2, created_at: daysAgo(2), metadata: { action_type: 'comment_resource' } },
+    { type: 'vote', points_earned: 2, created_at: daysAgo(3), metadata: { action_type: 'comment_resource' } },
+    { type: 'vote', points_earned: -2, created_at: daysAgo(3), metadata: { action_type: 'comment_resource', reversal: true } }
+  ],
+  resources: [
+    { resource_type: 'video', upvotes: 14, is_verified: true, created_at: daysAgo(0) },
+    { resource_type: 'document', upvotes: 5, is_verified: false, created_at: daysAgo(1) },
+    { resource_type: 'video', upvotes: 3, is_verified: true, created_at: daysAgo(17) }
+  ],
+  collections: [{ created_at: daysAgo(1) }, { created_at: daysAgo(40) }]
+}
+
+describe('validateCriteria', () => {
+  it('accepts valid rules and combinations', () => {
+    expect(validateCriteria({ type: 'count', metric: 'uploads', target: 10, timeframe: 'weekly', resource_type: 'video' })).toBeNull()
+    expect(validateCriteria({ type: 'streak', target: 7, unit: 'week' })).toBeNull()
+    expect(validateCriteria({
+      type: 'any',
+      rules: [
+        { type: 'count', metric: 'points', target: 500 },
+        { type: 'all', rules: [{ type: 'streak', target: 3 }] }
+      ]
+    })).toBeNull()
+  })
+
+  it('rejects malformed rules', () => {
+    expect(validateCriteria(null)).toBe('Criteria must be an object')
+    expect(validateCriteria({ type: 'threshold' })).toBe('Unknown rule type "threshold"')
+    expect(validateCriteria({ type: 'count', metric: 'likes', target: 1 })).toBe('Unknown metric "likes"')
+    expect(validateCriteria({ type: 'count', metric: 'uploads', target: 1.5 })).toBe('Target must be a positive whole number')
+    expect(validateCriteria({ type: 'count', metric: 'uploads', target: 0 })).toBe('Target must be a positive whole number')
+    expect(validateCriteria({ type: 'count', metric: 'uploads', target: 1, timeframe: 'yearly' })).toBe('Unknown timeframe "yearly"')
+    expect(validateCriteria({ type: 'count', metric: 'uploads', target: 1, resource_type: 'podcast' })).toBe('Unknown resource type "podcast"')
+    expect(validateCriteria({ type: 'streak', target: 2, unit: 'month' })).toBe('Streak unit must be day or week')
+    expect(validateCriteria({ type: 'all', rules: [] })).toBe('A combination needs at least one rule')
+  })
+
+  it('rejects filters the metric does not support', () => {
+    expect(validateCriteria({ type: 'count', metric: 'verified_uploads', target: 1, timeframe: 'daily' }))
+      .toBe('Verified uploads cannot be limited to a timeframe')
+    expect(validateCriteria({ type: 'count', metric: 'downloads', target: 1, resource_type: 'video' }))
+      .toBe('Downloads cannot be limited to a resource type')
+  })
+
+  it('reports the first invalid rule of a combination', () => {
+    expect(validateCriteria({ type: 'all', rules: [{ type: 'streak', target: 1 }, { type: 'count', metric: 'nope', target: 1 }] }))
+      .toBe('Unknown metric "nope"')
+  })
+
+  it('limits how deeply combinations nest', () => {
+    const nested = { type: 'all', rules: [{ type: 'all', rules: [{ type: 'all', rules: [{ type: 'all', rules: [{ type: 'streak', target: 1 }] }] }] }] }
+    expect(validateCriteria(nested)).toBe('Combinations can be nested at most 4 levels deep')
+  })
+})
+
+describe('getMetricValue', () => {
+  it('counts uploads, optionally by timeframe and resource type', () => {
+    expect(getMetricValue('uploads', activity, { now })).toBe(3)
+    expect(getMetricValue('uploads', activity, { timeframe: 'weekly', now })).toBe(2)
+    expect(getMetricValue('uploads', activity, { resource_type: 'video', now })).toBe(2)
+  })
+
+  it('reads resource totals', () => {
+    expect(getMetricValue('verified_uploads', activity, { now })).toBe(2)
+    expect(getMetricValue('upvotes_received', activity, { now })).toBe(22)
+    expect(getMetricValue('top_resource_upvotes', activity, { now })).toBe(14)
+    expect(getMetricValue('upvotes_received', activity, { resource_type: 'document', now })).toBe(5)
+  })
+
+  it('takes reversals back from action counts', () => {
+    expect(getMetricValue('comments', activity, { now })).toBe(1)
+    expect(getMetricValue('downloads', activity, { now })).toBe(1)
+  })
+
+  it('counts collections and points within the timeframe', () => {
+    expect(getMetricValue('collections', activity, { now })).toBe(2)
+    expect(getMetricValue('collections', activity, { timeframe: 'monthly', now })).toBe(1)
+    expect(getMetricValue('points', activity, { now })).toBe(120)
+    expect(getMetricValue('points', activity, { timeframe: 'weekly', now })).toBe(23)
+  })
+})
+
+describe('getStreak', () => {
+  it('counts consecutive active days back from today', () => {
+    // Active today, yesterday, 2 and 3 days ago, then a gap
+    expect(getStreak(activity, 'day', now)).toBe(4)
+  })
+
+  it('is zero without activity in the current period', () => {
+    expect(getStreak(activity, 'day', new Date('2024-11-08T12:00:00Z'))).toBe(0)
+  })
+
+  it('counts weeks starting on Monday', () => {
+    // This week (from Monday the 4th) and last week, but not the week before;
+    // the oldest upload was two weeks earlier
+    expect(getStreak(activity, 'week', now)).toBe(2)
+  })
+})
+
+describe('meetsCriteria', () => {
+  const uploads: AchievementCriteria = { type: 'count', metric: 'uploads', target: 3 }
+  const streak: AchievementCriteria = { type: 'streak', target: 5 }
+
+  it('compares the metric or streak with the target', () => {
+    expect(meetsCriteria(uploads, activity, now)).toBe(true)
+    expect(meetsCriteria({ ...uploads, timeframe: 'weekly' }, activity, now)).toBe(false)
+    expect(meetsCriteria(streak, activity, now)).toBe(false)
+  })
+
+  it('combines rules', () => {
+    expect(meetsCriteria({ type: 'all', rules: [uploads, streak] }, activity, now)).toBe(false)
+    expect(meetsCriteria({ type: 'any', rules: [uploads, streak] }, activity, now)).toBe(true)
+  })
+})
+
+describe('describeCriteria', () => {
+  it('summarizes rules in plain language', () => {
+    expect(describeCriteria({ type: 'count', metric: 'uploads', target: 10, timeframe: 'weekly', resource_type: 'video' }))
+      .toBe('10 video uploads in the last 7 days')
+    expect(describeCriteria({ type: 'streak', target: 4, unit: 'week' })).toBe('Active 4 weeks in a row')
+    expect(describeCriteria({
+      type: 'all',
+      rules: [
+        { type: 'count', metric: 'points', target: 500 },
+        { type: 'any', rules: [{ type: 'streak', target: 7 }, { type: 'count', metric: 'comments', target: 20 }] }
+      ]
+    })).toBe('500 points and (Active 7 days in a row or 20 comments)')
+  })
+})
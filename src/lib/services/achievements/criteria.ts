@@ -0,0 +1,223 @@
+import type { AchievementCriteria, AchievementMetric, CriteriaTimeframe } from '@/lib/services/gamification'
+import type { Resource } from '@/types'
+
+// Everything criteria are evaluated against, loaded once per user
+export interface UserActivity {
+  points: number
+  contributions: {
+    type: string
+    points_earned: number
+    created_at: string
+    metadata?: Record<string, any> | null
+  }[]
+  resources: {
+    resource_type: Resource['resource_type']
+    upvotes: number
+    is_verified: boolean
+    created_at: string
+  }[]
+  collections: {
+    created_at: string
+  }[]
+}
+
+export const ACHIEVEMENT_METRICS: {
+  id: AchievementMetric
+  label: string
+  // Phrase for descriptions, e.g. "10 uploads"
+  noun: string
+  supportsTimeframe: boolean
+  supportsResourceType: boolean
+}[] = [
+  { id: 'uploads', label: 'Uploads', noun: 'uploads', supportsTimeframe: true, supportsResourceType: true },
+  { id: 'verified_uploads', label: 'Verified uploads', noun: 'verified uploads', supportsTimeframe: false, supportsResourceType: true },
+  { id: 'upvotes_received', label: 'Upvotes received', noun: 'upvotes across all resources', supportsTimeframe: false, supportsResourceType: true },
+  { id: 'top_resource_upvotes', label: 'Upvotes on one resource', noun: 'upvotes on a single resource', supportsTimeframe: false, supportsResourceType: true },
+  { id: 'downloads', label: 'Downloads', noun: 'downloads', supportsTimeframe: true, supportsResourceType: false },
+  { id: 'collections', label: 'Collections created', noun: 'collections', supportsTimeframe: true, supportsResourceType: false },
+  { id: 'comments', label: 'Comments', noun: 'comments', supportsTimeframe: true, supportsResourceType: false },
+  { id: 'points', label: 'Points', noun: 'points', supportsTimeframe: true, supportsResourceType: false },
+]
+
+export const CRITERIA_TIMEFRAMES: { id: CriteriaTimeframe; label: string; days?: number }[] = [
+  { id: 'all_time', label: 'All time' },
+  { id: 'daily', label: 'In the last day', days: 1 },
+  { id: 'weekly', label: 'In the last 7 days', days: 7 },
+  { id: 'monthly', label: 'In the last 30 days', days: 30 },
+]
+
+const RESOURCE_TYPES: Resource['resource_type'][] = ['document', 'video', 'link', 'code', 'article']
+
+// Combinations deeper than this are almost certainly a mistake
+const MAX_DEPTH = 4
+
+/**
+ * Checks criteria from an untrusted source, e.g. the admin editor. Returns an
+ * error message, or null when the criteria are valid.
+ */
+export function validateCriteria(criteria: unknown, depth: number = 0): string | null {
+  if (!criteria || typeof criteria !== 'object') return 'Criteria must be an object'
+  if (depth >= MAX_DEPTH) return `Combinations can be nested at most ${MAX_DEPTH} levels deep`
+
+  const rule = criteria as Record<string, any>
+  const validTarget = (target: unknown) => typeof target === 'number' && Number.isInteger(target) && target > 0
+
+  switch (rule.type) {
+    case 'count': {
+      const metric = ACHIEVEMENT_METRICS.find(m => m.id === rule.metric)
+      if (!metric) return `Unknown metric "${rule.metric}"`
+      if (!validTarget(rule.target)) return 'Target must be a positive whole number'
+
+      if (rule.timeframe !== undefined && rule.timeframe !== 'all_time') {
+        if (!CRITERIA_TIMEFRAMES.some(t => t.id === rule.timeframe)) return `Unknown timeframe "${rule.timeframe}"`
+        if (!metric.supportsTimeframe) return `${metric.label} cannot be limited to a timeframe`
+      }
+      if (rule.resource_type !== undefined) {
+        if (!RESOURCE_TYPES.includes(rule.resource_type)) return `Unknown resource type "${rule.resource_type}"`
+        if (!metric.supportsResourceType) return `${metric.label} cannot be limited to a resource type`
+      }
+      return null
+    }
+
+    case 'streak':
+      if (!validTarget(rule.target)) return 'Target must be a positive whole number'
+      if (rule.unit !== undefined && rule.unit !== 'day' && rule.unit !== 'week') return 'Streak unit must be day or week'
+      return null
+
+    case 'all':
+    case 'any': {
+      if (!Array.isArray(rule.rules) || rule.rules.length === 0) return 'A combination needs at least one rule'
+      for (const child of rule.rules) {
+        const error = validateCriteria(child, depth + 1)
+        if (error) return error
+      }
+      return null
+    }
+
+    default:
+      return `Unknown rule type "${rule.type}"`
+  }
+}
+
+function timeframeStart(timeframe: CriteriaTimeframe | undefined, now: Date): number | null {
+  const days = CRITERIA_TIMEFRAMES.find(t => t.id === timeframe)?.days
+  return days ? now.getTime() - days * 24 * 60 * 60 * 1000 : null
+}
+
+// Contributions recorded for one kind of action; reversals (e.g. withdrawn
+// votes) take one back
+function countActions(
+  activity: UserActivity,
+  matches: (c: UserActivity['contributions'][number]) => boolean,
+  since: number | null,
+  resourceType?: string
+): number {
+  return activity.contributions.reduce((count, c) => {
+    if (!matches(c)) return count
+    if (since !== null && new Date(c.created_at).getTime() < since) return count
+    if (resourceType && c.metadata?.resource_type !== resourceType) return count
+    return count + (c.metadata?.reversal ? -1 : 1)
+  }, 0)
+}
+
+export function getMetricValue(
+  metric: AchievementMetric,
+  activity: UserActivity,
+  options: { timeframe?: CriteriaTimeframe; resource_type?: string; now?: Date } = {}
+): number {
+  const since = timeframeStart(options.timeframe, options.now || new Date())
+  const resources = options.resource_type
+    ? activity.resources.filter(r => r.resource_type === options.resource_type)
+    : activity.resources
+
+  switch (metric) {
+    case 'uploads':
+      return countActions(activity, c => c.type === 'upload', since, options.resource_type)
+    case 'verified_uploads':
+      return resources.filter(r => r.is_verified).length
+    case 'upvotes_received':
+      return resources.reduce((sum, r) => sum + (r.upvotes || 0), 0)
+    case 'top_resource_upvotes':
+      return resources.reduce((max, r) => Math.max(max, r.upvotes || 0), 0)
+    case 'downloads':
+      return countActions(activity, c => c.type === 'download', since)
+    case 'collections':
+      return activity.collections.filter(c => since === null || new Date(c.created_at).getTime() >= since).length
+    case 'comments':
+      return countActions(activity, c => c.metadata?.action_type === 'comment_resource', since)
+    case 'points':
+      return since === null
+        ? activity.points
+        : activity.contributions
+          .filter(c => new Date(c.created_at).getTime() >= since)
+          .reduce((sum, c) => sum + (c.points_earned || 0), 0)
+    default:
+      return 0
+  }
+}
+
+function periodKey(date: Date, unit: 'day' | 'week'): number {
+  const day = Math.floor(date.getTime() / (24 * 60 * 60 * 1000))
+  // Days since the epoch, or weeks starting on Monday (the epoch was a Thursday)
+  return unit === 'day' ? day : Math.floor((day + 3) / 7)
+}
+
+/**
+ * Consecutive days (or weeks) with at least one contribution, counting back
+ * from the current one.
+ */
+export function getStreak(activity: UserActivity, unit: 'day' | 'week' = 'day', now: Date = new Date()): number {
+  const active = new Set(activity.contributions.map(c => periodKey(new Date(c.created_at), unit)))
+
+  let streak = 0
+  let period = periodKey(now, unit)
+  while (active.has(period)) {
+    streak++
+    period--
+  }
+  return streak
+}
+
+export function meetsCriteria(criteria: AchievementCriteria, activity: UserActivity, now: Date = new Date()): boolean {
+  switch (criteria.type) {
+    case 'count':
+      return getMetricValue(criteria.metric, activity, { ...criteria, now }) >= criteria.target
+    case 'streak':
+      return getStreak(activity, criteria.unit, now) >= criteria.target
+    case 'all':
+      return criteria.rules.every(rule => meetsCriteria(rule, activity, now))
+    case 'any':
+      return criteria.rules.some(rule => meetsCriteria(rule, activity, now))
+    default:
+      return false
+  }
+}
+
+/**
+ * A plain-language summary, e.g. "10 video uploads in the last 7 days".
+ */
+export function describeCriteria(criteria: AchievementCriteria): string {
+  switch (criteria.type) {
+    case 'count': {
+      const metric = ACHIEVEMENT_METRICS.find(m => m.id === criteria.metric)
+      const noun = criteria.resource_type
+        ? `${criteria.resource_type} ${metric?.noun || criteria.metric}`
+        : metric?.noun || criteria.metric
+      const timeframe = criteria.timeframe && criteria.timeframe !== 'all_time'
+        ? ` ${CRITERIA_TIMEFRAMES.find(t => t.id === criteria.timeframe)?.label.toLowerCase()}`
+        : ''
+      return `${criteria.target} ${noun}${timeframe}`
+    }
+    case 'streak':
+      return `Active ${criteria.target} ${criteria.unit === 'week' ? 'weeks' : 'days'} in a row`
+    case 'all':
+    case 'any': {
+      const parts = criteria.rules.map(rule =>
+        rule.type === 'all' || rule.type === 'any' ? `(${describeCriteria(rule)})` : describeCriteria(rule)
+      )
+      return parts.join(criteria.type === 'all' ? ' and ' : ' or ')
+    }
+    default:
+      return 'Unknown rule'
+  }
+}
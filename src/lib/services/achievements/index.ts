@@ -0,0 +1,13 @@
+export {
+  ACHIEVEMENT_METRICS,
+  CRITERIA_TIMEFRAMES,
+  validateCriteria,
+  getMetricValue,
+  getStreak,
+  meetsCriteria,
+  describeCriteria
+} from './criteria'
+export { loadUserActivity } from './activity'
+export { awardAchievement } from './awards'
+
+export type { UserActivity } from './criteria'
@@ -85,7 +85,8 @@ export class SearchCache {
       semesters: filters.semesters?.sort(),
       tags: filters.tags?.sort(),
       difficulty: filters.difficulty?.sort(),
-      dateRange: filters.dateRange
+      dateRange: filters.dateRange,
+      verifiedOnly: filters.verifiedOnly || undefined
     }
   }
 
@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/client'
 import { collectionService } from './collection-service'
 import type { Collection, CollectionResource, User } from '@/types'
@@ -19,6 +20,17 @@ export interface ActiveCollaborator {
   is_online: boolean
 }
 
+export interface CollectionCollaborator {
+  id: string
+  collection_id: string
+  user_id: string
+  permission_level: 'view' | 'edit' | 'admin'
+  added_by?: string
+  added_at: string
+  last_active: string
+  user?: Pick<User, 'id' | 'full_name' | 'email' | 'department'>
+}
+
 export interface CollaborationInvitation {
   id: string
   collection_id: string
@@ -35,7 +47,13 @@ export interface CollaborationInvitation {
  * Service for handling collaborative collection features
  */
 export class CollaborativeCollectionService {
-  private _supabase: ReturnType<typeof createClient> | null = null
+  private _supabase: SupabaseClient | null = null
+
+  // API routes pass their request-scoped client; the shared instance uses
+  // the browser client
+  constructor(supabase?: SupabaseClient) {
+    this._supabase = supabase || null
+  }
 
   private get supabase() {
     if (!this._supabase) {
@@ -193,13 +211,12 @@ export class CollaborativeCollectionService {
     collectionId: string,
     invitedByUserId: string,
     invitedUserEmail: string,
-    permissionLevel: 'view' | 'edit' | 'admin' = 'edit',
-    message?: string
+    permissionLevel: 'view' | 'edit' | 'admin' = 'edit'
   ): Promise<CollaborationInvitation> {
-    // Check if user exists
+    // Link the invitation to the invitee's account if they have one
     const { data: invitedUser } = await this.supabase
       .from('users')
-      .select('id, full_name')
+      .select('id')
       .eq('email', invitedUserEmail)
       .single()
 
@@ -223,31 +240,6 @@ export class CollaborativeCollectionService {
 
     if (error) throw error
 
-    // Send notification if user exists
-    if (invitedUser) {
-      const { data: collection } = await this.supabase
-        .from('collections')
-        .select('title, creator:created_by(full_name)')
-        .eq('id', collectionId)
-        .single()
-
-      await this.supabase
-        .from('notifications')
-        .insert([{
-          user_id: invitedUser.id,
-          type: 'collection_shared',
-          title: 'Collaboration Invitation',
-          message: `You've been invited to collaborate on "${collection?.title}"`,
-          data: {
-            collection_id: collectionId,
-            invitation_id: invitation.id,
-            permission_level: permissionLevel,
-            invited_by: invitedByUserId,
-            custom_message: message
-          }
-        }])
-    }
-
     return invitation as CollaborationInvitation
   }
 
@@ -257,7 +249,7 @@ export class CollaborativeCollectionService {
   async acceptCollaborationInvitation(
     invitationId: string,
     userId: string
-  ): Promise<{ success: boolean, collection_id?: string, error?: string }> {
+  ): Promise<{ success: boolean, collection_id?: string, invited_by?: string, error?: string }> {
     try {
       // Get invitation details
       const { data: invitation, error: invitationError } = await this.supabase
@@ -272,32 +264,23 @@ export class CollaborativeCollectionService {
         return { success: false, error: 'Invitation not found or already processed' }
       }
 
-      // Check if invitation is expired
-      if (new Date(invitation.expires_at) < new Date()) {
-        await this.supabase
-          .from('collaboration_invitations')
-          .update({ status: 'expired' })
-          .eq('id', invitationId)
+      // Marks the invitation accepted and adds the user as a collaborator
+      // with the invited permission level; null when it had expired
+      const { data: collectionId, error: acceptError } = await this.supabase
+        .rpc('accept_collaboration_invitation', { p_invitation_id: invitationId })
 
-        return { success: false, error: 'Invitation has expired' }
+      if (acceptError) {
+        return { success: false, error: acceptError.message }
       }
 
-      // Update invitation status
-      await this.supabase
-        .from('collaboration_invitations')
-        .update({ status: 'accepted' })
-        .eq('id', invitationId)
-
-      // Add user as collaborator (this would require a collaborators table)
-      // For now, we'll just ensure the collection is collaborative
-      await this.supabase
-        .from('collections')
-        .update({ is_collaborative: true })
-        .eq('id', invitation.collection_id)
+      if (!collectionId) {
+        return { success: false, error: 'Invitation has expired' }
+      }
 
       return { 
         success: true, 
-        collection_id: invitation.collection_id 
+        collection_id: invitation.collection_id,
+        invited_by: invitation.invited_by
       }
 
     } catch (error) {
@@ -345,6 +328,93 @@ export class CollaborativeCollectionService {
     return invitations as CollaborationInvitation[]
   }
 
+  /**
+   * Get pending invitations sent for a collection
+   */
+  async getCollectionInvitations(collectionId: string): Promise<CollaborationInvitation[]> {
+    const { data: invitations, error } = await this.supabase
+      .from('collaboration_invitations')
+      .select(`
+        *,
+        inviter:invited_by(full_name)
+      `)
+      .eq('collection_id', collectionId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return invitations as CollaborationInvitation[]
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(collectionId: string, invitationId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('collaboration_invitations')
+      .delete()
+      .eq('id', invitationId)
+      .eq('collection_id', collectionId)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (error) throw error
+    return (data?.length || 0) > 0
+  }
+
+  /**
+   * Get the explicit collaborators of a collection, including its owner
+   */
+  async getCollaborators(collectionId: string): Promise<CollectionCollaborator[]> {
+    const { data: collaborators, error } = await this.supabase
+      .from('collection_collaborators')
+      .select(`
+        *,
+        user:user_id(id, full_name, email, department)
+      `)
+      .eq('collection_id', collectionId)
+      .order('added_at', { ascending: true })
+
+    if (error) throw error
+    return collaborators as CollectionCollaborator[]
+  }
+
+  /**
+   * Change a collaborator's permission level
+   */
+  async updateCollaboratorPermission(
+    collectionId: string,
+    userId: string,
+    permissionLevel: CollectionCollaborator['permission_level']
+  ): Promise<CollectionCollaborator | null> {
+    const { data: collaborator, error } = await this.supabase
+      .from('collection_collaborators')
+      .update({ permission_level: permissionLevel })
+      .eq('collection_id', collectionId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return collaborator as CollectionCollaborator | null
+  }
+
+  /**
+   * Remove a collaborator, or let a collaborator leave
+   */
+  async removeCollaborator(collectionId: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('collection_collaborators')
+      .delete()
+      .eq('collection_id', collectionId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) throw error
+    return (data?.length || 0) > 0
+  }
+
   /**
    * Get active collaborators for a collection
    */
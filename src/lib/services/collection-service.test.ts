@@ -0,0 +1,129 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { CollectionResource } from '@/types'
+import { CollectionService } from './collection-service'
+
+interface ForkRow {
+  forked_from: string | null
+  follow_source_updates: boolean
+  source_synced_at: string | null
+}
+
+// A fork and the resources of it and its source, filtered by collection and
+// added_at the way the queries ask
+function fakeClient(fork: ForkRow, resources: { collection_id: string; resource_id: string; added_at: string; notes?: string }[]) {
+  const updates: Record<string, unknown>[] = []
+
+  const client = {
+    from: (table: string) => {
+      const filters: [string, string, unknown][] = []
+      const rows = () => resources.filter(row => filters.every(([op, column, value]) =>
+        op === 'eq'
+          ? row[column as keyof typeof row] === value
+          : String(row[column as keyof typeof row]) > String(value)
+      ))
+      const builder = {
+        select: () => builder,
+        order: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters.push(['eq', column, value])
+          return builder
+        },
+        gt: (column: string, value: unknown) => {
+          filters.push(['gt', column, value])
+          return builder
+        },
+        single: async () => ({ data: fork, error: null }),
+        update: (row: Record<string, unknown>) => {
+          updates.push(row)
+          return { eq: async () => ({ error: null }) }
+        },
+        then: (resolve: (value: unknown) => unknown) => resolve({ data: table === 'collection_resources' ? rows() : [], error: null })
+      }
+      return builder
+    }
+  } as unknown as SupabaseClient
+
+  return { client, updates }
+}
+
+const resources = [
+  { collection_id: 'source-1', resource_id: 'old', added_at: '2024-10-01T00:00:00Z' },
+  { collection_id: 'source-1', resource_id: 'already-added', added_at: '2024-11-02T00:00:00Z' },
+  { collection_id: 'source-1', resource_id: 'new-1', added_at: '2024-11-03T00:00:00Z', notes: 'Read first' },
+  { collection_id: 'source-1', resource_id: 'new-2', added_at: '2024-11-04T00:00:00Z' },
+  { collection_id: 'fork-1', resource_id: 'old', added_at: '2024-10-15T00:00:00Z' },
+  { collection_id: 'fork-1', resource_id: 'already-added', added_at: '2024-11-02T12:00:00Z' }
+]
+
+const followedFork: ForkRow = { forked_from: 'source-1', follow_source_updates: true, source_synced_at: '2024-11-01T00:00:00Z' }
+
+describe('CollectionService.getSourceUpdates', () => {
+  it('lists what the source added since the last sync that the fork lacks', async () => {
+    const { client } = fakeClient(followedFork, resources)
+
+    const updates = await new CollectionService(client).getSourceUpdates('fork-1')
+
+    expect(updates.map(item => item.resource_id)).toEqual(['new-1', 'new-2'])
+  })
+
+  it('lists everything the fork lacks before the first sync', async () => {
+    const { client } = fakeClient({ ...followedFork, source_synced_at: null }, [
+      { collection_id: 'source-1', resource_id: 'never-forked', added_at: '2024-09-01T00:00:00Z' },
+      ...resources
+    ])
+
+    const updates = await new CollectionService(client).getSourceUpdates('fork-1')
+
+    expect(updates.map(item => item.resource_id)).toEqual(['never-forked', 'new-1', 'new-2'])
+  })
+
+  it('has no updates for forks that do not follow their source', async () => {
+    const { client } = fakeClient({ ...followedFork, follow_source_updates: false }, resources)
+    expect(await new CollectionService(client).getSourceUpdates('fork-1')).toEqual([])
+
+    const { client: original } = fakeClient({ forked_from: null, follow_source_updates: false, source_synced_at: null }, resources)
+    expect(await new CollectionService(original).getSourceUpdates('fork-1')).toEqual([])
+  })
+})
+
+describe('CollectionService.applySourceUpdates', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('adds the chosen updates with their notes and marks the fork synced', async () => {
+    const { client, updates } = fakeClient(followedFork, resources)
+    const service = new CollectionService(client)
+    vi.spyOn(service, 'getCollectionPermissions').mockResolvedValue({ can_add_resources: true } as Awaited<ReturnType<CollectionService['getCollectionPermissions']>>)
+    const addResource = vi.spyOn(service, 'addResourceToCollection')
+      .mockImplementation(async (collectionId, resourceId) => ({ collection_id: collectionId, resource_id: resourceId }) as CollectionResource)
+
+    const added = await service.applySourceUpdates('fork-1', ['new-1', 'old', 'unknown'], 'user-1')
+
+    expect(added.map(item => item.resource_id)).toEqual(['new-1'])
+    expect(addResource).toHaveBeenCalledWith('fork-1', 'new-1', 'user-1', { notes: 'Read first' })
+    expect(updates).toEqual([{ source_synced_at: expect.any(String) }])
+  })
+
+  it('dismisses every pending update when none are chosen', async () => {
+    const { client, updates } = fakeClient(followedFork, resources)
+    const service = new CollectionService(client)
+    vi.spyOn(service, 'getCollectionPermissions').mockResolvedValue({ can_add_resources: true } as Awaited<ReturnType<CollectionService['getCollectionPermissions']>>)
+    const addResource = vi.spyOn(service, 'addResourceToCollection')
+
+    expect(await service.applySourceUpdates('fork-1', [], 'user-1')).toEqual([])
+    expect(addResource).not.toHaveBeenCalled()
+    expect(updates).toHaveLength(1)
+  })
+
+  it('requires permission to add resources', async () => {
+    const { client, updates } = fakeClient(followedFork, resources)
+    const service = new CollectionService(client)
+    vi.spyOn(service, 'getCollectionPermissions').mockResolvedValue({ can_add_resources: false } as Awaited<ReturnType<CollectionService['getCollectionPermissions']>>)
+
+    await expect(service.applySourceUpdates('fork-1', ['new-1'], 'user-1'))
+      .rejects.toThrow('Insufficient permissions to add resources to this collection')
+    expect(updates).toHaveLength(0)
+  })
+})
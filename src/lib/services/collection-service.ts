@@ -1,11 +1,18 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/client'
+import { CollectionPermissionsUtil } from '@/lib/utils/collection-permissions'
+import { suggestSectionForResource } from '@/lib/utils/collection-sections'
+import type { CollectionPermissions } from '@/lib/utils/collection-permissions'
 import type { 
   Collection, 
   CollectionResource, 
+  CollectionSection,
   Resource,
   User 
 } from '@/types'
 
+export type { CollectionPermissions }
+
 export interface CreateCollectionData {
   title: string
   description?: string
@@ -20,16 +27,27 @@ export interface UpdateCollectionData {
   is_public?: boolean
   is_collaborative?: boolean
   tags?: string[]
+  follow_source_updates?: boolean
+}
+
+export interface ForkCollectionOptions {
+  title?: string
+  // Offer the resources the source adds later
+  follow_updates?: boolean
+}
+
+export interface CreateSectionData {
+  name: string
+  description?: string
+  template_section_id?: string
+  resource_types?: string[]
+  tags?: string[]
 }
 
-export interface CollectionPermissions {
-  can_view: boolean
-  can_edit: boolean
-  can_delete: boolean
-  can_add_resources: boolean
-  can_remove_resources: boolean
-  can_reorder: boolean
-  can_share: boolean
+export interface UpdateSectionData {
+  name?: string
+  description?: string
+  order_index?: number
 }
 
 export interface ShareCollectionData {
@@ -40,7 +58,14 @@ export interface ShareCollectionData {
 }
 
 export class CollectionService {
-  private _supabase: ReturnType<typeof createClient> | null = null
+  private _supabase: SupabaseClient | null = null
+  private _permissions: CollectionPermissionsUtil | null = null
+
+  // API routes pass their request-scoped client; the shared instance uses
+  // the browser client
+  constructor(supabase?: SupabaseClient) {
+    this._supabase = supabase || null
+  }
 
   private get supabase() {
     if (!this._supabase) {
@@ -49,6 +74,22 @@ export class CollectionService {
     return this._supabase
   }
 
+  private get permissions() {
+    if (!this._permissions) {
+      this._permissions = new CollectionPermissionsUtil(this.supabase)
+    }
+    return this._permissions
+  }
+
+  // List queries select `resources:collection_resources(count)`; expose it
+  // as resource_count instead of a one-element resources array
+  private withResourceCount(collections: any[] | null): Collection[] {
+    return (collections || []).map(({ resources, ...collection }) => ({
+      ...collection,
+      resource_count: resources?.[0]?.count ?? 0
+    })) as Collection[]
+  }
+
   /**
    * Create a new collection
    */
@@ -87,6 +128,12 @@ export class CollectionService {
             *,
             uploader:uploaded_by(id, full_name, department)
           )
+        ),
+        sections:collection_sections(*),
+        source:forked_from(
+          id,
+          title,
+          creator:created_by(id, full_name, department)
         )
       `)
       .eq('id', collectionId)
@@ -97,10 +144,13 @@ export class CollectionService {
       throw error
     }
 
-    // Sort resources by order_index
+    // Sort resources and sections by order_index
     if (collection.resources) {
       collection.resources.sort((a: any, b: any) => a.order_index - b.order_index)
     }
+    if (collection.sections) {
+      collection.sections.sort((a: any, b: any) => a.order_index - b.order_index)
+    }
 
     return collection as Collection
   }
@@ -130,7 +180,7 @@ export class CollectionService {
       .order('created_at', { ascending: false })
 
     if (error) throw error
-    return collections as Collection[]
+    return this.withResourceCount(collections)
   }
 
   /**
@@ -173,7 +223,7 @@ export class CollectionService {
 
     if (error) throw error
     return { 
-      collections: collections as Collection[], 
+      collections: this.withResourceCount(collections), 
       total: count || 0 
     }
   }
@@ -234,6 +284,9 @@ export class CollectionService {
     options?: {
       order_index?: number
       notes?: string
+      // Null adds the resource unsorted; left out, the section is suggested
+      // from the sections' template rules
+      section_id?: string | null
     }
   ): Promise<CollectionResource> {
     // Check permissions
@@ -256,13 +309,19 @@ export class CollectionService {
       orderIndex = (lastResource?.order_index || 0) + 1
     }
 
+    let sectionId = options?.section_id
+    if (sectionId === undefined) {
+      sectionId = await this.suggestSection(collectionId, resourceId)
+    }
+
     const { data: collectionResource, error } = await this.supabase
       .from('collection_resources')
       .insert([{
         collection_id: collectionId,
         resource_id: resourceId,
         order_index: orderIndex,
-        notes: options?.notes
+        notes: options?.notes,
+        section_id: sectionId
       }])
       .select(`
         *,
@@ -306,7 +365,10 @@ export class CollectionService {
   async reorderCollectionResources(
     collectionId: string,
     resourceIds: string[],
-    userId: string
+    userId: string,
+    // Moves resources between sections: resource id to section id, or null
+    // for unsorted. Every resource is placed when given.
+    sectionIds?: Record<string, string | null>
   ): Promise<void> {
     // Check permissions
     const permissions = await this.getCollectionPermissions(collectionId, userId)
@@ -318,7 +380,8 @@ export class CollectionService {
     const updates = resourceIds.map((resourceId, index) => ({
       collection_id: collectionId,
       resource_id: resourceId,
-      order_index: index
+      order_index: index,
+      ...(sectionIds && { section_id: sectionIds[resourceId] ?? null })
     }))
 
     // Use upsert to update order_index
@@ -332,35 +395,301 @@ export class CollectionService {
   }
 
   /**
-   * Get collection permissions for a user
+   * Add sections to a collection after its existing ones
    */
-  async getCollectionPermissions(
-    collectionId: string, 
+  async createSections(
+    collectionId: string,
+    sections: CreateSectionData[],
     userId: string
-  ): Promise<CollectionPermissions> {
-    const { data: collection, error } = await this.supabase
+  ): Promise<CollectionSection[]> {
+    // Check permissions
+    const permissions = await this.getCollectionPermissions(collectionId, userId)
+    if (!permissions.can_edit) {
+      throw new Error('Insufficient permissions to add sections to this collection')
+    }
+
+    if (sections.length === 0) return []
+
+    const { data: lastSection } = await this.supabase
+      .from('collection_sections')
+      .select('order_index')
+      .eq('collection_id', collectionId)
+      .order('order_index', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const firstIndex = lastSection ? lastSection.order_index + 1 : 0
+
+    const { data: created, error } = await this.supabase
+      .from('collection_sections')
+      .insert(sections.map((section, index) => ({
+        collection_id: collectionId,
+        name: section.name,
+        description: section.description,
+        order_index: firstIndex + index,
+        template_section_id: section.template_section_id,
+        resource_types: section.resource_types ?? [],
+        tags: section.tags ?? []
+      })))
+      .select()
+
+    if (error) throw error
+    return (created || []) as CollectionSection[]
+  }
+
+  /**
+   * Rename, describe or move a section
+   */
+  async updateSection(
+    collectionId: string,
+    sectionId: string,
+    data: UpdateSectionData,
+    userId: string
+  ): Promise<CollectionSection | null> {
+    // Check permissions
+    const permissions = await this.getCollectionPermissions(collectionId, userId)
+    if (!permissions.can_edit) {
+      throw new Error('Insufficient permissions to edit sections in this collection')
+    }
+
+    const { data: section, error } = await this.supabase
+      .from('collection_sections')
+      .update(data)
+      .eq('id', sectionId)
+      .eq('collection_id', collectionId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return section as CollectionSection | null
+  }
+
+  /**
+   * Delete a section; its resources stay in the collection, unsorted
+   */
+  async deleteSection(collectionId: string, sectionId: string, userId: string): Promise<boolean> {
+    // Check permissions
+    const permissions = await this.getCollectionPermissions(collectionId, userId)
+    if (!permissions.can_edit) {
+      throw new Error('Insufficient permissions to delete sections in this collection')
+    }
+
+    const { data, error } = await this.supabase
+      .from('collection_sections')
+      .delete()
+      .eq('id', sectionId)
+      .eq('collection_id', collectionId)
+      .select('id')
+
+    if (error) throw error
+    return (data?.length || 0) > 0
+  }
+
+  /**
+   * Suggest the section a resource goes in from the sections' template rules
+   */
+  async suggestSection(collectionId: string, resourceId: string): Promise<string | null> {
+    const { data: sections } = await this.supabase
+      .from('collection_sections')
+      .select('*')
+      .eq('collection_id', collectionId)
+
+    if (!sections || sections.length === 0) return null
+
+    const { data: resource } = await this.supabase
+      .from('resources')
+      .select('resource_type, tags')
+      .eq('id', resourceId)
+      .maybeSingle()
+
+    if (!resource) return null
+
+    return suggestSectionForResource(sections as CollectionSection[], resource)?.id ?? null
+  }
+
+  /**
+   * Update the notes on a resource in a collection
+   */
+  async updateResourceNotes(
+    collectionId: string,
+    resourceId: string,
+    notes: string | null,
+    userId: string
+  ): Promise<CollectionResource> {
+    // Check permissions
+    const permissions = await this.getCollectionPermissions(collectionId, userId)
+    if (!permissions.can_edit) {
+      throw new Error('Insufficient permissions to edit notes in this collection')
+    }
+
+    const { data: collectionResource, error } = await this.supabase
+      .from('collection_resources')
+      .update({ notes })
+      .eq('collection_id', collectionId)
+      .eq('resource_id', resourceId)
+      .select()
+      .single()
+
+    if (error) throw error
+    return collectionResource as CollectionResource
+  }
+
+  /**
+   * Copy a public collection, with its sections, resources, order and notes,
+   * into a new private collection of the user's
+   */
+  async forkCollection(
+    collectionId: string,
+    options: ForkCollectionOptions = {}
+  ): Promise<Collection> {
+    const { data: forkId, error } = await this.supabase
+      .rpc('fork_collection', {
+        p_collection_id: collectionId,
+        p_title: options.title ?? null,
+        p_follow_updates: options.follow_updates ?? false
+      })
+
+    if (error) throw error
+
+    const fork = await this.getCollectionById(forkId)
+    if (!fork) throw new Error('Fork not found')
+    return fork
+  }
+
+  /**
+   * Get the forks of a collection the user can see, newest first
+   */
+  async getForks(collectionId: string): Promise<Collection[]> {
+    const { data: forks, error } = await this.supabase
       .from('collections')
-      .select('created_by, is_public, is_collaborative')
+      .select(`
+        *,
+        creator:created_by(id, full_name, department),
+        resources:collection_resources(count)
+      `)
+      .eq('forked_from', collectionId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return this.withResourceCount(forks)
+  }
+
+  /**
+   * Resources the source of a followed fork added since the fork last synced,
+   * leaving out ones the fork already has
+   */
+  async getSourceUpdates(collectionId: string): Promise<CollectionResource[]> {
+    const { data: fork, error } = await this.supabase
+      .from('collections')
+      .select('forked_from, follow_source_updates, source_synced_at')
       .eq('id', collectionId)
       .single()
 
-    if (error) {
-      throw error
+    if (error) throw error
+    if (!fork.forked_from || !fork.follow_source_updates) return []
+
+    let query = this.supabase
+      .from('collection_resources')
+      .select(`
+        *,
+        resource:resources(
+          *,
+          uploader:uploaded_by(id, full_name, department)
+        )
+      `)
+      .eq('collection_id', fork.forked_from)
+      .order('added_at', { ascending: true })
+
+    if (fork.source_synced_at) {
+      query = query.gt('added_at', fork.source_synced_at)
     }
 
-    const isOwner = collection.created_by === userId
-    const canView = collection.is_public || isOwner
-    const canEdit = isOwner || (collection.is_collaborative && canView)
+    const [{ data: added, error: addedError }, { data: existing }] = await Promise.all([
+      query,
+      this.supabase
+        .from('collection_resources')
+        .select('resource_id')
+        .eq('collection_id', collectionId)
+    ])
 
-    return {
-      can_view: canView,
-      can_edit: canEdit,
-      can_delete: isOwner,
-      can_add_resources: canEdit,
-      can_remove_resources: canEdit,
-      can_reorder: canEdit,
-      can_share: isOwner
+    if (addedError) throw addedError
+
+    const existingIds = new Set((existing || []).map(item => item.resource_id))
+    return ((added || []) as CollectionResource[]).filter(item => !existingIds.has(item.resource_id))
+  }
+
+  /**
+   * Add the chosen source updates to a fork, each in its suggested section,
+   * and mark the rest as seen. An empty list dismisses every pending update.
+   */
+  async applySourceUpdates(
+    collectionId: string,
+    resourceIds: string[],
+    userId: string
+  ): Promise<CollectionResource[]> {
+    // Check permissions
+    const permissions = await this.getCollectionPermissions(collectionId, userId)
+    if (!permissions.can_add_resources) {
+      throw new Error('Insufficient permissions to add resources to this collection')
     }
+
+    const updates = await this.getSourceUpdates(collectionId)
+    const chosen = updates.filter(item => resourceIds.includes(item.resource_id))
+
+    const added: CollectionResource[] = []
+    for (const item of chosen) {
+      added.push(await this.addResourceToCollection(collectionId, item.resource_id, userId, {
+        notes: item.notes
+      }))
+    }
+
+    const { error } = await this.supabase
+      .from('collections')
+      .update({ source_synced_at: new Date().toISOString() })
+      .eq('id', collectionId)
+
+    if (error) throw error
+    return added
+  }
+
+  /**
+   * Get collections the user was added to as a collaborator by someone else
+   */
+  async getSharedCollections(userId: string): Promise<Collection[]> {
+    const { data: memberships, error: membershipError } = await this.supabase
+      .from('collection_collaborators')
+      .select('collection_id')
+      .eq('user_id', userId)
+
+    if (membershipError) throw membershipError
+
+    const collectionIds = (memberships || []).map(m => m.collection_id)
+    if (collectionIds.length === 0) return []
+
+    const { data: collections, error } = await this.supabase
+      .from('collections')
+      .select(`
+        *,
+        creator:created_by(id, full_name, department),
+        resources:collection_resources(count)
+      `)
+      .in('id', collectionIds)
+      .neq('created_by', userId)
+      .order('updated_at', { ascending: false })
+
+    if (error) throw error
+    return this.withResourceCount(collections)
+  }
+
+  /**
+   * Get collection permissions for a user
+   */
+  async getCollectionPermissions(
+    collectionId: string, 
+    userId: string
+  ): Promise<CollectionPermissions> {
+    const { permissions } = await this.permissions.getUserAccessLevel(collectionId, userId)
+    return permissions
   }
 
   /**
@@ -487,7 +816,7 @@ export class CollectionService {
 
     if (error) throw error
     return { 
-      collections: collections as Collection[], 
+      collections: this.withResourceCount(collections), 
       total: count || 0 
     }
   }
@@ -0,0 +1,205 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { Collection } from '@/types'
+import { CollectionService } from './collection-service'
+import {
+  createShareLink,
+  createShareSession,
+  createShareToken,
+  isShareLinkActive,
+  redeemShareLink,
+  verifyShareToken
+} from './collection-share-links'
+
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: vi.fn() }))
+
+const LINK_ID = 'c56a4180-65aa-42ec-a945-5fd21dec0538'
+const DAY = 24 * 60 * 60 * 1000
+
+const linkRow = (overrides: Record<string, unknown> = {}) => ({
+  id: LINK_ID,
+  collection_id: 'collection-1',
+  created_by: 'owner-1',
+  scope: 'view',
+  password_hash: null,
+  max_uses: null,
+  use_count: 0,
+  expires_at: new Date(Date.now() + DAY).toISOString(),
+  revoked_at: null,
+  last_used_at: null,
+  created_at: '2024-11-01T00:00:00Z',
+  ...overrides
+})
+
+// The link row, its creation, and the redeem RPC that counts a use
+function fakeLinks(row: Record<string, unknown> | null) {
+  const inserted: Record<string, unknown>[] = []
+  const rpc = vi.fn(async () => ({ data: row ? [{ ...row, use_count: (row.use_count as number) + 1 }] : [], error: null }))
+
+  const client = {
+    from: () => ({
+      select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: row, error: null }) }) }),
+      insert: (rows: Record<string, unknown>[]) => {
+        inserted.push(...rows)
+        return { select: () => ({ single: async () => ({ data: { ...linkRow(), ...rows[0], id: LINK_ID }, error: null }) }) }
+      }
+    }),
+    rpc
+  } as unknown as SupabaseClient
+
+  vi.mocked(createAdminClient).mockReturnValue(client as ReturnType<typeof createAdminClient>)
+  return { client, inserted, rpc }
+}
+
+describe('collection share tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('COLLECTION_SHARE_SECRET', 'test-secret')
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://app.example.com')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('verifies a token back to its link', () => {
+    expect(verifyShareToken(createShareToken(LINK_ID))).toBe(LINK_ID)
+  })
+
+  it('rejects missing, tampered and foreign tokens', () => {
+    const token = createShareToken(LINK_ID)
+    const signature = token.split('.')[1]
+
+    expect(verifyShareToken(undefined)).toBeNull()
+    expect(verifyShareToken(LINK_ID)).toBeNull()
+    expect(verifyShareToken(`other-link.${signature}`)).toBeNull()
+    expect(verifyShareToken(`${token.slice(0, -1)}${token.endsWith('A') ? 'B' : 'A'}`)).toBeNull()
+
+    vi.stubEnv('COLLECTION_SHARE_SECRET', 'rotated-secret')
+    expect(verifyShareToken(token)).toBeNull()
+  })
+
+  it('does not accept a session as a token', () => {
+    expect(verifyShareToken(`${LINK_ID}.${createShareSession(LINK_ID)}`)).toBeNull()
+  })
+
+  it('refuses to sign without a configured secret', () => {
+    vi.stubEnv('COLLECTION_SHARE_SECRET', '')
+    expect(() => createShareToken(LINK_ID)).toThrow('COLLECTION_SHARE_SECRET is not configured')
+  })
+})
+
+describe('isShareLinkActive', () => {
+  const link = { revoked_at: null, expires_at: new Date(Date.now() + DAY).toISOString(), max_uses: null, use_count: 0 }
+
+  it('is active until revoked, expired or used up', () => {
+    expect(isShareLinkActive(link)).toBe(true)
+    expect(isShareLinkActive({ ...link, max_uses: 3, use_count: 2 })).toBe(true)
+    expect(isShareLinkActive({ ...link, max_uses: 3, use_count: 3 })).toBe(false)
+    expect(isShareLinkActive({ ...link, revoked_at: new Date().toISOString() })).toBe(false)
+    expect(isShareLinkActive({ ...link, expires_at: new Date(Date.now() - 1000).toISOString() })).toBe(false)
+  })
+})
+
+describe('createShareLink', () => {
+  beforeEach(() => {
+    vi.stubEnv('COLLECTION_SHARE_SECRET', 'test-secret')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('stores a password hash, never the password', async () => {
+    const { client, inserted } = fakeLinks(null)
+
+    const link = await createShareLink(client, 'collection-1', 'owner-1', { password: 'hunter2', scope: 'edit', max_uses: 5 })
+
+    expect(inserted[0]).toMatchObject({ collection_id: 'collection-1', created_by: 'owner-1', scope: 'edit', max_uses: 5 })
+    expect(inserted[0].password_hash).toMatch(/^[\w-]+:[\w-]+$/)
+    expect(JSON.stringify(inserted[0])).not.toContain('hunter2')
+    expect(link).toMatchObject({ has_password: true })
+    expect(link).not.toHaveProperty('password_hash')
+    expect(verifyShareToken(decodeURIComponent(link.url.split('/').pop()!))).toBe(LINK_ID)
+  })
+
+  it('expires after a week by default', async () => {
+    const { client, inserted } = fakeLinks(null)
+
+    await createShareLink(client, 'collection-1', 'owner-1')
+
+    const expiresIn = new Date(inserted[0].expires_at as string).getTime() - Date.now()
+    expect(Math.round(expiresIn / DAY)).toBe(7)
+    expect(inserted[0]).toMatchObject({ scope: 'view', password_hash: null, max_uses: null })
+  })
+})
+
+describe('redeemShareLink', () => {
+  const collection = {
+    id: 'collection-1',
+    title: 'Exam Prep',
+    resources: [
+      { resource_id: 'resource-1', resource: { id: 'resource-1', is_hidden: false } },
+      { resource_id: 'resource-2', resource: { id: 'resource-2', is_hidden: true } }
+    ]
+  } as unknown as Collection
+
+  beforeEach(() => {
+    vi.stubEnv('COLLECTION_SHARE_SECRET', 'test-secret')
+    vi.spyOn(CollectionService.prototype, 'getCollectionById').mockResolvedValue(collection)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('counts a use and returns the collection without hidden resources', async () => {
+    const { rpc } = fakeLinks(linkRow())
+
+    const result = await redeemShareLink(createShareToken(LINK_ID))
+
+    expect(rpc).toHaveBeenCalledWith('redeem_collection_share_link', { p_link_id: LINK_ID })
+    expect(result).toMatchObject({ status: 'ok', link: { use_count: 1 } })
+    expect(result.status === 'ok' && result.collection.resources?.map(item => item.resource_id)).toEqual(['resource-1'])
+  })
+
+  it('rejects bad tokens and inactive links', async () => {
+    const { rpc } = fakeLinks(linkRow({ max_uses: 2, use_count: 2 }))
+
+    expect(await redeemShareLink('not-a-token')).toEqual({ status: 'invalid' })
+    expect(await redeemShareLink(createShareToken(LINK_ID))).toEqual({ status: 'invalid' })
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('asks for the password and checks it', async () => {
+    const { client, inserted } = fakeLinks(null)
+    await createShareLink(client, 'collection-1', 'owner-1', { password: 'hunter2' })
+    fakeLinks(linkRow({ password_hash: inserted[0].password_hash }))
+    const token = createShareToken(LINK_ID)
+
+    expect(await redeemShareLink(token)).toEqual({ status: 'password_required' })
+    expect(await redeemShareLink(token, { password: 'wrong' })).toEqual({ status: 'wrong_password' })
+    expect(await redeemShareLink(token, { password: 'hunter2' })).toMatchObject({ status: 'ok' })
+  })
+
+  it('lets a session back in without a use or the password until the link ends', async () => {
+    const token = createShareToken(LINK_ID)
+    const session = createShareSession(LINK_ID)
+
+    const { rpc } = fakeLinks(linkRow({ password_hash: 'salt:hash', max_uses: 1, use_count: 1 }))
+    expect(await redeemShareLink(token, { session })).toMatchObject({ status: 'ok' })
+    expect(rpc).not.toHaveBeenCalled()
+
+    fakeLinks(linkRow({ revoked_at: new Date().toISOString() }))
+    expect(await redeemShareLink(token, { session })).toEqual({ status: 'invalid' })
+  })
+
+  it('treats a link used up since it was read as invalid', async () => {
+    const { rpc } = fakeLinks(linkRow())
+    rpc.mockResolvedValueOnce({ data: [], error: null })
+
+    expect(await redeemShareLink(createShareToken(LINK_ID))).toEqual({ status: 'invalid' })
+  })
+})
@@ -0,0 +1,281 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { appUrl } from '@/lib/services/email/templates'
+import { CollectionService } from '@/lib/services/collection-service'
+import type { Collection } from '@/types'
+
+export type ShareLinkScope = 'view' | 'edit'
+
+export interface CollectionShareLink {
+  id: string
+  collection_id: string
+  created_by: string
+  scope: ShareLinkScope
+  has_password: boolean
+  max_uses: number | null
+  use_count: number
+  expires_at: string
+  revoked_at: string | null
+  last_used_at: string | null
+  created_at: string
+  url: string
+}
+
+export interface CreateShareLinkOptions {
+  scope?: ShareLinkScope
+  expires_in_days?: number
+  password?: string
+  max_uses?: number
+}
+
+export type RedeemShareLinkResult =
+  | { status: 'ok'; link: CollectionShareLink; collection: Collection }
+  | { status: 'invalid' }
+  | { status: 'password_required' }
+  | { status: 'wrong_password' }
+
+export const MAX_SHARE_LINK_DAYS = 90
+const DEFAULT_SHARE_LINK_DAYS = 7
+
+// Server-only. Share tokens are link ids signed with this secret, so ids
+// can't be guessed and the row alone decides expiry, uses and revocation.
+// Rotating it invalidates every share link, and nothing else.
+function getSecret(): string {
+  const secret = process.env.COLLECTION_SHARE_SECRET
+  if (!secret) {
+    throw new Error('COLLECTION_SHARE_SECRET is not configured')
+  }
+  return secret
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSecret())
+    .update(value)
+    .digest('base64url')
+}
+
+function verify(value: string, signature: string): boolean {
+  const given = Buffer.from(signature)
+  const expected = Buffer.from(sign(value))
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+export function createShareToken(linkId: string): string {
+  return `${linkId}.${sign(`collection_share:${linkId}`)}`
+}
+
+/**
+ * Returns the link the token was issued for, or null if it was tampered with.
+ * Whether the link is still usable is up to its row.
+ */
+export function verifyShareToken(token: string | null | undefined): string | null {
+  if (!token) return null
+
+  const separator = token.lastIndexOf('.')
+  if (separator <= 0) return null
+
+  const linkId = token.slice(0, separator)
+  return verify(`collection_share:${linkId}`, token.slice(separator + 1)) ? linkId : null
+}
+
+export function getShareLinkUrl(linkId: string): string {
+  return appUrl(`/shared/collections/${encodeURIComponent(createShareToken(linkId))}`)
+}
+
+// A session cookie is set once a visitor has redeemed a link, so reloading
+// the page doesn't use it up again or ask for the password twice
+export function getShareSessionCookieName(linkId: string): string {
+  return `collection_share_${linkId}`
+}
+
+export function createShareSession(linkId: string): string {
+  return sign(`collection_share_session:${linkId}`)
+}
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('base64url')
+  return `${salt}:${scryptSync(password, salt, 32).toString('base64url')}`
+}
+
+function checkPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':')
+  const given = scryptSync(password, salt, 32)
+  const expected = Buffer.from(hash, 'base64url')
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+function toShareLink(row: any): CollectionShareLink {
+  const { password_hash, ...link } = row
+  return { ...link, has_password: !!password_hash, url: getShareLinkUrl(row.id) }
+}
+
+export function isShareLinkActive(link: Pick<CollectionShareLink, 'revoked_at' | 'expires_at' | 'max_uses' | 'use_count'>): boolean {
+  return !link.revoked_at &&
+    new Date(link.expires_at) > new Date() &&
+    (link.max_uses === null || link.use_count < link.max_uses)
+}
+
+/**
+ * Share links of a collection, newest first. The caller's client must be
+ * allowed to manage the collection's collaborators.
+ */
+export async function listShareLinks(
+  supabase: SupabaseClient,
+  collectionId: string
+): Promise<CollectionShareLink[]> {
+  const { data, error } = await supabase
+    .from('collection_share_links')
+    .select('*')
+    .eq('collection_id', collectionId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map(toShareLink)
+}
+
+export async function createShareLink(
+  supabase: SupabaseClient,
+  collectionId: string,
+  userId: string,
+  options: CreateShareLinkOptions = {}
+): Promise<CollectionShareLink> {
+  const days = options.expires_in_days ?? DEFAULT_SHARE_LINK_DAYS
+  const expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+
+  const { data, error } = await supabase
+    .from('collection_share_links')
+    .insert([{
+      collection_id: collectionId,
+      created_by: userId,
+      scope: options.scope || 'view',
+      password_hash: options.password ? hashPassword(options.password) : null,
+      max_uses: options.max_uses ?? null,
+      expires_at: expiresAt.toISOString()
+    }])
+    .select()
+    .single()
+
+  if (error) throw error
+  return toShareLink(data)
+}
+
+/**
+ * Revokes a link; returns null if the collection has no such link
+ */
+export async function revokeShareLink(
+  supabase: SupabaseClient,
+  collectionId: string,
+  linkId: string
+): Promise<CollectionShareLink | null> {
+  const { data, error } = await supabase
+    .from('collection_share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId)
+    .eq('collection_id', collectionId)
+    .is('revoked_at', null)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toShareLink(data) : null
+}
+
+/**
+ * Opens a shared collection from a token. Each redemption counts one use,
+ * unless the visitor already has a session for the link. Returns the
+ * collection without hidden resources.
+ */
+export async function redeemShareLink(
+  token: string,
+  options: { password?: string; session?: string } = {}
+): Promise<RedeemShareLinkResult> {
+  const linkId = verifyShareToken(token)
+  if (!linkId) return { status: 'invalid' }
+
+  const admin = createAdminClient()
+
+  const { data: row, error } = await admin
+    .from('collection_share_links')
+    .select('*')
+    .eq('id', linkId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!row) return { status: 'invalid' }
+
+  let link = toShareLink(row)
+
+  if (options.session && verify(`collection_share_session:${linkId}`, options.session)) {
+    // Sessions end with the link, not with its remaining uses
+    if (link.revoked_at || new Date(link.expires_at) <= new Date()) {
+      return { status: 'invalid' }
+    }
+  } else {
+    if (!isShareLinkActive(link)) return { status: 'invalid' }
+
+    if (row.password_hash) {
+      if (!options.password) return { status: 'password_required' }
+      if (!checkPassword(options.password, row.password_hash)) return { status: 'wrong_password' }
+    }
+
+    const { data: redeemed, error: redeemError } = await admin
+      .rpc('redeem_collection_share_link', { p_link_id: linkId })
+
+    if (redeemError) throw redeemError
+    // Used up or revoked since we read it
+    if (!redeemed?.length) return { status: 'invalid' }
+
+    link = toShareLink(redeemed[0])
+  }
+
+  const collection = await new CollectionService(admin).getCollectionById(link.collection_id)
+  if (!collection) return { status: 'invalid' }
+
+  return {
+    status: 'ok',
+    link,
+    collection: {
+      ...collection,
+      resources: collection.resources?.filter(item => item.resource && !item.resource.is_hidden)
+    }
+  }
+}
+
+/**
+ * Adds a signed-in visitor of an 'edit' link as an editor, keeping any
+ * higher level they already have
+ */
+export async function joinFromShareLink(
+  link: CollectionShareLink,
+  userId: string
+): Promise<void> {
+  const admin = createAdminClient()
+
+  const { data: existing, error: existingError } = await admin
+    .from('collection_collaborators')
+    .select('permission_level')
+    .eq('collection_id', link.collection_id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (existingError) throw existingError
+  if (existing && existing.permission_level !== 'view') return
+
+  const { error } = await admin
+    .from('collection_collaborators')
+    .upsert([{
+      collection_id: link.collection_id,
+      user_id: userId,
+      permission_level: 'edit',
+      added_by: link.created_by
+    }], { onConflict: 'collection_id,user_id' })
+
+  if (error) throw error
+
+  // Same as accepting an edit invitation
+  await admin
+    .from('collections')
+    .update({ is_collaborative: true })
+    .eq('id', link.collection_id)
+}
@@ -0,0 +1,120 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Collection, CollectionSection } from '@/types'
+import { CollectionService } from './collection-service'
+import { CollectionTemplatesService } from './collection-templates-service'
+
+// The template insert and the author's department lookup
+function fakeClient(department: string | null = 'Physics') {
+  const inserted: Record<string, unknown>[] = []
+
+  const client = {
+    from: (table: string) => table === 'users'
+      ? { select: () => ({ eq: () => ({ single: async () => ({ data: { department }, error: null }) }) }) }
+      : {
+          insert: (rows: Record<string, unknown>[]) => {
+            inserted.push(...rows)
+            return { select: () => ({ single: async () => ({ data: { id: 'template-1', ...rows[0] }, error: null }) }) }
+          }
+        }
+  } as unknown as SupabaseClient
+
+  return { client, inserted }
+}
+
+const section = (name: string, orderIndex: number, overrides: Partial<CollectionSection> = {}): CollectionSection => ({
+  id: `section-${orderIndex}`,
+  collection_id: 'collection-1',
+  name,
+  order_index: orderIndex,
+  resource_types: [],
+  tags: [],
+  created_at: '2024-11-01T00:00:00Z',
+  ...overrides
+})
+
+function withCollection(sections: CollectionSection[]) {
+  vi.spyOn(CollectionService.prototype, 'getCollectionById').mockResolvedValue({
+    id: 'collection-1',
+    title: 'Mechanics',
+    description: 'Everything for PHY101',
+    tags: ['physics'],
+    sections
+  } as Collection)
+}
+
+describe('CollectionTemplatesService.createTemplateFromCollection', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('saves the sections in order with their rules', async () => {
+    withCollection([
+      section('Problem Sets', 1, { template_section_id: 'assignments', resource_types: ['document'] }),
+      section('Lecture Videos', 0, { tags: ['lecture'] })
+    ])
+    const { client, inserted } = fakeClient()
+
+    await new CollectionTemplatesService(client).createTemplateFromCollection('collection-1', 'user-1', { name: 'Physics Course' })
+
+    expect(inserted[0]).toMatchObject({
+      name: 'Physics Course',
+      description: 'Everything for PHY101',
+      category: 'Community',
+      tags: ['physics'],
+      created_by: 'user-1',
+      source_collection_id: 'collection-1',
+      visibility: 'private',
+      structure: {
+        auto_organize: true,
+        sections: [
+          { id: 'lecture-videos', name: 'Lecture Videos', order_index: 0, resource_types: undefined, tags: ['lecture'] },
+          { id: 'assignments', name: 'Problem Sets', order_index: 1, resource_types: ['document'], tags: undefined }
+        ]
+      }
+    })
+    expect(inserted[0]).not.toHaveProperty('department')
+  })
+
+  it('keeps section ids unique within the template', async () => {
+    withCollection([section('Notes', 0), section('notes!', 1), section('???', 2)])
+    const { client, inserted } = fakeClient()
+
+    await new CollectionTemplatesService(client).createTemplateFromCollection('collection-1', 'user-1', { name: 'Notes' })
+
+    const structure = inserted[0].structure as { sections: { id: string }[] }
+    expect(structure.sections.map(s => s.id)).toEqual(['notes', 'notes-2', 'section-3'])
+  })
+
+  it('publishes department templates to the author\'s department', async () => {
+    withCollection([section('Notes', 0)])
+    const { client, inserted } = fakeClient('Physics')
+
+    await new CollectionTemplatesService(client).createTemplateFromCollection('collection-1', 'user-1', {
+      name: 'Notes',
+      visibility: 'department'
+    })
+
+    expect(inserted[0]).toMatchObject({ visibility: 'department', department: 'Physics' })
+    expect(inserted[0].published_at).toEqual(expect.any(String))
+  })
+
+  it('refuses to publish without a department', async () => {
+    withCollection([section('Notes', 0)])
+    const { client, inserted } = fakeClient(null)
+
+    await expect(new CollectionTemplatesService(client).createTemplateFromCollection('collection-1', 'user-1', {
+      name: 'Notes',
+      visibility: 'department'
+    })).rejects.toThrow('Set your department in your profile to publish templates')
+    expect(inserted).toHaveLength(0)
+  })
+
+  it('needs sections to save', async () => {
+    withCollection([])
+    const { client } = fakeClient()
+
+    await expect(new CollectionTemplatesService(client).createTemplateFromCollection('collection-1', 'user-1', { name: 'Empty' }))
+      .rejects.toThrow('Add sections to the collection before saving it as a template')
+  })
+})
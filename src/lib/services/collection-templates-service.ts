@@ -1,6 +1,7 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/client'
-import { collectionService } from './collection-service'
-import type { Collection, Resource } from '@/types'
+import { CollectionService } from './collection-service'
+import type { Collection, Resource, User } from '@/types'
 
 export interface CollectionTemplate {
   id: string
@@ -13,8 +14,29 @@ export interface CollectionTemplate {
   structure: TemplateStructure
   is_system: boolean
   created_by?: string
+  creator?: Pick<User, 'id' | 'full_name' | 'department'>
   usage_count: number
   created_at: string
+  // User-authored templates only
+  source_collection_id?: string | null
+  visibility?: TemplateVisibility
+  department?: string | null
+  rating_average?: number
+  rating_count?: number
+  // The signed-in user's rating, if they rated it
+  user_rating?: number | null
+}
+
+// 'department' templates are published to the author's department
+export type TemplateVisibility = 'private' | 'department'
+
+export interface CreateTemplateData {
+  name: string
+  description?: string
+  category?: string
+  tags?: string[]
+  icon?: string
+  visibility?: TemplateVisibility
 }
 
 export interface TemplateStructure {
@@ -55,7 +77,14 @@ export interface CollectionRecommendation {
  * Service for managing collection templates and recommendations
  */
 export class CollectionTemplatesService {
-  private _supabase: ReturnType<typeof createClient> | null = null
+  private _supabase: SupabaseClient | null = null
+  private _collections: CollectionService | null = null
+
+  // API routes pass their request-scoped client; the shared instance uses
+  // the browser client
+  constructor(supabase?: SupabaseClient) {
+    this._supabase = supabase || null
+  }
 
   private get supabase() {
     if (!this._supabase) {
@@ -64,6 +93,13 @@ export class CollectionTemplatesService {
     return this._supabase
   }
 
+  private get collections() {
+    if (!this._collections) {
+      this._collections = new CollectionService(this.supabase)
+    }
+    return this._collections
+  }
+
   // Predefined system templates
   private systemTemplates: CollectionTemplate[] = [
     {
@@ -310,10 +346,24 @@ export class CollectionTemplatesService {
   ]
 
   /**
-   * Get all available templates
+   * Get all available templates: the system ones, the user's own and those
+   * published to their department
    */
   async getTemplates(category?: string): Promise<CollectionTemplate[]> {
-    let templates = [...this.systemTemplates]
+    const { data: userTemplates, error } = await this.supabase
+      .from('collection_templates')
+      .select(`
+        *,
+        creator:created_by(id, full_name, department)
+      `)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    let templates = await this.withUsageAndRatings([
+      ...this.systemTemplates,
+      ...(userTemplates || []).map(template => ({ ...template, is_system: false, usage_count: 0 }))
+    ])
 
     // Filter by category if specified
     if (category) {
@@ -322,12 +372,6 @@ export class CollectionTemplatesService {
       )
     }
 
-    // TODO: Add user-created templates from database
-    // const { data: userTemplates } = await this.supabase
-    //   .from('collection_templates')
-    //   .select('*')
-    //   .eq('is_system', false)
-
     return templates.sort((a, b) => b.usage_count - a.usage_count)
   }
 
@@ -338,12 +382,208 @@ export class CollectionTemplatesService {
     const template = this.systemTemplates.find(t => t.id === templateId)
     if (template) return template
 
-    // TODO: Check user-created templates in database
-    return null
+    // System template ids are slugs; only uuids can be user templates
+    if (!/^[0-9a-f-]{36}$/i.test(templateId)) return null
+
+    const { data: userTemplate, error } = await this.supabase
+      .from('collection_templates')
+      .select(`
+        *,
+        creator:created_by(id, full_name, department)
+      `)
+      .eq('id', templateId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!userTemplate) return null
+
+    const [withUsage] = await this.withUsageAndRatings([{ ...userTemplate, is_system: false, usage_count: 0 }])
+    return withUsage
+  }
+
+  /**
+   * Save a collection's sections as a template of the user's own
+   */
+  async createTemplateFromCollection(
+    collectionId: string,
+    userId: string,
+    data: CreateTemplateData
+  ): Promise<CollectionTemplate> {
+    const collection = await this.collections.getCollectionById(collectionId)
+    if (!collection) {
+      throw new Error('Collection not found')
+    }
+
+    const sections = [...(collection.sections || [])].sort((a, b) => a.order_index - b.order_index)
+    if (sections.length === 0) {
+      throw new Error('Add sections to the collection before saving it as a template')
+    }
+
+    // Template section ids only need to be unique within the template
+    const usedIds = new Set<string>()
+    const structure: TemplateStructure = {
+      sections: sections.map((section, index) => {
+        let id = section.template_section_id ||
+          section.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') ||
+          `section-${index + 1}`
+        if (usedIds.has(id)) id = `${id}-${index + 1}`
+        usedIds.add(id)
+
+        return {
+          id,
+          name: section.name,
+          description: section.description || undefined,
+          order_index: index,
+          resource_types: section.resource_types.length ? section.resource_types : undefined,
+          tags: section.tags.length ? section.tags : undefined
+        }
+      }),
+      auto_organize: true
+    }
+
+    const visibility = data.visibility || 'private'
+
+    const { data: template, error } = await this.supabase
+      .from('collection_templates')
+      .insert([{
+        name: data.name,
+        description: data.description ?? collection.description ?? '',
+        category: data.category || 'Community',
+        tags: data.tags ?? collection.tags ?? [],
+        icon: data.icon || '📁',
+        structure,
+        created_by: userId,
+        source_collection_id: collectionId,
+        visibility,
+        ...(visibility === 'department' && {
+          department: await this.getUserDepartment(userId),
+          published_at: new Date().toISOString()
+        })
+      }])
+      .select(`
+        *,
+        creator:created_by(id, full_name, department)
+      `)
+      .single()
+
+    if (error) throw error
+    return { ...template, is_system: false, usage_count: 0 } as CollectionTemplate
+  }
+
+  /**
+   * Publish one of the user's templates to their department, or make it
+   * private again
+   */
+  async setTemplateVisibility(
+    templateId: string,
+    userId: string,
+    visibility: TemplateVisibility
+  ): Promise<CollectionTemplate> {
+    const update = visibility === 'department'
+      ? {
+          visibility,
+          department: await this.getUserDepartment(userId),
+          published_at: new Date().toISOString()
+        }
+      : { visibility }
+
+    const { data: template, error } = await this.supabase
+      .from('collection_templates')
+      .update(update)
+      .eq('id', templateId)
+      .eq('created_by', userId)
+      .select()
+      .single()
+
+    if (error) throw error
+    return { ...template, is_system: false } as CollectionTemplate
+  }
+
+  /**
+   * Delete one of the user's templates
+   */
+  async deleteTemplate(templateId: string, userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('collection_templates')
+      .delete()
+      .eq('id', templateId)
+      .eq('created_by', userId)
+
+    if (error) throw error
+  }
+
+  /**
+   * Rate a template published to the user's department, 1 to 5; rating
+   * again replaces the earlier rating
+   */
+  async rateTemplate(
+    templateId: string,
+    rating: number
+  ): Promise<{ rating_average: number; rating_count: number }> {
+    const { data, error } = await this.supabase
+      .rpc('rate_collection_template', { p_template_id: templateId, p_rating: rating })
+
+    if (error) throw error
+
+    const result = Array.isArray(data) ? data[0] : data
+    return {
+      rating_average: Number(result?.rating_average ?? 0),
+      rating_count: result?.rating_count ?? 0
+    }
+  }
+
+  /**
+   * Fill in persisted usage counts, and the user's ratings of user templates
+   */
+  private async withUsageAndRatings(templates: CollectionTemplate[]): Promise<CollectionTemplate[]> {
+    if (templates.length === 0) return templates
+
+    const userTemplateIds = templates.filter(t => !t.is_system).map(t => t.id)
+    const { data: { user } } = await this.supabase.auth.getUser()
+
+    const [{ data: usage }, { data: ratings }] = await Promise.all([
+      this.supabase
+        .from('collection_template_usage')
+        .select('template_id, usage_count')
+        .in('template_id', templates.map(t => t.id)),
+      user && userTemplateIds.length > 0
+        ? this.supabase
+            .from('collection_template_ratings')
+            .select('template_id, rating')
+            .eq('user_id', user.id)
+            .in('template_id', userTemplateIds)
+        : Promise.resolve({ data: [] as { template_id: string; rating: number }[] })
+    ])
+
+    const usageCounts = new Map((usage || []).map(row => [row.template_id, row.usage_count]))
+    const userRatings = new Map((ratings || []).map(row => [row.template_id, row.rating]))
+
+    return templates.map(template => ({
+      ...template,
+      usage_count: usageCounts.get(template.id) ?? 0,
+      ...(!template.is_system && {
+        rating_average: Number(template.rating_average ?? 0),
+        user_rating: userRatings.get(template.id) ?? null
+      })
+    }))
+  }
+
+  private async getUserDepartment(userId: string): Promise<string> {
+    const { data: profile } = await this.supabase
+      .from('users')
+      .select('department')
+      .eq('id', userId)
+      .single()
+
+    if (!profile?.department) {
+      throw new Error('Set your department in your profile to publish templates')
+    }
+    return profile.department
   }
 
   /**
-   * Create collection from template
+   * Create collection from template. Usage is counted by the collections
+   * API, which calls this with the user's client.
    */
   async createCollectionFromTemplate(
     templateId: string,
@@ -370,33 +610,32 @@ export class CollectionTemplatesService {
       is_collaborative: customization?.is_collaborative || false
     }
 
-    const collection = await collectionService.createCollection(collectionData, userId)
-
-    // TODO: Create sections as collection resources or metadata
-    // For now, we'll add the template structure to the collection description
-    const structureInfo = template.structure.sections
-      .map(section => `• ${section.name}: ${section.description || 'No description'}`)
-      .join('\n')
+    const collection = await this.collections.createCollection(collectionData, userId)
 
-    await collectionService.updateCollection(
+    // Each template section becomes a section of the collection, keeping its
+    // rules to suggest where added resources go
+    const sections = await this.collections.createSections(
       collection.id,
-      {
-        description: `${collection.description}\n\nTemplate Structure:\n${structureInfo}`
-      },
+      [...template.structure.sections]
+        .sort((a, b) => a.order_index - b.order_index)
+        .map(section => ({
+          name: section.name,
+          description: section.description,
+          template_section_id: section.id,
+          resource_types: section.resource_types,
+          tags: section.tags
+        })),
       userId
     )
 
-    // Increment template usage count
-    await this.incrementTemplateUsage(templateId)
-
-    return collection
+    return { ...collection, sections }
   }
 
   /**
    * Get template categories
    */
-  getTemplateCategories(): string[] {
-    const categories = new Set(this.systemTemplates.map(t => t.category))
+  getTemplateCategories(templates: CollectionTemplate[] = this.systemTemplates): string[] {
+    const categories = new Set(templates.map(t => t.category))
     return Array.from(categories).sort()
   }
 
@@ -411,7 +650,7 @@ export class CollectionTemplatesService {
 
     try {
       // Get user's existing collections and resources
-      const userCollections = await collectionService.getCollectionsByUser(userId, true)
+      const userCollections = await this.collections.getCollectionsByUser(userId, true)
       const userInterests = await this.analyzeUserInterests(userId)
 
       // Template recommendations based on user interests
@@ -606,25 +845,16 @@ export class CollectionTemplatesService {
     }))
   }
 
-  /**
-   * Increment template usage count
-   */
-  private async incrementTemplateUsage(templateId: string): Promise<void> {
-    const template = this.systemTemplates.find(t => t.id === templateId)
-    if (template) {
-      template.usage_count++
-    }
-
-    // TODO: Update usage count in database for user-created templates
-  }
-
   /**
    * Search templates
    */
-  searchTemplates(query: string): CollectionTemplate[] {
+  searchTemplates(
+    query: string,
+    templates: CollectionTemplate[] = this.systemTemplates
+  ): CollectionTemplate[] {
     const searchTerm = query.toLowerCase()
     
-    return this.systemTemplates.filter(template =>
+    return templates.filter(template =>
       template.name.toLowerCase().includes(searchTerm) ||
       template.description.toLowerCase().includes(searchTerm) ||
       template.category.toLowerCase().includes(searchTerm) ||
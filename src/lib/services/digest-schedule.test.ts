@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import type { DigestSettings } from '@/types'
+import {
+  DEFAULT_DIGEST_SETTINGS,
+  getDigestSchedule,
+  isValidTimeZone,
+  normalizeDigestSettings
+} from './digest-schedule'
+
+const settings = (overrides: Partial<DigestSettings> = {}): DigestSettings => ({
+  ...DEFAULT_DIGEST_SETTINGS,
+  ...overrides
+})
+
+describe('normalizeDigestSettings', () => {
+  it('falls back to the defaults when nothing was saved', () => {
+    expect(normalizeDigestSettings(null)).toEqual(DEFAULT_DIGEST_SETTINGS)
+    expect(normalizeDigestSettings({ frequency: 'daily' })).toEqual({ ...DEFAULT_DIGEST_SETTINGS, frequency: 'daily' })
+  })
+
+  it('replaces out-of-range and unknown values', () => {
+    const normalized = normalizeDigestSettings({
+      frequency: 'hourly' as DigestSettings['frequency'],
+      sections: ['achievements', 'spam' as DigestSettings['sections'][number]],
+      send_hour: 24,
+      day_of_week: 1.5,
+      day_of_month: 31,
+      timezone: 'Mars/Olympus_Mons'
+    })
+
+    expect(normalized).toEqual({ ...DEFAULT_DIGEST_SETTINGS, sections: ['achievements'] })
+  })
+
+  it('keeps an empty section list so users can opt out of every section', () => {
+    expect(normalizeDigestSettings({ sections: [] }).sections).toEqual([])
+  })
+})
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones and rejects unknown ones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Not/AZone')).toBe(false)
+  })
+})
+
+describe('getDigestSchedule', () => {
+  // Monday 2024-11-04, 09:30 UTC
+  const monday = new Date('2024-11-04T09:30:00Z')
+
+  it('is due from the send hour on the send day', () => {
+    expect(getDigestSchedule(settings({ send_hour: 8 }), monday)).toMatchObject({
+      due: true,
+      periodKey: 'weekly:2024-11-04'
+    })
+    expect(getDigestSchedule(settings({ send_hour: 10 }), monday).due).toBe(false)
+    expect(getDigestSchedule(settings({ day_of_week: 2 }), monday).due).toBe(false)
+  })
+
+  it('uses the local day and hour of the user\'s time zone', () => {
+    // 18:30 on Monday in Tokyo; 04:30 on Monday in New York
+    const tokyo = getDigestSchedule(settings({ send_hour: 18, timezone: 'Asia/Tokyo' }), monday)
+    const newYork = getDigestSchedule(settings({ send_hour: 8, timezone: 'America/New_York' }), monday)
+
+    expect(tokyo.due).toBe(true)
+    expect(newYork).toMatchObject({ due: false, periodKey: 'weekly:2024-11-04' })
+
+    // Already Tuesday in Tokyo
+    const lateMonday = new Date('2024-11-04T16:00:00Z')
+    expect(getDigestSchedule(settings({ timezone: 'Asia/Tokyo' }), lateMonday).due).toBe(false)
+  })
+
+  it('keys daily and monthly digests by their period', () => {
+    expect(getDigestSchedule(settings({ frequency: 'daily' }), monday)).toMatchObject({
+      due: true,
+      periodKey: 'daily:2024-11-04'
+    })
+    expect(getDigestSchedule(settings({ frequency: 'monthly', day_of_month: 4 }), monday)).toMatchObject({
+      due: true,
+      periodKey: 'monthly:2024-11'
+    })
+    expect(getDigestSchedule(settings({ frequency: 'monthly', day_of_month: 1 }), monday).due).toBe(false)
+  })
+
+  it('looks back over the whole period', () => {
+    // Clear of daylight saving changes, which would shift the hour locally
+    const now = new Date('2024-06-19T12:00:00Z')
+
+    expect(getDigestSchedule(settings({ frequency: 'daily' }), now).periodStart).toEqual(new Date('2024-06-18T12:00:00Z'))
+    expect(getDigestSchedule(settings(), now).periodStart).toEqual(new Date('2024-06-12T12:00:00Z'))
+  })
+})
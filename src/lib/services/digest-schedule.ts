@@ -0,0 +1,133 @@
+import type { DigestFrequency, DigestSection, DigestSettings } from '@/types'
+
+export const DIGEST_SECTIONS: { id: DigestSection; label: string; description: string }[] = [
+  {
+    id: 'followed_courses',
+    label: 'Followed courses',
+    description: 'New resources in the courses you follow',
+  },
+  {
+    id: 'top_department',
+    label: 'Top in your department',
+    description: 'The most upvoted new resources and top contributors in your department',
+  },
+  {
+    id: 'collection_activity',
+    label: 'Collection activity',
+    description: 'What collaborators changed in your collections',
+  },
+  {
+    id: 'achievements',
+    label: 'Achievements',
+    description: 'Badges and points you earned',
+  },
+]
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  frequency: 'weekly',
+  sections: DIGEST_SECTIONS.map(section => section.id),
+  send_hour: 8,
+  day_of_week: 1,
+  day_of_month: 1,
+  timezone: 'UTC',
+}
+
+// How far back each digest looks for content
+const PERIOD_DAYS: Record<DigestFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+}
+
+/**
+ * Fills in anything missing or out of range, e.g. for users who saved their
+ * preferences before digest settings existed.
+ */
+export function normalizeDigestSettings(settings?: Partial<DigestSettings> | null): DigestSettings {
+  const merged = { ...DEFAULT_DIGEST_SETTINGS, ...(settings || {}) }
+  const clamp = (value: number, min: number, max: number, fallback: number) =>
+    Number.isInteger(value) && value >= min && value <= max ? value : fallback
+
+  return {
+    frequency: merged.frequency in PERIOD_DAYS ? merged.frequency : DEFAULT_DIGEST_SETTINGS.frequency,
+    sections: Array.isArray(merged.sections)
+      ? merged.sections.filter(section => DIGEST_SECTIONS.some(s => s.id === section))
+      : DEFAULT_DIGEST_SETTINGS.sections,
+    send_hour: clamp(merged.send_hour, 0, 23, DEFAULT_DIGEST_SETTINGS.send_hour),
+    day_of_week: clamp(merged.day_of_week, 0, 6, DEFAULT_DIGEST_SETTINGS.day_of_week),
+    day_of_month: clamp(merged.day_of_month, 1, 28, DEFAULT_DIGEST_SETTINGS.day_of_month),
+    timezone: isValidTimeZone(merged.timezone) ? merged.timezone : DEFAULT_DIGEST_SETTINGS.timezone,
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+interface LocalTime {
+  date: string
+  month: string
+  day: number
+  weekday: number
+  hour: number
+}
+
+function getLocalTime(now: Date, timeZone: string): LocalTime {
+  const parts: Record<string, string> = {}
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now).forEach(part => {
+    parts[part.type] = part.value
+  })
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    month: `${parts.year}-${parts.month}`,
+    day: parseInt(parts.day, 10),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday),
+    hour: parseInt(parts.hour, 10),
+  }
+}
+
+export interface DigestSchedule {
+  due: boolean
+  // Identifies the digest a send belongs to, e.g. 'weekly:2024-11-04', so a
+  // re-run within the same period is recognised as a repeat
+  periodKey: string
+  periodStart: Date
+}
+
+/**
+ * Whether a digest is due at `now` for these settings. A digest becomes due
+ * at the user's send hour on their send day and stays due for the rest of
+ * that local day, so a late or repeated scheduled run still picks it up.
+ */
+export function getDigestSchedule(settings: DigestSettings, now: Date = new Date()): DigestSchedule {
+  const local = getLocalTime(now, settings.timezone)
+
+  const periodStart = new Date(now)
+  periodStart.setDate(periodStart.getDate() - PERIOD_DAYS[settings.frequency])
+
+  const onSendDay = settings.frequency === 'daily'
+    || (settings.frequency === 'weekly' && local.weekday === settings.day_of_week)
+    || (settings.frequency === 'monthly' && local.day === settings.day_of_month)
+
+  return {
+    due: onSendDay && local.hour >= settings.send_hour,
+    periodKey: settings.frequency === 'monthly'
+      ? `monthly:${local.month}`
+      : `${settings.frequency}:${local.date}`,
+    periodStart,
+  }
+}
@@ -1,6 +1,48 @@
-import { createClient } from '@/lib/supabase/server'
+import { randomUUID } from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
 import { config } from '@/shared/config'
 import { logger } from '@/lib/logger'
+import {
+  emailService,
+  renderBrandedEmail,
+  escapeHtml,
+  appUrl,
+  getUnsubscribeUrl,
+  getUnsubscribeHeaders
+} from '@/lib/services/email'
+import type { EmailMessage } from '@/lib/services/email'
+import { getDigestSchedule, normalizeDigestSettings } from '@/lib/services/digest-schedule'
+import type { DigestSchedule } from '@/lib/services/digest-schedule'
+import type { DigestSettings, EmailDelivery } from '@/types'
+
+const DIGEST_TEMPLATE = 'digest'
+const USER_PAGE_SIZE = 500
+
+const FREQUENCY_LABELS: Record<DigestSettings['frequency'], string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+}
+
+const ACTIVITY_LABELS: Record<string, string> = {
+  resource_added: 'added a resource to',
+  resource_removed: 'removed a resource from',
+  resource_reordered: 'reordered resources in',
+  collection_updated: 'updated',
+  user_joined: 'joined',
+  notes_updated: 'updated notes in'
+}
+
+export interface DigestResource {
+  id: string
+  title: string
+  department: string
+  course: string
+  uploaded_by: string
+  uploader_name: string
+  upvotes: number
+  created_at: string
+}
 
 export interface DigestData {
   user: {
@@ -9,13 +51,15 @@ export interface DigestData {
     full_name: string
     department: string
   }
-  newResources: Array<{
-    id: string
-    title: string
-    department: string
-    course: string
-    uploaded_by: string
-    uploader_name: string
+  settings: DigestSettings
+  periodStart: string
+  followedCourseResources: DigestResource[]
+  topDepartmentResources: DigestResource[]
+  collectionActivity: Array<{
+    collection_id: string
+    collection_title: string
+    user_name: string
+    activity_type: string
     created_at: string
   }>
   achievements: Array<{
@@ -30,22 +74,69 @@ export interface DigestData {
       name: string
       points: number
     }>
-  }
+  } | null
+}
+
+export interface DigestRunResult {
+  user_id: string
+  email?: string
+  // duplicate: this period's digest had already been sent
+  status: EmailDelivery['status'] | 'skipped' | 'duplicate' | 'error'
+  delivery_id?: string
+  error?: string
+}
+
+export interface DigestRunReport {
+  batch_id: string
+  checked: number
+  due: number
+  sent: number
+  failed: number
+  skipped: number
+  duplicates: number
+  errors: number
+  results: DigestRunResult[]
 }
 
+interface DueUser {
+  userId: string
+  settings: DigestSettings
+  schedule: DigestSchedule
+}
+
+/**
+ * Builds and sends email digests. Runs server-side without a session (from
+ * the scheduled run), so it reads with the service role.
+ */
 export class EmailDigestService {
-  private _supabase: ReturnType<typeof createClient> | null = null
+  private _supabase: ReturnType<typeof createAdminClient> | null = null
 
   private get supabase() {
     if (!this._supabase) {
-      this._supabase = createClient()
+      this._supabase = createAdminClient()
     }
     return this._supabase
   }
 
-  async generateWeeklyDigest(userId: string): Promise<DigestData | null> {
+  async getDigestSettings(userId: string): Promise<DigestSettings> {
+    const { data: preferences } = await this.supabase
+      .from('user_preferences')
+      .select('digest_settings')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    return normalizeDigestSettings(preferences?.digest_settings)
+  }
+
+  /**
+   * Collects the sections the user picked for the period since periodStart.
+   */
+  async generateDigest(
+    userId: string,
+    settings: DigestSettings,
+    periodStart: Date
+  ): Promise<DigestData | null> {
     try {
-      // Get user info
       const { data: user, error: userError } = await this.supabase
         .from('users')
         .select('id, email, full_name, department')
@@ -57,178 +148,373 @@ export class EmailDigestService {
         return null
       }
 
-      // Get user preferences to check if they want email digest
-      const { data: preferences } = await this.supabase
-        .from('user_preferences')
-        .select('notification_settings')
-        .eq('user_id', userId)
-        .single()
+      const since = periodStart.toISOString()
+      const wants = (section: DigestSettings['sections'][number]) => settings.sections.includes(section)
 
-      if (preferences && !preferences.notification_settings?.email_digest) {
-        return null // User has disabled email digest
-      }
+      const [followedCourseResources, topDepartmentResources, collectionActivity, achievements, departmentStats] =
+        await Promise.all([
+          wants('followed_courses') ? this.getFollowedCourseResources(userId, since) : [],
+          wants('top_department') ? this.getTopDepartmentResources(user.department, since) : [],
+          wants('collection_activity') ? this.getCollectionActivity(userId, since) : [],
+          wants('achievements') ? this.getAchievements(userId, since) : [],
+          wants('top_department') ? this.getDepartmentStats(user.department) : null
+        ])
 
-      const oneWeekAgo = new Date()
-      oneWeekAgo.setDate(oneWeekAgo.getDate() - 7)
-
-      // Get new resources in user's department from the last week
-      const { data: newResources, error: resourcesError } = await this.supabase
-        .from('resources')
-        .select(`
-          id,
-          title,
-          department,
-          course,
-          uploaded_by,
-          created_at,
-          users!resources_uploaded_by_fkey(full_name)
-        `)
-        .eq('department', user.department)
-        .gte('created_at', oneWeekAgo.toISOString())
-        .order('created_at', { ascending: false })
-        .limit(10)
-
-      if (resourcesError) {
-        logger.error('Error fetching new resources', { error: resourcesError })
+      return {
+        user,
+        settings,
+        periodStart: since,
+        followedCourseResources,
+        topDepartmentResources,
+        collectionActivity,
+        achievements,
+        departmentStats
       }
+    } catch (error) {
+      logger.error('Error generating digest', { error })
+      return null
+    }
+  }
 
-      // Get user's recent achievements
-      const { data: achievements, error: achievementsError } = await this.supabase
-        .from('notifications')
-        .select('title, data, created_at')
-        .eq('user_id', userId)
-        .eq('type', 'achievement')
-        .gte('created_at', oneWeekAgo.toISOString())
-        .order('created_at', { ascending: false })
-
-      if (achievementsError) {
-        logger.error('Error fetching achievements', { error: achievementsError })
-      }
+  // Department stats alone are not worth an email
+  hasContent(digestData: DigestData): boolean {
+    return digestData.followedCourseResources.length > 0 ||
+      digestData.topDepartmentResources.length > 0 ||
+      digestData.collectionActivity.length > 0 ||
+      digestData.achievements.length > 0
+  }
 
-      // Get department statistics
-      const { data: departmentUsers, error: usersError } = await this.supabase
-        .from('users')
-        .select('id, full_name, points')
-        .eq('department', user.department)
-        .order('points', { ascending: false })
-        .limit(5)
+  private mapResources(resources: any[] | null): DigestResource[] {
+    return (resources || []).map(resource => ({
+      id: resource.id,
+      title: resource.title,
+      department: resource.department,
+      course: resource.course,
+      uploaded_by: resource.uploaded_by,
+      uploader_name: resource.users?.full_name || 'Unknown',
+      upvotes: resource.upvotes || 0,
+      created_at: resource.created_at
+    }))
+  }
 
-      if (usersError) {
-        logger.error('Error fetching department users', { error: usersError })
-      }
+  private async getFollowedCourseResources(userId: string, since: string): Promise<DigestResource[]> {
+    const { data: follows } = await this.supabase
+      .from('follows')
+      .select('target_value')
+      .eq('user_id', userId)
+      .eq('target_type', 'course')
+
+    const courses = (follows || []).map(follow => follow.target_value as string)
+    if (courses.length === 0) return []
+
+    // Course codes are stored as typed, so match them case-insensitively
+    const { data: resources, error } = await this.supabase
+      .from('resources')
+      .select(`
+        id,
+        title,
+        department,
+        course,
+        uploaded_by,
+        upvotes,
+        created_at,
+        users!resources_uploaded_by_fkey(full_name)
+      `)
+      .or(courses.map(course => `course.ilike."${course.replace(/"/g, '')}"`).join(','))
+      .neq('uploaded_by', userId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(10)
+
+    if (error) {
+      logger.error('Error fetching followed course resources', { error })
+    }
+    return this.mapResources(resources)
+  }
 
-      const { count: totalResources } = await this.supabase
-        .from('resources')
-        .select('*', { count: 'exact', head: true })
-        .eq('department', user.department)
+  private async getTopDepartmentResources(department: string, since: string): Promise<DigestResource[]> {
+    const { data: resources, error } = await this.supabase
+      .from('resources')
+      .select(`
+        id,
+        title,
+        department,
+        course,
+        uploaded_by,
+        upvotes,
+        created_at,
+        users!resources_uploaded_by_fkey(full_name)
+      `)
+      .eq('department', department)
+      .gte('created_at', since)
+      .gt('upvotes', 0)
+      .order('upvotes', { ascending: false })
+      .limit(5)
+
+    if (error) {
+      logger.error('Error fetching top department resources', { error })
+    }
+    return this.mapResources(resources)
+  }
 
-      const { count: totalUsers } = await this.supabase
-        .from('users')
-        .select('*', { count: 'exact', head: true })
-        .eq('department', user.department)
+  // Changes other people made to collections the user owns or collaborates on
+  private async getCollectionActivity(userId: string, since: string): Promise<DigestData['collectionActivity']> {
+    const [{ data: owned }, { data: collaborating }] = await Promise.all([
+      this.supabase.from('collections').select('id').eq('created_by', userId),
+      this.supabase.from('collection_collaborators').select('collection_id').eq('user_id', userId)
+    ])
+
+    const collectionIds = [
+      ...(owned || []).map(c => c.id as string),
+      ...(collaborating || []).map(c => c.collection_id as string)
+    ]
+    if (collectionIds.length === 0) return []
+
+    const { data: activities, error } = await this.supabase
+      .from('collaboration_activities')
+      .select('collection_id, user_name, activity_type, created_at, collections(title)')
+      .in('collection_id', collectionIds)
+      .neq('user_id', userId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(10)
+
+    if (error) {
+      logger.error('Error fetching collection activity', { error })
+    }
 
-      return {
-        user,
-        newResources: (newResources || []).map(resource => ({
-          id: resource.id,
-          title: resource.title,
-          department: resource.department,
-          course: resource.course,
-          uploaded_by: resource.uploaded_by,
-          uploader_name: (resource.users as any)?.full_name || 'Unknown',
-          created_at: resource.created_at
-        })),
-        achievements: (achievements || []).map(achievement => ({
-          title: achievement.data?.achievement || achievement.title,
-          points: achievement.data?.points || 0,
-          created_at: achievement.created_at
-        })),
-        departmentStats: {
-          totalResources: totalResources || 0,
-          totalUsers: totalUsers || 0,
-          topContributors: (departmentUsers || []).map(user => ({
-            name: user.full_name,
-            points: user.points
-          }))
+    return (activities || []).map(activity => ({
+      collection_id: activity.collection_id,
+      collection_title: (activity.collections as any)?.title || 'a collection',
+      user_name: activity.user_name,
+      activity_type: activity.activity_type,
+      created_at: activity.created_at
+    }))
+  }
+
+  private async getAchievements(userId: string, since: string): Promise<DigestData['achievements']> {
+    const { data: achievements, error } = await this.supabase
+      .from('notifications')
+      .select('title, data, created_at')
+      .eq('user_id', userId)
+      .eq('type', 'achievement')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching achievements', { error })
+    }
+
+    return (achievements || []).map(achievement => ({
+      title: achievement.data?.achievement || achievement.title,
+      points: achievement.data?.points || 0,
+      created_at: achievement.created_at
+    }))
+  }
+
+  private async getDepartmentStats(department: string): Promise<DigestData['departmentStats']> {
+    const [{ data: departmentUsers, error: usersError }, { count: totalResources }, { count: totalUsers }] =
+      await Promise.all([
+        this.supabase
+          .from('users')
+          .select('id, full_name, points')
+          .eq('department', department)
+          .order('points', { ascending: false })
+          .limit(5),
+        this.supabase
+          .from('resources')
+          .select('*', { count: 'exact', head: true })
+          .eq('department', department),
+        this.supabase
+          .from('users')
+          .select('*', { count: 'exact', head: true })
+          .eq('department', department)
+      ])
+
+    if (usersError) {
+      logger.error('Error fetching department users', { error: usersError })
+    }
+
+    return {
+      totalResources: totalResources || 0,
+      totalUsers: totalUsers || 0,
+      topContributors: (departmentUsers || []).map(user => ({
+        name: user.full_name,
+        points: user.points
+      }))
+    }
+  }
+
+  /**
+   * Users with the email digest on whose digest is due at `now`, in their
+   * own timezone and cadence.
+   */
+  async getDueUsers(now: Date = new Date()): Promise<{ checked: number; due: DueUser[] }> {
+    const due: DueUser[] = []
+    let checked = 0
+
+    for (let from = 0; ; from += USER_PAGE_SIZE) {
+      const { data: rows, error } = await this.supabase
+        .from('user_preferences')
+        .select('user_id, notification_settings, digest_settings')
+        .order('user_id')
+        .range(from, from + USER_PAGE_SIZE - 1)
+
+      if (error) throw error
+
+      for (const row of rows || []) {
+        if (row.notification_settings?.email_digest === false) continue
+        checked++
+
+        const settings = normalizeDigestSettings(row.digest_settings)
+        if (settings.sections.length === 0) continue
+
+        const schedule = getDigestSchedule(settings, now)
+        if (schedule.due) {
+          due.push({ userId: row.user_id, settings, schedule })
         }
       }
-    } catch (error) {
-      logger.error('Error generating weekly digest', { error })
-      return null
+
+      if (!rows || rows.length < USER_PAGE_SIZE) break
     }
+
+    return { checked, due }
   }
 
-  async getInactiveUsers(daysSinceLastActivity: number = 7): Promise<string[]> {
-    try {
-      const cutoffDate = new Date()
-      cutoffDate.setDate(cutoffDate.getDate() - daysSinceLastActivity)
+  /**
+   * Generates and sends every digest due at `now`. Safe to re-run: a digest
+   * already sent for a user's current period is skipped, both by the check
+   * here and by the unique period key on email_deliveries.
+   */
+  async runScheduledDigests(now: Date = new Date()): Promise<DigestRunReport> {
+    const batchId = randomUUID()
+    const { checked, due } = await this.getDueUsers(now)
+    const results: DigestRunResult[] = []
+
+    const alreadySent = await this.getSentPeriods(due)
+
+    for (const { userId, settings, schedule } of due) {
+      if (alreadySent.has(`${userId}:${schedule.periodKey}`)) {
+        results.push({ user_id: userId, status: 'duplicate' })
+        continue
+      }
 
-      // Get users who haven't had any interactions recently
-      const { data: activeUsers } = await this.supabase
-        .from('user_interactions')
-        .select('user_id')
-        .gte('created_at', cutoffDate.toISOString())
+      try {
+        const digestData = await this.generateDigest(userId, settings, schedule.periodStart)
 
-      const activeUserIds = new Set((activeUsers || []).map(u => u.user_id))
+        if (!digestData || !this.hasContent(digestData)) {
+          results.push({ user_id: userId, status: 'skipped' })
+          continue
+        }
 
-      // Get all users with email digest enabled
-      const { data: allUsers } = await this.supabase
-        .from('users')
-        .select(`
-          id,
-          user_preferences!inner(notification_settings)
-        `)
-
-      const inactiveUsers = (allUsers || [])
-        .filter(user => {
-          const hasEmailDigest = (user.user_preferences as any)?.notification_settings?.email_digest !== false
-          return hasEmailDigest && !activeUserIds.has(user.id)
+        const delivery = await this.sendDigestEmail(digestData, {
+          batchId,
+          periodKey: schedule.periodKey
         })
-        .map(user => user.id)
 
-      return inactiveUsers
-    } catch (error) {
-      logger.error('Error getting inactive users', { error })
-      return []
+        results.push(delivery
+          ? {
+              user_id: userId,
+              email: delivery.email,
+              status: delivery.status,
+              delivery_id: delivery.id,
+              error: delivery.error
+            }
+          : { user_id: userId, email: digestData.user.email, status: 'duplicate' })
+      } catch (error) {
+        logger.error(`Error processing digest for user ${userId}`, { error })
+        results.push({
+          user_id: userId,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    const countOf = (status: DigestRunResult['status']) =>
+      results.filter(result => result.status === status).length
+
+    return {
+      batch_id: batchId,
+      checked,
+      due: due.length,
+      sent: countOf('sent'),
+      failed: countOf('failed'),
+      skipped: countOf('skipped'),
+      duplicates: countOf('duplicate'),
+      errors: countOf('error'),
+      results
     }
   }
 
-  generateEmailHTML(digestData: DigestData): string {
-    const { user, newResources, achievements, departmentStats } = digestData
-
-
-
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <title>${config.branding.appName} Weekly Digest</title>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #2563eb; color: white; padding: 20px; text-align: center; }
-          .section { margin: 20px 0; padding: 15px; border-left: 4px solid #2563eb; }
-          .resource-item { margin: 10px 0; padding: 10px; background: #f8f9fa; border-radius: 5px; }
-          .achievement { background: #fef3c7; border-left-color: #f59e0b; }
-          .stats { background: #ecfdf5; border-left-color: #10b981; }
-          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>${config.branding.appName} Weekly Digest</h1>
-            <p>Hello ${user.full_name}! Here's what happened this week in ${user.department}.</p>
+  private async getSentPeriods(due: DueUser[]): Promise<Set<string>> {
+    const sent = new Set<string>()
+    if (due.length === 0) return sent
+
+    const periodKeys = Array.from(new Set(due.map(user => user.schedule.periodKey)))
+
+    for (let i = 0; i < due.length; i += USER_PAGE_SIZE) {
+      const { data: deliveries, error } = await this.supabase
+        .from('email_deliveries')
+        .select('user_id, period_key')
+        .eq('template', DIGEST_TEMPLATE)
+        .in('user_id', due.slice(i, i + USER_PAGE_SIZE).map(user => user.userId))
+        .in('period_key', periodKeys)
+        .neq('status', 'failed')
+
+      if (error) throw error
+      for (const delivery of deliveries || []) {
+        sent.add(`${delivery.user_id}:${delivery.period_key}`)
+      }
+    }
+
+    return sent
+  }
+
+  generateEmail(digestData: DigestData): EmailMessage {
+    const {
+      user,
+      settings,
+      followedCourseResources,
+      topDepartmentResources,
+      collectionActivity,
+      achievements,
+      departmentStats
+    } = digestData
+    const title = `${config.branding.appName} ${FREQUENCY_LABELS[settings.frequency]} Digest`
+    const period = { daily: 'today', weekly: 'this week', monthly: 'this month' }[settings.frequency]
+
+    const renderResources = (resources: DigestResource[], showVotes: boolean) => resources.map(resource => `
+              <div class="resource-item">
+                <a href="${escapeHtml(appUrl(`/resources/${resource.id}`))}"><strong>${escapeHtml(resource.title)}</strong></a><br>
+                <small>${escapeHtml(resource.course)} • Uploaded by ${escapeHtml(resource.uploader_name)}${showVotes ? ` • ${resource.upvotes} upvotes` : ''}</small>
+              </div>
+            `).join('')
+
+    const bodyHtml = `
+          <p>Hello ${escapeHtml(user.full_name)}! Here's what happened ${period}.</p>
+
+          ${followedCourseResources.length > 0 ? `
+          <div class="section">
+            <h2>📚 New in Courses You Follow</h2>
+            ${renderResources(followedCourseResources, false)}
           </div>
+          ` : ''}
 
-          ${newResources.length > 0 ? `
+          ${topDepartmentResources.length > 0 ? `
           <div class="section">
-            <h2>📚 New Resources This Week</h2>
-            ${newResources.map(resource => `
+            <h2>🔥 Top Voted in ${escapeHtml(user.department)}</h2>
+            ${renderResources(topDepartmentResources, true)}
+          </div>
+          ` : ''}
+
+          ${collectionActivity.length > 0 ? `
+          <div class="section">
+            <h2>🗂️ Collection Activity</h2>
+            ${collectionActivity.map(activity => `
               <div class="resource-item">
-                <strong>${resource.title}</strong><br>
-                <small>${resource.course} • Uploaded by ${resource.uploader_name}</small>
+                ${escapeHtml(activity.user_name)} ${escapeHtml(ACTIVITY_LABELS[activity.activity_type] || 'changed')}
+                <strong>${escapeHtml(activity.collection_title)}</strong>
               </div>
             `).join('')}
           </div>
@@ -239,55 +525,94 @@ export class EmailDigestService {
             <h2>🏆 Your Achievements</h2>
             ${achievements.map(achievement => `
               <div class="resource-item">
-                <strong>${achievement.title}</strong><br>
+                <strong>${escapeHtml(achievement.title)}</strong><br>
                 <small>+${achievement.points} points</small>
               </div>
             `).join('')}
           </div>
           ` : ''}
 
+          ${departmentStats ? `
           <div class="section stats">
             <h2>📊 Department Stats</h2>
             <p><strong>Total Resources:</strong> ${departmentStats.totalResources}</p>
             <p><strong>Active Users:</strong> ${departmentStats.totalUsers}</p>
             <h3>Top Contributors:</h3>
             ${departmentStats.topContributors.map((contributor, index) => `
-              <p>${index + 1}. ${contributor.name} - ${contributor.points} points</p>
+              <p>${index + 1}. ${escapeHtml(contributor.name)} - ${contributor.points} points</p>
             `).join('')}
           </div>
-
-          <div class="footer">
-            <p>You're receiving this because you have email digest enabled in your preferences.</p>
-            <p><a href="${process.env.NEXT_PUBLIC_APP_URL}/settings">Update your preferences</a></p>
-          </div>
-        </div>
-      </body>
-      </html>
+          ` : ''}
     `
-  }
 
-  // This would typically integrate with an email service like SendGrid, AWS SES, etc.
-  async sendDigestEmail(digestData: DigestData): Promise<boolean> {
-    try {
-      // In a real implementation, you would send the email here
-      // For now, we'll just log it
-      logger.debug(`Would send digest email to ${digestData.user.email}`)
-      logger.debug('Email content generated', { recipientEmail: digestData.user.email })
-
-      // TODO: Integrate with actual email service
-      // Example with a hypothetical email service:
-      // await emailService.send({
-      //   to: digestData.user.email,
-      //   subject: `${config.branding.appName} Weekly Digest`,
-      //   html: this.generateEmailHTML(digestData)
-      // })
-
-      return true
-    } catch (error) {
-      logger.error('Error sending digest email', { error })
-      return false
+    const textResources = (heading: string, resources: DigestResource[]) => resources.length > 0 && [
+      heading,
+      ...resources.map(resource =>
+        `- ${resource.title} (${resource.course}, uploaded by ${resource.uploader_name}): ${appUrl(`/resources/${resource.id}`)}`
+      )
+    ].join('\n')
+
+    const text = [
+      `Hello ${user.full_name}! Here's what happened ${period}.`,
+      textResources('New in Courses You Follow', followedCourseResources),
+      textResources(`Top Voted in ${user.department}`, topDepartmentResources),
+      collectionActivity.length > 0 && [
+        'Collection Activity',
+        ...collectionActivity.map(activity =>
+          `- ${activity.user_name} ${ACTIVITY_LABELS[activity.activity_type] || 'changed'} ${activity.collection_title}`
+        )
+      ].join('\n'),
+      achievements.length > 0 && [
+        'Your Achievements',
+        ...achievements.map(achievement => `- ${achievement.title} (+${achievement.points} points)`)
+      ].join('\n'),
+      departmentStats && [
+        'Department Stats',
+        `Total Resources: ${departmentStats.totalResources}`,
+        `Active Users: ${departmentStats.totalUsers}`,
+        ...departmentStats.topContributors.map((contributor, index) =>
+          `${index + 1}. ${contributor.name} - ${contributor.points} points`
+        )
+      ].join('\n')
+    ].filter(Boolean).join('\n\n')
+
+    const { html, text: plainText } = renderBrandedEmail({
+      title,
+      bodyHtml,
+      text,
+      footerNote: "You're receiving this because you have email digest enabled in your preferences.",
+      preferencesUrl: appUrl('/settings'),
+      unsubscribeUrl: getUnsubscribeUrl(user.id)
+    })
+
+    return {
+      to: user.email,
+      subject: title,
+      html,
+      text: plainText,
+      headers: getUnsubscribeHeaders(user.id)
     }
   }
+
+  generateEmailHTML(digestData: DigestData): string {
+    return this.generateEmail(digestData).html
+  }
+
+  /**
+   * Sends the digest and returns its delivery record, or null if this
+   * period's digest was already sent to the user.
+   */
+  async sendDigestEmail(
+    digestData: DigestData,
+    options: { batchId?: string; periodKey?: string } = {}
+  ): Promise<EmailDelivery | null> {
+    return emailService.send(this.generateEmail(digestData), {
+      template: DIGEST_TEMPLATE,
+      userId: digestData.user.id,
+      batchId: options.batchId,
+      periodKey: options.periodKey
+    })
+  }
 }
 
-export const emailDigestService = new EmailDigestService()
\ No newline at end of file
+export const emailDigestService = new EmailDigestService()
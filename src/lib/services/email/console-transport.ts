@@ -0,0 +1,23 @@
+import { randomUUID } from 'crypto'
+import { logger } from '@/lib/logger'
+import type { EmailMessage, EmailSendResult, EmailTransport } from './types'
+
+/**
+ * Default transport when none is configured: logs the email and reports it
+ * as sent, so flows can be exercised without a mail server.
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console'
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `<${randomUUID()}@console.local>`
+
+    logger.info(`Email to ${message.to}: ${message.subject}`, {
+      messageId,
+      headers: message.headers,
+      text: message.text,
+    })
+
+    return { messageId, accepted: true }
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { logger } from '@/lib/logger'
+import { EmailService, createTransportFromEnv } from './email-service'
+import type { EmailSendResult, EmailTransport } from './types'
+
+vi.mock('@/lib/supabase/admin', () => ({ createAdminClient: vi.fn() }))
+
+// Records the email_deliveries insert and the status update that follows
+function fakeDeliveries(insertError?: { code: string; message: string }) {
+  const inserted: Record<string, unknown>[] = []
+  const updates: Record<string, unknown>[] = []
+
+  vi.mocked(createAdminClient).mockReturnValue({
+    from: () => ({
+      insert: (row: Record<string, unknown>) => {
+        inserted.push(row)
+        return {
+          select: () => ({
+            single: async () => insertError
+              ? { data: null, error: insertError }
+              : { data: { id: 'delivery-1', ...row }, error: null }
+          })
+        }
+      },
+      update: (row: Record<string, unknown>) => {
+        updates.push(row)
+        return {
+          eq: () => ({ select: () => ({ single: async () => ({ data: { id: 'delivery-1', ...inserted[0], ...row }, error: null }) }) })
+        }
+      }
+    })
+  } as unknown as ReturnType<typeof createAdminClient>)
+
+  return { inserted, updates }
+}
+
+function fakeTransport(result: EmailSendResult): EmailTransport & { send: ReturnType<typeof vi.fn> } {
+  return { name: 'fake', send: vi.fn(async () => result) }
+}
+
+const message = { to: 'student@example.edu', subject: 'Your weekly digest', html: '<p>Hi</p>' }
+
+describe('EmailService.send', () => {
+  beforeEach(() => {
+    vi.spyOn(logger, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('records the delivery before sending and marks it sent', async () => {
+    const { inserted, updates } = fakeDeliveries()
+    const transport = fakeTransport({ accepted: true, messageId: '<abc@example.edu>' })
+
+    const delivery = await new EmailService(transport).send(message, {
+      template: 'weekly_digest',
+      userId: 'user-1',
+      batchId: 'batch-1',
+      periodKey: 'weekly:2024-11-04'
+    })
+
+    expect(inserted).toEqual([{
+      user_id: 'user-1',
+      email: 'student@example.edu',
+      template: 'weekly_digest',
+      subject: 'Your weekly digest',
+      transport: 'fake',
+      status: 'pending',
+      batch_id: 'batch-1',
+      period_key: 'weekly:2024-11-04'
+    }])
+    expect(transport.send).toHaveBeenCalledWith(message)
+    expect(updates[0]).toMatchObject({ status: 'sent', message_id: '<abc@example.edu>' })
+    expect(delivery).toMatchObject({ id: 'delivery-1', status: 'sent' })
+  })
+
+  it('records transport failures without throwing', async () => {
+    const { updates } = fakeDeliveries()
+
+    const delivery = await new EmailService(fakeTransport({ accepted: false, error: 'Mailbox unavailable' }))
+      .send(message, { template: 'weekly_digest' })
+
+    expect(updates[0]).toEqual({ status: 'failed', message_id: undefined, error: 'Mailbox unavailable' })
+    expect(delivery).toMatchObject({ status: 'failed' })
+  })
+
+  it('sends nothing when the period was already sent', async () => {
+    fakeDeliveries({ code: '23505', message: 'duplicate key value' })
+    const transport = fakeTransport({ accepted: true })
+
+    const delivery = await new EmailService(transport).send(message, { template: 'weekly_digest', periodKey: 'weekly:2024-11-04' })
+
+    expect(delivery).toBeNull()
+    expect(transport.send).not.toHaveBeenCalled()
+  })
+
+  it('fails when the delivery cannot be recorded', async () => {
+    fakeDeliveries({ code: '42501', message: 'permission denied' })
+    const transport = fakeTransport({ accepted: true })
+
+    await expect(new EmailService(transport).send(message, { template: 'weekly_digest' })).rejects.toMatchObject({ code: '42501' })
+    expect(transport.send).not.toHaveBeenCalled()
+  })
+})
+
+describe('createTransportFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('picks the transport named in EMAIL_TRANSPORT', () => {
+    vi.stubEnv('EMAIL_TRANSPORT', 'smtp')
+    expect(createTransportFromEnv().name).toBe('smtp')
+
+    vi.stubEnv('EMAIL_TRANSPORT', 'file')
+    expect(createTransportFromEnv().name).toBe('file')
+  })
+
+  it('logs to the console unless configured otherwise', () => {
+    vi.stubEnv('EMAIL_TRANSPORT', '')
+    expect(createTransportFromEnv().name).toBe('console')
+  })
+})
@@ -0,0 +1,216 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { logger } from '@/lib/logger'
+import type { EmailDelivery } from '@/types'
+import type { EmailMessage, EmailTransport } from './types'
+import { SmtpTransport } from './smtp-transport'
+import { FileTransport } from './file-transport'
+import { ConsoleTransport } from './console-transport'
+
+const DEFAULT_NOTIFICATION_SETTINGS = {
+  email_digest: true,
+  new_resources: true,
+  votes_received: true,
+  achievements: true
+}
+
+export interface SendOptions {
+  // Template name recorded with the delivery, e.g. 'weekly_digest'
+  template: string
+  userId?: string
+  // Groups the deliveries of one run so it can be reported on
+  batchId?: string
+  // At most one email per user, template and period key is sent
+  periodKey?: string
+}
+
+export interface BounceReport {
+  messageId?: string
+  email?: string
+  reason?: string
+  // Hard bounces mean the address will never accept mail
+  permanent?: boolean
+}
+
+/**
+ * Picks the transport from EMAIL_TRANSPORT (smtp, file or console). Console
+ * is the default so development never sends real mail by accident.
+ */
+export function createTransportFromEnv(): EmailTransport {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case 'smtp':
+      return SmtpTransport.fromEnv()
+    case 'file':
+      return new FileTransport()
+    default:
+      return new ConsoleTransport()
+  }
+}
+
+/**
+ * Sends email through the configured transport and records every send in
+ * email_deliveries. Server-only: deliveries are written with the service role.
+ */
+export class EmailService {
+  private _transport: EmailTransport | null
+  private _supabase: ReturnType<typeof createAdminClient> | null = null
+
+  constructor(transport?: EmailTransport) {
+    this._transport = transport || null
+  }
+
+  get transport() {
+    if (!this._transport) {
+      this._transport = createTransportFromEnv()
+    }
+    return this._transport
+  }
+
+  private get supabase() {
+    if (!this._supabase) {
+      this._supabase = createAdminClient()
+    }
+    return this._supabase
+  }
+
+  /**
+   * Sends the message and returns its delivery record, or null if an email
+   * with the same period key was already sent to this user.
+   */
+  async send(message: EmailMessage, options: SendOptions): Promise<EmailDelivery | null> {
+    // Record the attempt first so a crash mid-send still leaves a trace, and
+    // so the period key is claimed before anything goes out
+    const { data: delivery, error: insertError } = await this.supabase
+      .from('email_deliveries')
+      .insert({
+        user_id: options.userId,
+        email: message.to,
+        template: options.template,
+        subject: message.subject,
+        transport: this.transport.name,
+        status: 'pending',
+        batch_id: options.batchId,
+        period_key: options.periodKey
+      })
+      .select()
+      .single()
+
+    // Unique violation on the period index: already sent this period
+    if (insertError?.code === '23505' && options.periodKey) {
+      return null
+    }
+
+    if (insertError || !delivery) {
+      throw insertError || new Error('Could not record email delivery')
+    }
+
+    const result = await this.transport.send(message)
+
+    const { data: updated, error: updateError } = await this.supabase
+      .from('email_deliveries')
+      .update(result.accepted
+        ? { status: 'sent', message_id: result.messageId, sent_at: new Date().toISOString() }
+        : { status: 'failed', message_id: result.messageId, error: result.error })
+      .eq('id', delivery.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      logger.error('Error updating email delivery', { error: updateError, deliveryId: delivery.id })
+    }
+
+    if (!result.accepted) {
+      logger.error(`Email to ${message.to} failed`, { error: result.error, template: options.template })
+    }
+
+    return (updated || delivery) as EmailDelivery
+  }
+
+  async getDeliveries(batchId: string): Promise<EmailDelivery[]> {
+    const { data, error } = await this.supabase
+      .from('email_deliveries')
+      .select('*')
+      .eq('batch_id', batchId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as EmailDelivery[]
+  }
+
+  /**
+   * Marks the matching delivery as bounced. Without a message id the most
+   * recent delivery to the address is used. Returns null if nothing matched.
+   */
+  async recordBounce(report: BounceReport): Promise<EmailDelivery | null> {
+    if (!report.messageId && !report.email) return null
+
+    let query = this.supabase
+      .from('email_deliveries')
+      .select('id, user_id')
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    query = report.messageId
+      ? query.eq('message_id', report.messageId)
+      : query.eq('email', report.email!)
+
+    const { data: matches, error } = await query
+    if (error) throw error
+
+    const match = matches?.[0]
+    if (!match) return null
+
+    const { data: bounced, error: updateError } = await this.supabase
+      .from('email_deliveries')
+      .update({
+        status: 'bounced',
+        bounced_at: new Date().toISOString(),
+        bounce_reason: report.reason
+      })
+      .eq('id', match.id)
+      .select()
+      .single()
+
+    if (updateError) throw updateError
+
+    // Stop mailing addresses that can never receive
+    if (report.permanent && match.user_id) {
+      await this.setEmailDigest(match.user_id, false)
+    }
+
+    return bounced as EmailDelivery
+  }
+
+  /**
+   * Turns the weekly digest on or off for a user, creating their preferences
+   * row with the defaults if they never saved any.
+   */
+  async setEmailDigest(userId: string, enabled: boolean): Promise<void> {
+    const { data: preferences, error } = await this.supabase
+      .from('user_preferences')
+      .select('notification_settings')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    const notificationSettings = {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      ...(preferences?.notification_settings || {}),
+      email_digest: enabled
+    }
+
+    const { error: upsertError } = await this.supabase
+      .from('user_preferences')
+      .upsert({
+        user_id: userId,
+        notification_settings: notificationSettings,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id'
+      })
+
+    if (upsertError) throw upsertError
+  }
+}
+
+export const emailService = new EmailService()
@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import type { EmailMessage, EmailSendResult, EmailTransport } from './types'
+
+/**
+ * Development transport that writes each email to an .html file so
+ * templates can be opened in a browser instead of sent.
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file'
+
+  constructor(private directory: string = process.env.EMAIL_FILE_DIR || '.emails') {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `<${randomUUID()}@file.local>`
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true })
+
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.html`
+      const headers = [
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Message-ID: ${messageId}`,
+        ...Object.entries(message.headers || {}).map(([key, value]) => `${key}: ${value}`),
+      ]
+
+      await fs.writeFile(
+        path.join(this.directory, fileName),
+        `<!--\n${headers.join('\n')}\n-->\n${message.html}`
+      )
+
+      return { messageId, accepted: true }
+    } catch (error) {
+      return {
+        accepted: false,
+        error: error instanceof Error ? error.message : 'Could not write email file',
+      }
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export { EmailService, emailService, createTransportFromEnv } from './email-service'
+export { SmtpTransport } from './smtp-transport'
+export { FileTransport } from './file-transport'
+export { ConsoleTransport } from './console-transport'
+export { renderBrandedEmail, escapeHtml, appUrl } from './templates'
+export {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  getUnsubscribeUrl,
+  getUnsubscribeHeaders
+} from './unsubscribe'
+
+export type { EmailMessage, EmailSendResult, EmailTransport } from './types'
+export type { SendOptions, BounceReport } from './email-service'
+export type { BrandedEmailOptions } from './templates'
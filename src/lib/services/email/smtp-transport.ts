@@ -0,0 +1,69 @@
+import nodemailer from 'nodemailer'
+import type { Transporter } from 'nodemailer'
+import type { EmailMessage, EmailSendResult, EmailTransport } from './types'
+
+export interface SmtpTransportOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+/**
+ * Sends through any SMTP server, from a local Mailpit/MailHog instance in
+ * development to the production relay.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp'
+  private transporter: Transporter
+
+  constructor(private options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    })
+  }
+
+  static fromEnv(): SmtpTransport {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10)
+
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.EMAIL_FROM || 'no-reply@localhost',
+    })
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: this.options.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      })
+
+      // The server may accept the envelope but still reject the recipient
+      const rejected = info.rejected.length > 0
+      return {
+        messageId: info.messageId,
+        accepted: !rejected,
+        error: rejected ? `Recipient rejected: ${info.response}` : undefined,
+      }
+    } catch (error) {
+      return {
+        accepted: false,
+        error: error instanceof Error ? error.message : 'SMTP send failed',
+      }
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { currentClient } from '@/clients'
+
+export interface BrandedEmailOptions {
+  title: string
+  // Already-escaped HTML for the body of the email
+  bodyHtml: string
+  // Plain-text alternative for clients that do not render HTML
+  text: string
+  // Shown under the body, explaining why the recipient got the email
+  footerNote?: string
+  unsubscribeUrl?: string
+  preferencesUrl?: string
+}
+
+export function escapeHtml(value: string | number | null | undefined): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export function appUrl(pathname: string): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '')
+  return `${base}${pathname}`
+}
+
+/**
+ * Wraps email content in the current client's branding. Styles are kept
+ * inline-friendly and in the head, since most mail clients drop external CSS.
+ */
+export function renderBrandedEmail(options: BrandedEmailOptions): { html: string; text: string } {
+  const { branding, theme } = currentClient
+  const primary = theme.colors.primary
+  const logoUrl = branding.logoUrl.startsWith('http') ? branding.logoUrl : appUrl(branding.logoUrl)
+
+  const footerLinks = [
+    options.preferencesUrl && `<a href="${escapeHtml(options.preferencesUrl)}">Update your preferences</a>`,
+    options.unsubscribeUrl && `<a href="${escapeHtml(options.unsubscribeUrl)}">Unsubscribe</a>`,
+  ].filter(Boolean).join(' &middot; ')
+
+  const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>${escapeHtml(options.title)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: ${primary}; color: white; padding: 20px; text-align: center; }
+          .header img { height: 40px; margin-bottom: 8px; }
+          .section { margin: 20px 0; padding: 15px; border-left: 4px solid ${primary}; }
+          .resource-item { margin: 10px 0; padding: 10px; background: #f8f9fa; border-radius: 5px; }
+          .achievement { background: #fef3c7; border-left-color: #f59e0b; }
+          .stats { background: #ecfdf5; border-left-color: #10b981; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
+          .footer a { color: ${primary}; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <img src="${escapeHtml(logoUrl)}" alt="${escapeHtml(branding.appName)}">
+            <h1>${escapeHtml(options.title)}</h1>
+          </div>
+
+          ${options.bodyHtml}
+
+          <div class="footer">
+            ${options.footerNote ? `<p>${escapeHtml(options.footerNote)}</p>` : ''}
+            ${footerLinks ? `<p>${footerLinks}</p>` : ''}
+            <p>${escapeHtml(branding.footerText)}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `
+
+  const textFooter = [
+    options.footerNote,
+    options.preferencesUrl && `Update your preferences: ${options.preferencesUrl}`,
+    options.unsubscribeUrl && `Unsubscribe: ${options.unsubscribeUrl}`,
+    branding.footerText,
+  ].filter(Boolean).join('\n')
+
+  return {
+    html,
+    text: `${options.title}\n\n${options.text}\n\n--\n${textFooter}\n`,
+  }
+}
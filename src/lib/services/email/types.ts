@@ -0,0 +1,23 @@
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text?: string
+  headers?: Record<string, string>
+}
+
+export interface EmailSendResult {
+  // Identifier assigned by the transport, used to match bounce reports
+  messageId?: string
+  accepted: boolean
+  error?: string
+}
+
+/**
+ * Anything that can deliver an email. Transports report failures in the
+ * result rather than throwing so a batch can carry on past one bad address.
+ */
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<EmailSendResult>
+}
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createUnsubscribeToken,
+  getUnsubscribeHeaders,
+  getUnsubscribeUrl,
+  verifyUnsubscribeToken
+} from './unsubscribe'
+
+const USER_ID = '3f1c2a9e-6b7d-4e1f-9a2b-5c8d7e6f1a2b'
+
+describe('unsubscribe tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('EMAIL_UNSUBSCRIBE_SECRET', 'test-secret')
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://app.example.com/')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('verifies a token back to the user it was issued for', () => {
+    expect(verifyUnsubscribeToken(createUnsubscribeToken(USER_ID))).toBe(USER_ID)
+  })
+
+  it('rejects missing, malformed and tampered tokens', () => {
+    const token = createUnsubscribeToken(USER_ID)
+    const otherUser = createUnsubscribeToken('other-user')
+
+    expect(verifyUnsubscribeToken(null)).toBeNull()
+    expect(verifyUnsubscribeToken('')).toBeNull()
+    expect(verifyUnsubscribeToken('no-signature')).toBeNull()
+    expect(verifyUnsubscribeToken(`.${token.split('.')[1]}`)).toBeNull()
+    expect(verifyUnsubscribeToken(`${USER_ID}.${otherUser.split('.')[1]}`)).toBeNull()
+    expect(verifyUnsubscribeToken(`${token}x`)).toBeNull()
+  })
+
+  it('rejects tokens signed with another secret', () => {
+    const token = createUnsubscribeToken(USER_ID)
+    vi.stubEnv('EMAIL_UNSUBSCRIBE_SECRET', 'rotated-secret')
+
+    expect(verifyUnsubscribeToken(token)).toBeNull()
+  })
+
+  it('refuses to sign without a configured secret', () => {
+    vi.stubEnv('EMAIL_UNSUBSCRIBE_SECRET', '')
+
+    expect(() => createUnsubscribeToken(USER_ID)).toThrow('EMAIL_UNSUBSCRIBE_SECRET is not configured')
+  })
+
+  it('builds the landing page link and one-click headers', () => {
+    const token = encodeURIComponent(createUnsubscribeToken(USER_ID))
+
+    expect(getUnsubscribeUrl(USER_ID)).toBe(`https://app.example.com/unsubscribe?token=${token}`)
+    expect(getUnsubscribeHeaders(USER_ID)).toEqual({
+      'List-Unsubscribe': `<https://app.example.com/api/notifications/unsubscribe?token=${token}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    })
+  })
+})
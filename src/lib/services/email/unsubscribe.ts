@@ -0,0 +1,59 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { appUrl } from './templates'
+
+// Tokens only ever unsubscribe from email, so they do not expire: links in
+// old emails must keep working. The secret is used for nothing else, so it
+// can be rotated on its own.
+function getSecret(): string {
+  const secret = process.env.EMAIL_UNSUBSCRIBE_SECRET
+  if (!secret) {
+    throw new Error('EMAIL_UNSUBSCRIBE_SECRET is not configured')
+  }
+  return secret
+}
+
+function sign(userId: string): string {
+  return createHmac('sha256', getSecret())
+    .update(`unsubscribe:email_digest:${userId}`)
+    .digest('base64url')
+}
+
+export function createUnsubscribeToken(userId: string): string {
+  return `${userId}.${sign(userId)}`
+}
+
+/**
+ * Returns the user the token was issued for, or null if it was tampered with.
+ */
+export function verifyUnsubscribeToken(token: string | null | undefined): string | null {
+  if (!token) return null
+
+  const separator = token.lastIndexOf('.')
+  if (separator <= 0) return null
+
+  const userId = token.slice(0, separator)
+  const signature = Buffer.from(token.slice(separator + 1))
+  const expected = Buffer.from(sign(userId))
+
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null
+  }
+  return userId
+}
+
+// Landing page for the link in the email footer
+export function getUnsubscribeUrl(userId: string): string {
+  return appUrl(`/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(userId))}`)
+}
+
+// RFC 8058 one-click endpoint that mail clients POST to directly
+export function getOneClickUnsubscribeUrl(userId: string): string {
+  return appUrl(`/api/notifications/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(userId))}`)
+}
+
+export function getUnsubscribeHeaders(userId: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${getOneClickUnsubscribeUrl(userId)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  }
+}
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { describe, expect, it, vi } from 'vitest'
+import { DomainEventBus } from './event-bus'
+
+const supabase = {} as SupabaseClient
+
+const vote = {
+  resourceId: 'resource-1',
+  resourceType: 'notes',
+  uploaderId: 'uploader-1',
+  voteType: 'upvote' as const,
+  previousVote: null
+}
+
+describe('DomainEventBus', () => {
+  it('passes the event and the emitter client to every subscriber', async () => {
+    const bus = new DomainEventBus()
+    const first = vi.fn()
+    const second = vi.fn()
+    bus.subscribe('vote.cast', first)
+    bus.subscribe('vote.cast', second)
+
+    expect(await bus.emit('vote.cast', 'voter-1', vote, supabase)).toBe(true)
+
+    expect(first).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'vote.cast', actorId: 'voter-1', payload: vote }),
+      supabase
+    )
+    expect(second).toHaveBeenCalledTimes(1)
+    expect(Date.parse(first.mock.calls[0][0].occurredAt)).not.toBeNaN()
+  })
+
+  it('only runs subscribers of the emitted type', async () => {
+    const bus = new DomainEventBus()
+    const handler = vi.fn()
+    bus.subscribe('achievement.awarded', handler)
+
+    expect(await bus.emit('vote.cast', 'voter-1', vote, supabase)).toBe(true)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('stops calling a subscriber once it unsubscribes', async () => {
+    const bus = new DomainEventBus()
+    const handler = vi.fn()
+    const unsubscribe = bus.subscribe('vote.cast', handler)
+
+    unsubscribe()
+    await bus.emit('vote.cast', 'voter-1', vote, supabase)
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('runs the other subscribers when one fails and reports the failure', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const bus = new DomainEventBus()
+    const handler = vi.fn()
+    bus.subscribe('vote.cast', async () => { throw new Error('boom') })
+    bus.subscribe('vote.cast', handler)
+
+    expect(await bus.emit('vote.cast', 'voter-1', vote, supabase)).toBe(false)
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(consoleError).toHaveBeenCalledWith('Error handling vote.cast event:', expect.any(Error))
+
+    consoleError.mockRestore()
+  })
+})
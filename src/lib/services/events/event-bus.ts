@@ -0,0 +1,126 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Resource, Vote } from '@/types'
+
+/**
+ * Payloads of the platform events, keyed by event type. Payloads carry the
+ * facts the emitter already has so subscribers rarely need to query for them.
+ */
+export interface DomainEventPayloads {
+  'resource.uploaded': {
+    resource: Resource
+    fileSize?: number
+    fileType?: string
+  }
+  'vote.cast': {
+    resourceId: string
+    resourceType: string
+    uploaderId: string
+    voteType: Vote['vote_type'] | null // null when the vote was withdrawn
+    previousVote: Vote['vote_type'] | null
+  }
+  'achievement.awarded': {
+    userId: string
+    achievementId: string
+    title: string
+    description: string
+    icon: string
+    category: string
+    points: number
+    rarity: string
+  }
+  'season.awarded': {
+    userId: string
+    seasonId: string
+    seasonName: string
+    department: string
+    placement: number // 1-3 within the department
+  }
+  'collection.shared': {
+    collectionId: string
+    collectionTitle: string
+    sharedByName?: string
+    recipientIds: string[]
+    canCollaborate?: boolean
+    message?: string
+    invitationId?: string // set for collaboration invitations
+    permissionLevel?: 'view' | 'edit' | 'admin'
+  }
+  'invitation.accepted': {
+    collectionId: string
+    collectionTitle?: string
+    invitationId?: string
+    invitedBy: string
+    acceptedByName?: string
+  }
+}
+
+export type DomainEventType = keyof DomainEventPayloads
+
+export type DomainEvent<T extends DomainEventType = DomainEventType> = {
+  [K in T]: {
+    type: K
+    actorId: string // user whose action raised the event
+    occurredAt: string
+    payload: DomainEventPayloads[K]
+  }
+}[T]
+
+/**
+ * Subscribers receive the emitter's Supabase client so their writes run as
+ * the acting user. Events are raised on the server only: some subscribers
+ * act with the service role.
+ */
+export type DomainEventHandler<T extends DomainEventType> = (
+  event: DomainEvent<T>,
+  supabase: SupabaseClient
+) => Promise<void> | void
+
+/**
+ * In-process publish/subscribe for platform events. Emitters describe what
+ * happened; subscribers decide what follows (points, notifications, ...).
+ */
+export class DomainEventBus {
+  private handlers = new Map<DomainEventType, DomainEventHandler<any>[]>()
+
+  subscribe<T extends DomainEventType>(type: T, handler: DomainEventHandler<T>): () => void {
+    const handlers = this.handlers.get(type) || []
+    this.handlers.set(type, [...handlers, handler])
+
+    return () => {
+      this.handlers.set(type, (this.handlers.get(type) || []).filter(h => h !== handler))
+    }
+  }
+
+  /**
+   * Runs every subscriber of the event. A failing subscriber is logged and
+   * does not affect the others or the emitter; the result is false if any
+   * subscriber failed.
+   */
+  async emit<T extends DomainEventType>(
+    type: T,
+    actorId: string,
+    payload: DomainEventPayloads[T],
+    supabase: SupabaseClient
+  ): Promise<boolean> {
+    const event = {
+      type,
+      actorId,
+      occurredAt: new Date().toISOString(),
+      payload
+    } as DomainEvent<T>
+
+    const results = await Promise.allSettled(
+      (this.handlers.get(type) || []).map(async handler => handler(event, supabase))
+    )
+
+    let succeeded = true
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error(`Error handling ${type} event:`, result.reason)
+        succeeded = false
+      }
+    }
+
+    return succeeded
+  }
+}
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { gamificationEngine } from '@/lib/services/gamification'
+import { DomainEventBus } from './event-bus'
+import { registerGamificationSubscribers } from './gamification-subscriber'
+
+vi.mock('@/lib/services/gamification', () => ({
+  gamificationEngine: { updateUserProgress: vi.fn(), reverseUserProgress: vi.fn() }
+}))
+
+const supabase = {} as SupabaseClient
+
+const vote = {
+  resourceId: 'resource-1',
+  resourceType: 'notes',
+  uploaderId: 'uploader-1'
+}
+
+describe('gamification subscribers', () => {
+  const bus = new DomainEventBus()
+  registerGamificationSubscribers(bus)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('awards the uploader for a new vote', async () => {
+    await bus.emit('vote.cast', 'voter-1', { ...vote, voteType: 'upvote', previousVote: null }, supabase)
+
+    expect(gamificationEngine.reverseUserProgress).not.toHaveBeenCalled()
+    expect(gamificationEngine.updateUserProgress).toHaveBeenCalledWith('uploader-1', {
+      type: 'receive_upvote',
+      userId: 'uploader-1',
+      resourceId: 'resource-1',
+      resourceType: 'notes',
+      metadata: { voter_id: 'voter-1', vote_type: 'upvote' }
+    })
+  })
+
+  it('takes back the previous vote when it is switched', async () => {
+    await bus.emit('vote.cast', 'voter-1', { ...vote, voteType: 'downvote', previousVote: 'upvote' }, supabase)
+
+    expect(gamificationEngine.reverseUserProgress).toHaveBeenCalledWith('uploader-1', expect.objectContaining({ type: 'receive_upvote' }))
+    expect(gamificationEngine.updateUserProgress).toHaveBeenCalledWith('uploader-1', expect.objectContaining({ type: 'receive_downvote' }))
+  })
+
+  it('only takes back a withdrawn vote', async () => {
+    await bus.emit('vote.cast', 'voter-1', { ...vote, voteType: null, previousVote: 'downvote' }, supabase)
+
+    expect(gamificationEngine.reverseUserProgress).toHaveBeenCalledWith('uploader-1', expect.objectContaining({ type: 'receive_downvote' }))
+    expect(gamificationEngine.updateUserProgress).not.toHaveBeenCalled()
+  })
+})
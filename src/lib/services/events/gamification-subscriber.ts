@@ -0,0 +1,54 @@
+import { gamificationEngine, type UserAction } from '@/lib/services/gamification'
+import type { DomainEventBus, DomainEventPayloads } from './event-bus'
+
+type VoteCast = DomainEventPayloads['vote.cast']
+
+function voteAction(actorId: string, payload: VoteCast, voteType: 'upvote' | 'downvote'): UserAction {
+  return {
+    type: voteType === 'upvote' ? 'receive_upvote' : 'receive_downvote',
+    userId: payload.uploaderId,
+    resourceId: payload.resourceId,
+    resourceType: payload.resourceType,
+    metadata: {
+      voter_id: actorId,
+      vote_type: voteType
+    }
+  }
+}
+
+/**
+ * Awards (and takes back) points for platform events.
+ */
+export function registerGamificationSubscribers(bus: DomainEventBus) {
+  bus.subscribe('resource.uploaded', async ({ payload: { resource, fileSize, fileType } }) => {
+    await gamificationEngine.updateUserProgress(resource.uploaded_by, {
+      type: 'upload_resource',
+      userId: resource.uploaded_by,
+      resourceId: resource.id,
+      resourceType: resource.resource_type || 'document',
+      metadata: {
+        file_size: fileSize,
+        file_type: fileType,
+        department: resource.department,
+        course: resource.course,
+        is_verified: false
+      }
+    })
+  })
+
+  // Take back what the withdrawn vote earned the uploader, then award the new one
+  bus.subscribe('vote.cast', async ({ actorId, payload }) => {
+    if (payload.previousVote) {
+      await gamificationEngine.reverseUserProgress(
+        payload.uploaderId,
+        voteAction(actorId, payload, payload.previousVote)
+      )
+    }
+    if (payload.voteType) {
+      await gamificationEngine.updateUserProgress(
+        payload.uploaderId,
+        voteAction(actorId, payload, payload.voteType)
+      )
+    }
+  })
+}
@@ -0,0 +1,11 @@
+import { DomainEventBus } from './event-bus'
+import { registerGamificationSubscribers } from './gamification-subscriber'
+import { registerNotificationSubscribers } from './notification-subscriber'
+
+export { DomainEventBus } from './event-bus'
+export type { DomainEvent, DomainEventType, DomainEventPayloads, DomainEventHandler } from './event-bus'
+
+export const domainEvents = new DomainEventBus()
+
+registerGamificationSubscribers(domainEvents)
+registerNotificationSubscribers(domainEvents)
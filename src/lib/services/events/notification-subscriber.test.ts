@@ -0,0 +1,109 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Resource } from '@/types'
+import { notifyUsers } from '@/lib/services/server-notifications'
+import { DomainEventBus } from './event-bus'
+import { registerNotificationSubscribers } from './notification-subscriber'
+
+vi.mock('@/lib/services/server-notifications', () => ({ notifyUsers: vi.fn() }))
+
+// Answers single-row lookups by table, and the follower lookup
+function fakeClient(rows: Record<string, Record<string, unknown>>, followers: Record<string, string>[] = []) {
+  return {
+    rpc: async () => ({ data: followers, error: null }),
+    from: (table: string) => ({
+      select: () => ({ eq: () => ({ single: async () => ({ data: rows[table] || null, error: null }) }) })
+    })
+  } as unknown as SupabaseClient
+}
+
+describe('notification subscribers', () => {
+  const bus = new DomainEventBus()
+  registerNotificationSubscribers(bus)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('resource.uploaded', () => {
+    const resource = {
+      id: 'resource-1',
+      title: 'Limits Cheat Sheet',
+      department: 'Mathematics',
+      course: 'MATH101',
+      uploaded_by: 'uploader-1'
+    } as Resource
+
+    it('sends one notification per matched follow', async () => {
+      const supabase = fakeClient({ users: { full_name: 'Priya' } }, [
+        { user_id: 'follower-1', target_type: 'course', target_value: 'MATH101' },
+        { user_id: 'follower-2', target_type: 'course', target_value: 'MATH101' },
+        { user_id: 'follower-3', target_type: 'uploader', target_value: 'uploader-1' }
+      ])
+
+      await bus.emit('resource.uploaded', 'uploader-1', { resource }, supabase)
+
+      expect(notifyUsers).toHaveBeenCalledTimes(2)
+      expect(notifyUsers).toHaveBeenCalledWith('uploader-1', ['follower-1', 'follower-2'], expect.objectContaining({
+        title: 'New in MATH101',
+        setting: 'new_resources',
+        group_key: 'new_resource:course:MATH101'
+      }))
+      expect(notifyUsers).toHaveBeenCalledWith('uploader-1', ['follower-3'], expect.objectContaining({
+        title: 'New upload from Priya',
+        group_key: 'new_resource:uploader:uploader-1'
+      }))
+    })
+
+    it('does nothing without followers', async () => {
+      await bus.emit('resource.uploaded', 'uploader-1', { resource }, fakeClient({}))
+
+      expect(notifyUsers).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('vote.cast', () => {
+    const vote = {
+      resourceId: 'resource-1',
+      resourceType: 'notes',
+      uploaderId: 'uploader-1',
+      previousVote: null
+    }
+    const supabase = fakeClient({ resources: { title: 'Calculus Notes' } })
+
+    it('notifies the uploader, grouped by resource and vote type', async () => {
+      await bus.emit('vote.cast', 'voter-1', { ...vote, voteType: 'upvote' }, supabase)
+
+      expect(notifyUsers).toHaveBeenCalledWith('voter-1', ['uploader-1'], expect.objectContaining({
+        type: 'vote_received',
+        title: 'Your resource received an upvote',
+        message: '"Calculus Notes" was upvoted by another user.',
+        setting: 'votes_received',
+        group_key: 'vote_received:resource-1:upvote'
+      }))
+    })
+
+    it('skips withdrawn votes and votes on one\'s own resource', async () => {
+      await bus.emit('vote.cast', 'voter-1', { ...vote, voteType: null }, supabase)
+      await bus.emit('vote.cast', 'uploader-1', { ...vote, voteType: 'upvote' }, supabase)
+
+      expect(notifyUsers).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('invitation.accepted', () => {
+    it('tells the inviter who accepted', async () => {
+      await bus.emit('invitation.accepted', 'invitee-1', {
+        collectionId: 'collection-1',
+        collectionTitle: 'Exam Prep',
+        invitedBy: 'owner-1',
+        acceptedByName: 'Sam'
+      }, fakeClient({}))
+
+      expect(notifyUsers).toHaveBeenCalledWith('invitee-1', ['owner-1'], expect.objectContaining({
+        type: 'invitation_accepted',
+        message: 'Sam accepted your invitation to "Exam Prep".'
+      }))
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import type { Follow, FollowTargetType } from '@/types'
+import { NotificationService } from '@/lib/services/notification-service'
+import { notifyUsers } from '@/lib/services/server-notifications'
+import type { DomainEventBus } from './event-bus'
+
+// Icon and rarity of the season badges for 1st, 2nd and 3rd place
+const SEASON_MEDALS = [
+  { icon: '🥇', rarity: 'legendary' },
+  { icon: '🥈', rarity: 'epic' },
+  { icon: '🥉', rarity: 'rare' }
+]
+
+/**
+ * Turns platform events into in-app notifications.
+ */
+export function registerNotificationSubscribers(bus: DomainEventBus) {
+  // Followers of the resource's course, department, semester, tags or uploader
+  bus.subscribe('resource.uploaded', async ({ actorId, payload: { resource } }, supabase) => {
+    const { data: followers, error } = await supabase
+      .rpc('get_resource_followers', { p_resource_id: resource.id })
+
+    if (error) throw error
+
+    const matches = (followers || []) as { user_id: string; target_type: FollowTargetType; target_value: string }[]
+    if (matches.length === 0) return
+
+    let uploaderName: string | undefined
+    if (matches.some(match => match.target_type === 'uploader')) {
+      const { data: uploader } = await supabase
+        .from('users')
+        .select('full_name')
+        .eq('id', resource.uploaded_by)
+        .single()
+      uploaderName = uploader?.full_name
+    }
+
+    // One notification per follow that matched, each naming what was followed
+    const groups = new Map<string, { follow: Pick<Follow, 'target_type' | 'target_value' | 'label'>; userIds: string[] }>()
+    for (const match of matches) {
+      const key = `${match.target_type}:${match.target_value}`
+      const group = groups.get(key) || {
+        follow: {
+          target_type: match.target_type,
+          target_value: match.target_value,
+          label: match.target_type === 'uploader' ? uploaderName : undefined
+        },
+        userIds: []
+      }
+      group.userIds.push(match.user_id)
+      groups.set(key, group)
+    }
+
+    await Promise.all(Array.from(groups.values()).map(({ follow, userIds }) =>
+      notifyUsers(actorId, userIds, {
+        ...NotificationService.newResourceNotification(resource, follow),
+        setting: 'new_resources'
+      })
+    ))
+  })
+
+  bus.subscribe('vote.cast', async ({ actorId, payload }, supabase) => {
+    // Withdrawn votes and votes on one's own resource are not worth a notification
+    if (!payload.voteType || payload.uploaderId === actorId) return
+
+    const { data: resource } = await supabase
+      .from('resources')
+      .select('title')
+      .eq('id', payload.resourceId)
+      .single()
+
+    const resourceTitle = resource?.title || 'Your resource'
+    const upvoted = payload.voteType === 'upvote'
+
+    await notifyUsers(actorId, [payload.uploaderId], {
+      type: 'vote_received',
+      title: `Your resource received ${upvoted ? 'an upvote' : 'a downvote'}`,
+      message: `"${resourceTitle}" was ${upvoted ? 'upvoted' : 'downvoted'} by another user.`,
+      data: {
+        resource_id: payload.resourceId,
+        resource_title: resourceTitle,
+        vote_type: payload.voteType
+      },
+      setting: 'votes_received',
+      group_key: `vote_received:${payload.resourceId}:${payload.voteType}`
+    })
+  })
+
+  bus.subscribe('achievement.awarded', async ({ actorId, payload }) => {
+    await notifyUsers(actorId, [payload.userId], {
+      type: 'achievement',
+      title: `Achievement Unlocked: ${payload.title}`,
+      message: payload.description,
+      data: {
+        achievement_id: payload.achievementId,
+        achievement: payload.title,
+        description: payload.description,
+        icon: payload.icon,
+        category: payload.category,
+        points: payload.points,
+        rarity: payload.rarity
+      },
+      setting: 'achievements'
+    })
+  })
+
+  bus.subscribe('season.awarded', async ({ actorId, payload }) => {
+    const medal = SEASON_MEDALS[payload.placement - 1] || SEASON_MEDALS[SEASON_MEDALS.length - 1]
+
+    await notifyUsers(actorId, [payload.userId], {
+      type: 'achievement',
+      title: `Season Badge: ${payload.seasonName}`,
+      message: `You finished #${payload.placement} in ${payload.department} this season`,
+      data: {
+        season_id: payload.seasonId,
+        achievement: `#${payload.placement} in ${payload.department}, ${payload.seasonName}`,
+        description: `Top contributor of ${payload.department} for ${payload.seasonName}`,
+        department: payload.department,
+        placement: payload.placement,
+        icon: medal.icon,
+        category: 'milestone',
+        rarity: medal.rarity
+      },
+      setting: 'achievements'
+    })
+  })
+
+  bus.subscribe('collection.shared', async ({ actorId, payload }) => {
+    const sharedBy = payload.sharedByName || 'Someone'
+
+    await notifyUsers(actorId, payload.recipientIds, {
+      type: 'collection_shared',
+      title: payload.invitationId ? 'Collaboration Invitation' : 'Collection Shared With You',
+      message: payload.invitationId
+        ? `You've been invited to collaborate on "${payload.collectionTitle}"`
+        : `${sharedBy} shared the collection "${payload.collectionTitle}" with you`,
+      data: {
+        collection_id: payload.collectionId,
+        collection_title: payload.collectionTitle,
+        invited_by: actorId,
+        invited_by_name: payload.sharedByName,
+        can_collaborate: payload.canCollaborate ?? !!payload.invitationId,
+        custom_message: payload.message,
+        invitation_id: payload.invitationId,
+        permission_level: payload.permissionLevel
+      }
+    })
+  })
+
+  bus.subscribe('invitation.accepted', async ({ actorId, payload }) => {
+    if (payload.invitedBy === actorId) return
+
+    const acceptedBy = payload.acceptedByName || 'Someone'
+    const collection = payload.collectionTitle ? `"${payload.collectionTitle}"` : 'your collection'
+
+    await notifyUsers(actorId, [payload.invitedBy], {
+      type: 'invitation_accepted',
+      title: 'Invitation Accepted',
+      message: `${acceptedBy} accepted your invitation to ${collection}.`,
+      data: {
+        collection_id: payload.collectionId,
+        collection_title: payload.collectionTitle,
+        invitation_id: payload.invitationId,
+        accepted_by: actorId,
+        accepted_by_name: payload.acceptedByName
+      }
+    })
+  })
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { describeFollowTarget, normalizeFollowTarget } from './follow-service'
+
+describe('normalizeFollowTarget', () => {
+  it('stores each target in one spelling', () => {
+    expect(normalizeFollowTarget('course', ' cs101 ')).toBe('CS101')
+    expect(normalizeFollowTarget('tag', 'Calculus')).toBe('calculus')
+    expect(normalizeFollowTarget('department', ' Computer Science ')).toBe('Computer Science')
+    expect(normalizeFollowTarget('semester', '3')).toBe('3')
+  })
+
+  it('rejects values that can never match a resource', () => {
+    expect(normalizeFollowTarget('tag', '   ')).toBeNull()
+    expect(normalizeFollowTarget('semester', '9')).toBeNull()
+    expect(normalizeFollowTarget('semester', 'fall')).toBeNull()
+  })
+})
+
+describe('describeFollowTarget', () => {
+  it('names what was followed', () => {
+    expect(describeFollowTarget({ target_type: 'semester', target_value: '3' })).toBe('Semester 3')
+    expect(describeFollowTarget({ target_type: 'tag', target_value: 'calculus' })).toBe('#calculus')
+    expect(describeFollowTarget({ target_type: 'course', target_value: 'CS101' })).toBe('CS101')
+    expect(describeFollowTarget({ target_type: 'uploader', target_value: 'user-1', label: 'Priya' })).toBe('Priya')
+    expect(describeFollowTarget({ target_type: 'uploader', target_value: 'user-1' })).toBe('Uploader')
+  })
+})
@@ -0,0 +1,115 @@
+import { Follow, FollowTargetType, FollowingFeedItem } from '@/types'
+
+export const FOLLOW_TARGET_TYPES: FollowTargetType[] = ['course', 'department', 'semester', 'tag', 'uploader']
+
+export interface FollowingFeedResponse {
+  resources: FollowingFeedItem[]
+  hasMore: boolean
+}
+
+/**
+ * Canonical form of a follow target so the same subscription is not stored
+ * twice under different spellings. Returns null for values that can never
+ * match a resource.
+ */
+export function normalizeFollowTarget(type: FollowTargetType, value: string): string | null {
+  const trimmed = String(value ?? '').trim()
+  if (!trimmed) return null
+
+  switch (type) {
+    case 'course':
+      return trimmed.toUpperCase()
+    case 'semester':
+      return /^[1-8]$/.test(trimmed) ? trimmed : null
+    case 'tag':
+      return trimmed.toLowerCase()
+    default:
+      return trimmed
+  }
+}
+
+export function describeFollowTarget(follow: Pick<Follow, 'target_type' | 'target_value' | 'label'>): string {
+  switch (follow.target_type) {
+    case 'semester':
+      return `Semester ${follow.target_value}`
+    case 'tag':
+      return `#${follow.target_value}`
+    case 'uploader':
+      return follow.label || 'Uploader'
+    default:
+      return follow.target_value
+  }
+}
+
+export class FollowService {
+  async getFollows(): Promise<Follow[]> {
+    try {
+      const response = await fetch('/api/users/follows')
+      if (!response.ok) {
+        throw new Error('Failed to fetch follows')
+      }
+
+      const data = await response.json()
+      return data.follows
+    } catch (error) {
+      console.error('Error fetching follows:', error)
+      return []
+    }
+  }
+
+  async follow(targetType: FollowTargetType, targetValue: string): Promise<Follow | null> {
+    try {
+      const response = await fetch('/api/users/follows', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ target_type: targetType, target_value: targetValue }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to follow')
+      }
+
+      const data = await response.json()
+      return data.follow
+    } catch (error) {
+      console.error('Error creating follow:', error)
+      return null
+    }
+  }
+
+  async unfollow(followId: string): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/users/follows/${followId}`, {
+        method: 'DELETE',
+      })
+
+      return response.ok
+    } catch (error) {
+      console.error('Error removing follow:', error)
+      return false
+    }
+  }
+
+  async getFollowingFeed(page: number = 1, limit: number = 20): Promise<FollowingFeedResponse | null> {
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: limit.toString(),
+      })
+
+      const response = await fetch(`/api/users/follows/feed?${params.toString()}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch following feed')
+      }
+
+      return await response.json()
+    } catch (error) {
+      console.error('Error fetching following feed:', error)
+      return null
+    }
+  }
+}
+
+export const followService = new FollowService()
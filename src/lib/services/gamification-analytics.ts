@@ -180,17 +180,6 @@ export class GamificationAnalyticsService {
       return acc
     }, {} as { [key: string]: number })
 
-    // Get popular achievements
-    const popularAchievements = Object.entries(achievementStats)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 10)
-      .map(([achievement_id, count]) => ({
-        achievement_id,
-        title: this.getAchievementTitle(achievement_id),
-        completion_count: count,
-        completion_rate: completionRates[achievement_id]
-      }))
-
     // Get recent achievements
     const { data: recentAchievements } = await this.supabase
       .from('user_achievements')
@@ -203,9 +192,25 @@ export class GamificationAnalyticsService {
       .order('earned_at', { ascending: false })
       .limit(10)
 
+    const titles = await this.getAchievementTitles([
+      ...Object.keys(achievementStats),
+      ...(recentAchievements || []).map(a => a.achievement_id)
+    ])
+
+    // Get popular achievements
+    const popularAchievements = Object.entries(achievementStats)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 10)
+      .map(([achievement_id, count]) => ({
+        achievement_id,
+        title: titles.get(achievement_id) || achievement_id,
+        completion_count: count,
+        completion_rate: completionRates[achievement_id]
+      }))
+
     const recentAchievementsFormatted = recentAchievements?.map(achievement => ({
       achievement_id: achievement.achievement_id,
-      title: this.getAchievementTitle(achievement.achievement_id),
+      title: titles.get(achievement.achievement_id) || achievement.achievement_id,
       user_name: (achievement.users as any)?.full_name || 'Unknown',
       earned_at: achievement.earned_at
     })) || []
@@ -445,24 +450,15 @@ export class GamificationAnalyticsService {
     return now.toISOString()
   }
 
-  private getAchievementTitle(achievementId: string): string {
-    // In a real app, this would query the achievements table
-    const achievementTitles: { [key: string]: string } = {
-      'first_upload': 'First Contribution',
-      'prolific_uploader': 'Prolific Uploader',
-      'content_master': 'Content Master',
-      'first_collection': 'Curator',
-      'collection_master': 'Collection Master',
-      'popular_content': 'Popular Creator',
-      'viral_content': 'Viral Creator',
-      'points_100': 'Rising Star',
-      'points_500': 'Expert Contributor',
-      'points_1000': 'Platform Legend',
-      'helpful_member': 'Helpful Member',
-      'weekly_warrior': 'Weekly Warrior'
-    }
-    
-    return achievementTitles[achievementId] || achievementId
+  private async getAchievementTitles(achievementIds: string[]): Promise<Map<string, string>> {
+    if (achievementIds.length === 0) return new Map()
+
+    const { data } = await this.supabase
+      .from('achievements')
+      .select('id, title')
+      .in('id', Array.from(new Set(achievementIds)))
+
+    return new Map((data || []).map(a => [a.id as string, a.title as string]))
   }
 
   async trackUserAction(userId: string, action: string, metadata?: Record<string, any>): Promise<void> {
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/client'
 import { User, Resource, Collection } from '@/types'
+import { loadUserActivity, meetsCriteria, getStreak, awardAchievement } from '@/lib/services/achievements'
 
 export interface UserAction {
   type: 'upload_resource' | 'receive_upvote' | 'receive_downvote' | 'create_collection' | 
@@ -12,6 +13,8 @@ export interface UserAction {
   metadata?: Record<string, any>
 }
 
+export type AchievementStatus = 'draft' | 'active' | 'retired'
+
 export interface Achievement {
   id: string
   title: string
@@ -21,21 +24,72 @@ export interface Achievement {
   category: 'upload' | 'engagement' | 'curation' | 'social' | 'milestone'
   criteria: AchievementCriteria
   rarity: 'common' | 'rare' | 'epic' | 'legendary'
+  // Only active achievements are awarded; retired ones stay on profiles
+  status?: AchievementStatus
 }
 
-export interface AchievementCriteria {
-  type: 'count' | 'points' | 'streak' | 'combination'
-  target: number
-  action?: string
-  timeframe?: 'daily' | 'weekly' | 'monthly' | 'all_time'
-  conditions?: Record<string, any>
+// What achievement popups show; live notifications carry these but not the criteria
+export type AchievementDisplay = Pick<Achievement, 'id' | 'title' | 'description' | 'icon' | 'points' | 'category' | 'rarity'>
+
+// An achievement as stored and managed by admins
+export interface AchievementDefinition extends Achievement {
+  status: AchievementStatus
+  created_by?: string
+  created_at: string
+  updated_at: string
+  retired_at?: string
+  earned_count?: number
 }
 
+// What a user's activity is measured by in achievement criteria
+export type AchievementMetric =
+  | 'uploads'
+  | 'verified_uploads'
+  | 'upvotes_received'
+  | 'top_resource_upvotes'
+  | 'downloads'
+  | 'collections'
+  | 'comments'
+  | 'points'
+
+// Rolling windows ending now: the last day, 7 days or 30 days
+export type CriteriaTimeframe = 'daily' | 'weekly' | 'monthly' | 'all_time'
+
+/**
+ * Declarative achievement rules, stored as JSON with each achievement.
+ * `count` compares a metric against a target, optionally within a timeframe
+ * or for one resource type; `streak` needs consecutive active days or weeks;
+ * `all` and `any` combine other rules.
+ */
+export type AchievementCriteria =
+  | {
+      type: 'count'
+      metric: AchievementMetric
+      target: number
+      timeframe?: CriteriaTimeframe
+      resource_type?: Resource['resource_type']
+    }
+  | { type: 'streak'; target: number; unit?: 'day' | 'week' }
+  | { type: 'all'; rules: AchievementCriteria[] }
+  | { type: 'any'; rules: AchievementCriteria[] }
+
 export interface LeaderboardScope {
   type: 'global' | 'department' | 'course'
   department?: string
   course?: string
   timeframe: 'daily' | 'weekly' | 'monthly' | 'all_time'
+  // Id of an archived season to read its final standings instead
+  season?: string
+}
+
+export interface LeaderboardSeason {
+  id: string
+  slug: string
+  name: string
+  starts_at: string
+  ends_at: string
+  status: 'active' | 'archived'
+  archived_at?: string
 }
 
 export interface LeaderboardEntry {
@@ -49,6 +103,8 @@ export interface LeaderboardEntry {
   badge_level: string
   rank: number
   recent_activity: number
+  // Season badge placement in the department, for archived seasons
+  season_award?: number
 }
 
 export interface UserProgress {
@@ -66,6 +122,8 @@ export interface UserProgress {
   }
 }
 
+const ACHIEVEMENT_CACHE_TTL = 5 * 60 * 1000
+
 export class GamificationEngine {
   private _supabase: ReturnType<typeof createClient> | null = null
 
@@ -160,6 +218,47 @@ export class GamificationEngine {
     await this.checkAchievements(userId)
   }
 
+  /**
+   * Take back the points an earlier action earned, e.g. when a vote is
+   * withdrawn. Recorded as a negative contribution so weekly totals and
+   * leaderboards net out. Achievements already earned are kept.
+   */
+  async reverseUserProgress(userId: string, action: UserAction): Promise<void> {
+    const points = this.calculatePoints(action)
+
+    if (points <= 0) return
+
+    const { error: pointsError } = await this.supabase.rpc('increment_user_points', {
+      user_id: userId,
+      points: -points
+    })
+
+    if (pointsError) {
+      console.error('Error reversing user points:', pointsError)
+      throw pointsError
+    }
+
+    const { error: contributionError } = await this.supabase
+      .from('contributions')
+      .insert({
+        user_id: userId,
+        type: this.mapActionToContributionType(action.type),
+        resource_id: action.resourceId,
+        points_earned: -points,
+        metadata: {
+          action_type: action.type,
+          resource_type: action.resourceType,
+          collection_id: action.collectionId,
+          reversal: true,
+          ...action.metadata
+        }
+      })
+
+    if (contributionError) {
+      console.error('Error recording reversed contribution:', contributionError)
+    }
+  }
+
   private mapActionToContributionType(actionType: string): string {
     const mapping = {
       upload_resource: 'upload',
@@ -178,15 +277,17 @@ export class GamificationEngine {
 
   async checkAchievements(userId: string): Promise<Achievement[]> {
     const achievements = await this.getAvailableAchievements()
-    const userStats = await this.getUserStats(userId)
+    const earnedIds = await this.getEarnedAchievementIds(userId)
+    const unearned = achievements.filter(a => !earnedIds.has(a.id))
+    if (unearned.length === 0) return []
+
+    const activity = (await loadUserActivity(this.supabase, [userId])).get(userId)!
     const newAchievements: Achievement[] = []
 
-    for (const achievement of achievements) {
-      const hasAchievement = await this.userHasAchievement(userId, achievement.id)
-      if (hasAchievement) continue
+    for (const achievement of unearned) {
+      if (!meetsCriteria(achievement.criteria, activity)) continue
 
-      if (await this.checkAchievementCriteria(achievement, userStats)) {
-        await this.awardAchievement(userId, achievement)
+      if (await awardAchievement(this.supabase, userId, achievement)) {
         newAchievements.push(achievement)
       }
     }
@@ -194,290 +295,35 @@ export class GamificationEngine {
     return newAchievements
   }
 
-  private async getAvailableAchievements(): Promise<Achievement[]> {
-    // Define achievements - in a real app, these would be stored in the database
-    return [
-      // Upload achievements
-      {
-        id: 'first_upload',
-        title: 'First Contribution',
-        description: 'Upload your first resource',
-        icon: '🎯',
-        points: 10,
-        category: 'upload',
-        criteria: { type: 'count', target: 1, action: 'upload' },
-        rarity: 'common'
-      },
-      {
-        id: 'prolific_uploader',
-        title: 'Prolific Uploader',
-        description: 'Upload 10 resources',
-        icon: '📚',
-        points: 50,
-        category: 'upload',
-        criteria: { type: 'count', target: 10, action: 'upload' },
-        rarity: 'rare'
-      },
-      {
-        id: 'content_master',
-        title: 'Content Master',
-        description: 'Upload 50 resources',
-        icon: '👑',
-        points: 200,
-        category: 'upload',
-        criteria: { type: 'count', target: 50, action: 'upload' },
-        rarity: 'epic'
-      },
-      
-      // Collection achievements
-      {
-        id: 'first_collection',
-        title: 'Curator',
-        description: 'Create your first collection',
-        icon: '📁',
-        points: 15,
-        category: 'curation',
-        criteria: { type: 'count', target: 1, action: 'collection' },
-        rarity: 'common'
-      },
-      {
-        id: 'collection_master',
-        title: 'Collection Master',
-        description: 'Create 10 collections',
-        icon: '🗂️',
-        points: 100,
-        category: 'curation',
-        criteria: { type: 'count', target: 10, action: 'collection' },
-        rarity: 'rare'
-      },
-      
-      // Engagement achievements
-      {
-        id: 'popular_content',
-        title: 'Popular Creator',
-        description: 'Receive 100 upvotes across all content',
-        icon: '⭐',
-        points: 75,
-        category: 'engagement',
-        criteria: { type: 'count', target: 100, action: 'upvotes_received' },
-        rarity: 'rare'
-      },
-      {
-        id: 'viral_content',
-        title: 'Viral Creator',
-        description: 'Have a single resource receive 50+ upvotes',
-        icon: '🚀',
-        points: 150,
-        category: 'engagement',
-        criteria: { type: 'count', target: 50, action: 'single_resource_upvotes' },
-        rarity: 'epic'
-      },
-      
-      // Points milestones
-      {
-        id: 'points_100',
-        title: 'Rising Star',
-        description: 'Earn 100 points',
-        icon: '🌟',
-        points: 25,
-        category: 'milestone',
-        criteria: { type: 'points', target: 100 },
-        rarity: 'common'
-      },
-      {
-        id: 'points_500',
-        title: 'Expert Contributor',
-        description: 'Earn 500 points',
-        icon: '🏆',
-        points: 100,
-        category: 'milestone',
-        criteria: { type: 'points', target: 500 },
-        rarity: 'rare'
-      },
-      {
-        id: 'points_1000',
-        title: 'Platform Legend',
-        description: 'Earn 1000 points',
-        icon: '👑',
-        points: 250,
-        category: 'milestone',
-        criteria: { type: 'points', target: 1000 },
-        rarity: 'legendary'
-      },
-      
-      // Social achievements
-      {
-        id: 'helpful_member',
-        title: 'Helpful Member',
-        description: 'Help others by downloading 25 resources',
-        icon: '🤝',
-        points: 30,
-        category: 'social',
-        criteria: { type: 'count', target: 25, action: 'downloads_made' },
-        rarity: 'common'
-      },
-      
-      // Weekly activity
-      {
-        id: 'weekly_warrior',
-        title: 'Weekly Warrior',
-        description: 'Stay active for 7 consecutive days',
-        icon: '🔥',
-        points: 75,
-        category: 'milestone',
-        criteria: { type: 'streak', target: 7, timeframe: 'daily' },
-        rarity: 'rare'
-      }
-    ]
-  }
-
-  private async getUserStats(userId: string): Promise<Record<string, any>> {
-    // Get user's current points
-    const { data: user } = await this.supabase
-      .from('users')
-      .select('points')
-      .eq('id', userId)
-      .single()
-
-    // Get contribution counts
-    const { data: contributions } = await this.supabase
-      .from('contributions')
-      .select('type, points_earned, created_at, metadata')
-      .eq('user_id', userId)
-
-    // Get resource stats
-    const { data: resources } = await this.supabase
-      .from('resources')
-      .select('upvotes, downvotes, downloads')
-      .eq('uploaded_by', userId)
+  private activeAchievements: { achievements: Achievement[]; loadedAt: number } | null = null
 
-    // Get collection count
-    const { data: collections } = await this.supabase
-      .from('collections')
-      .select('id')
-      .eq('created_by', userId)
-
-    const stats = {
-      total_points: user?.points || 0,
-      upload_count: contributions?.filter(c => c.type === 'upload').length || 0,
-      collection_count: collections?.length || 0,
-      total_upvotes: resources?.reduce((sum, r) => sum + (r.upvotes || 0), 0) || 0,
-      total_downloads: resources?.reduce((sum, r) => sum + (r.downloads || 0), 0) || 0,
-      downloads_made: contributions?.filter(c => c.type === 'download').length || 0,
-      max_resource_upvotes: Math.max(...(resources?.map(r => r.upvotes || 0) || [0])),
-      consecutive_days: await this.getConsecutiveActiveDays(userId)
-    }
-
-    return stats
-  }
-
-  private async getConsecutiveActiveDays(userId: string): Promise<number> {
-    const { data: contributions } = await this.supabase
-      .from('contributions')
-      .select('created_at')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(30) // Check last 30 days
-
-    if (!contributions || contributions.length === 0) return 0
-
-    const dates = contributions.map(c => new Date(c.created_at).toDateString())
-    const uniqueDates = Array.from(new Set(dates)).sort((a, b) => new Date(b).getTime() - new Date(a).getTime())
-
-    let streak = 0
-    const today = new Date().toDateString()
-    let currentDate = new Date()
-
-    for (let i = 0; i < uniqueDates.length; i++) {
-      const checkDate = currentDate.toDateString()
-      if (uniqueDates.includes(checkDate)) {
-        streak++
-        currentDate.setDate(currentDate.getDate() - 1)
-      } else {
-        break
-      }
+  // Active achievements, cached briefly since every point change checks them
+  private async getAvailableAchievements(): Promise<Achievement[]> {
+    if (this.activeAchievements && Date.now() - this.activeAchievements.loadedAt < ACHIEVEMENT_CACHE_TTL) {
+      return this.activeAchievements.achievements
     }
 
-    return streak
-  }
-
-  private async checkAchievementCriteria(achievement: Achievement, stats: Record<string, any>): Promise<boolean> {
-    const { criteria } = achievement
-
-    switch (criteria.type) {
-      case 'count':
-        const countKey = this.getStatsKey(criteria.action!)
-        return stats[countKey] >= criteria.target
-
-      case 'points':
-        return stats.total_points >= criteria.target
-
-      case 'streak':
-        return stats.consecutive_days >= criteria.target
+    const { data, error } = await this.supabase
+      .from('achievements')
+      .select('id, title, description, icon, points, category, rarity, criteria, status')
+      .eq('status', 'active')
 
-      default:
-        return false
+    if (error) {
+      console.error('Error fetching achievements:', error)
+      return this.activeAchievements?.achievements || []
     }
-  }
 
-  private getStatsKey(action: string): string {
-    const mapping = {
-      upload: 'upload_count',
-      collection: 'collection_count',
-      upvotes_received: 'total_upvotes',
-      downloads_made: 'downloads_made',
-      single_resource_upvotes: 'max_resource_upvotes'
-    }
-    return mapping[action as keyof typeof mapping] || action
+    this.activeAchievements = { achievements: (data || []) as Achievement[], loadedAt: Date.now() }
+    return this.activeAchievements.achievements
   }
 
-  private async userHasAchievement(userId: string, achievementId: string): Promise<boolean> {
+  private async getEarnedAchievementIds(userId: string): Promise<Set<string>> {
     const { data } = await this.supabase
       .from('user_achievements')
-      .select('id')
+      .select('achievement_id')
       .eq('user_id', userId)
-      .eq('achievement_id', achievementId)
-      .single()
-
-    return !!data
-  }
-
-  private async awardAchievement(userId: string, achievement: Achievement): Promise<void> {
-    // Record the achievement
-    const { error: achievementError } = await this.supabase
-      .from('user_achievements')
-      .insert({
-        user_id: userId,
-        achievement_id: achievement.id,
-        points_earned: achievement.points,
-        earned_at: new Date().toISOString()
-      })
-
-    if (achievementError) {
-      console.error('Error awarding achievement:', achievementError)
-      return
-    }
-
-    // Award bonus points
-    await this.supabase.rpc('increment_user_points', {
-      user_id: userId,
-      points: achievement.points
-    })
 
-    // Send notification
-    await this.supabase
-      .from('notifications')
-      .insert({
-        user_id: userId,
-        type: 'achievement',
-        title: `Achievement Unlocked: ${achievement.title}`,
-        message: achievement.description,
-        data: {
-          achievement_id: achievement.id,
-          points_earned: achievement.points,
-          rarity: achievement.rarity
-        }
-      })
+    return new Set((data || []).map(a => a.achievement_id as string))
   }
 
   async getLeaderboard(scope: LeaderboardScope, limit: number = 50): Promise<LeaderboardEntry[]> {
@@ -557,18 +403,75 @@ export class GamificationEngine {
     return leaderboardEntries
   }
 
+  async getSeasons(): Promise<LeaderboardSeason[]> {
+    const { data, error } = await this.supabase
+      .from('leaderboard_seasons')
+      .select('*')
+      .order('starts_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching leaderboard seasons:', error)
+      return []
+    }
+
+    return (data || []) as LeaderboardSeason[]
+  }
+
+  // Final standings frozen when the season was archived
+  async getSeasonLeaderboard(seasonId: string, scope: LeaderboardScope, limit: number = 50): Promise<LeaderboardEntry[]> {
+    const byDepartment = scope.type === 'department' && !!scope.department
+
+    let query = this.supabase
+      .from('season_standings')
+      .select('*')
+      .eq('season_id', seasonId)
+
+    if (byDepartment) {
+      query = query
+        .eq('department', scope.department!)
+        .order('department_rank', { ascending: true })
+    } else {
+      query = query.order('rank', { ascending: true })
+    }
+
+    const { data: standings, error } = await query.limit(limit)
+
+    if (error) {
+      console.error('Error fetching season standings:', error)
+      return []
+    }
+
+    return (standings || []).map(standing => ({
+      user_id: standing.user_id,
+      full_name: standing.full_name,
+      department: standing.department,
+      total_points: standing.points,
+      uploads_count: standing.uploads_count,
+      collections_count: standing.collections_count,
+      badge_level: standing.badge_level,
+      rank: byDepartment ? standing.department_rank : standing.rank,
+      recent_activity: 0,
+      season_award: standing.award_placement ?? undefined
+    }))
+  }
+
   async getUserProgress(userId: string): Promise<UserProgress> {
-    const stats = await this.getUserStats(userId)
-    const achievements = await this.getAvailableAchievements()
+    const activity = (await loadUserActivity(this.supabase, [userId])).get(userId)!
     
-    // Get user's earned achievements
+    // Get user's earned achievements, including ones since retired
     const { data: earnedAchievements } = await this.supabase
       .from('user_achievements')
       .select('achievement_id, earned_at')
       .eq('user_id', userId)
 
-    const earnedIds = new Set(earnedAchievements?.map(a => a.achievement_id) || [])
-    const achievementsEarned = achievements.filter(a => earnedIds.has(a.id))
+    const earnedIds = earnedAchievements?.map(a => a.achievement_id) || []
+    const { data: achievements } = earnedIds.length > 0
+      ? await this.supabase
+        .from('achievements')
+        .select('id, title, description, icon, points, category, rarity, criteria, status')
+        .in('id', earnedIds)
+      : { data: [] }
+    const achievementsEarned = (achievements || []) as Achievement[]
     
     // Get recent achievements (last 7 days)
     const weekAgo = new Date()
@@ -578,6 +481,11 @@ export class GamificationEngine {
       return earned && new Date(earned.earned_at) >= weekAgo
     })
 
+    const stats = {
+      total_points: activity.points,
+      consecutive_days: getStreak(activity)
+    }
+
     // Calculate level progression
     const currentLevel = this.calculateLevel(stats.total_points)
     const nextLevel = this.getNextLevel(currentLevel)
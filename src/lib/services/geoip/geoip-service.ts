@@ -0,0 +1,122 @@
+/**
+ * Offline IP geolocation against a local MaxMind-format (.mmdb) database,
+ * e.g. GeoLite2 City or DB-IP City Lite. Refresh it with `npm run update-geoip`.
+ * Server-only: reads the database from disk.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { Reader, CityResponse } from 'maxmind'
+import { currentClient } from '@/clients'
+import { logger } from '@/lib/logger'
+import { getReservedRangeKind } from './ip-ranges'
+
+export interface GeoLocation {
+    city: string | null
+    state: string | null
+    country: string | null
+    countryCode: string | null
+}
+
+// 'country' drops city and state before anything is stored
+export type GeoPrecision = 'city' | 'country'
+
+export const DEFAULT_GEOIP_DB_PATH = path.join('data', 'geoip', 'city.mmdb')
+
+// How often to check whether the database file was replaced
+const RELOAD_CHECK_INTERVAL = 60 * 1000
+
+const UNKNOWN_LOCATION: GeoLocation = { city: null, state: null, country: null, countryCode: null }
+const LOCAL_LOCATION: GeoLocation = { city: 'Local', state: 'Local', country: 'Local', countryCode: 'LO' }
+
+export class GeoIPService {
+    private reader: Reader<CityResponse> | null = null
+    private loadedMtime = 0
+    private lastCheck = 0
+    private loading: Promise<void> | null = null
+    private missingLogged = false
+
+    constructor(
+        private dbPath: string = process.env.GEOIP_DB_PATH || DEFAULT_GEOIP_DB_PATH,
+        private precision: GeoPrecision = currentClient.tracking.geoPrecision
+    ) {}
+
+    /**
+     * Loads the database into memory, or reloads it when the file on disk has
+     * changed since. Lookups keep using the old copy while a reload runs.
+     */
+    private async ensureLoaded(): Promise<void> {
+        const now = Date.now()
+        if (this.reader && now - this.lastCheck < RELOAD_CHECK_INTERVAL) return
+        if (this.loading) return this.loading
+
+        this.lastCheck = now
+        this.loading = (async () => {
+            try {
+                const stat = await fs.stat(this.dbPath)
+                if (this.reader && stat.mtimeMs === this.loadedMtime) return
+
+                const buffer = await fs.readFile(this.dbPath)
+                if (this.reader) {
+                    this.reader.load(buffer)
+                } else {
+                    this.reader = new Reader<CityResponse>(buffer)
+                }
+                this.loadedMtime = stat.mtimeMs
+                this.missingLogged = false
+                logger.info('GeoIP database loaded', { path: this.dbPath })
+            } catch (error) {
+                if (!this.missingLogged) {
+                    logger.warn('GeoIP database unavailable, locations will not be recorded', {
+                        path: this.dbPath,
+                        error
+                    })
+                    this.missingLogged = true
+                }
+            } finally {
+                this.loading = null
+            }
+        })()
+
+        return this.loading
+    }
+
+    async lookup(ip: string): Promise<GeoLocation> {
+        // Private, loopback, CGNAT and other special-purpose addresses
+        if (getReservedRangeKind(ip)) {
+            return { ...LOCAL_LOCATION }
+        }
+
+        await this.ensureLoaded()
+        if (!this.reader) return { ...UNKNOWN_LOCATION }
+
+        try {
+            const result = this.reader.get(ip.trim())
+            if (!result) return { ...UNKNOWN_LOCATION }
+
+            const location: GeoLocation = {
+                city: result.city?.names.en || null,
+                state: result.subdivisions?.[0]?.names.en || null,
+                country: result.country?.names.en || null,
+                countryCode: result.country?.iso_code || null
+            }
+
+            return this.precision === 'country'
+                ? { ...location, city: null, state: null }
+                : location
+        } catch (error) {
+            // Malformed addresses from spoofed headers
+            logger.debug('GeoIP lookup failed', { ip, error })
+            return { ...UNKNOWN_LOCATION }
+        }
+    }
+}
+
+export const geoIPService = new GeoIPService()
+
+/**
+ * Get geolocation from an IP address using the local GeoIP database
+ */
+export function getGeoFromIP(ip: string): Promise<GeoLocation> {
+    return geoIPService.lookup(ip)
+}
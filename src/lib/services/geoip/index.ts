@@ -0,0 +1,5 @@
+export { GeoIPService, geoIPService, getGeoFromIP, DEFAULT_GEOIP_DB_PATH } from './geoip-service'
+export { parseIP, getReservedRangeKind, isReservedIP } from './ip-ranges'
+
+export type { GeoLocation, GeoPrecision } from './geoip-service'
+export type { ReservedRangeKind } from './ip-ranges'
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { getReservedRangeKind, isReservedIP, parseIP } from './ip-ranges'
+
+describe('parseIP', () => {
+    it('parses IPv4 addresses', () => {
+        expect(parseIP('192.168.1.20')).toEqual([192, 168, 1, 20])
+        expect(parseIP(' 8.8.8.8 ')).toEqual([8, 8, 8, 8])
+    })
+
+    it('parses IPv6 addresses, with brackets and zone ids', () => {
+        expect(parseIP('::1')).toEqual([...new Array(15).fill(0), 1])
+        expect(parseIP('[fe80::1%eth0]')).toEqual([0xfe, 0x80, ...new Array(13).fill(0), 1])
+        expect(parseIP('2001:db8:0:0:0:0:0:ff')).toEqual([0x20, 0x01, 0x0d, 0xb8, ...new Array(11).fill(0), 0xff])
+    })
+
+    it('returns IPv4-mapped IPv6 addresses as IPv4', () => {
+        expect(parseIP('::ffff:10.1.2.3')).toEqual([10, 1, 2, 3])
+    })
+
+    it('rejects invalid addresses', () => {
+        expect(parseIP('256.1.1.1')).toBeNull()
+        expect(parseIP('1.2.3')).toBeNull()
+        expect(parseIP('1.2.3.-4')).toBeNull()
+        expect(parseIP('1::2::3')).toBeNull()
+        expect(parseIP('1:2:3:4:5:6:7:8:9')).toBeNull()
+        expect(parseIP('1:2:3:4:5:6:7:8::')).toBeNull()
+        expect(parseIP('gggg::1')).toBeNull()
+        expect(parseIP('not-an-ip')).toBeNull()
+    })
+})
+
+describe('getReservedRangeKind', () => {
+    it('classifies special-purpose IPv4 ranges', () => {
+        expect(getReservedRangeKind('0.0.0.0')).toBe('unspecified')
+        expect(getReservedRangeKind('127.0.0.1')).toBe('loopback')
+        expect(getReservedRangeKind('10.20.30.40')).toBe('private')
+        expect(getReservedRangeKind('172.31.255.255')).toBe('private')
+        expect(getReservedRangeKind('100.64.0.1')).toBe('shared')
+        expect(getReservedRangeKind('169.254.10.10')).toBe('link_local')
+        expect(getReservedRangeKind('192.0.0.9')).toBe('reserved')
+        expect(getReservedRangeKind('198.51.100.7')).toBe('documentation')
+        expect(getReservedRangeKind('198.19.0.1')).toBe('benchmarking')
+        expect(getReservedRangeKind('192.88.99.1')).toBe('reserved')
+        expect(getReservedRangeKind('239.255.255.250')).toBe('multicast')
+        expect(getReservedRangeKind('255.255.255.255')).toBe('reserved')
+    })
+
+    it('respects prefix boundaries', () => {
+        expect(getReservedRangeKind('172.15.255.255')).toBeNull()
+        expect(getReservedRangeKind('172.32.0.0')).toBeNull()
+        expect(getReservedRangeKind('100.128.0.0')).toBeNull()
+        expect(getReservedRangeKind('198.20.0.0')).toBeNull()
+    })
+
+    it('classifies special-purpose IPv6 ranges', () => {
+        expect(getReservedRangeKind('::')).toBe('unspecified')
+        expect(getReservedRangeKind('::1')).toBe('loopback')
+        expect(getReservedRangeKind('64:ff9b::808:808')).toBe('reserved')
+        expect(getReservedRangeKind('64:ff9b:1::1')).toBe('reserved')
+        expect(getReservedRangeKind('2001:0:4136:e378::1')).toBe('reserved')
+        expect(getReservedRangeKind('2001:2::1')).toBe('benchmarking')
+        expect(getReservedRangeKind('2001:db8::1')).toBe('documentation')
+        expect(getReservedRangeKind('2002:c000:204::1')).toBe('reserved')
+        expect(getReservedRangeKind('fd12:3456::1')).toBe('private')
+        expect(getReservedRangeKind('fe80::1')).toBe('link_local')
+        expect(getReservedRangeKind('ff02::1')).toBe('multicast')
+    })
+
+    it('classifies mapped addresses by their IPv4 range', () => {
+        expect(getReservedRangeKind('::ffff:192.168.0.1')).toBe('private')
+        expect(getReservedRangeKind('::ffff:8.8.8.8')).toBeNull()
+    })
+
+    it('returns null for public and invalid addresses', () => {
+        expect(getReservedRangeKind('8.8.8.8')).toBeNull()
+        expect(getReservedRangeKind('2606:4700:4700::1111')).toBeNull()
+        expect(getReservedRangeKind('2001:200::1')).toBeNull()
+        expect(getReservedRangeKind('garbage')).toBeNull()
+    })
+})
+
+describe('isReservedIP', () => {
+    it('is true only for special-purpose addresses', () => {
+        expect(isReservedIP('192.168.0.1')).toBe(true)
+        expect(isReservedIP('1.1.1.1')).toBe(false)
+    })
+})
@@ -0,0 +1,158 @@
+/**
+ * IP address parsing and the special-purpose ranges (RFC 6890 and the IANA
+ * registries) that never appear in a GeoIP database.
+ */
+
+export type ReservedRangeKind =
+    | 'unspecified'
+    | 'loopback'
+    | 'private'
+    | 'shared'
+    | 'link_local'
+    | 'documentation'
+    | 'benchmarking'
+    | 'multicast'
+    | 'reserved'
+
+interface ReservedRange {
+    cidr: string
+    kind: ReservedRangeKind
+}
+
+const RESERVED_RANGES: ReservedRange[] = [
+    // IPv4
+    { cidr: '0.0.0.0/8', kind: 'unspecified' },
+    { cidr: '10.0.0.0/8', kind: 'private' },
+    { cidr: '100.64.0.0/10', kind: 'shared' }, // Carrier-grade NAT
+    { cidr: '127.0.0.0/8', kind: 'loopback' },
+    { cidr: '169.254.0.0/16', kind: 'link_local' },
+    { cidr: '172.16.0.0/12', kind: 'private' },
+    { cidr: '192.0.0.0/24', kind: 'reserved' }, // IETF protocol assignments
+    { cidr: '192.0.2.0/24', kind: 'documentation' },
+    { cidr: '192.88.99.0/24', kind: 'reserved' }, // Deprecated 6to4 relay anycast
+    { cidr: '192.168.0.0/16', kind: 'private' },
+    { cidr: '198.18.0.0/15', kind: 'benchmarking' },
+    { cidr: '198.51.100.0/24', kind: 'documentation' },
+    { cidr: '203.0.113.0/24', kind: 'documentation' },
+    { cidr: '224.0.0.0/4', kind: 'multicast' },
+    { cidr: '240.0.0.0/4', kind: 'reserved' }, // Includes 255.255.255.255
+
+    // IPv6
+    { cidr: '::/128', kind: 'unspecified' },
+    { cidr: '::1/128', kind: 'loopback' },
+    { cidr: '64:ff9b::/96', kind: 'reserved' }, // NAT64 well-known prefix
+    { cidr: '64:ff9b:1::/48', kind: 'reserved' }, // Local-use NAT64
+    { cidr: '100::/64', kind: 'reserved' }, // Discard-only
+    // Checked before the IETF block that contains it
+    { cidr: '2001:2::/48', kind: 'benchmarking' },
+    { cidr: '2001::/23', kind: 'reserved' }, // IETF protocol assignments, incl. Teredo
+    { cidr: '2001:db8::/32', kind: 'documentation' },
+    { cidr: '2002::/16', kind: 'reserved' }, // 6to4
+    { cidr: 'fc00::/7', kind: 'private' }, // Unique local addresses
+    { cidr: 'fe80::/10', kind: 'link_local' },
+    { cidr: 'fec0::/10', kind: 'reserved' }, // Deprecated site-local
+    { cidr: 'ff00::/8', kind: 'multicast' },
+]
+
+/**
+ * Parses an IPv4 or IPv6 address into its bytes (4 or 16). IPv4-mapped IPv6
+ * addresses (::ffff:1.2.3.4) come back as IPv4. Returns null if invalid.
+ */
+export function parseIP(ip: string): number[] | null {
+    const address = ip.trim().replace(/^\[|\]$/g, '').split('%')[0]
+
+    if (address.indexOf(':') === -1) {
+        return parseIPv4(address)
+    }
+
+    const bytes = parseIPv6(address)
+    if (!bytes) return null
+
+    const isMapped = bytes.slice(0, 10).every(b => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff
+    return isMapped ? bytes.slice(12) : bytes
+}
+
+function parseIPv4(address: string): number[] | null {
+    const parts = address.split('.')
+    if (parts.length !== 4) return null
+
+    const bytes = parts.map(part => (/^\d{1,3}$/.test(part) ? parseInt(part, 10) : NaN))
+    return bytes.every(b => b >= 0 && b <= 255) ? bytes : null
+}
+
+function parseIPv6(address: string): number[] | null {
+    const halves = address.split('::')
+    if (halves.length > 2) return null
+
+    const toGroups = (part: string): number[] | null => {
+        if (part === '') return []
+
+        const groups: number[] = []
+        const pieces = part.split(':')
+        for (let i = 0; i < pieces.length; i++) {
+            const piece = pieces[i]
+            // An embedded IPv4 address may end the address
+            if (i === pieces.length - 1 && piece.indexOf('.') !== -1) {
+                const v4 = parseIPv4(piece)
+                if (!v4) return null
+                groups.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3])
+            } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+                groups.push(parseInt(piece, 16))
+            } else {
+                return null
+            }
+        }
+        return groups
+    }
+
+    const head = toGroups(halves[0])
+    const tail = halves.length === 2 ? toGroups(halves[1]) : []
+    if (!head || !tail) return null
+
+    const missing = 8 - head.length - tail.length
+    if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+    const groups = head.concat(new Array(missing).fill(0), tail)
+    const bytes: number[] = []
+    groups.forEach(group => bytes.push(group >> 8, group & 0xff))
+    return bytes
+}
+
+interface ParsedRange {
+    network: number[]
+    prefix: number
+    kind: ReservedRangeKind
+}
+
+const PARSED_RANGES: ParsedRange[] = RESERVED_RANGES.map(({ cidr, kind }) => {
+    const [network, prefix] = cidr.split('/')
+    return { network: parseIP(network)!, prefix: parseInt(prefix, 10), kind }
+})
+
+function inRange(bytes: number[], range: ParsedRange): boolean {
+    if (bytes.length !== range.network.length) return false
+
+    for (let bit = 0; bit < range.prefix; bit += 8) {
+        const bits = Math.min(8, range.prefix - bit)
+        const mask = (0xff << (8 - bits)) & 0xff
+        const i = bit / 8
+        if ((bytes[i] & mask) !== (range.network[i] & mask)) return false
+    }
+    return true
+}
+
+/**
+ * The kind of special-purpose range an address belongs to, or null for a
+ * public address.
+ */
+export function getReservedRangeKind(ip: string): ReservedRangeKind | null {
+    const bytes = parseIP(ip)
+    if (!bytes) return null
+
+    const range = PARSED_RANGES.find(r => inRange(bytes, r))
+    return range ? range.kind : null
+}
+
+export function isReservedIP(ip: string): boolean {
+    return getReservedRangeKind(ip) !== null
+}
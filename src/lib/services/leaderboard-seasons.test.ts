@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { getSeasonForDate, type AcademicTerm } from './leaderboard-seasons'
+
+const semesters: AcademicTerm[] = [
+  { name: 'Odd Semester', start: '06-01' },
+  { name: 'Even Semester', start: '11-15' }
+]
+
+// Academic year starting in August, with the last term after New Year
+const trimesters: AcademicTerm[] = [
+  { name: 'Fall', start: '08-20' },
+  { name: 'Winter', start: '01-05' },
+  { name: 'Spring', start: '04-01' }
+]
+
+describe('getSeasonForDate', () => {
+  it('finds the term a date falls in', () => {
+    expect(getSeasonForDate(new Date('2024-09-10T00:00:00Z'), semesters)).toEqual({
+      slug: '2024-25-odd-semester',
+      name: '2024-25 Odd Semester',
+      starts_at: '2024-06-01T00:00:00.000Z',
+      ends_at: '2024-11-15T00:00:00.000Z'
+    })
+  })
+
+  it('runs the last term of the year into the next calendar year', () => {
+    const season = getSeasonForDate(new Date('2025-03-01T00:00:00Z'), semesters)
+
+    expect(season).toEqual({
+      slug: '2024-25-even-semester',
+      name: '2024-25 Even Semester',
+      starts_at: '2024-11-15T00:00:00.000Z',
+      ends_at: '2025-06-01T00:00:00.000Z'
+    })
+  })
+
+  it('starts a season exactly at its start date', () => {
+    expect(getSeasonForDate(new Date('2024-11-15T00:00:00Z'), semesters).slug).toBe('2024-25-even-semester')
+    expect(getSeasonForDate(new Date('2024-11-14T23:59:59Z'), semesters).slug).toBe('2024-25-odd-semester')
+    expect(getSeasonForDate(new Date('2025-06-01T00:00:00Z'), semesters).slug).toBe('2025-26-odd-semester')
+  })
+
+  it('places terms dated before the first one in the next calendar year', () => {
+    expect(getSeasonForDate(new Date('2025-02-10T00:00:00Z'), trimesters)).toMatchObject({
+      slug: '2024-25-winter',
+      starts_at: '2025-01-05T00:00:00.000Z',
+      ends_at: '2025-04-01T00:00:00.000Z'
+    })
+    expect(getSeasonForDate(new Date('2025-07-01T00:00:00Z'), trimesters)).toMatchObject({
+      slug: '2024-25-spring',
+      ends_at: '2025-08-20T00:00:00.000Z'
+    })
+    expect(getSeasonForDate(new Date('2024-12-31T00:00:00Z'), trimesters).slug).toBe('2024-25-fall')
+  })
+
+  it('formats the academic year across a century', () => {
+    expect(getSeasonForDate(new Date('2099-07-01T00:00:00Z'), semesters).slug).toBe('2099-00-odd-semester')
+  })
+})
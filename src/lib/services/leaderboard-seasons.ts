@@ -0,0 +1,141 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { currentClient } from '@/clients'
+import { logger } from '@/lib/logger'
+import { domainEvents } from '@/lib/services/events'
+import type { LeaderboardSeason } from '@/lib/services/gamification'
+
+export interface AcademicTerm {
+  name: string
+  // Month and day the term starts, e.g. '06-01'
+  start: string
+}
+
+export type SeasonPeriod = Pick<LeaderboardSeason, 'slug' | 'name' | 'starts_at' | 'ends_at'>
+
+export interface SeasonRolloverReport {
+  current: string
+  archived: { slug: string; ranked: number; awarded: number }[]
+}
+
+function termStart(term: AcademicTerm, year: number): Date {
+  const [month, day] = term.start.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * The season a date falls in. Terms are listed in academic-year order; terms
+ * dated before the first one belong to the next calendar year, so a season
+ * like '2024-25 Even Semester' can run from November into April.
+ */
+export function getSeasonForDate(
+  date: Date,
+  terms: AcademicTerm[] = currentClient.seasons.terms
+): SeasonPeriod {
+  let year = date.getUTCFullYear()
+  if (date < termStart(terms[0], year)) year--
+
+  const yearStart = termStart(terms[0], year)
+  const starts = terms.map(term => {
+    const start = termStart(term, year)
+    if (start < yearStart) start.setUTCFullYear(year + 1)
+    return start
+  })
+  starts.push(termStart(terms[0], year + 1))
+
+  let index = 0
+  for (let i = 0; i < terms.length; i++) {
+    if (starts[i] <= date) index = i
+  }
+
+  const academicYear = `${year}-${String((year + 1) % 100).padStart(2, '0')}`
+  const term = terms[index]
+
+  return {
+    slug: `${academicYear}-${term.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name: `${academicYear} ${term.name}`,
+    starts_at: starts[index].toISOString(),
+    ends_at: starts[index + 1].toISOString()
+  }
+}
+
+/**
+ * Opens the current season and archives ended ones. Archiving freezes the
+ * final standings and season badges in the database; winners are then
+ * notified. Meant to run daily; re-runs are safe.
+ */
+export class LeaderboardSeasonService {
+  private _supabase: ReturnType<typeof createAdminClient> | null = null
+
+  private get supabase() {
+    if (!this._supabase) {
+      this._supabase = createAdminClient()
+    }
+    return this._supabase
+  }
+
+  async runRollover(now: Date = new Date()): Promise<SeasonRolloverReport> {
+    const current = getSeasonForDate(now)
+
+    const { error: openError } = await this.supabase
+      .from('leaderboard_seasons')
+      .upsert({ ...current, status: 'active' }, { onConflict: 'slug', ignoreDuplicates: true })
+
+    if (openError) throw openError
+
+    const { data: ended, error } = await this.supabase
+      .from('leaderboard_seasons')
+      .select('*')
+      .eq('status', 'active')
+      .lte('ends_at', now.toISOString())
+      .order('starts_at', { ascending: true })
+
+    if (error) throw error
+
+    const report: SeasonRolloverReport = { current: current.slug, archived: [] }
+
+    for (const season of (ended || []) as LeaderboardSeason[]) {
+      const { data: ranked, error: archiveError } = await this.supabase
+        .rpc('archive_leaderboard_season', {
+          p_season_id: season.id,
+          p_awards_per_department: currentClient.seasons.awardsPerDepartment
+        })
+
+      if (archiveError) {
+        logger.error('Error archiving leaderboard season', { error: archiveError, seasonId: season.id })
+        continue
+      }
+
+      const awarded = await this.announceAwards(season)
+      report.archived.push({ slug: season.slug, ranked: ranked || 0, awarded })
+    }
+
+    return report
+  }
+
+  private async announceAwards(season: LeaderboardSeason): Promise<number> {
+    const { data: winners, error } = await this.supabase
+      .from('season_standings')
+      .select('user_id, department, award_placement')
+      .eq('season_id', season.id)
+      .not('award_placement', 'is', null)
+
+    if (error) {
+      logger.error('Error loading season badge winners', { error, seasonId: season.id })
+      return 0
+    }
+
+    for (const winner of winners || []) {
+      await domainEvents.emit('season.awarded', winner.user_id, {
+        userId: winner.user_id,
+        seasonId: season.id,
+        seasonName: season.name,
+        department: winner.department,
+        placement: winner.award_placement
+      }, this.supabase)
+    }
+
+    return winners?.length || 0
+  }
+}
+
+export const leaderboardSeasonService = new LeaderboardSeasonService()
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest'
+import { strToU8, zipSync } from 'fflate'
+import { MetadataExtractionService } from './metadata-extraction'
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+function officeFile(name: string, type: string, parts: Record<string, string>): File {
+  const archive = zipSync(Object.fromEntries(
+    Object.entries(parts).map(([path, xml]) => [path, strToU8(xml)])
+  ))
+  return new File([archive], name, { type })
+}
+
+// A minimal PDF with one line of text per page and a document info dictionary
+function pdfFile(name: string, pages: string[], info: string): File {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ]
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    )
+  })
+  objects.push(info)
+
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF`
+
+  return new File([pdf], name, { type: 'application/pdf' })
+}
+
+function paragraph(text: string, style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''
+  return `<w:p>${properties}<w:r><w:t>${text}</w:t></w:r></w:p>`
+}
+
+function slide(title: string, body: string): string {
+  return `<p:sld><p:cSld><p:spTree>` +
+    `<p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>` +
+    `<p:sp><p:txBody><a:p><a:r><a:t>${body}</a:t></a:r></a:p></p:txBody></p:sp>` +
+    `</p:spTree></p:cSld></p:sld>`
+}
+
+describe('MetadataExtractionService PDF extraction', () => {
+  const info = '<< /Title (Thermodynamics) /Author (Ada Lovelace) /Keywords (heat; entropy, energy) >>'
+
+  it('reads page count, document info and text', async () => {
+    const file = pdfFile('notes.pdf', ['First law of thermodynamics', 'Entropy always increases'], info)
+
+    const metadata = await MetadataExtractionService.extractMetadata(file, 'document', { extractText: true })
+
+    expect(metadata.extractionSuccess).toBe(true)
+    expect(metadata.extractionMethod).toBe('pdfjs')
+    expect(metadata.pageCount).toBe(2)
+    expect(metadata.title).toBe('Thermodynamics')
+    expect(metadata.author).toBe('Ada Lovelace')
+    expect(metadata.keywords).toEqual(['heat', 'entropy', 'energy'])
+    expect(metadata.textContent).toContain('First law of thermodynamics')
+    expect(metadata.textContent).toContain('Entropy always increases')
+    expect(metadata.wordCount).toBe(7)
+    expect(metadata.estimatedTime).toBe(1)
+  })
+
+  it('extrapolates the word count from the pages it reads', async () => {
+    const file = pdfFile('book.pdf', ['one two three four', 'five', 'six'], info)
+
+    const metadata = await MetadataExtractionService.extractMetadata(file, 'document', { maxPages: 1 })
+
+    expect(metadata.pageCount).toBe(3)
+    expect(metadata.wordCount).toBe(12)
+    expect(metadata.textContent).toBeUndefined()
+  })
+})
+
+describe('MetadataExtractionService DOCX extraction', () => {
+  const styles = `<w:styles>` +
+    `<w:style w:type="paragraph" w:styleId="Berschrift1"><w:name w:val="heading 1"/></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Berschrift2"><w:name w:val="heading 2"/></w:style>` +
+    `</w:styles>`
+
+  it('reads text, headings from localized styles and document properties', async () => {
+    const file = officeFile('notes.docx', DOCX_MIME_TYPE, {
+      'word/document.xml': `<w:document><w:body>${
+        paragraph('Introduction', 'Berschrift1') +
+        paragraph('Cells &amp; tissues are covered here.') +
+        paragraph('Membranes', 'Berschrift2') +
+        paragraph('Lipid bilayers')
+      }</w:body></w:document>`,
+      'word/styles.xml': styles,
+      'docProps/core.xml': '<cp:coreProperties><dc:title>Biology Notes</dc:title><dc:creator>Ada</dc:creator><cp:keywords>cells; biology</cp:keywords></cp:coreProperties>',
+      'docProps/app.xml': '<Properties><Pages>3</Pages></Properties>'
+    })
+
+    const metadata = await MetadataExtractionService.extractMetadata(file, 'document', { extractText: true })
+
+    expect(metadata.extractionSuccess).toBe(true)
+    expect(metadata.extractionMethod).toBe('docx_xml')
+    expect(metadata.headings).toEqual([
+      { level: 1, text: 'Introduction' },
+      { level: 2, text: 'Membranes' }
+    ])
+    expect(metadata.textContent).toBe('Introduction\nCells & tissues are covered here.\nMembranes\nLipid bilayers')
+    expect(metadata.wordCount).toBe(10)
+    expect(metadata.title).toBe('Biology Notes')
+    expect(metadata.author).toBe('Ada')
+    expect(metadata.keywords).toEqual(['cells', 'biology'])
+    expect(metadata.pageCount).toBe(3)
+  })
+
+  it('falls back to the extension when the browser reports no type', async () => {
+    const file = officeFile('notes.docx', '', {
+      'word/document.xml': `<w:document><w:body>${paragraph('Hello world')}</w:body></w:document>`
+    })
+
+    const metadata = await MetadataExtractionService.extractMetadata(file, 'document')
+
+    expect(metadata.extractionMethod).toBe('docx_xml')
+    expect(metadata.wordCount).toBe(2)
+    expect(metadata.textContent).toBeUndefined()
+  })
+
+  it('reports archives without a document body', async () => {
+    const file = officeFile('broken.docx', DOCX_MIME_TYPE, { 'word/styles.xml': styles })
+
+    const metadata = await MetadataExtractionService.extractMetadata(file, 'document')
+
+    expect(metadata.extractionSuccess).toBe(false)
+    expect(metadata.extractionErrors?.[0]).toContain('word/document.xml is missing')
+  })
+})
+
+describe('MetadataExtractionService PPTX extraction', () => {
+  it('orders slides as listed in the presentation and reads their titles', async () => {
+    const file = officeFile('lecture.pptx', PPTX_MIME_TYPE, {
+      'ppt/slides/slide1.xml': slide('Added later', 'Appendix'),
+      'ppt/slides/slide2.xml': slide('Welcome', 'Agenda for today'),
+      'ppt/presentation.xml': '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>',
+      'ppt/_rels/presentation.xml.rels': '<Relationships>' +
+        '<Relationship Id="rId2" Target="slides/slide1.xml"/>' +
+        '<Relationship Id="rId3" Target="slides/slide2.xml"/>' +
+        '</Relationships>'
+    })
+
+    const metadata = await MetadataExtractionService.extractMetadata(file, 'document', { extractText: true })
+
+    expect(metadata.extractionMethod).toBe('pptx_xml')
+    expect(metadata.slideCount).toBe(2)
+    expect(metadata.slideTitles).toEqual(['Welcome', 'Added later'])
+    expect(metadata.textContent).toBe('Welcome\nAgenda for today\n\nAdded later\nAppendix')
+  })
+
+  it('numbers untitled slides and falls back to file order', async () => {
+    const file = officeFile('deck.pptx', PPTX_MIME_TYPE, {
+      'ppt/slides/slide10.xml': slide('Last', 'End'),
+      'ppt/slides/slide2.xml': '<p:sld><p:cSld><p:spTree><p:sp><p:txBody><a:p><a:r><a:t>No title</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:sld>'
+    })
+
+    const metadata = await MetadataExtractionService.extractMetadata(file, 'document')
+
+    expect(metadata.slideTitles).toEqual(['Slide 1', 'Last'])
+  })
+})
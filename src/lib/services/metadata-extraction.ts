@@ -1,5 +1,10 @@
 import type { ResourceType } from '@/types'
 
+export interface DocumentHeading {
+  level: number
+  text: string
+}
+
 export interface FileMetadata {
   // Common metadata
   fileName: string
@@ -9,6 +14,10 @@ export interface FileMetadata {
   
   // Document-specific metadata
   pageCount?: number
+  wordCount?: number
+  slideCount?: number
+  headings?: DocumentHeading[]
+  slideTitles?: string[]
   textContent?: string
   author?: string
   title?: string
@@ -48,12 +57,20 @@ export interface FileMetadata {
 export interface MetadataExtractionOptions {
   extractText?: boolean
   maxTextLength?: number
+  maxPages?: number
   timeout?: number
 }
 
 export class MetadataExtractionService {
   private static readonly DEFAULT_TIMEOUT = 30000 // 30 seconds
   private static readonly MAX_TEXT_LENGTH = 10000 // 10KB of text
+  private static readonly MAX_PDF_PAGES = 20 // pages of text read from a PDF
+  private static readonly WORDS_PER_MINUTE = 200
+  private static readonly MAX_OFFICE_PART_SIZE = 50 * 1024 * 1024 // uncompressed bytes per XML part
+  private static readonly MAX_OUTLINE_ENTRIES = 200
+
+  private static readonly DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  private static readonly PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
 
   /**
    * Extract metadata from a file
@@ -114,6 +131,12 @@ export class MetadataExtractionService {
         // For PDF files, we can use PDF.js in the browser
         const pdfMetadata = await this.extractPDFMetadata(file, options)
         Object.assign(metadata, pdfMetadata)
+      } else if (this.isOfficeFile(file, 'docx', this.DOCX_MIME_TYPE)) {
+        const docxMetadata = await this.extractDOCXMetadata(file, options)
+        Object.assign(metadata, docxMetadata)
+      } else if (this.isOfficeFile(file, 'pptx', this.PPTX_MIME_TYPE)) {
+        const pptxMetadata = await this.extractPPTXMetadata(file, options)
+        Object.assign(metadata, pptxMetadata)
       } else if (file.type === 'text/plain') {
         // For text files, extract content directly
         const textMetadata = await this.extractTextMetadata(file, options)
@@ -123,10 +146,11 @@ export class MetadataExtractionService {
         metadata.extractionMethod = 'basic_document'
       }
 
-      // Estimate reading time (average 200 words per minute)
-      if (metadata.textContent) {
+      // Estimate reading time from the extracted text unless the extractor
+      // already estimated it for the whole document
+      if (metadata.textContent && !metadata.estimatedTime) {
         const wordCount = metadata.textContent.split(/\s+/).length
-        metadata.estimatedTime = Math.ceil(wordCount / 200) // minutes
+        metadata.estimatedTime = Math.ceil(wordCount / this.WORDS_PER_MINUTE) // minutes
       }
 
       metadata.extractionSuccess = true
@@ -235,26 +259,340 @@ export class MetadataExtractionService {
   }
 
   /**
-   * Extract metadata from PDF files using PDF.js
+   * Extract metadata from PDF files using PDF.js. Runs server-side only (see
+   * /api/resources/upload) so the PDF.js bundle is never loaded in the browser.
    */
   private static async extractPDFMetadata(
     file: File,
     options: MetadataExtractionOptions
   ): Promise<Partial<FileMetadata>> {
-    // Note: This is a simplified implementation
-    // In a real application, you would use PDF.js library
-    // For now, we'll return basic metadata
-    
+    if (typeof window !== 'undefined') {
+      return { extractionMethod: 'pdf_basic' }
+    }
+
     try {
-      // This would require PDF.js to be installed and configured
-      // For the MVP, we'll just return basic info
-      return {
-        extractionMethod: 'pdf_basic',
-        // pageCount: would be extracted using PDF.js
-        // textContent: would be extracted using PDF.js
+      const { getDocumentProxy, getMeta } = await import('unpdf')
+      const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()))
+
+      const result: Partial<FileMetadata> = {
+        extractionMethod: 'pdfjs',
+        pageCount: pdf.numPages
+      }
+
+      const { info } = await getMeta(pdf)
+      if (typeof info?.Title === 'string' && info.Title.trim()) result.title = info.Title.trim()
+      if (typeof info?.Author === 'string' && info.Author.trim()) result.author = info.Author.trim()
+      if (typeof info?.Subject === 'string' && info.Subject.trim()) result.subject = info.Subject.trim()
+      if (typeof info?.Keywords === 'string' && info.Keywords.trim()) {
+        result.keywords = info.Keywords.split(/[,;]/).map((k: string) => k.trim()).filter(Boolean)
+      }
+
+      // Read the first pages only; long books would otherwise dominate upload time
+      const pagesToRead = Math.min(pdf.numPages, options.maxPages || this.MAX_PDF_PAGES)
+      const pageTexts: string[] = []
+
+      for (let pageNumber = 1; pageNumber <= pagesToRead; pageNumber++) {
+        const page = await pdf.getPage(pageNumber)
+        const content = await page.getTextContent()
+        pageTexts.push(
+          content.items
+            .map((item: any) => ('str' in item ? item.str : '') + (item.hasEOL ? '\n' : ''))
+            .join(' ')
+        )
+      }
+
+      await pdf.destroy()
+
+      const text = pageTexts.join('\n\n').replace(/[ \t]+/g, ' ').trim()
+
+      if (text) {
+        // Extrapolate from the pages read to the whole document
+        const sampledWords = text.split(/\s+/).length
+        result.wordCount = Math.round((sampledWords / pagesToRead) * pdf.numPages)
+        result.estimatedTime = Math.ceil(result.wordCount / this.WORDS_PER_MINUTE)
+
+        if (options.extractText) {
+          const maxLength = options.maxTextLength || this.MAX_TEXT_LENGTH
+          result.textContent = text.length > maxLength
+            ? text.substring(0, maxLength) + '...'
+            : text
+        }
+      }
+
+      return result
+    } catch (error) {
+      throw new Error(`PDF extraction failed: ${error instanceof Error ? error.message : 'unknown error'}`)
+    }
+  }
+
+  /**
+   * Extract text, word count and heading outline from a Word document.
+   * DOCX files are ZIP archives; the body lives in word/document.xml.
+   */
+  private static async extractDOCXMetadata(
+    file: File,
+    options: MetadataExtractionOptions
+  ): Promise<Partial<FileMetadata>> {
+    try {
+      const parts = await this.readOfficeParts(file, (name) =>
+        name === 'word/document.xml' ||
+        name === 'word/styles.xml' ||
+        name.startsWith('docProps/')
+      )
+
+      const documentXml = parts['word/document.xml']
+      if (!documentXml) {
+        throw new Error('word/document.xml is missing')
+      }
+
+      const headingStyles = this.parseDOCXHeadingStyles(parts['word/styles.xml'] || '')
+      const paragraphs: string[] = []
+      const headings: DocumentHeading[] = []
+
+      for (const paragraphXml of documentXml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || []) {
+        const text = this.readRunText(paragraphXml, 'w')
+        if (!text) continue
+
+        paragraphs.push(text)
+
+        const styleId = paragraphXml.match(/<w:pStyle\s+w:val="([^"]+)"/)?.[1]
+        const outlineLevel = paragraphXml.match(/<w:outlineLvl\s+w:val="(\d)"/)?.[1]
+        const level = outlineLevel !== undefined
+          ? Number(outlineLevel) + 1
+          : styleId ? headingStyles[styleId] : undefined
+
+        if (level && headings.length < this.MAX_OUTLINE_ENTRIES) {
+          headings.push({ level, text })
+        }
+      }
+
+      const text = paragraphs.join('\n')
+      const result: Partial<FileMetadata> = {
+        ...this.parseOfficeProperties(parts),
+        extractionMethod: 'docx_xml'
       }
+
+      if (headings.length > 0) result.headings = headings
+      this.applyOfficeText(result, text, options)
+
+      return result
     } catch (error) {
-      throw new Error('PDF extraction not implemented')
+      throw new Error(`DOCX extraction failed: ${error instanceof Error ? error.message : 'unknown error'}`)
+    }
+  }
+
+  /**
+   * Extract slide count, slide titles and text from a PowerPoint deck.
+   * PPTX files are ZIP archives with one ppt/slides/slideN.xml per slide.
+   */
+  private static async extractPPTXMetadata(
+    file: File,
+    options: MetadataExtractionOptions
+  ): Promise<Partial<FileMetadata>> {
+    try {
+      const parts = await this.readOfficeParts(file, (name) =>
+        /^ppt\/slides\/slide\d+\.xml$/.test(name) ||
+        name === 'ppt/presentation.xml' ||
+        name === 'ppt/_rels/presentation.xml.rels' ||
+        name.startsWith('docProps/')
+      )
+
+      const slideNames = this.orderPPTXSlides(parts)
+      const slideTitles: string[] = []
+      const slideTexts: string[] = []
+
+      slideNames.forEach((name, index) => {
+        const slideXml = parts[name]
+        let title = ''
+        const texts: string[] = []
+
+        for (const shapeXml of slideXml.match(/<p:sp>[\s\S]*?<\/p:sp>/g) || []) {
+          const shapeText = (shapeXml.match(/<a:p>[\s\S]*?<\/a:p>/g) || [])
+            .map(paragraphXml => this.readRunText(paragraphXml, 'a'))
+            .filter(Boolean)
+            .join('\n')
+
+          if (!shapeText) continue
+
+          if (!title && /<p:ph[^>]*type="(title|ctrTitle)"/.test(shapeXml)) {
+            title = shapeText.replace(/\s+/g, ' ')
+          }
+          texts.push(shapeText)
+        }
+
+        slideTitles.push(title || `Slide ${index + 1}`)
+        if (texts.length > 0) slideTexts.push(texts.join('\n'))
+      })
+
+      const result: Partial<FileMetadata> = {
+        ...this.parseOfficeProperties(parts),
+        extractionMethod: 'pptx_xml',
+        slideCount: slideNames.length
+      }
+
+      if (slideTitles.length > 0) {
+        result.slideTitles = slideTitles.slice(0, this.MAX_OUTLINE_ENTRIES)
+      }
+      this.applyOfficeText(result, slideTexts.join('\n\n'), options)
+
+      return result
+    } catch (error) {
+      throw new Error(`PPTX extraction failed: ${error instanceof Error ? error.message : 'unknown error'}`)
+    }
+  }
+
+  private static isOfficeFile(file: File, extension: string, mimeType: string): boolean {
+    // Some browsers report an empty type for Office files, so fall back to the extension
+    return file.type === mimeType ||
+      (!file.type && file.name.toLowerCase().endsWith(`.${extension}`))
+  }
+
+  /**
+   * Unzip the XML parts of an Office file that match the filter. Oversized
+   * parts are skipped so a crafted archive cannot exhaust memory.
+   */
+  private static async readOfficeParts(
+    file: File,
+    filter: (name: string) => boolean
+  ): Promise<Record<string, string>> {
+    const { unzipSync, strFromU8 } = await import('fflate')
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+      filter: (entry) => filter(entry.name) && entry.originalSize <= this.MAX_OFFICE_PART_SIZE
+    })
+
+    const parts: Record<string, string> = {}
+    for (const [name, data] of Object.entries(entries)) {
+      parts[name] = strFromU8(data)
+    }
+    return parts
+  }
+
+  /**
+   * Map style ids to heading levels. Style ids are localized ("Heading1",
+   * "Überschrift1"), but the built-in style names are always "heading N".
+   */
+  private static parseDOCXHeadingStyles(stylesXml: string): Record<string, number> {
+    const levels: Record<string, number> = { Title: 1 }
+
+    for (const styleXml of stylesXml.match(/<w:style\s[\s\S]*?<\/w:style>/g) || []) {
+      const styleId = styleXml.match(/w:styleId="([^"]+)"/)?.[1]
+      const name = styleXml.match(/<w:name\s+w:val="([^"]+)"/)?.[1]?.toLowerCase()
+      if (!styleId || !name) continue
+
+      const headingMatch = name.match(/^heading (\d)$/)
+      if (headingMatch) {
+        levels[styleId] = Number(headingMatch[1])
+      } else if (name === 'title') {
+        levels[styleId] = 1
+      }
+    }
+
+    return levels
+  }
+
+  /**
+   * Slide files are numbered in creation order, so use the order listed in
+   * presentation.xml and fall back to the file numbers.
+   */
+  private static orderPPTXSlides(parts: Record<string, string>): string[] {
+    const slideNames = Object.keys(parts)
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]))
+
+    const presentationXml = parts['ppt/presentation.xml'] || ''
+    const relsXml = parts['ppt/_rels/presentation.xml.rels'] || ''
+    const targets: Record<string, string> = {}
+
+    for (const relXml of relsXml.match(/<Relationship\s[^>]*>/g) || []) {
+      const id = relXml.match(/Id="([^"]+)"/)?.[1]
+      const target = relXml.match(/Target="([^"]+)"/)?.[1]
+      if (id && target) {
+        targets[id] = `ppt/${target.replace(/^\/?(ppt\/)?/, '')}`
+      }
+    }
+
+    const ordered = (presentationXml.match(/<p:sldId\s[^>]*>/g) || [])
+      .map(slideIdXml => targets[slideIdXml.match(/r:id="([^"]+)"/)?.[1] || ''])
+      .filter((name): name is string => !!name && name in parts)
+
+    return ordered.length > 0 ? ordered : slideNames
+  }
+
+  /**
+   * Read title, author, subject and keywords from docProps/core.xml and the
+   * page count Word saved in docProps/app.xml
+   */
+  private static parseOfficeProperties(parts: Record<string, string>): Partial<FileMetadata> {
+    const coreXml = parts['docProps/core.xml'] || ''
+    const appXml = parts['docProps/app.xml'] || ''
+    const result: Partial<FileMetadata> = {}
+
+    const readTag = (xml: string, tag: string) => {
+      const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))
+      return match ? this.decodeXmlEntities(match[1]).trim() : ''
+    }
+
+    const title = readTag(coreXml, 'dc:title')
+    const author = readTag(coreXml, 'dc:creator')
+    const subject = readTag(coreXml, 'dc:subject')
+    const keywords = readTag(coreXml, 'cp:keywords')
+    const pages = Number(readTag(appXml, 'Pages'))
+
+    if (title) result.title = title
+    if (author) result.author = author
+    if (subject) result.subject = subject
+    if (keywords) result.keywords = keywords.split(/[,;]/).map(k => k.trim()).filter(Boolean)
+    if (pages > 0) result.pageCount = pages
+
+    return result
+  }
+
+  /**
+   * Concatenate the text runs of a paragraph (w:t in Word, a:t in DrawingML)
+   */
+  private static readRunText(paragraphXml: string, namespace: 'w' | 'a'): string {
+    const runPattern = new RegExp(`<${namespace}:t(?:\\s[^>]*)?>([^<]*)</${namespace}:t>|<${namespace}:(tab|br)\\b[^>]*/>`, 'g')
+    let text = ''
+
+    let match: RegExpExecArray | null
+    while ((match = runPattern.exec(paragraphXml)) !== null) {
+      text += match[1] !== undefined ? this.decodeXmlEntities(match[1]) : match[2] === 'tab' ? '\t' : '\n'
+    }
+
+    return text.trim()
+  }
+
+  private static decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+      switch (entity.toLowerCase()) {
+        case 'amp': return '&'
+        case 'lt': return '<'
+        case 'gt': return '>'
+        case 'quot': return '"'
+        case 'apos': return "'"
+        default:
+          return String.fromCodePoint(
+            entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+          )
+      }
+    })
+  }
+
+  private static applyOfficeText(
+    result: Partial<FileMetadata>,
+    text: string,
+    options: MetadataExtractionOptions
+  ) {
+    if (!text) return
+
+    result.wordCount = text.split(/\s+/).filter(Boolean).length
+    result.estimatedTime = Math.ceil(result.wordCount / this.WORDS_PER_MINUTE)
+
+    if (options.extractText) {
+      const maxLength = options.maxTextLength || this.MAX_TEXT_LENGTH
+      result.textContent = text.length > maxLength
+        ? text.substring(0, maxLength) + '...'
+        : text
     }
   }
 
@@ -0,0 +1,122 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { logger } from '@/lib/logger'
+import { emailService, renderBrandedEmail, escapeHtml, appUrl } from '@/lib/services/email'
+import type { Notification } from '@/types'
+
+const NOTIFICATION_TEMPLATE = 'notification'
+const BATCH_SIZE = 200
+// Email notifications older than this are no longer worth sending
+const MAX_AGE_DAYS = 7
+
+export interface NotificationEmailReport {
+  sent: number
+  failed: number
+  duplicates: number
+}
+
+/**
+ * Emails notifications for types the recipient set to the email channel.
+ * notify_users stores them with delivery_channel 'email'; the scheduled run
+ * sends them here once any quiet-hours snooze has passed.
+ */
+export class NotificationEmailService {
+  private _supabase: ReturnType<typeof createAdminClient> | null = null
+
+  private get supabase() {
+    if (!this._supabase) {
+      this._supabase = createAdminClient()
+    }
+    return this._supabase
+  }
+
+  private linkFor(notification: Notification): string {
+    if (notification.data?.resource_id) {
+      return appUrl(`/resources/${notification.data.resource_id}`)
+    }
+    return appUrl('/dashboard')
+  }
+
+  async dispatchPending(batchId?: string): Promise<NotificationEmailReport> {
+    const report: NotificationEmailReport = { sent: 0, failed: 0, duplicates: 0 }
+
+    const now = new Date()
+    const oldest = new Date(now)
+    oldest.setDate(oldest.getDate() - MAX_AGE_DAYS)
+
+    const { data: pending, error } = await this.supabase
+      .from('notifications')
+      .select('*')
+      .eq('delivery_channel', 'email')
+      .is('emailed_at', null)
+      .gte('created_at', oldest.toISOString())
+      .or(`snoozed_until.is.null,snoozed_until.lte.${now.toISOString()}`)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (error) throw error
+
+    const notifications = (pending || []) as Notification[]
+    if (notifications.length === 0) return report
+
+    const { data: recipients, error: usersError } = await this.supabase
+      .from('users')
+      .select('id, email')
+      .in('id', Array.from(new Set(notifications.map(n => n.user_id))))
+
+    if (usersError) throw usersError
+    const emailByUser = new Map((recipients || []).map(user => [user.id as string, user.email as string]))
+
+    for (const notification of notifications) {
+      const to = emailByUser.get(notification.user_id)
+      if (!to) continue
+
+      const link = this.linkFor(notification)
+      const { html, text } = renderBrandedEmail({
+        title: notification.title,
+        bodyHtml: `
+          ${notification.message ? `<p>${escapeHtml(notification.message)}</p>` : ''}
+          <p><a href="${escapeHtml(link)}">Open in the app</a></p>
+        `,
+        text: [notification.message, `Open in the app: ${link}`].filter(Boolean).join('\n\n'),
+        footerNote: 'You chose to get this type of notification by email.',
+        preferencesUrl: appUrl('/settings')
+      })
+
+      try {
+        // The notification id as period key makes re-runs send each one once
+        const delivery = await emailService.send(
+          { to, subject: notification.title, html, text },
+          {
+            template: NOTIFICATION_TEMPLATE,
+            userId: notification.user_id,
+            batchId,
+            periodKey: notification.id
+          }
+        )
+
+        if (delivery?.status === 'failed') {
+          report.failed++
+          continue
+        }
+
+        if (delivery) {
+          report.sent++
+        } else {
+          report.duplicates++
+        }
+
+        await this.supabase
+          .from('notifications')
+          .update({ emailed_at: new Date().toISOString() })
+          .eq('id', notification.id)
+      } catch (error) {
+        logger.error('Error emailing notification', { error, notificationId: notification.id })
+        report.failed++
+      }
+    }
+
+    return report
+  }
+}
+
+export const notificationEmailService = new NotificationEmailService()
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Notification, UserPreferences } from '@/types'
+import { NotificationService, getNotificationChannel, isQuietNotification } from './notification-service'
+
+const baseSettings: UserPreferences['notification_settings'] = {
+  email_digest: true,
+  new_resources: true,
+  votes_received: true,
+  achievements: true
+}
+
+const notification = (overrides: Partial<Notification> = {}): Notification => ({
+  id: 'notification-1',
+  user_id: 'user-1',
+  type: 'vote_received',
+  title: 'Your resource received an upvote',
+  message: '"Linear Algebra Notes" was upvoted by another user.',
+  data: { resource_title: 'Linear Algebra Notes', vote_type: 'upvote' },
+  is_read: false,
+  created_at: '2024-11-04T09:00:00Z',
+  ...overrides
+})
+
+describe('getNotificationChannel', () => {
+  it('delivers in the app unless the older setting turned the type off', () => {
+    expect(getNotificationChannel(baseSettings, 'vote_received')).toBe('in_app')
+    expect(getNotificationChannel({ ...baseSettings, votes_received: false }, 'vote_received')).toBe('none')
+  })
+
+  it('prefers the channel chosen for the type', () => {
+    const settings = { ...baseSettings, votes_received: false, channels: { vote_received: 'email' as const } }
+    expect(getNotificationChannel(settings, 'vote_received')).toBe('email')
+  })
+
+  it('does not let types without a setting be turned off', () => {
+    const settings = { ...baseSettings, channels: { collection_shared: 'none' as const } }
+    expect(getNotificationChannel(settings, 'collection_shared')).toBe('in_app')
+  })
+})
+
+describe('isQuietNotification', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps email-only and still snoozed notifications quiet', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-11-04T09:00:00Z'))
+
+    expect(isQuietNotification(notification())).toBe(false)
+    expect(isQuietNotification(notification({ delivery_channel: 'email' }))).toBe(true)
+    expect(isQuietNotification(notification({ snoozed_until: '2024-11-04T10:00:00Z' }))).toBe(true)
+    expect(isQuietNotification(notification({ snoozed_until: '2024-11-04T08:00:00Z' }))).toBe(false)
+  })
+})
+
+describe('NotificationService.summarizeGroup', () => {
+  it('keeps the text of a group of one', () => {
+    const latest = notification()
+    expect(NotificationService.summarizeGroup(latest, { count: 1, actor_count: 1 })).toEqual({
+      title: latest.title,
+      message: latest.message
+    })
+  })
+
+  it('counts the people who voted', () => {
+    expect(NotificationService.summarizeGroup(notification(), { count: 12, actor_count: 12 })).toEqual({
+      title: '12 people upvoted "Linear Algebra Notes"',
+      message: 'Latest: "Linear Algebra Notes" was upvoted by another user.'
+    })
+    expect(NotificationService.summarizeGroup(
+      notification({ data: { resource_title: 'Linear Algebra Notes', vote_type: 'downvote' } }),
+      { count: 3, actor_count: 1 }
+    ).title).toBe('Someone downvoted "Linear Algebra Notes" 3 times')
+  })
+
+  it('names the follow that new resources matched', () => {
+    const latest = notification({
+      type: 'new_resource',
+      data: { resource_title: 'Midterm Review', followed_type: 'tag', followed_value: 'calculus' }
+    })
+
+    expect(NotificationService.summarizeGroup(latest, { count: 4, actor_count: 2 })).toEqual({
+      title: '4 new resources in #calculus',
+      message: 'Latest: "Midterm Review"'
+    })
+  })
+
+  it('appends a count for other types', () => {
+    const latest = notification({ type: 'system', title: 'Maintenance', message: 'Tonight at 22:00' })
+
+    expect(NotificationService.summarizeGroup(latest, { count: 3, actor_count: 0 })).toEqual({
+      title: 'Maintenance',
+      message: 'Tonight at 22:00 (+2 more)'
+    })
+  })
+})
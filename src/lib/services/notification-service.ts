@@ -1,18 +1,104 @@
 import { createClient } from '@/lib/supabase/client'
-import { Notification } from '@/types'
+import {
+  Follow,
+  Notification,
+  NotificationChannel,
+  NotificationGroup,
+  NotificationType,
+  NotificationView,
+  Resource,
+  UserPreferences
+} from '@/types'
+import { describeFollowTarget } from './follow-service'
 
 export interface NotificationFilters {
   unreadOnly?: boolean
   type?: string
+  view?: NotificationView
   page?: number
   limit?: number
 }
 
+export interface NotificationUpdate {
+  is_read?: boolean
+  archived?: boolean
+  // ISO time to snooze until, or null to unsnooze
+  snoozed_until?: string | null
+}
+
+type NotificationSettingKey = Exclude<keyof UserPreferences['notification_settings'], 'channels' | 'quiet_hours'>
+
+// Types users can choose a channel for. `setting` is the older boolean the
+// channel replaces; types without one cannot be turned off, only moved to email.
+export const NOTIFICATION_CHANNEL_TYPES: {
+  type: NotificationType
+  label: string
+  description: string
+  setting?: NotificationSettingKey
+}[] = [
+  {
+    type: 'new_resource',
+    label: 'New Resources',
+    description: 'New resources in the courses, departments, tags or from the people you follow.',
+    setting: 'new_resources'
+  },
+  {
+    type: 'vote_received',
+    label: 'Votes Received',
+    description: 'Someone upvotes or downvotes your resources.',
+    setting: 'votes_received'
+  },
+  {
+    type: 'achievement',
+    label: 'Achievements',
+    description: 'You earn new badges or reach point milestones.',
+    setting: 'achievements'
+  },
+  {
+    type: 'collection_shared',
+    label: 'Collection Invitations',
+    description: 'Someone shares a collection or invites you to collaborate.'
+  },
+  {
+    type: 'invitation_accepted',
+    label: 'Accepted Invitations',
+    description: 'Someone accepts your invitation to a collection.'
+  }
+]
+
+/**
+ * The channel a user gets a notification type on, mirroring the
+ * notification_channel database function.
+ */
+export function getNotificationChannel(
+  settings: UserPreferences['notification_settings'],
+  type: NotificationType
+): NotificationChannel {
+  const option = NOTIFICATION_CHANNEL_TYPES.find(o => o.type === type)
+  const chosen = settings.channels?.[type]
+
+  if (chosen) {
+    return chosen === 'none' && !option?.setting ? 'in_app' : chosen
+  }
+  return option?.setting && settings[option.setting] === false ? 'none' : 'in_app'
+}
+
+// Snoozed (e.g. by quiet hours) and email-only notifications should not pop up
+export function isQuietNotification(notification: Notification): boolean {
+  return notification.delivery_channel === 'email' ||
+    (!!notification.snoozed_until && new Date(notification.snoozed_until) > new Date())
+}
+
+export type NotificationListener = (notification: Notification) => void
+
 export interface NotificationResponse {
-  notifications: Notification[]
+  groups: NotificationGroup[]
+  // Counts groups, which is what is paginated
   totalCount: number
   currentPage: number
   totalPages: number
+  // Unread notifications in the inbox
+  unreadCount: number
 }
 
 export class NotificationService {
@@ -25,6 +111,13 @@ export class NotificationService {
     return this._supabase
   }
 
+  private liveListeners = new Set<NotificationListener>()
+  private liveUserId: string | null = null
+  private liveChannel: ReturnType<ReturnType<typeof createClient>['channel']> | null = null
+  private liveEventSource: EventSource | null = null
+  // Ids already delivered, so a switch from realtime to SSE never repeats one
+  private deliveredIds = new Set<string>()
+
   async getNotifications(filters: NotificationFilters = {}): Promise<NotificationResponse | null> {
     try {
       const params = new URLSearchParams()
@@ -33,6 +126,7 @@ export class NotificationService {
       if (filters.limit) params.append('limit', filters.limit.toString())
       if (filters.unreadOnly) params.append('unread_only', 'true')
       if (filters.type) params.append('type', filters.type)
+      if (filters.view) params.append('view', filters.view)
 
       const response = await fetch(`/api/notifications?${params.toString()}`)
       if (!response.ok) {
@@ -48,31 +142,35 @@ export class NotificationService {
 
   async getUnreadCount(): Promise<number> {
     try {
-      const response = await this.getNotifications({ unreadOnly: true, limit: 1 })
-      return response?.totalCount || 0
+      const response = await this.getNotifications({ limit: 1 })
+      return response?.unreadCount || 0
     } catch (error) {
       console.error('Error fetching unread count:', error)
       return 0
     }
   }
 
-  async markAsRead(notificationId: string): Promise<boolean> {
+  async updateNotifications(ids: string[], update: NotificationUpdate): Promise<boolean> {
     try {
-      const response = await fetch(`/api/notifications/${notificationId}`, {
+      const response = await fetch('/api/notifications', {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ is_read: true }),
+        body: JSON.stringify({ ids, ...update }),
       })
 
       return response.ok
     } catch (error) {
-      console.error('Error marking notification as read:', error)
+      console.error('Error updating notifications:', error)
       return false
     }
   }
 
+  async markAsRead(ids: string[]): Promise<boolean> {
+    return this.updateNotifications(ids, { is_read: true })
+  }
+
   async markAllAsRead(): Promise<boolean> {
     try {
       const response = await fetch('/api/notifications/mark-all-read', {
@@ -86,50 +184,77 @@ export class NotificationService {
     }
   }
 
-  async deleteNotification(notificationId: string): Promise<boolean> {
+  async archive(ids: string[]): Promise<boolean> {
+    return this.updateNotifications(ids, { archived: true })
+  }
+
+  async unarchive(ids: string[]): Promise<boolean> {
+    return this.updateNotifications(ids, { archived: false })
+  }
+
+  async snooze(ids: string[], until: Date): Promise<boolean> {
+    return this.updateNotifications(ids, { snoozed_until: until.toISOString() })
+  }
+
+  async unsnooze(ids: string[]): Promise<boolean> {
+    return this.updateNotifications(ids, { snoozed_until: null })
+  }
+
+  async deleteNotifications(ids: string[]): Promise<boolean> {
     try {
-      const response = await fetch(`/api/notifications/${notificationId}`, {
+      const params = new URLSearchParams({ ids: ids.join(',') })
+      const response = await fetch(`/api/notifications?${params.toString()}`, {
         method: 'DELETE',
       })
 
       return response.ok
     } catch (error) {
-      console.error('Error deleting notification:', error)
+      console.error('Error deleting notifications:', error)
       return false
     }
   }
 
-  async createNotification(notification: {
-    type: string
-    title: string
-    message?: string
-    data?: Record<string, any>
-    target_user_id?: string
-  }): Promise<Notification | null> {
-    try {
-      const response = await fetch('/api/notifications', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(notification),
-      })
+  /**
+   * Calls back with each notification created for the user, as it arrives.
+   * All subscribers share one connection: a Supabase realtime channel, or
+   * the /api/notifications/stream Server-Sent Events endpoint when realtime
+   * cannot connect.
+   */
+  subscribeToNotifications(userId: string, callback: NotificationListener) {
+    if (this.liveUserId !== userId) {
+      this.disconnectLive()
+      this.liveUserId = userId
+    }
 
-      if (!response.ok) {
-        throw new Error('Failed to create notification')
+    this.liveListeners.add(callback)
+    if (this.liveListeners.size === 1) {
+      this.connectRealtime(userId)
+    }
+
+    return () => {
+      this.liveListeners.delete(callback)
+      if (this.liveListeners.size === 0) {
+        this.disconnectLive()
       }
+    }
+  }
 
-      return await response.json()
-    } catch (error) {
-      console.error('Error creating notification:', error)
-      return null
+  private deliver(notification: Notification) {
+    if (this.deliveredIds.has(notification.id)) return
+    this.deliveredIds.add(notification.id)
+    if (this.deliveredIds.size > 200) {
+      this.deliveredIds.delete(this.deliveredIds.values().next().value as string)
     }
+
+    this.liveListeners.forEach(listener => listener(notification))
   }
 
-  // Real-time notification subscription
-  subscribeToNotifications(userId: string, callback: (notification: Notification) => void) {
+  private connectRealtime(userId: string) {
+    const connectedAt = new Date().toISOString()
+    let fellBack = false
+
     const channel = this.supabase
-      .channel('notifications')
+      .channel(`notifications:${userId}`)
       .on(
         'postgres_changes',
         {
@@ -139,55 +264,191 @@ export class NotificationService {
           filter: `user_id=eq.${userId}`,
         },
         (payload) => {
-          callback(payload.new as Notification)
+          this.deliver(payload.new as Notification)
         }
       )
-      .subscribe()
+      .subscribe((status) => {
+        if (fellBack || this.liveChannel !== channel) return
 
-    return () => {
-      this.supabase.removeChannel(channel)
-    }
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          fellBack = true
+          this.supabase.removeChannel(channel)
+          this.liveChannel = null
+          this.connectEventSource(connectedAt)
+        }
+      })
+
+    this.liveChannel = channel
   }
 
-  // Helper methods for creating specific notification types
-  async notifyAchievement(userId: string, achievementTitle: string, points: number) {
-    return this.createNotification({
-      type: 'achievement',
-      title: 'New Achievement Unlocked!',
-      message: `You've earned the "${achievementTitle}" achievement and gained ${points} points!`,
-      data: { achievement: achievementTitle, points },
-      target_user_id: userId
+  // Picks up from `since` so nothing created while realtime was failing is lost
+  private connectEventSource(since: string) {
+    if (typeof EventSource === 'undefined') return
+
+    const source = new EventSource(`/api/notifications/stream?since=${encodeURIComponent(since)}`)
+    source.addEventListener('notification', (event) => {
+      try {
+        this.deliver(JSON.parse((event as MessageEvent).data) as Notification)
+      } catch (error) {
+        console.error('Error parsing streamed notification:', error)
+      }
     })
+
+    this.liveEventSource = source
   }
 
-  async notifyVoteReceived(userId: string, resourceTitle: string, voteType: 'upvote' | 'downvote') {
-    return this.createNotification({
-      type: 'vote_received',
-      title: `Your resource received ${voteType === 'upvote' ? 'an upvote' : 'a downvote'}`,
-      message: `"${resourceTitle}" was ${voteType === 'upvote' ? 'upvoted' : 'downvoted'} by another user.`,
-      data: { resource_title: resourceTitle, vote_type: voteType },
-      target_user_id: userId
-    })
+  private disconnectLive() {
+    if (this.liveChannel) {
+      this.supabase.removeChannel(this.liveChannel)
+      this.liveChannel = null
+    }
+    if (this.liveEventSource) {
+      this.liveEventSource.close()
+      this.liveEventSource = null
+    }
+    this.liveUserId = null
   }
 
-  async notifyNewResource(userId: string, resourceTitle: string, department: string, course: string) {
-    return this.createNotification({
-      type: 'new_resource',
-      title: 'New Resource Available',
-      message: `A new resource "${resourceTitle}" has been uploaded in ${department} - ${course}.`,
-      data: { resource_title: resourceTitle, department, course },
-      target_user_id: userId
-    })
+  /**
+   * Title and message for a group, e.g. "12 people upvoted ..." for votes.
+   * A group of one keeps the notification's own text.
+   */
+  static summarizeGroup(
+    latest: Notification,
+    stats: Pick<NotificationGroup, 'count' | 'actor_count'>
+  ): Pick<NotificationGroup, 'title' | 'message'> {
+    if (stats.count <= 1) {
+      return { title: latest.title, message: latest.message }
+    }
+
+    const people = Math.max(stats.actor_count, 1)
+    const peopleText = people === 1 ? 'Someone' : `${people} people`
+
+    switch (latest.type) {
+      case 'vote_received': {
+        const voted = latest.data?.vote_type === 'downvote' ? 'downvoted' : 'upvoted'
+        const resourceTitle = latest.data?.resource_title || 'your resource'
+        return {
+          title: people === 1
+            ? `Someone ${voted} "${resourceTitle}" ${stats.count} times`
+            : `${peopleText} ${voted} "${resourceTitle}"`,
+          message: `Latest: ${latest.message || latest.title}`
+        }
+      }
+      case 'new_resource': {
+        const followed = latest.data?.followed_type
+          ? describeFollowTarget({
+              target_type: latest.data.followed_type,
+              target_value: latest.data.followed_value,
+              label: latest.data.uploader_name
+            })
+          : latest.data?.course
+        return {
+          title: `${stats.count} new resources${followed ? ` in ${followed}` : ''}`,
+          message: `Latest: "${latest.data?.resource_title || latest.title}"`
+        }
+      }
+      default:
+        return {
+          title: latest.title,
+          message: `${latest.message ? `${latest.message} ` : ''}(+${stats.count - 1} more)`
+        }
+    }
   }
 
-  async notifyCollectionShared(userId: string, collectionTitle: string, sharedBy: string) {
-    return this.createNotification({
-      type: 'collection_shared',
-      title: 'Collection Shared With You',
-      message: `${sharedBy} shared the collection "${collectionTitle}" with you.`,
-      data: { collection_title: collectionTitle, shared_by: sharedBy },
-      target_user_id: userId
-    })
+  /**
+   * Notification telling a follower about a resource that matches one of
+   * their follows. Sent by the resource.uploaded event subscriber.
+   */
+  static newResourceNotification(
+    resource: Pick<Resource, 'id' | 'title' | 'department' | 'course'>,
+    follow: Pick<Follow, 'target_type' | 'target_value' | 'label'>
+  ) {
+    const location = [resource.department, resource.course].filter(Boolean).join(' - ')
+
+    return {
+      type: 'new_resource' as const,
+      title: follow.target_type === 'uploader'
+        ? `New upload from ${describeFollowTarget(follow)}`
+        : `New in ${describeFollowTarget(follow)}`,
+      message: `A new resource "${resource.title}" has been uploaded in ${location}.`,
+      data: {
+        resource_id: resource.id,
+        resource_title: resource.title,
+        department: resource.department,
+        course: resource.course,
+        followed_type: follow.target_type,
+        followed_value: follow.target_value,
+        uploader_name: follow.target_type === 'uploader' ? follow.label : undefined
+      },
+      // New resources for the same follow are shown together
+      group_key: `new_resource:${follow.target_type}:${follow.target_value}`
+    }
+  }
+
+  /**
+   * Notification telling an uploader what a moderator decided about a
+   * report on their resource. Sent by the moderation API.
+   */
+  static moderationDecisionNotification(
+    resourceTitle: string,
+    action: 'hidden' | 'restored' | 'deleted' | 'dismissed',
+    note?: string
+  ) {
+    const titles = {
+      hidden: 'Your resource has been hidden',
+      restored: 'Your resource has been restored',
+      deleted: 'Your resource has been removed',
+      dismissed: 'A report on your resource was reviewed'
+    }
+    const messages = {
+      hidden: `"${resourceTitle}" was hidden by a moderator after being reported.`,
+      restored: `"${resourceTitle}" is visible to everyone again.`,
+      deleted: `"${resourceTitle}" was removed by a moderator after being reported.`,
+      dismissed: `A report on "${resourceTitle}" was reviewed and no action was needed.`
+    }
+
+    return {
+      type: 'system' as const,
+      title: titles[action],
+      message: note ? `${messages[action]} Moderator note: ${note}` : messages[action],
+      data: { resource_title: resourceTitle, moderation_action: action, resolution_note: note }
+    }
+  }
+
+  /**
+   * Notification telling an uploader that faculty verified their resource.
+   * Sent by the verification API.
+   */
+  static resourceVerifiedNotification(
+    resource: Pick<Resource, 'id' | 'title'>,
+    verifierName: string,
+    note?: string
+  ) {
+    return {
+      type: 'system' as const,
+      title: 'Your resource was verified',
+      message: note
+        ? `${verifierName} verified "${resource.title}": ${note}`
+        : `${verifierName} verified "${resource.title}".`,
+      data: { resource_id: resource.id, resource_title: resource.title, verifier_name: verifierName, verification_note: note }
+    }
+  }
+
+  /**
+   * Notification telling an uploader that someone commented on their
+   * resource. Sent by the comments API.
+   */
+  static commentReceivedNotification(
+    resource: Pick<Resource, 'id' | 'title'>,
+    commenterName: string
+  ) {
+    return {
+      type: 'comment_received' as const,
+      title: 'New comment on your resource',
+      message: `${commenterName} commented on "${resource.title}".`,
+      data: { resource_id: resource.id, resource_title: resource.title, commenter_name: commenterName }
+    }
   }
 }
 
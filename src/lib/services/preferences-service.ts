@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/client'
-import { UserPreferences } from '@/types'
+import { DigestSettings, UserPreferences } from '@/types'
+import { DEFAULT_DIGEST_SETTINGS } from '@/lib/services/digest-schedule'
 
 export class PreferencesService {
   private _supabase: ReturnType<typeof createClient> | null = null
@@ -62,6 +63,23 @@ export class PreferencesService {
     }
   }
 
+  async updateDigestSettings(settings: DigestSettings): Promise<boolean> {
+    try {
+      const currentPreferences = await this.getUserPreferences()
+      if (!currentPreferences) return false
+
+      const updatedPreferences = await this.updateUserPreferences({
+        ...currentPreferences,
+        digest_settings: settings
+      })
+
+      return updatedPreferences !== null
+    } catch (error) {
+      console.error('Error updating digest settings:', error)
+      return false
+    }
+  }
+
   async updateRecommendationSettings(settings: UserPreferences['recommendation_settings']): Promise<boolean> {
     try {
       const currentPreferences = await this.getUserPreferences()
@@ -111,7 +129,8 @@ export class PreferencesService {
       privacy_settings: {
         profile_visibility: 'public',
         activity_visibility: 'public'
-      }
+      },
+      digest_settings: DEFAULT_DIGEST_SETTINGS
     }
   }
 }
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ResourceUploadService } from './resource-upload'
+
+const session = {
+  id: 'session-1',
+  user_id: 'user-1',
+  file_name: 'notes.txt',
+  file_type: 'text/plain',
+  file_size: 11,
+  total_chunks: 3
+}
+
+// Just the chunk bucket downloads the assembly reads
+function chunkStorage(chunks: Record<string, string>) {
+  const downloaded: string[] = []
+  const admin = {
+    storage: {
+      from: () => ({
+        download: async (path: string) => {
+          downloaded.push(path)
+          return path in chunks
+            ? { data: new Blob([chunks[path]]), error: null }
+            : { data: null, error: { message: 'Object not found' } }
+        }
+      })
+    }
+  } as unknown as SupabaseClient
+
+  return { admin, downloaded }
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text()
+}
+
+describe('ResourceUploadService stale completions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-10-27T12:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('treats completions untouched for five minutes as cut off', () => {
+    expect(ResourceUploadService.getStaleCompletionCutoff()).toBe('2024-10-27T11:55:00.000Z')
+    expect(ResourceUploadService.isStaleCompletion({ status: 'completing', updated_at: '2024-10-27T11:54:59Z' })).toBe(true)
+    expect(ResourceUploadService.isStaleCompletion({ status: 'completing', updated_at: '2024-10-27T11:58:00Z' })).toBe(false)
+  })
+
+  it('only considers sessions that are completing', () => {
+    expect(ResourceUploadService.isStaleCompletion({ status: 'uploading', updated_at: '2024-10-27T10:00:00Z' })).toBe(false)
+  })
+})
+
+describe('ResourceUploadService chunk assembly', () => {
+  const chunks = {
+    'user-1/session-1/0': 'hell',
+    'user-1/session-1/1': 'o wo',
+    'user-1/session-1/2': 'rld'
+  }
+
+  it('joins the chunks in order into a file', async () => {
+    const { admin } = chunkStorage(chunks)
+
+    const file = await ResourceUploadService.assembleChunks(admin, session)
+
+    expect(file.name).toBe('notes.txt')
+    expect(file.type).toBe('text/plain')
+    expect(await file.text()).toBe('hello world')
+  })
+
+  it('rejects a file whose size does not match the session', async () => {
+    const { admin } = chunkStorage(chunks)
+
+    await expect(ResourceUploadService.assembleChunks(admin, { ...session, file_size: 12 }))
+      .rejects.toThrow('Assembled file is 11 bytes, expected 12')
+  })
+
+  it('streams the chunks in order', async () => {
+    const { admin, downloaded } = chunkStorage(chunks)
+
+    expect(await readStream(ResourceUploadService.streamChunks(admin, session))).toBe('hello world')
+    expect(downloaded).toEqual(['user-1/session-1/0', 'user-1/session-1/1', 'user-1/session-1/2'])
+  })
+
+  it('fails the stream when a chunk is missing', async () => {
+    const { admin } = chunkStorage({ 'user-1/session-1/0': 'hell' })
+
+    await expect(readStream(ResourceUploadService.streamChunks(admin, session)))
+      .rejects.toThrow('Chunk 1 could not be read: Object not found')
+  })
+
+  it('fails the stream when the size does not match the session', async () => {
+    const { admin } = chunkStorage(chunks)
+
+    await expect(readStream(ResourceUploadService.streamChunks(admin, { ...session, file_size: 10 })))
+      .rejects.toThrow('Assembled file is 11 bytes, expected 10')
+  })
+})
@@ -0,0 +1,321 @@
+import type { SupabaseClient, User as AuthUser } from '@supabase/supabase-js'
+import { domainEvents } from '@/lib/services/events'
+import { MetadataExtractionService, type FileMetadata } from '@/lib/services/metadata-extraction'
+import { ThumbnailGenerationService } from '@/lib/services/thumbnail-generation'
+import { detectResourceTypeFromFile } from '@/features/resources/utils'
+import type { Resource, UploadSession } from '@/types'
+
+const INDEXED_TEXT_LENGTH = 100000 // characters of document text kept for content search
+
+// Video metadata needs a browser media element, so only these types are extracted here
+const SERVER_EXTRACTED_TYPES = ['document', 'code']
+
+// Private bucket where chunked uploads are staged until completion
+const CHUNK_BUCKET = 'upload-chunks'
+
+// Chunked uploads up to this size are joined in memory so their text and
+// thumbnail can be extracted; larger ones are streamed into storage
+const IN_MEMORY_ASSEMBLY_LIMIT = 25 * 1024 * 1024 // 25MB
+
+// Completion runs within one request, so a session that has been
+// 'completing' for longer than this was cut off
+const STALE_COMPLETION_MS = 5 * 60 * 1000 // 5 minutes
+
+export interface StoreResourceResult {
+  resource: Resource | null
+  error: string | null
+}
+
+/**
+ * Turns a validated, fully received file into a resource: extracts metadata,
+ * stores the file and its thumbnail, creates the row and announces it.
+ * Shared by the single-request upload route and chunked upload completion.
+ * Server-only.
+ */
+export class ResourceUploadService {
+  static async storeResource(
+    supabase: SupabaseClient,
+    user: Pick<AuthUser, 'id'>,
+    file: File,
+    metadata: Record<string, any>
+  ): Promise<StoreResourceResult> {
+    // Detect resource type
+    const resourceTypeDetection = detectResourceTypeFromFile(file.name, file.type)
+    const detectedResourceType = resourceTypeDetection.type
+    const contentMetadata = this.getContentMetadata(metadata)
+
+    // Extract page count, document info and text server-side so the data is
+    // there no matter which client uploaded the file
+    if (SERVER_EXTRACTED_TYPES.includes(detectedResourceType)) {
+      const extracted = await MetadataExtractionService.extractMetadata(file, detectedResourceType, {
+        extractText: true,
+        maxTextLength: INDEXED_TEXT_LENGTH
+      })
+      Object.assign(contentMetadata, extracted)
+    }
+
+    // Upload file
+    const fileName = this.getStoragePath(user, file.name)
+
+    const { error: uploadError } = await supabase.storage
+      .from('resources')
+      .upload(fileName, file)
+
+    if (uploadError) {
+      return { resource: null, error: uploadError.message }
+    }
+
+    // Store a rendered first page / video frame next to the file. Cards fall
+    // back to the file type icon when there is none, so failures are not fatal.
+    const storedFiles = [fileName]
+    const thumbnail = await ThumbnailGenerationService.generateThumbnail(file, detectedResourceType)
+    if (thumbnail) {
+      const thumbnailPath = ThumbnailGenerationService.getThumbnailPath(fileName, thumbnail)
+      const { error: thumbnailError } = await supabase.storage
+        .from('resources')
+        .upload(thumbnailPath, thumbnail.data, { contentType: thumbnail.contentType })
+
+      if (thumbnailError) {
+        console.error('Thumbnail upload error:', thumbnailError)
+      } else {
+        storedFiles.push(thumbnailPath)
+        contentMetadata.thumbnailPath = thumbnailPath
+        contentMetadata.thumbnailUrl = supabase.storage
+          .from('resources')
+          .getPublicUrl(thumbnailPath).data.publicUrl
+      }
+    }
+
+    return this.createResource(supabase, user, file, storedFiles, detectedResourceType, contentMetadata, metadata)
+  }
+
+  /**
+   * Turns a chunked upload whose chunks have all been received into a
+   * resource. Small files are joined in memory and stored like a single
+   * upload. Larger ones are streamed into storage one chunk at a time and
+   * keep the metadata the browser extracted, without a thumbnail.
+   */
+  static async storeChunkedResource(
+    supabase: SupabaseClient,
+    admin: SupabaseClient,
+    user: Pick<AuthUser, 'id'>,
+    session: Pick<UploadSession, 'id' | 'user_id' | 'file_name' | 'file_type' | 'file_size' | 'total_chunks' | 'metadata'>
+  ): Promise<StoreResourceResult> {
+    if (session.file_size <= IN_MEMORY_ASSEMBLY_LIMIT) {
+      const file = await this.assembleChunks(admin, session)
+      return this.storeResource(supabase, user, file, session.metadata)
+    }
+
+    const detectedResourceType = detectResourceTypeFromFile(session.file_name, session.file_type).type
+    const fileName = this.getStoragePath(user, session.file_name)
+
+    const { error: uploadError } = await supabase.storage
+      .from('resources')
+      .upload(fileName, this.streamChunks(admin, session), {
+        contentType: session.file_type,
+        duplex: 'half'
+      })
+
+    if (uploadError) {
+      return { resource: null, error: uploadError.message }
+    }
+
+    return this.createResource(
+      supabase,
+      user,
+      { name: session.file_name, size: session.file_size, type: session.file_type },
+      [fileName],
+      detectedResourceType,
+      this.getContentMetadata(session.metadata),
+      session.metadata
+    )
+  }
+
+  /**
+   * Sessions still 'completing' after this time were cut off mid-completion
+   * (completion runs within a single request) and may be completed again
+   */
+  static getStaleCompletionCutoff(): string {
+    return new Date(Date.now() - STALE_COMPLETION_MS).toISOString()
+  }
+
+  static isStaleCompletion(session: Pick<UploadSession, 'status' | 'updated_at'>): boolean {
+    return session.status === 'completing' &&
+      new Date(session.updated_at).getTime() < Date.now() - STALE_COMPLETION_MS
+  }
+
+  private static getStoragePath(user: Pick<AuthUser, 'id'>, originalName: string): string {
+    const fileExt = originalName.split('.').pop()
+    return `${user.id}-${Date.now()}.${fileExt}`
+  }
+
+  // Thumbnail fields point into storage, so they are only ever set here
+  private static getContentMetadata(metadata: Record<string, any>) {
+    const contentMetadata = { ...(metadata.content_metadata || {}) }
+    delete contentMetadata.thumbnailUrl
+    delete contentMetadata.thumbnailPath
+    return contentMetadata
+  }
+
+  private static async createResource(
+    supabase: SupabaseClient,
+    user: Pick<AuthUser, 'id'>,
+    file: Pick<File, 'name' | 'size' | 'type'>,
+    storedFiles: string[],
+    resourceType: Resource['resource_type'],
+    contentMetadata: FileMetadata,
+    metadata: Record<string, any>
+  ): Promise<StoreResourceResult> {
+    // The file comes first; anything after it is a thumbnail
+    const { data: { publicUrl } } = supabase.storage
+      .from('resources')
+      .getPublicUrl(storedFiles[0])
+
+    // Create resource record
+    const { data: resource, error: dbError } = await supabase
+      .from('resources')
+      .insert({
+        title: metadata.title || contentMetadata.title || file.name,
+        description: metadata.description || null,
+        department: metadata.department,
+        course: metadata.course,
+        subject: metadata.subject,
+        topic: metadata.topic || null,
+        tags: metadata.tags || [],
+        resource_type: resourceType,
+        file_url: publicUrl,
+        file_name: file.name,
+        file_size: file.size,
+        file_type: file.type,
+        uploaded_by: user.id,
+        semester: parseInt(metadata.semester),
+        content_metadata: contentMetadata,
+        estimated_time: contentMetadata.estimatedTime || null,
+        difficulty_level: MetadataExtractionService.estimateDifficulty(contentMetadata, resourceType),
+        views: 0,
+      })
+      .select()
+      .single()
+
+    if (dbError) {
+      // Clean up uploaded files on DB error
+      await supabase.storage.from('resources').remove(storedFiles)
+      return { resource: null, error: 'Failed to save resource' }
+    }
+
+    await domainEvents.emit('resource.uploaded', user.id, {
+      resource,
+      fileSize: file.size,
+      fileType: file.type
+    }, supabase)
+
+    return { resource, error: null }
+  }
+
+  /**
+   * Storage path of one staged chunk. The admin client must be used for the
+   * chunk bucket; callers check session ownership first.
+   */
+  static getChunkPath(session: Pick<UploadSession, 'id' | 'user_id'>, chunkIndex: number): string {
+    return `${session.user_id}/${session.id}/${chunkIndex}`
+  }
+
+  static async storeChunk(
+    admin: SupabaseClient,
+    session: Pick<UploadSession, 'id' | 'user_id'>,
+    chunkIndex: number,
+    data: ArrayBuffer
+  ): Promise<string | null> {
+    const { error } = await admin.storage
+      .from(CHUNK_BUCKET)
+      .upload(this.getChunkPath(session, chunkIndex), data, {
+        contentType: 'application/octet-stream',
+        // A chunk is re-sent when its response was lost, so overwrite it
+        upsert: true
+      })
+
+    return error ? error.message : null
+  }
+
+  /**
+   * Download the staged chunks in order and join them back into the file.
+   * Holds the whole file in memory; only used up to IN_MEMORY_ASSEMBLY_LIMIT.
+   */
+  static async assembleChunks(
+    admin: SupabaseClient,
+    session: Pick<UploadSession, 'id' | 'user_id' | 'file_name' | 'file_type' | 'file_size' | 'total_chunks'>
+  ): Promise<File> {
+    const chunks: Blob[] = []
+
+    for (let chunkIndex = 0; chunkIndex < session.total_chunks; chunkIndex++) {
+      const { data, error } = await admin.storage
+        .from(CHUNK_BUCKET)
+        .download(this.getChunkPath(session, chunkIndex))
+
+      if (error || !data) {
+        throw new Error(`Chunk ${chunkIndex} could not be read: ${error?.message || 'missing'}`)
+      }
+      chunks.push(data)
+    }
+
+    const file = new File(chunks, session.file_name, { type: session.file_type })
+    if (file.size !== session.file_size) {
+      throw new Error(`Assembled file is ${file.size} bytes, expected ${session.file_size}`)
+    }
+
+    return file
+  }
+
+  /**
+   * The staged chunks in order as one stream, downloading each chunk only
+   * when the reader needs it so at most one chunk is held in memory
+   */
+  static streamChunks(
+    admin: SupabaseClient,
+    session: Pick<UploadSession, 'id' | 'user_id' | 'file_size' | 'total_chunks'>
+  ): ReadableStream<Uint8Array> {
+    let chunkIndex = 0
+    let streamedBytes = 0
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (chunkIndex === session.total_chunks) {
+          if (streamedBytes !== session.file_size) {
+            controller.error(new Error(`Assembled file is ${streamedBytes} bytes, expected ${session.file_size}`))
+          } else {
+            controller.close()
+          }
+          return
+        }
+
+        const { data, error } = await admin.storage
+          .from(CHUNK_BUCKET)
+          .download(this.getChunkPath(session, chunkIndex))
+
+        if (error || !data) {
+          controller.error(new Error(`Chunk ${chunkIndex} could not be read: ${error?.message || 'missing'}`))
+          return
+        }
+
+        const chunk = new Uint8Array(await data.arrayBuffer())
+        streamedBytes += chunk.byteLength
+        chunkIndex++
+        controller.enqueue(chunk)
+      }
+    })
+  }
+
+  static async removeChunks(
+    admin: SupabaseClient,
+    session: Pick<UploadSession, 'id' | 'user_id' | 'total_chunks'>
+  ): Promise<void> {
+    const paths = Array.from({ length: session.total_chunks }, (_, chunkIndex) =>
+      this.getChunkPath(session, chunkIndex)
+    )
+
+    const { error } = await admin.storage.from(CHUNK_BUCKET).remove(paths)
+    if (error) {
+      console.error('Error removing upload chunks:', error)
+    }
+  }
+}
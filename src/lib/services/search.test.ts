@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Resource } from '@/types'
+import { createClient } from '@/lib/supabase/client'
+import { SearchService } from './search'
+
+vi.mock('@/lib/supabase/client', () => ({ createClient: vi.fn() }))
+vi.mock('./cache/search-cache', () => ({
+  searchCache: { getSearchResults: vi.fn(async () => null), setSearchResults: vi.fn() }
+}))
+vi.mock('./search-analytics', () => ({ searchAnalyticsService: { trackSearch: vi.fn() } }))
+vi.mock('./search-ranking', () => ({
+  searchRankingService: {
+    rankSearchResults: vi.fn(async (resources: Resource[]) => resources),
+    applyTrendingBoost: vi.fn(async (resources: Resource[]) => resources)
+  }
+}))
+
+interface RpcCall {
+  fn: string
+  args: Record<string, unknown>
+  options?: { count?: string; head?: boolean }
+  calls: [string, ...unknown[]][]
+}
+
+// Records each search_resources query and the filters chained onto it
+function fakeSearch(resources: Partial<Resource>[]) {
+  const rpcCalls: RpcCall[] = []
+
+  const rpc = (fn: string, args: Record<string, unknown>, options?: RpcCall['options']) => {
+    const call: RpcCall = { fn, args, options, calls: [] }
+    rpcCalls.push(call)
+
+    const result = options?.head
+      ? { data: null, count: resources.length, error: null }
+      : { data: resources, error: null }
+
+    const builder: Record<string, unknown> = {
+      then: (resolve: (value: typeof result) => unknown) => resolve(result)
+    }
+    for (const method of ['select', 'in', 'overlaps', 'eq', 'gte', 'lte', 'range', 'or', 'order']) {
+      builder[method] = (...args: unknown[]) => {
+        call.calls.push([method, ...args])
+        return builder
+      }
+    }
+    return builder
+  }
+
+  vi.mocked(createClient).mockReturnValue({ rpc } as unknown as ReturnType<typeof createClient>)
+  return { rpcCalls }
+}
+
+const resource = (overrides: Partial<Resource> = {}): Partial<Resource> => ({
+  id: 'resource-1',
+  title: 'Organic Chemistry Notes',
+  resource_type: 'document',
+  department: 'Chemistry',
+  tags: ['organic'],
+  ...overrides
+})
+
+describe('SearchService.search', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('searches through the full-text RPC with the trimmed query', async () => {
+    const { rpcCalls } = fakeSearch([resource()])
+
+    const results = await new SearchService().search('  alkene reactions ', {}, { trackAnalytics: false })
+
+    expect(rpcCalls.map(call => call.fn)).toEqual(['search_resources', 'search_resources', 'search_resources'])
+    expect(rpcCalls.every(call => call.args.search_query === 'alkene reactions')).toBe(true)
+    expect(rpcCalls[1].options).toEqual({ count: 'exact', head: true })
+    expect(results.total).toBe(1)
+    expect(results.facets.departments).toEqual({ Chemistry: 1 })
+  })
+
+  it('keeps the rank order and paginates the results', async () => {
+    const { rpcCalls } = fakeSearch([])
+
+    await new SearchService().search('alkene', {}, { limit: 10, offset: 20, trackAnalytics: false })
+
+    const calls = rpcCalls[0].calls.map(([method]) => method)
+    expect(calls).not.toContain('order')
+    expect(calls).not.toContain('or')
+    expect(rpcCalls[0].calls).toContainEqual(['range', 20, 29])
+  })
+
+  it('applies the filters to the results and the count but not the facets', async () => {
+    const { rpcCalls } = fakeSearch([])
+
+    await new SearchService().search('alkene', {
+      resourceTypes: ['video'],
+      tags: ['organic'],
+      verifiedOnly: true
+    }, { trackAnalytics: false })
+
+    for (const call of rpcCalls.slice(0, 2)) {
+      expect(call.calls).toContainEqual(['in', 'resource_type', ['video']])
+      expect(call.calls).toContainEqual(['overlaps', 'tags', ['organic']])
+      expect(call.calls).toContainEqual(['eq', 'is_verified', true])
+    }
+    expect(rpcCalls[2].calls.map(([method]) => method)).toEqual(['select'])
+  })
+})
+
+describe('SearchService content snippets', () => {
+  const textContent = [
+    'Chapter one introduces hydrocarbons and their naming.',
+    'Electrophilic addition is the characteristic reaction of alkenes, where the double bond opens up.',
+    'Later chapters cover aromatic compounds.'
+  ].join('\n\n')
+
+  const search = async (query: string) => {
+    fakeSearch([resource({ content_metadata: { textContent, pageCount: 12 } })])
+    const results = await new SearchService().search(query, {}, { trackAnalytics: false })
+    return results.resources[0]
+  }
+
+  it('excerpts the document text around the first match', async () => {
+    const result = await search('"double bond"')
+
+    expect(result.content_snippet).toBe(
+      '…naming. Electrophilic addition is the characteristic reaction of alkenes, where the double bond opens up. Later chapters cover aromatic compounds.'
+    )
+  })
+
+  it('falls back to the word stem for other word forms', async () => {
+    const result = await search('characteristics')
+
+    expect(result.content_snippet).toContain('characteristic reaction')
+  })
+
+  it('strips the full text from the result', async () => {
+    const result = await search('nothing-matches')
+
+    expect(result.content_snippet).toBeUndefined()
+    expect(result.content_metadata).toEqual({ pageCount: 12 })
+  })
+})
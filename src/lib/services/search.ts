@@ -67,29 +67,20 @@ export class SearchService {
         }
       }
 
-      // Build the search query
-      let queryBuilder = this.supabase
-        .from('resources')
+      // Full-text search across title, tags, subject, topic and description,
+      // already ordered by ts_rank (or newest first when there is no query)
+      let queryBuilder = this.fullTextSearch(query)
         .select(`
           *,
-          uploader:uploaded_by(full_name, department, badge_level)
+          uploader:uploaded_by(full_name, department, badge_level),
+          verifier:verified_by(full_name, department)
         `)
 
-      // Full-text search across multiple fields
-      if (query.trim()) {
-        const searchTerms = query.trim().split(/\s+/).map(term => `%${term}%`)
-        const searchConditions = searchTerms.map(term => 
-          `title.ilike.${term},description.ilike.${term},subject.ilike.${term},topic.ilike.${term}`
-        ).join(',')
-        queryBuilder = queryBuilder.or(searchConditions)
-      }
-
       // Apply filters
       queryBuilder = this.applyFilters(queryBuilder, filters)
 
       // Execute search with pagination
       const { data: resources, error } = await queryBuilder
-        .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1)
 
       if (error) throw error
@@ -106,7 +97,7 @@ export class SearchService {
       let rankedResources: RankedResource[] = []
       if (resources && resources.length > 0) {
         rankedResources = await searchRankingService.rankSearchResults(
-          resources,
+          resources.map(resource => this.withContentSnippet(resource, query)),
           query,
           userId,
           filters
@@ -495,6 +486,62 @@ export class SearchService {
 
   // Private helper methods
 
+  /**
+   * Start a query against the search_resources RPC. Supports prefix matching,
+   * "quoted phrases" and ts_rank ordering; an empty query matches everything.
+   */
+  private fullTextSearch(query: string, options?: { count?: 'exact'; head?: boolean }) {
+    return this.supabase.rpc('search_resources', { search_query: query.trim() }, options)
+  }
+
+  /**
+   * Attach an excerpt of the file's extracted text around the first match, and
+   * drop the full text so it is not cached or sent to the results list
+   */
+  private withContentSnippet(resource: Resource, query: string): Resource {
+    const textContent = resource.content_metadata?.textContent
+    if (!textContent) return resource
+
+    const { textContent: _textContent, ...contentMetadata } = resource.content_metadata
+    const snippet = query.trim() ? this.extractContentSnippet(textContent, query) : undefined
+
+    return {
+      ...resource,
+      content_metadata: contentMetadata,
+      ...(snippet && { content_snippet: snippet })
+    }
+  }
+
+  private extractContentSnippet(text: string, query: string, radius: number = 80): string | undefined {
+    const phrases = (query.match(/"[^"]+"/g) || []).map(phrase => phrase.slice(1, -1).trim())
+    const words = query.replace(/"[^"]*"/g, ' ').split(/\s+/).filter(word => word.length > 1)
+
+    // Search matches stemmed words, so fall back to the word stem when the exact form is missing
+    const candidates = [
+      ...phrases,
+      ...words,
+      ...words.filter(word => word.length > 5).map(word => word.slice(0, word.length - 3))
+    ].filter(Boolean)
+
+    const lowerText = text.toLowerCase()
+
+    for (const candidate of candidates) {
+      const index = lowerText.indexOf(candidate.toLowerCase())
+      if (index === -1) continue
+
+      // Widen to word boundaries so the excerpt doesn't start or end mid-word
+      let start = Math.max(0, index - radius)
+      let end = Math.min(text.length, index + candidate.length + radius)
+      while (start > 0 && /\S/.test(text[start - 1])) start--
+      while (end < text.length && /\S/.test(text[end])) end++
+
+      const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim()
+      return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`
+    }
+
+    return undefined
+  }
+
   private applyFilters(queryBuilder: any, filters: SearchFilters) {
     if (filters.resourceTypes?.length) {
       queryBuilder = queryBuilder.in('resource_type', filters.resourceTypes)
@@ -514,6 +561,9 @@ export class SearchService {
     if (filters.difficulty?.length) {
       queryBuilder = queryBuilder.in('difficulty_level', filters.difficulty)
     }
+    if (filters.verifiedOnly) {
+      queryBuilder = queryBuilder.eq('is_verified', true)
+    }
     if (filters.dateRange) {
       queryBuilder = queryBuilder
         .gte('created_at', filters.dateRange.start)
@@ -524,17 +574,7 @@ export class SearchService {
   }
 
   private async getSearchCount(query: string, filters: SearchFilters): Promise<{ count: number }> {
-    let queryBuilder = this.supabase
-      .from('resources')
-      .select('*', { count: 'exact', head: true })
-
-    if (query.trim()) {
-      const searchTerms = query.trim().split(/\s+/).map(term => `%${term}%`)
-      const searchConditions = searchTerms.map(term => 
-        `title.ilike.${term},description.ilike.${term},subject.ilike.${term},topic.ilike.${term}`
-      ).join(',')
-      queryBuilder = queryBuilder.or(searchConditions)
-    }
+    let queryBuilder = this.fullTextSearch(query, { count: 'exact', head: true })
 
     queryBuilder = this.applyFilters(queryBuilder, filters)
 
@@ -545,21 +585,11 @@ export class SearchService {
   }
 
   private async getSearchFacets(query: string, filters: SearchFilters) {
-    // This is a simplified implementation. In production, you might want to use database functions
-    // or more sophisticated aggregation queries
-    
+    // Facets are counted over every match for the query, ignoring the active filters,
+    // so users can see how many results each filter would give them
     try {
-      let baseQuery = this.supabase.from('resources').select('resource_type, department, course, tags, difficulty_level')
-
-      if (query.trim()) {
-        const searchTerms = query.trim().split(/\s+/).map(term => `%${term}%`)
-        const searchConditions = searchTerms.map(term => 
-          `title.ilike.${term},description.ilike.${term},subject.ilike.${term},topic.ilike.${term}`
-        ).join(',')
-        baseQuery = baseQuery.or(searchConditions)
-      }
-
-      const { data } = await baseQuery
+      const { data } = await this.fullTextSearch(query)
+        .select('resource_type, department, course, tags, difficulty_level')
 
       if (!data) return {
         resourceTypes: {},
@@ -645,6 +675,9 @@ export class SearchService {
           !filters.difficulty.includes(resource.difficulty_level)) {
         return false
       }
+      if (filters.verifiedOnly && !resource.is_verified) {
+        return false
+      }
       if (filters.dateRange) {
         const resourceDate = new Date(resource.created_at)
         const startDate = new Date(filters.dateRange.start)
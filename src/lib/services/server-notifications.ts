@@ -0,0 +1,35 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { Notification } from '@/types'
+
+export interface ServerNotification {
+  type: Notification['type']
+  title: string
+  message?: string
+  data?: Record<string, any>
+  // Preference that lets recipients opt out; omitted for notifications they must see
+  setting?: 'new_resources' | 'votes_received' | 'achievements'
+  // Notifications with the same key are grouped in the notification center
+  group_key?: string
+}
+
+/**
+ * Notifies users on behalf of actorId. Server-only: notify_users can only be
+ * called with the service role, so clients can't forge notifications. It
+ * applies each recipient's channels, quiet hours and opt-outs.
+ */
+export async function notifyUsers(actorId: string, userIds: string[], notification: ServerNotification) {
+  if (userIds.length === 0) return
+
+  const { error } = await createAdminClient().rpc('notify_users', {
+    p_user_ids: userIds,
+    p_type: notification.type,
+    p_title: notification.title,
+    p_message: notification.message ?? null,
+    p_data: notification.data || {},
+    p_setting: notification.setting ?? null,
+    p_group_key: notification.group_key ?? null,
+    p_actor_id: actorId
+  })
+
+  if (error) throw error
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@/lib/supabase/client'
+import { hasPermission } from '@/features/auth/utils'
 import type { Resource } from '@/types'
 
 export interface TagSuggestion {
@@ -429,6 +430,20 @@ export class TagManagementService {
    */
   static async mergeTags(primaryTag: string, tagsToMerge: string[]): Promise<boolean> {
     try {
+      // Merging rewrites tags on other users' resources, so it is restricted to moderators
+      const { data: { user } } = await this.supabase.auth.getUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const { data: profile } = await this.supabase
+        .from('users')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      if (!hasPermission(profile, 'manage_tags')) {
+        throw new Error('You do not have permission to merge tags')
+      }
+
       const normalizedPrimary = this.normalizeTag(primaryTag)
       const normalizedMerge = tagsToMerge.map(tag => this.normalizeTag(tag))
 
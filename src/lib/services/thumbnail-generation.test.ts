@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ThumbnailGenerationService } from './thumbnail-generation'
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47]
+
+// A blank one-page PDF
+function blankPdf(): File {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>'
+  ]
+
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`
+
+  return new File([pdf], 'notes.pdf', { type: 'application/pdf' })
+}
+
+describe('ThumbnailGenerationService', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('renders the first page of a PDF as a PNG', async () => {
+    const thumbnail = await ThumbnailGenerationService.generateThumbnail(blankPdf(), 'document')
+
+    expect(thumbnail).toMatchObject({ contentType: 'image/png', extension: 'png' })
+    expect(Array.from(thumbnail!.data.slice(0, 4))).toEqual(PNG_SIGNATURE)
+  })
+
+  it('has no renderer for other file types', async () => {
+    const file = new File(['hello'], 'notes.txt', { type: 'text/plain' })
+
+    expect(await ThumbnailGenerationService.generateThumbnail(file, 'document')).toBeNull()
+    expect(await ThumbnailGenerationService.generateThumbnail(blankPdf(), 'link')).toBeNull()
+  })
+
+  it('returns null instead of throwing when rendering fails', async () => {
+    // PDF.js logs its attempts to recover the file
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const file = new File(['not a pdf'], 'broken.pdf', { type: 'application/pdf' })
+
+    expect(await ThumbnailGenerationService.generateThumbnail(file, 'document')).toBeNull()
+  })
+
+  it('skips video frames when ffmpeg is not installed', async () => {
+    vi.stubEnv('FFMPEG_PATH', '/nonexistent/ffmpeg')
+    const file = new File([new Uint8Array(16)], 'lecture.mp4', { type: 'video/mp4' })
+
+    expect(await ThumbnailGenerationService.generateThumbnail(file, 'video')).toBeNull()
+  })
+
+  it('stores the thumbnail next to the file', () => {
+    const thumbnail = { data: new Uint8Array(), contentType: 'image/png', extension: 'png' }
+
+    expect(ThumbnailGenerationService.getThumbnailPath('user-1/notes.v2.pdf', thumbnail)).toBe('user-1/notes.v2-thumb.png')
+    expect(ThumbnailGenerationService.getThumbnailPath('user-1.d/README', thumbnail)).toBe('user-1.d/README-thumb.png')
+  })
+})
@@ -0,0 +1,118 @@
+import { spawn } from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import type { ResourceType } from '@/types'
+
+export interface GeneratedThumbnail {
+  data: Uint8Array
+  contentType: string
+  extension: string
+}
+
+/**
+ * Renders preview images for uploaded files. Server-only: PDFs are rendered
+ * with PDF.js onto a native canvas and video frames are grabbed with ffmpeg.
+ */
+export class ThumbnailGenerationService {
+  private static readonly THUMBNAIL_WIDTH = 480
+  private static readonly FFMPEG_TIMEOUT = 30000 // 30 seconds
+
+  /**
+   * Generate a thumbnail for a file, or null when the file type has no
+   * renderer or rendering failed. Never throws; thumbnails are optional.
+   */
+  static async generateThumbnail(
+    file: File,
+    resourceType: ResourceType
+  ): Promise<GeneratedThumbnail | null> {
+    try {
+      if (resourceType === 'document' && file.type === 'application/pdf') {
+        return await this.renderPDFFirstPage(file)
+      }
+      if (resourceType === 'video' && file.type === 'video/mp4') {
+        return await this.extractVideoFrame(file)
+      }
+      return null
+    } catch (error) {
+      console.error('Thumbnail generation error:', error)
+      return null
+    }
+  }
+
+  /**
+   * Storage path for a file's thumbnail, next to the file itself
+   */
+  static getThumbnailPath(filePath: string, thumbnail: GeneratedThumbnail): string {
+    return `${filePath.replace(/\.[^./]+$/, '')}-thumb.${thumbnail.extension}`
+  }
+
+  private static async renderPDFFirstPage(file: File): Promise<GeneratedThumbnail> {
+    const { renderPageAsImage } = await import('unpdf')
+    const png = await renderPageAsImage(new Uint8Array(await file.arrayBuffer()), 1, {
+      canvas: () => import('@napi-rs/canvas'),
+      width: this.THUMBNAIL_WIDTH
+    })
+
+    return { data: new Uint8Array(png), contentType: 'image/png', extension: 'png' }
+  }
+
+  /**
+   * Grab a representative frame with ffmpeg. MP4 indexes are often at the end
+   * of the file, so the video is written to a temp file rather than piped.
+   * Returns null when ffmpeg is not installed (set FFMPEG_PATH to override).
+   */
+  private static async extractVideoFrame(file: File): Promise<GeneratedThumbnail | null> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'thumbnail-'))
+    const inputPath = path.join(workDir, 'input.mp4')
+
+    try {
+      await fs.writeFile(inputPath, new Uint8Array(await file.arrayBuffer()))
+
+      const frame = await new Promise<Buffer | null>((resolve, reject) => {
+        const ffmpeg = spawn(process.env.FFMPEG_PATH || 'ffmpeg', [
+          '-hide_banner',
+          '-loglevel', 'error',
+          '-i', inputPath,
+          // "thumbnail" picks the most representative of the first frames,
+          // which skips black intro frames
+          '-vf', `thumbnail,scale=${this.THUMBNAIL_WIDTH}:-2`,
+          '-frames:v', '1',
+          '-f', 'image2pipe',
+          '-c:v', 'png',
+          'pipe:1'
+        ])
+
+        const chunks: Buffer[] = []
+        const timeout = setTimeout(() => {
+          ffmpeg.kill('SIGKILL')
+          reject(new Error('Video frame extraction timeout'))
+        }, this.FFMPEG_TIMEOUT)
+
+        ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk))
+        ffmpeg.on('error', (error: NodeJS.ErrnoException) => {
+          clearTimeout(timeout)
+          if (error.code === 'ENOENT') {
+            resolve(null)
+          } else {
+            reject(error)
+          }
+        })
+        ffmpeg.on('close', (code) => {
+          clearTimeout(timeout)
+          if (code === 0 && chunks.length > 0) {
+            resolve(Buffer.concat(chunks))
+          } else {
+            reject(new Error(`ffmpeg exited with code ${code}`))
+          }
+        })
+      })
+
+      return frame
+        ? { data: new Uint8Array(frame), contentType: 'image/png', extension: 'png' }
+        : null
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true })
+    }
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * User Tracking Service
- * Handles activity logging, device detection, and IP geolocation
+ * Handles activity logging and device detection. IP geolocation lives in
+ * '@/lib/services/geoip', as it reads a local database on the server.
  */
 
 import { createClient } from '@/lib/supabase/client'
@@ -25,13 +26,6 @@ interface DeviceInfo {
     browser: string
 }
 
-interface GeoLocation {
-    city: string | null
-    state: string | null
-    country: string | null
-    countryCode: string | null
-}
-
 interface TrackingPayload {
     activityType: ActivityType
     activityData?: Record<string, unknown>
@@ -76,41 +70,6 @@ export function parseUserAgent(userAgent: string): DeviceInfo {
     return { deviceType, os, browser }
 }
 
-/**
- * Get geolocation from IP address using free API
- * Uses ip-api.com (free, no API key required, 45 req/min limit)
- */
-export async function getGeoFromIP(ip: string): Promise<GeoLocation> {
-    try {
-        // Skip for localhost/private IPs
-        if (ip === '127.0.0.1' || ip === '::1' || ip.startsWith('192.168.') || ip.startsWith('10.')) {
-            return { city: 'Local', state: 'Local', country: 'Local', countryCode: 'LO' }
-        }
-
-        const response = await fetch(`http://ip-api.com/json/${ip}?fields=status,city,regionName,country,countryCode`)
-
-        if (!response.ok) {
-            throw new Error('Geo API failed')
-        }
-
-        const data = await response.json()
-
-        if (data.status === 'success') {
-            return {
-                city: data.city || null,
-                state: data.regionName || null,
-                country: data.country || null,
-                countryCode: data.countryCode || null
-            }
-        }
-
-        return { city: null, state: null, country: null, countryCode: null }
-    } catch (error) {
-        console.error('Geolocation lookup failed:', error)
-        return { city: null, state: null, country: null, countryCode: null }
-    }
-}
-
 /**
  * Check if user has given tracking consent
  */
@@ -0,0 +1,19 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client for privileged server-side operations (moderation,
+ * administration). Bypasses RLS, so callers must authorize the request first.
+ * Never import this from client components.
+ */
+export function createAdminClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  )
+}
@@ -0,0 +1,12 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+
+/**
+ * Whether a thrown value is an error returned by a Supabase query or RPC, so
+ * routes can map its code (e.g. '23505') to a response
+ */
+export function isPostgrestError(error: unknown): error is PostgrestError {
+  return typeof error === 'object' &&
+    error !== null &&
+    typeof (error as PostgrestError).code === 'string' &&
+    typeof (error as PostgrestError).message === 'string'
+}
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { describe, expect, it } from 'vitest'
+import { CollectionPermissionsUtil, type CollaboratorPermissionLevel } from './collection-permissions'
+
+interface StoredCollection {
+  id: string
+  created_by: string
+  is_public: boolean
+  is_collaborative: boolean
+}
+
+// The collections and collaborator rows the permission checks read
+function fakeClient(collections: StoredCollection[], collaborators: { collection_id: string; user_id: string; permission_level: CollaboratorPermissionLevel }[] = []) {
+  return {
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {}
+      const rows = () => (table === 'collections' ? collections : collaborators).filter(row =>
+        Object.entries(filters).every(([column, value]) => Array.isArray(value)
+          ? value.includes(row[column as keyof typeof row])
+          : row[column as keyof typeof row] === value)
+      )
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value
+          return builder
+        },
+        in: (column: string, values: unknown[]) => {
+          filters[column] = values
+          return builder
+        },
+        single: async () => {
+          const [row] = rows()
+          return row ? { data: row, error: null } : { data: null, error: { code: 'PGRST116', message: 'No rows' } }
+        },
+        then: (resolve: (value: unknown) => unknown) => resolve({ data: rows(), error: null })
+      }
+      return builder
+    }
+  } as unknown as SupabaseClient
+}
+
+const collection = (overrides: Partial<StoredCollection> = {}): StoredCollection => ({
+  id: 'collection-1',
+  created_by: 'owner-1',
+  is_public: false,
+  is_collaborative: false,
+  ...overrides
+})
+
+describe('CollectionPermissionsUtil.getUserAccessLevel', () => {
+  it('gives owners every permission', async () => {
+    const permissions = new CollectionPermissionsUtil(fakeClient([collection()]))
+
+    const access = await permissions.getUserAccessLevel('collection-1', 'owner-1')
+
+    expect(access.level).toBe('owner')
+    expect(Object.values(access.permissions).every(Boolean)).toBe(true)
+  })
+
+  it('hides private collections from everyone else', async () => {
+    const permissions = new CollectionPermissionsUtil(fakeClient([collection()]))
+
+    expect((await permissions.getUserAccessLevel('collection-1', 'stranger-1')).level).toBe('none')
+    expect((await permissions.getUserAccessLevel('collection-1', null)).level).toBe('none')
+    expect((await permissions.getUserAccessLevel('missing', 'owner-1')).level).toBe('none')
+  })
+
+  it('lets anyone view public collections', async () => {
+    const permissions = new CollectionPermissionsUtil(fakeClient([collection({ is_public: true })]))
+
+    const signedOut = await permissions.getUserAccessLevel('collection-1', null)
+    const signedIn = await permissions.getUserAccessLevel('collection-1', 'stranger-1')
+
+    expect(signedOut).toEqual(signedIn)
+    expect(signedIn.level).toBe('view')
+    expect(signedIn.permissions.can_view).toBe(true)
+    expect(signedIn.permissions.can_edit).toBe(false)
+  })
+
+  it('lets anyone signed in edit public collaborative collections', async () => {
+    const permissions = new CollectionPermissionsUtil(fakeClient([collection({ is_public: true, is_collaborative: true })]))
+
+    const access = await permissions.getUserAccessLevel('collection-1', 'stranger-1')
+
+    expect(access.level).toBe('collaborate')
+    expect(access.permissions).toMatchObject({ can_add_resources: true, can_delete: false, can_share: false })
+  })
+
+  it('follows the collaborator\'s permission level', async () => {
+    const permissions = new CollectionPermissionsUtil(fakeClient([collection()], [
+      { collection_id: 'collection-1', user_id: 'viewer-1', permission_level: 'view' },
+      { collection_id: 'collection-1', user_id: 'editor-1', permission_level: 'edit' },
+      { collection_id: 'collection-1', user_id: 'admin-1', permission_level: 'admin' }
+    ]))
+
+    const viewer = await permissions.getUserAccessLevel('collection-1', 'viewer-1')
+    const editor = await permissions.getUserAccessLevel('collection-1', 'editor-1')
+    const admin = await permissions.getUserAccessLevel('collection-1', 'admin-1')
+
+    expect(viewer.level).toBe('view')
+    expect(editor.permissions).toMatchObject({ can_edit: true, can_share: false, can_manage_collaborators: false })
+    expect(admin.permissions).toMatchObject({ can_edit: true, can_share: true, can_manage_collaborators: true, can_delete: false })
+  })
+})
+
+describe('CollectionPermissionsUtil.getBulkPermissions', () => {
+  it('checks each collection against the user\'s own collaborator entries', async () => {
+    const permissions = new CollectionPermissionsUtil(fakeClient(
+      [collection(), collection({ id: 'collection-2' }), collection({ id: 'collection-3', created_by: 'user-1' })],
+      [
+        { collection_id: 'collection-2', user_id: 'user-1', permission_level: 'edit' },
+        { collection_id: 'collection-1', user_id: 'user-2', permission_level: 'admin' }
+      ]
+    ))
+
+    const access = await permissions.getBulkPermissions(['collection-1', 'collection-2', 'collection-3'], 'user-1')
+
+    expect(access['collection-1'].level).toBe('none')
+    expect(access['collection-2'].level).toBe('collaborate')
+    expect(access['collection-3'].level).toBe('owner')
+  })
+})
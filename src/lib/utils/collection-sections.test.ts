@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { CollectionSection } from '@/types'
+import { scoreSectionForResource, suggestSectionForResource } from './collection-sections'
+
+const section = (id: string, orderIndex: number, rules: Partial<Pick<CollectionSection, 'resource_types' | 'tags'>>): CollectionSection => ({
+  id,
+  collection_id: 'collection-1',
+  name: id,
+  order_index: orderIndex,
+  resource_types: [],
+  tags: [],
+  created_at: '2024-11-01T00:00:00Z',
+  ...rules
+})
+
+describe('scoreSectionForResource', () => {
+  it('weighs shared tags above a matching type', () => {
+    const rules = { resource_types: ['video'], tags: ['Lecture', 'recorded'] }
+
+    expect(scoreSectionForResource(rules, { resource_type: 'video', tags: [] })).toBe(1)
+    expect(scoreSectionForResource(rules, { resource_type: 'document', tags: ['lecture'] })).toBe(2)
+    expect(scoreSectionForResource(rules, { resource_type: 'video', tags: ['LECTURE', 'recorded'] })).toBe(5)
+  })
+
+  it('is zero when no rule applies', () => {
+    expect(scoreSectionForResource({ resource_types: [], tags: [] }, { resource_type: 'video', tags: ['lecture'] })).toBe(0)
+    expect(scoreSectionForResource({ resource_types: ['code'], tags: ['lab'] }, { resource_type: 'video', tags: undefined as unknown as string[] })).toBe(0)
+  })
+})
+
+describe('suggestSectionForResource', () => {
+  const sections = [
+    section('readings', 2, { resource_types: ['document', 'article'] }),
+    section('lectures', 0, { resource_types: ['video'], tags: ['lecture'] }),
+    section('notes', 1, { resource_types: ['document'] })
+  ]
+
+  it('picks the best scoring section', () => {
+    expect(suggestSectionForResource(sections, { resource_type: 'video', tags: [] })?.id).toBe('lectures')
+    expect(suggestSectionForResource(sections, { resource_type: 'article', tags: [] })?.id).toBe('readings')
+    expect(suggestSectionForResource(sections, { resource_type: 'document', tags: ['lecture'] })?.id).toBe('lectures')
+  })
+
+  it('breaks ties by section order, not array order', () => {
+    expect(suggestSectionForResource(sections, { resource_type: 'document', tags: [] })?.id).toBe('notes')
+  })
+
+  it('leaves resources no section matches unsorted', () => {
+    expect(suggestSectionForResource(sections, { resource_type: 'code', tags: ['lab'] })).toBeNull()
+    expect(suggestSectionForResource([], { resource_type: 'video', tags: [] })).toBeNull()
+  })
+})
@@ -0,0 +1,44 @@
+import type { CollectionSection, Resource } from '@/types'
+
+// A shared tag says more about where a resource belongs than its type,
+// which many sections accept
+const TAG_MATCH_WEIGHT = 2
+const TYPE_MATCH_WEIGHT = 1
+
+/**
+ * Scores how well a resource fits a section's template rules; 0 when none
+ * of the section's resource_types or tags apply.
+ */
+export function scoreSectionForResource(
+  section: Pick<CollectionSection, 'resource_types' | 'tags'>,
+  resource: Pick<Resource, 'resource_type' | 'tags'>
+): number {
+  const resourceTags = new Set((resource.tags || []).map(tag => tag.toLowerCase()))
+  const tagMatches = (section.tags || []).filter(tag => resourceTags.has(tag.toLowerCase())).length
+  const typeMatch = (section.resource_types || []).includes(resource.resource_type)
+
+  return tagMatches * TAG_MATCH_WEIGHT + (typeMatch ? TYPE_MATCH_WEIGHT : 0)
+}
+
+/**
+ * The section a new resource should go in: the best scoring one, earlier
+ * sections winning ties. Null when no section's rules match, leaving the
+ * resource unsorted.
+ */
+export function suggestSectionForResource<T extends CollectionSection>(
+  sections: T[],
+  resource: Pick<Resource, 'resource_type' | 'tags'>
+): T | null {
+  let best: T | null = null
+  let bestScore = 0
+
+  for (const section of [...sections].sort((a, b) => a.order_index - b.order_index)) {
+    const score = scoreSectionForResource(section, resource)
+    if (score > bestScore) {
+      best = section
+      bestScore = score
+    }
+  }
+
+  return best
+}
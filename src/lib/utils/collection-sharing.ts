@@ -1,6 +1,6 @@
 import { createClient } from '@/lib/supabase/client'
 import { collectionPermissions } from './collection-permissions'
-import type { Collection, Notification } from '@/types'
+import type { CollectionShareLink, CreateShareLinkOptions } from '@/lib/services/collection-share-links'
 
 export interface ShareCollectionOptions {
   make_public?: boolean
@@ -39,176 +39,31 @@ export class CollectionSharingUtil {
   }
 
   /**
-   * Share a collection with specified options
+   * Share a collection with specified options. Sharing goes through the API,
+   * which checks the share permission and notifies the recipients.
    */
   async shareCollection(
     collectionId: string,
-    userId: string,
     options: ShareCollectionOptions
   ): Promise<ShareResult> {
-    const result: ShareResult = {
-      success: false,
-      share_url: this.getCollectionShareUrl(collectionId),
-      shared_with: [],
-      errors: []
-    }
-
     try {
-      // Check if user has permission to share
-      const canShare = await collectionPermissions.canPerformAction(
-        collectionId, 
-        userId, 
-        'can_share'
-      )
-
-      if (!canShare) {
-        result.errors.push('You do not have permission to share this collection')
-        return result
-      }
-
-      // Update collection visibility settings
-      if (options.make_public !== undefined || options.enable_collaboration !== undefined) {
-        await this.updateCollectionVisibility(
-          collectionId,
-          userId,
-          options.make_public,
-          options.enable_collaboration
-        )
-      }
-
-      // Send invitations to specific users
-      if (options.user_emails?.length) {
-        const invitationResult = await this.sendCollectionInvitations(
-          collectionId,
-          userId,
-          options.user_emails,
-          options.enable_collaboration || false,
-          options.message
-        )
-
-        result.shared_with = invitationResult.successful_emails
-        result.errors.push(...invitationResult.errors)
-      }
-
-      result.success = result.errors.length === 0
-      return result
-
+      const response = await fetch(`/api/collections/${collectionId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to share collection')
+
+      return data as ShareResult
     } catch (error) {
-      result.errors.push(error instanceof Error ? error.message : 'Unknown error occurred')
-      return result
-    }
-  }
-
-  /**
-   * Update collection visibility settings
-   */
-  private async updateCollectionVisibility(
-    collectionId: string,
-    userId: string,
-    makePublic?: boolean,
-    enableCollaboration?: boolean
-  ): Promise<void> {
-    const updateData: Partial<Collection> = {}
-
-    if (makePublic !== undefined) {
-      updateData.is_public = makePublic
-    }
-
-    if (enableCollaboration !== undefined) {
-      updateData.is_collaborative = enableCollaboration
-    }
-
-    if (Object.keys(updateData).length === 0) return
-
-    const { error } = await this.supabase
-      .from('collections')
-      .update(updateData)
-      .eq('id', collectionId)
-      .eq('created_by', userId)
-
-    if (error) {
-      throw new Error(`Failed to update collection visibility: ${error.message}`)
-    }
-  }
-
-  /**
-   * Send collection invitations to users via email
-   */
-  private async sendCollectionInvitations(
-    collectionId: string,
-    invitedBy: string,
-    userEmails: string[],
-    canCollaborate: boolean,
-    message?: string
-  ): Promise<{ successful_emails: string[], errors: string[] }> {
-    const result = {
-      successful_emails: [] as string[],
-      errors: [] as string[]
-    }
-
-    // Get collection details
-    const { data: collection, error: collectionError } = await this.supabase
-      .from('collections')
-      .select(`
-        title,
-        creator:created_by(full_name)
-      `)
-      .eq('id', collectionId)
-      .single()
-
-    if (collectionError) {
-      result.errors.push('Failed to fetch collection details')
-      return result
-    }
-
-    // Get users by email
-    const { data: users, error: usersError } = await this.supabase
-      .from('users')
-      .select('id, email, full_name')
-      .in('email', userEmails)
-
-    if (usersError) {
-      result.errors.push('Failed to fetch user information')
-      return result
-    }
-
-    // Find emails that don't correspond to existing users
-    const foundEmails = users.map(u => u.email)
-    const notFoundEmails = userEmails.filter(email => !foundEmails.includes(email))
-    
-    if (notFoundEmails.length > 0) {
-      result.errors.push(`Users not found: ${notFoundEmails.join(', ')}`)
-    }
-
-    // Create notifications for existing users
-    if (users.length > 0) {
-      const notifications: Partial<Notification>[] = users.map(user => ({
-        user_id: user.id,
-        type: 'collection_shared',
-        title: 'Collection Shared With You',
-        message: `${(collection.creator as any)?.full_name} shared the collection "${collection.title}" with you`,
-        data: {
-          collection_id: collectionId,
-          collection_title: collection.title,
-          invited_by: invitedBy,
-          invited_by_name: (collection.creator as any)?.full_name,
-          can_collaborate: canCollaborate,
-          custom_message: message
-        }
-      }))
-
-      const { error: notificationError } = await this.supabase
-        .from('notifications')
-        .insert(notifications)
-
-      if (notificationError) {
-        result.errors.push('Failed to send notifications to some users')
-      } else {
-        result.successful_emails = foundEmails
+      return {
+        success: false,
+        share_url: this.getCollectionShareUrl(collectionId),
+        shared_with: [],
+        errors: [error instanceof Error ? error.message : 'Unknown error occurred']
       }
     }
-
-    return result
   }
 
   /**
@@ -223,26 +78,47 @@ export class CollectionSharingUtil {
   }
 
   /**
-   * Generate a shareable link with optional access token for private collections
+   * Create an expiring share link that opens the collection without an
+   * account. The link carries a signed token; its scope, password and
+   * maximum uses are enforced by the server.
    */
   async generateShareableLink(
     collectionId: string,
-    userId: string,
-    options?: {
-      expires_in_days?: number
-      allow_anonymous?: boolean
-    }
-  ): Promise<string> {
-    // For now, return basic URL. In future, could implement temporary access tokens
-    const baseUrl = this.getCollectionShareUrl(collectionId)
-    
-    if (options?.allow_anonymous) {
-      // Could add a temporary access token parameter here
-      // For now, just return the basic URL
-      return baseUrl
-    }
+    options?: CreateShareLinkOptions
+  ): Promise<CollectionShareLink> {
+    const response = await fetch(`/api/collections/${collectionId}/share-links`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options || {})
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to create share link')
+
+    return data.link
+  }
+
+  /**
+   * Get a collection's share links, including revoked and expired ones
+   */
+  async getShareLinks(collectionId: string): Promise<CollectionShareLink[]> {
+    const response = await fetch(`/api/collections/${collectionId}/share-links`)
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to load share links')
 
-    return baseUrl
+    return data.links
+  }
+
+  /**
+   * Revoke a share link so it no longer opens the collection
+   */
+  async revokeShareLink(collectionId: string, linkId: string): Promise<CollectionShareLink> {
+    const response = await fetch(`/api/collections/${collectionId}/share-links/${linkId}`, {
+      method: 'DELETE'
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to revoke share link')
+
+    return data.link
   }
 
   /**
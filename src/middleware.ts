@@ -1,5 +1,19 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
+import { hasPermission } from '@/features/auth/utils'
+import type { Permission } from '@/features/auth/types'
+
+// Admin areas and the permission each one requires (pages and their API routes)
+const adminPathPermissions: { prefix: string; permission: Permission }[] = [
+  { prefix: '/admin/monitoring', permission: 'view_monitoring' },
+  { prefix: '/api/admin/monitoring', permission: 'view_monitoring' },
+  { prefix: '/admin/moderation', permission: 'moderate_content' },
+  { prefix: '/api/admin/moderation', permission: 'moderate_content' },
+  { prefix: '/admin/users', permission: 'manage_roles' },
+  { prefix: '/api/admin/users', permission: 'manage_roles' },
+  { prefix: '/admin/achievements', permission: 'manage_achievements' },
+  { prefix: '/api/admin/achievements', permission: 'manage_achievements' },
+]
 
 export async function middleware(request: NextRequest) {
   let response = NextResponse.next({
@@ -58,7 +72,7 @@ export async function middleware(request: NextRequest) {
   const { data: { user } } = await supabase.auth.getUser()
 
   // Protected routes that require authentication
-  const protectedPaths = ['/dashboard', '/resources/upload', '/profile', '/analytics', '/leaderboard', '/search', '/admin']
+  const protectedPaths = ['/dashboard', '/resources/upload', '/collections', '/profile', '/analytics', '/leaderboard', '/search', '/admin']
   const authPaths = ['/login', '/register']
 
   const path = request.nextUrl.pathname
@@ -72,6 +86,34 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(redirectUrl)
   }
 
+  // Enforce role permissions on admin pages and admin API routes
+  const isAdminPath = path.startsWith('/admin') || path.startsWith('/api/admin')
+  if (isAdminPath) {
+    const isApiPath = path.startsWith('/api/')
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    // Unlisted admin paths fall back to admin only
+    const requirement = adminPathPermissions.find(p => path.startsWith(p.prefix))
+    const allowed = requirement
+      ? hasPermission(profile, requirement.permission)
+      : profile?.role === 'admin'
+
+    if (!allowed) {
+      return isApiPath
+        ? NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        : NextResponse.redirect(new URL('/dashboard', request.url))
+    }
+  }
+
   // Redirect authenticated users from auth pages to dashboard
   if (isAuthPath && user) {
     return NextResponse.redirect(new URL('/dashboard', request.url))
@@ -14,6 +14,8 @@ export const config = {
   },
   upload: {
     maxFileSize: 500 * 1024 * 1024, // 500MB
+    // Files are sent in chunks small enough for serverless request body limits
+    chunkSize: 4 * 1024 * 1024, // 4MB
     allowedTypes: [
       'application/pdf',
       'application/msword',
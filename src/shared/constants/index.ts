@@ -19,4 +19,21 @@ export const SUPPORTED_FILE_TYPES = [
   'video/quicktime'
 ]
 
-export const DEPARTMENTS = config.auth.departments || []
\ No newline at end of file
+export const DEPARTMENTS = config.auth.departments || []
+
+// Reasons a resource can be reported for moderation
+export const REPORT_REASONS = [
+  { value: 'copyright', label: 'Copyright violation' },
+  { value: 'wrong_course', label: 'Wrong course or subject' },
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'offensive', label: 'Offensive or inappropriate' },
+  { value: 'low_quality', label: 'Broken or unreadable file' },
+  { value: 'other', label: 'Other' }
+] as const
+
+export const USER_ROLES = [
+  { value: 'student', label: 'Student' },
+  { value: 'faculty', label: 'Faculty' },
+  { value: 'moderator', label: 'Moderator' },
+  { value: 'admin', label: 'Admin' }
+] as const
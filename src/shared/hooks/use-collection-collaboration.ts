@@ -5,7 +5,8 @@ import { collaborativeCollectionService } from '@/lib/services/collaborative-col
 import type { Collection, CollectionResource } from '@/types'
 import type { 
   CollaborationActivity, 
-  ActiveCollaborator 
+  ActiveCollaborator,
+  CollaborationInvitation
 } from '@/lib/services/collaborative-collection-service'
 import { useAuth } from './use-auth'
 
@@ -25,6 +26,21 @@ interface CollaborationState {
   error: string | null
 }
 
+// Accepting goes through the API, which notifies whoever sent the invitation
+async function respondToInvitation(
+  invitationId: string
+): Promise<{ success: boolean, collection_id?: string, error?: string }> {
+  const response = await fetch(`/api/collections/invitations/${invitationId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'accept' })
+  })
+  const data = await response.json()
+  if (!response.ok) return { success: false, error: data.error || 'Failed to accept invitation' }
+
+  return { success: true, collection_id: data.collection_id }
+}
+
 export function useCollectionCollaboration({
   collectionId,
   enableRealTimeUpdates = true,
@@ -208,23 +224,23 @@ export function useCollectionCollaboration({
   ) => {
     if (!user) throw new Error('User not authenticated')
 
-    return await collaborativeCollectionService.sendCollaborationInvitation(
-      collectionId,
-      user.id,
-      userEmail,
-      permissionLevel,
-      message
-    )
+    // Sent through the API, which notifies the invitee
+    const response = await fetch(`/api/collections/${collectionId}/invitations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: userEmail, permission_level: permissionLevel, message })
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to send invitation')
+
+    return data.invitation as CollaborationInvitation
   }, [collectionId, user?.id])
 
   // Accept invitation
   const acceptInvitation = useCallback(async (invitationId: string) => {
     if (!user) throw new Error('User not authenticated')
 
-    return await collaborativeCollectionService.acceptCollaborationInvitation(
-      invitationId,
-      user.id
-    )
+    return await respondToInvitation(invitationId)
   }, [user?.id])
 
   // Decline invitation
@@ -303,10 +319,7 @@ export function useCollaborationInvitations() {
   const acceptInvitation = useCallback(async (invitationId: string) => {
     if (!user) return { success: false, error: 'Not authenticated' }
 
-    const result = await collaborativeCollectionService.acceptCollaborationInvitation(
-      invitationId,
-      user.id
-    )
+    const result = await respondToInvitation(invitationId)
 
     if (result.success) {
       setInvitations(prev => prev.filter(inv => inv.id !== invitationId))
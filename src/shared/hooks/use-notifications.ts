@@ -1,36 +1,66 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Notification } from '@/types'
-import { notificationService, NotificationFilters } from '@/lib/services/notification-service'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { NotificationGroup } from '@/types'
+import {
+  notificationService,
+  NotificationFilters,
+  NotificationListener,
+  isQuietNotification
+} from '@/lib/services/notification-service'
 import { useAuth } from '@/features/auth'
 
+// New notifications often arrive in bursts (e.g. votes), so the grouped list
+// is reloaded once they settle rather than per notification
+const LIVE_REFETCH_DELAY = 1000
+
+/**
+ * Calls `onNotification` for each notification the signed-in user receives
+ * while mounted. The callback may change between renders.
+ */
+export function useLiveNotifications(onNotification: NotificationListener) {
+  const { user } = useAuth()
+  const callbackRef = useRef(onNotification)
+  callbackRef.current = onNotification
+
+  useEffect(() => {
+    if (!user?.id) return
+
+    return notificationService.subscribeToNotifications(
+      user.id,
+      (notification) => callbackRef.current(notification)
+    )
+  }, [user?.id])
+}
+
 export function useNotifications(filters: NotificationFilters = {}) {
-  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [groups, setGroups] = useState<NotificationGroup[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [totalCount, setTotalCount] = useState(0)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(0)
   const [unreadCount, setUnreadCount] = useState(0)
-  const { user } = useAuth()
+  const { unreadOnly, type, view, page, limit } = filters
+  const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   const loadNotifications = useCallback(async () => {
     try {
       setLoading(true)
       setError(null)
       
-      const response = await notificationService.getNotifications(filters)
+      const response = await notificationService.getNotifications({ unreadOnly, type, view, page, limit })
       if (response) {
-        setNotifications(response.notifications)
+        setGroups(response.groups)
         setTotalCount(response.totalCount)
         setCurrentPage(response.currentPage)
         setTotalPages(response.totalPages)
+        setUnreadCount(response.unreadCount)
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load notifications')
     } finally {
       setLoading(false)
     }
-  }, [filters])
+  }, [unreadOnly, type, view, page, limit])
 
   const loadUnreadCount = useCallback(async () => {
     try {
@@ -43,82 +73,100 @@ export function useNotifications(filters: NotificationFilters = {}) {
 
   useEffect(() => {
     loadNotifications()
-    loadUnreadCount()
-  }, [loadNotifications, loadUnreadCount])
+  }, [loadNotifications])
 
-  // Set up real-time subscription
-  useEffect(() => {
-    if (!user?.id) return
+  useEffect(() => () => {
+    if (refetchTimer.current) clearTimeout(refetchTimer.current)
+  }, [])
 
-    const unsubscribe = notificationService.subscribeToNotifications(
-      user.id,
-      (newNotification) => {
-        setNotifications(prev => [newNotification, ...prev])
-        setUnreadCount(prev => prev + 1)
-        setTotalCount(prev => prev + 1)
-      }
-    )
+  // Live updates: snoozed and email-only notifications do not reach the inbox
+  // yet, and anything else may join an existing group, so reload the list
+  useLiveNotifications((newNotification) => {
+    if (isQuietNotification(newNotification)) return
 
-    return unsubscribe
-  }, [user?.id])
+    if (refetchTimer.current) clearTimeout(refetchTimer.current)
+    refetchTimer.current = setTimeout(() => {
+      refetchTimer.current = null
+      loadNotifications()
+    }, LIVE_REFETCH_DELAY)
+  })
 
-  const markAsRead = async (notificationId: string) => {
-    try {
-      const success = await notificationService.markAsRead(notificationId)
-      if (success) {
-        setNotifications(prev =>
-          prev.map(notification =>
-            notification.id === notificationId
-              ? { ...notification, is_read: true }
-              : notification
-          )
-        )
-        setUnreadCount(prev => Math.max(0, prev - 1))
-      }
-      return success
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to mark notification as read')
-      return false
-    }
+  // Removes a group from the current view after it was archived, snoozed etc.
+  const removeGroup = (group: NotificationGroup) => {
+    setGroups(prev => prev.filter(g => g.group_key !== group.group_key))
+    setTotalCount(prev => Math.max(0, prev - 1))
+    loadUnreadCount()
   }
 
-  const markAllAsRead = async () => {
+  const runAction = async (action: () => Promise<boolean>, onSuccess: () => void, failure: string) => {
     try {
-      const success = await notificationService.markAllAsRead()
-      if (success) {
-        setNotifications(prev =>
-          prev.map(notification => ({ ...notification, is_read: true }))
-        )
-        setUnreadCount(0)
-      }
+      const success = await action()
+      if (success) onSuccess()
       return success
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to mark all notifications as read')
+      setError(err instanceof Error ? err.message : failure)
       return false
     }
   }
 
-  const deleteNotification = async (notificationId: string) => {
-    try {
-      const success = await notificationService.deleteNotification(notificationId)
-      if (success) {
-        const notification = notifications.find(n => n.id === notificationId)
-        setNotifications(prev => prev.filter(n => n.id !== notificationId))
-        setTotalCount(prev => prev - 1)
-        
-        if (notification && !notification.is_read) {
-          setUnreadCount(prev => Math.max(0, prev - 1))
-        }
-      }
-      return success
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete notification')
-      return false
-    }
-  }
+  const markAsRead = (group: NotificationGroup) => runAction(
+    () => notificationService.markAsRead(group.notification_ids),
+    () => {
+      setGroups(prev =>
+        prev.map(g =>
+          g.group_key === group.group_key
+            ? { ...g, unread_count: 0, latest: { ...g.latest, is_read: true } }
+            : g
+        )
+      )
+      loadUnreadCount()
+    },
+    'Failed to mark notification as read'
+  )
+
+  const markAllAsRead = () => runAction(
+    () => notificationService.markAllAsRead(),
+    () => {
+      setGroups(prev =>
+        prev.map(g => ({ ...g, unread_count: 0, latest: { ...g.latest, is_read: true } }))
+      )
+      setUnreadCount(0)
+    },
+    'Failed to mark all notifications as read'
+  )
+
+  const archive = (group: NotificationGroup) => runAction(
+    () => notificationService.archive(group.notification_ids),
+    () => removeGroup(group),
+    'Failed to archive notification'
+  )
+
+  const unarchive = (group: NotificationGroup) => runAction(
+    () => notificationService.unarchive(group.notification_ids),
+    () => removeGroup(group),
+    'Failed to restore notification'
+  )
+
+  const snooze = (group: NotificationGroup, until: Date) => runAction(
+    () => notificationService.snooze(group.notification_ids, until),
+    () => removeGroup(group),
+    'Failed to snooze notification'
+  )
+
+  const unsnooze = (group: NotificationGroup) => runAction(
+    () => notificationService.unsnooze(group.notification_ids),
+    () => removeGroup(group),
+    'Failed to unsnooze notification'
+  )
+
+  const deleteGroup = (group: NotificationGroup) => runAction(
+    () => notificationService.deleteNotifications(group.notification_ids),
+    () => removeGroup(group),
+    'Failed to delete notification'
+  )
 
   return {
-    notifications,
+    groups,
     loading,
     error,
     totalCount,
@@ -127,8 +175,12 @@ export function useNotifications(filters: NotificationFilters = {}) {
     unreadCount,
     markAsRead,
     markAllAsRead,
-    deleteNotification,
+    archive,
+    unarchive,
+    snooze,
+    unsnooze,
+    deleteGroup,
     refetch: loadNotifications,
     refetchUnreadCount: loadUnreadCount
   }
-}
\ No newline at end of file
+}
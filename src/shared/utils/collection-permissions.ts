@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/client'
 import type { Collection } from '@/types'
 
@@ -17,11 +18,21 @@ export interface CollectionAccessLevel {
   permissions: CollectionPermissions
 }
 
+export type CollaboratorPermissionLevel = 'view' | 'edit' | 'admin'
+
+type CollectionAccessFields = Pick<Collection, 'created_by' | 'is_public' | 'is_collaborative'>
+
 /**
- * Collection permissions utility class
+ * Collection permissions utility class. API routes pass their request-scoped
+ * Supabase client so checks run as the signed-in user; the shared instance
+ * uses the browser client.
  */
 export class CollectionPermissionsUtil {
-  private _supabase: ReturnType<typeof createClient> | null = null
+  private _supabase: SupabaseClient | null = null
+
+  constructor(supabase?: SupabaseClient) {
+    this._supabase = supabase || null
+  }
 
   private get supabase() {
     if (!this._supabase) {
@@ -30,6 +41,30 @@ export class CollectionPermissionsUtil {
     return this._supabase
   }
 
+  /**
+   * Permission levels of the user's explicit collaborator entries, keyed by
+   * collection id
+   */
+  private async getCollaboratorLevels(
+    collectionIds: string[],
+    userId: string
+  ): Promise<Record<string, CollaboratorPermissionLevel>> {
+    if (collectionIds.length === 0) return {}
+
+    const { data, error } = await this.supabase
+      .from('collection_collaborators')
+      .select('collection_id, permission_level')
+      .eq('user_id', userId)
+      .in('collection_id', collectionIds)
+
+    if (error || !data) return {}
+
+    return data.reduce((acc, row) => {
+      acc[row.collection_id] = row.permission_level
+      return acc
+    }, {} as Record<string, CollaboratorPermissionLevel>)
+  }
+
   /**
    * Get user's access level and permissions for a collection
    */
@@ -54,7 +89,8 @@ export class CollectionPermissionsUtil {
       }
     }
 
-    return this.calculateAccessLevel(collection, userId)
+    const collaboratorLevels = await this.getCollaboratorLevels([collectionId], userId)
+    return this.calculateAccessLevel(collection, userId, collaboratorLevels[collectionId])
   }
 
   /**
@@ -84,12 +120,14 @@ export class CollectionPermissionsUtil {
    * Calculate access level based on collection settings and user relationship
    */
   private calculateAccessLevel(
-    collection: Pick<Collection, 'created_by' | 'is_public' | 'is_collaborative'>,
-    userId: string
+    collection: CollectionAccessFields,
+    userId: string,
+    collaboratorLevel?: CollaboratorPermissionLevel
   ): CollectionAccessLevel {
     const isOwner = collection.created_by === userId
-    const canView = collection.is_public || isOwner
-    const canCollaborate = collection.is_collaborative && canView
+    const canView = collection.is_public || isOwner || !!collaboratorLevel
+    const canCollaborate = (collection.is_collaborative && collection.is_public) ||
+      collaboratorLevel === 'edit'
 
     if (isOwner) {
       return {
@@ -98,6 +136,14 @@ export class CollectionPermissionsUtil {
       }
     }
 
+    // Admin collaborators also share the collection and manage its collaborators
+    if (collaboratorLevel === 'admin') {
+      return {
+        level: 'collaborate',
+        permissions: this.getAdminCollaboratorPermissions()
+      }
+    }
+
     if (canCollaborate) {
       return {
         level: 'collaborate',
@@ -171,8 +217,10 @@ export class CollectionPermissionsUtil {
       }, {} as Record<string, CollectionAccessLevel>)
     }
 
+    const collaboratorLevels = await this.getCollaboratorLevels(collectionIds, userId)
+
     return collections.reduce((acc, collection) => {
-      acc[collection.id] = this.calculateAccessLevel(collection, userId)
+      acc[collection.id] = this.calculateAccessLevel(collection, userId, collaboratorLevels[collection.id])
       return acc
     }, {} as Record<string, CollectionAccessLevel>)
   }
@@ -197,9 +245,11 @@ export class CollectionPermissionsUtil {
 
     if (error) return []
 
+    const collaboratorLevels = await this.getCollaboratorLevels(collections.map(c => c.id), userId)
+
     return collections
       .filter(collection => {
-        const accessLevel = this.calculateAccessLevel(collection, userId)
+        const accessLevel = this.calculateAccessLevel(collection, userId, collaboratorLevels[collection.id])
         return accessLevel.permissions[permission]
       })
       .map(collection => collection.id)
@@ -246,6 +296,14 @@ export class CollectionPermissionsUtil {
     }
   }
 
+  private getAdminCollaboratorPermissions(): CollectionPermissions {
+    return {
+      ...this.getCollaboratorPermissions(),
+      can_share: true,
+      can_manage_collaborators: true
+    }
+  }
+
   private getOwnerPermissions(): CollectionPermissions {
     return {
       can_view: true,
@@ -3,6 +3,11 @@
 export interface ContentMetadata {
   wordCount?: number
   pageCount?: number
+  slideCount?: number
+  headings?: { level: number; text: string }[]
+  slideTitles?: string[]
+  thumbnailUrl?: string
+  thumbnailPath?: string
   duration?: number
   resolution?: { width: number; height: number }
   linesOfCode?: number
@@ -93,6 +98,8 @@ export interface ResourceTypeMetadata {
   [key: string]: any
 }
 
+export type UserRole = 'student' | 'faculty' | 'moderator' | 'admin'
+
 export interface User {
   id: string
   email: string
@@ -101,6 +108,7 @@ export interface User {
   semester: number
   points: number
   badge_level: string
+  role: UserRole
   created_at: string
   updated_at: string
 }
@@ -142,9 +150,16 @@ export interface Resource {
   downloads: number
   views: number
   is_verified: boolean
+  verified_by?: string | null
+  verified_at?: string | null
+  verification_note?: string | null
+  verifier?: Pick<User, 'id' | 'full_name' | 'department' | 'role'>
+  is_hidden?: boolean
   created_at: string
   updated_at: string
   user_vote?: 'upvote' | 'downvote' | null
+  // Excerpt of the file contents around a search match, set by SearchService.search
+  content_snippet?: string
 }
 
 export interface Vote {
@@ -155,6 +170,67 @@ export interface Vote {
   created_at: string
 }
 
+export interface VoteResult {
+  action: 'created' | 'removed' | 'switched'
+  user_vote: Vote['vote_type'] | null
+  upvotes: number
+  downvotes: number
+}
+
+export interface ResourceComment {
+  id: string
+  resource_id: string
+  user_id: string
+  parent_id: string | null
+  content: string
+  author?: User
+  is_edited: boolean
+  is_deleted: boolean
+  replies?: ResourceComment[]
+  created_at: string
+  updated_at: string
+}
+
+export type ReportReason = 'copyright' | 'wrong_course' | 'spam' | 'offensive' | 'low_quality' | 'other'
+
+export interface ResourceReport {
+  id: string
+  resource_id: string | null
+  resource_title: string
+  uploaded_by: string | null
+  reported_by: string
+  reporter?: User
+  resource?: Resource
+  reason: ReportReason
+  details?: string
+  status: 'pending' | 'resolved' | 'dismissed'
+  resolution_action?: 'hidden' | 'restored' | 'deleted' | 'dismissed'
+  resolution_note?: string
+  resolved_by?: string
+  resolved_at?: string
+  created_at: string
+}
+
+export type UploadSessionStatus = 'uploading' | 'completing' | 'completed' | 'aborted'
+
+export interface UploadSession {
+  id: string
+  user_id: string
+  file_name: string
+  file_size: number
+  file_type: string
+  fingerprint: string | null
+  chunk_size: number
+  total_chunks: number
+  received_chunks: number[]
+  metadata: Record<string, any>
+  status: UploadSessionStatus
+  resource_id: string | null
+  created_at: string
+  updated_at: string
+  expires_at: string
+}
+
 export interface Contribution {
   id: string
   user_id: string
@@ -196,6 +272,16 @@ export interface Collection {
   is_collaborative: boolean
   tags: string[]
   resources?: CollectionResource[]
+  sections?: CollectionSection[]
+  // Set by list queries, which don't load the resources themselves
+  resource_count?: number
+  // The collection this one was forked from, null once that is deleted
+  forked_from?: string | null
+  source?: Pick<Collection, 'id' | 'title' | 'creator'> | null
+  fork_count?: number
+  // Forks only: offer resources the source adds after source_synced_at
+  follow_source_updates?: boolean
+  source_synced_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -207,9 +293,52 @@ export interface CollectionResource {
   resource?: Resource
   order_index: number
   notes?: string
+  // Resources without a section are unsorted
+  section_id?: string | null
   added_at: string
 }
 
+export interface CollectionSection {
+  id: string
+  collection_id: string
+  name: string
+  description?: string
+  order_index: number
+  template_section_id?: string
+  // Rules suggesting which new resources go in this section
+  resource_types: string[]
+  tags: string[]
+  created_at: string
+}
+
+export type DigestFrequency = 'daily' | 'weekly' | 'monthly'
+
+export type DigestSection = 'followed_courses' | 'top_department' | 'collection_activity' | 'achievements'
+
+export type NotificationChannel = 'in_app' | 'email' | 'none'
+
+export interface QuietHours {
+  enabled: boolean
+  // Local times as 'HH:MM'; the range may wrap past midnight
+  start: string
+  end: string
+  // IANA timezone, e.g. 'Asia/Kolkata'
+  timezone: string
+}
+
+export interface DigestSettings {
+  frequency: DigestFrequency
+  sections: DigestSection[]
+  // Local hour (0-23) in the user's timezone at or after which the digest goes out
+  send_hour: number
+  // Weekly digests: 0 (Sunday) to 6
+  day_of_week: number
+  // Monthly digests: 1 to 28, so every month has the day
+  day_of_month: number
+  // IANA timezone, e.g. 'Asia/Kolkata'
+  timezone: string
+}
+
 export interface UserPreferences {
   id: string
   user_id: string
@@ -218,6 +347,9 @@ export interface UserPreferences {
     new_resources: boolean
     votes_received: boolean
     achievements: boolean
+    // Per-type delivery; types without an entry fall back to the booleans above
+    channels?: Partial<Record<NotificationType, NotificationChannel>>
+    quiet_hours?: QuietHours
   }
   recommendation_settings: {
     enable_recommendations: boolean
@@ -227,6 +359,7 @@ export interface UserPreferences {
     profile_visibility: 'public' | 'private'
     activity_visibility: 'public' | 'private'
   }
+  digest_settings?: DigestSettings
   dashboard_settings?: {
     visible_widgets: string[]
     auto_refresh: boolean
@@ -246,14 +379,75 @@ export interface UserInteraction {
   created_at: string
 }
 
+export type FollowTargetType = 'course' | 'department' | 'semester' | 'tag' | 'uploader'
+
+export interface Follow {
+  id: string
+  user_id: string
+  target_type: FollowTargetType
+  target_value: string
+  label?: string // display name, e.g. the uploader's name
+  created_at: string
+}
+
+export interface FollowingFeedItem extends Resource {
+  followed_type: FollowTargetType
+  followed_value: string
+}
+
+export type NotificationType = 'achievement' | 'vote_received' | 'new_resource' | 'collection_shared' | 'comment_received' | 'invitation_accepted' | 'system'
+
 export interface Notification {
   id: string
   user_id: string
-  type: 'achievement' | 'vote_received' | 'new_resource' | 'collection_shared' | 'system'
+  type: NotificationType
   title: string
   message?: string
   data: NotificationData
   is_read: boolean
+  // Notifications sharing a key are shown as one group
+  group_key?: string
+  actor_id?: string
+  delivery_channel?: 'in_app' | 'email'
+  emailed_at?: string
+  snoozed_until?: string
+  archived_at?: string
+  created_at: string
+}
+
+export type NotificationView = 'inbox' | 'snoozed' | 'archived'
+
+// One or more notifications shown together, e.g. "12 people upvoted ..."
+export interface NotificationGroup {
+  group_key: string
+  type: NotificationType
+  title: string
+  message?: string
+  // The most recent notification in the group
+  latest: Notification
+  notification_ids: string[]
+  count: number
+  unread_count: number
+  actor_count: number
+}
+
+export type EmailDeliveryStatus = 'pending' | 'sent' | 'failed' | 'bounced'
+
+export interface EmailDelivery {
+  id: string
+  user_id?: string
+  email: string
+  template: string
+  subject: string
+  transport: string
+  status: EmailDeliveryStatus
+  message_id?: string
+  error?: string
+  batch_id?: string
+  period_key?: string
+  sent_at?: string
+  bounced_at?: string
+  bounce_reason?: string
   created_at: string
 }
 
@@ -269,6 +463,7 @@ export interface SearchFilters {
     start: string
     end: string
   }
+  verifiedOnly?: boolean
 }
 
 export interface SearchSuggestion {
@@ -0,0 +1,49 @@
+-- Resource Comments Migration
+-- Adds threaded comments and discussions on resources
+
+-- Create resource_comments table
+CREATE TABLE IF NOT EXISTS resource_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource_id UUID REFERENCES resources(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES resource_comments(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (char_length(content) <= 2000),
+  is_edited BOOLEAN DEFAULT false,
+  is_deleted BOOLEAN DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for loading a resource's discussion in order
+CREATE INDEX IF NOT EXISTS idx_resource_comments_resource_id ON resource_comments(resource_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_resource_comments_user_id ON resource_comments(user_id);
+CREATE INDEX IF NOT EXISTS idx_resource_comments_parent_id ON resource_comments(parent_id);
+
+-- Enable RLS
+ALTER TABLE resource_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view comments"
+  ON resource_comments FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can create comments"
+  ON resource_comments FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL AND auth.uid() = user_id);
+
+CREATE POLICY "Users can update own comments"
+  ON resource_comments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own comments"
+  ON resource_comments FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current on edits
+CREATE TRIGGER update_resource_comments_updated_at
+  BEFORE UPDATE ON resource_comments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Allow comment notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS check_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT check_notification_type
+  CHECK (type IN ('achievement', 'vote_received', 'new_resource', 'collection_shared', 'comment_received', 'system'));
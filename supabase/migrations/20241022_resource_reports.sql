@@ -0,0 +1,100 @@
+-- Resource Reports & Moderation Migration
+-- Adds content reporting and the columns needed to take down flagged resources
+
+-- Hidden resources stay in the database but are only visible to their uploader
+ALTER TABLE resources
+ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_resources_is_hidden ON resources(is_hidden);
+
+-- Only moderation (service role) hides or restores a resource, so an
+-- uploader can't undo a takedown through their own update policy
+CREATE OR REPLACE FUNCTION protect_moderation_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.is_hidden IS DISTINCT FROM OLD.is_hidden
+      OR NEW.hidden_at IS DISTINCT FROM OLD.hidden_at)
+     AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only moderators can hide or restore resources';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_moderation_fields_trigger
+  BEFORE UPDATE ON resources
+  FOR EACH ROW EXECUTE FUNCTION protect_moderation_fields();
+
+DROP POLICY IF EXISTS "Anyone can view resources" ON resources;
+
+CREATE POLICY "Anyone can view visible resources"
+  ON resources FOR SELECT
+  USING (is_hidden = false OR auth.uid() = uploaded_by);
+
+-- Create resource_reports table
+CREATE TABLE IF NOT EXISTS resource_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Reports outlive deleted resources so moderation history is kept
+  resource_id UUID REFERENCES resources(id) ON DELETE SET NULL,
+  resource_title TEXT NOT NULL,
+  uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reported_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  reason VARCHAR(30) NOT NULL CHECK (reason IN (
+    'copyright', 'wrong_course', 'spam', 'offensive', 'low_quality', 'other'
+  )),
+  details TEXT CHECK (char_length(details) <= 1000),
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'dismissed')),
+  resolution_action VARCHAR(20) CHECK (resolution_action IN ('hidden', 'restored', 'deleted', 'dismissed')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One open report per user per resource
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resource_reports_unique_pending
+  ON resource_reports(resource_id, reported_by)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_resource_reports_resource_id ON resource_reports(resource_id);
+CREATE INDEX IF NOT EXISTS idx_resource_reports_status ON resource_reports(status);
+CREATE INDEX IF NOT EXISTS idx_resource_reports_created_at ON resource_reports(created_at);
+
+-- Enable RLS
+ALTER TABLE resource_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reporters can see their own reports; the moderation queue uses the service role
+CREATE POLICY "Users can view own reports"
+  ON resource_reports FOR SELECT
+  USING (auth.uid() = reported_by);
+
+CREATE POLICY "Authenticated users can report resources"
+  ON resource_reports FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL AND auth.uid() = reported_by);
+
+-- The reported resource's title and uploader are copied from resources,
+-- never taken from the reporter
+CREATE OR REPLACE FUNCTION fill_resource_report_fields()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_resource resources%ROWTYPE;
+BEGIN
+  SELECT * INTO v_resource FROM resources WHERE id = NEW.resource_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_resource.uploaded_by = NEW.reported_by THEN
+    RAISE EXCEPTION 'You cannot report your own resource';
+  END IF;
+
+  NEW.resource_title := v_resource.title;
+  NEW.uploaded_by := v_resource.uploaded_by;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER fill_resource_report_fields_trigger
+  BEFORE INSERT ON resource_reports
+  FOR EACH ROW EXECUTE FUNCTION fill_resource_report_fields();
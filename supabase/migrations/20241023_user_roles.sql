@@ -0,0 +1,101 @@
+-- User Roles Migration
+-- Adds role-based access control for students, faculty, moderators and admins
+
+-- Add role column to users table
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'student'
+  CHECK (role IN ('student', 'faculty', 'moderator', 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+
+-- Check whether a user holds one of the given roles
+-- SECURITY DEFINER so policies on users can call it without recursing into RLS
+CREATE OR REPLACE FUNCTION has_role(p_user_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM users
+    WHERE id = p_user_id
+    AND role = ANY(p_roles)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_moderator(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN has_role(p_user_id, ARRAY['moderator', 'admin']);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION has_role(UUID, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_moderator(UUID) TO authenticated;
+
+-- Users may update their own profile, but only admins (or the service role) may change roles
+CREATE OR REPLACE FUNCTION prevent_role_escalation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.role() <> 'service_role'
+     AND NOT has_role(auth.uid(), ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_role_escalation_trigger
+  BEFORE UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION prevent_role_escalation();
+
+-- Users RLS: admins can manage any profile (role assignment)
+CREATE POLICY "Admins can update any profile"
+  ON users FOR UPDATE
+  USING (has_role(auth.uid(), ARRAY['admin']));
+
+-- Resources RLS: moderators can see hidden resources and act on any resource
+DROP POLICY IF EXISTS "Anyone can view visible resources" ON resources;
+
+CREATE POLICY "Anyone can view visible resources"
+  ON resources FOR SELECT
+  USING (is_hidden = false OR auth.uid() = uploaded_by OR is_moderator(auth.uid()));
+
+CREATE POLICY "Moderators can update any resource"
+  ON resources FOR UPDATE
+  USING (is_moderator(auth.uid()));
+
+-- Moderators can now hide and restore resources themselves
+CREATE OR REPLACE FUNCTION protect_moderation_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.is_hidden IS DISTINCT FROM OLD.is_hidden
+      OR NEW.hidden_at IS DISTINCT FROM OLD.hidden_at)
+     AND auth.role() <> 'service_role'
+     AND NOT is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can hide or restore resources';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Moderators can delete any resource"
+  ON resources FOR DELETE
+  USING (is_moderator(auth.uid()));
+
+-- Resource reports RLS: moderators work the queue
+CREATE POLICY "Moderators can view all reports"
+  ON resource_reports FOR SELECT
+  USING (is_moderator(auth.uid()));
+
+CREATE POLICY "Moderators can resolve reports"
+  ON resource_reports FOR UPDATE
+  USING (is_moderator(auth.uid()));
+
+-- Resource comments RLS: moderators can remove any comment
+CREATE POLICY "Moderators can update any comment"
+  ON resource_comments FOR UPDATE
+  USING (is_moderator(auth.uid()));
+
+CREATE POLICY "Moderators can delete any comment"
+  ON resource_comments FOR DELETE
+  USING (is_moderator(auth.uid()));
@@ -0,0 +1,38 @@
+-- Resource Verification Migration
+-- Records which faculty member or moderator verified a resource, and when
+
+ALTER TABLE resources
+ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS verification_note TEXT CHECK (char_length(verification_note) <= 500);
+
+CREATE INDEX IF NOT EXISTS idx_resources_is_verified ON resources(is_verified);
+CREATE INDEX IF NOT EXISTS idx_resources_verified_by ON resources(verified_by);
+
+-- Verification fields are only written by the verify API (service role) or
+-- moderators, including on insert so a resource can't arrive already verified
+CREATE OR REPLACE FUNCTION protect_verification_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() <> 'service_role' AND NOT is_moderator(auth.uid()) THEN
+    IF TG_OP = 'INSERT' THEN
+      IF COALESCE(NEW.is_verified, false)
+         OR NEW.verified_by IS NOT NULL
+         OR NEW.verified_at IS NOT NULL
+         OR NEW.verification_note IS NOT NULL THEN
+        RAISE EXCEPTION 'Only faculty and moderators can change verification';
+      END IF;
+    ELSIF NEW.is_verified IS DISTINCT FROM OLD.is_verified
+       OR NEW.verified_by IS DISTINCT FROM OLD.verified_by
+       OR NEW.verified_at IS DISTINCT FROM OLD.verified_at
+       OR NEW.verification_note IS DISTINCT FROM OLD.verification_note THEN
+      RAISE EXCEPTION 'Only faculty and moderators can change verification';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_verification_fields_trigger
+  BEFORE INSERT OR UPDATE ON resources
+  FOR EACH ROW EXECUTE FUNCTION protect_verification_fields();
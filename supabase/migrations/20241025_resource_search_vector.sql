@@ -0,0 +1,107 @@
+-- Full-Text Search Migration
+-- Replaces ILIKE matching with a weighted tsvector column and a ranked search RPC
+
+-- Weighted document: title and tags matter most, description least
+CREATE OR REPLACE FUNCTION resource_search_vector(
+  p_title TEXT,
+  p_description TEXT,
+  p_subject TEXT,
+  p_topic TEXT,
+  p_tags TEXT[]
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(p_tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(p_subject, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p_topic, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p_description, '')), 'C')
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE resources
+ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION update_resource_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := resource_search_vector(NEW.title, NEW.description, NEW.subject, NEW.topic, NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_resource_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, description, subject, topic, tags ON resources
+  FOR EACH ROW EXECUTE FUNCTION update_resource_search_vector();
+
+-- Backfill existing resources
+UPDATE resources
+SET search_vector = resource_search_vector(title, description, subject, topic, tags)
+WHERE search_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_resources_search_vector ON resources USING gin(search_vector);
+
+-- The per-column expression indexes are superseded by the search_vector index
+DROP INDEX IF EXISTS idx_resources_title_gin;
+DROP INDEX IF EXISTS idx_resources_description_gin;
+DROP INDEX IF EXISTS idx_resources_subject_gin;
+DROP INDEX IF EXISTS idx_resources_topic_gin;
+
+-- Turn user input into a tsquery:
+--   "quoted phrases" must match as adjacent words
+--   every other word matches as a prefix (algo -> algorithm, algorithms)
+-- Returns NULL when nothing searchable is left (empty input or only stop words)
+CREATE OR REPLACE FUNCTION build_search_tsquery(search_query TEXT)
+RETURNS tsquery AS $$
+DECLARE
+  result tsquery := ''::tsquery;
+  phrase TEXT;
+  term TEXT;
+BEGIN
+  IF search_query IS NULL OR btrim(search_query) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR phrase IN
+    SELECT (regexp_matches(search_query, '"([^"]+)"', 'g'))[1]
+  LOOP
+    result := result && phraseto_tsquery('english', phrase);
+  END LOOP;
+
+  FOR term IN
+    SELECT regexp_split_to_table(
+      lower(regexp_replace(search_query, '"[^"]*"', ' ', 'g')),
+      '[^[:alnum:]]+'
+    )
+  LOOP
+    IF term <> '' THEN
+      result := result && to_tsquery('english', term || ':*');
+    END IF;
+  END LOOP;
+
+  IF numnode(result) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Ranked search over resources. Returns resource rows so callers can embed
+-- relations, filter, count and paginate through PostgREST as with a table.
+-- Runs as the caller, so resource RLS (hidden resources) still applies.
+CREATE OR REPLACE FUNCTION search_resources(search_query TEXT DEFAULT '')
+RETURNS SETOF resources AS $$
+  SELECT r.*
+  FROM resources r
+  CROSS JOIN (SELECT build_search_tsquery(search_query) AS q) sq
+  WHERE sq.q IS NULL OR r.search_vector @@ sq.q
+  ORDER BY
+    CASE WHEN sq.q IS NULL THEN 0 ELSE ts_rank(r.search_vector, sq.q) END DESC,
+    r.created_at DESC
+$$ LANGUAGE sql STABLE;
+
+-- search_resources_ranked was never wired up and is replaced by search_resources
+DROP FUNCTION IF EXISTS search_resources_ranked(TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], INTEGER, INTEGER);
+
+GRANT EXECUTE ON FUNCTION build_search_tsquery(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_resources(TEXT) TO anon, authenticated;
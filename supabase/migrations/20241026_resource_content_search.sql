@@ -0,0 +1,50 @@
+-- Document Content Search Migration
+-- Adds text extracted from uploaded files (content_metadata.textContent) to the search vector
+
+-- Older uploads stored content_metadata as a JSON string rather than an object
+UPDATE resources
+SET content_metadata = (content_metadata #>> '{}')::jsonb
+WHERE jsonb_typeof(content_metadata) = 'string';
+
+-- File contents get the lowest weight so metadata matches still rank first
+CREATE OR REPLACE FUNCTION resource_search_vector(
+  p_title TEXT,
+  p_description TEXT,
+  p_subject TEXT,
+  p_topic TEXT,
+  p_tags TEXT[],
+  p_content TEXT
+)
+RETURNS tsvector AS $$
+  SELECT
+    resource_search_vector(p_title, p_description, p_subject, p_topic, p_tags) ||
+    setweight(to_tsvector('english', COALESCE(p_content, '')), 'D')
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION update_resource_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := resource_search_vector(
+    NEW.title,
+    NEW.description,
+    NEW.subject,
+    NEW.topic,
+    NEW.tags,
+    NEW.content_metadata->>'textContent'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_resource_search_vector_trigger ON resources;
+
+CREATE TRIGGER update_resource_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, description, subject, topic, tags, content_metadata ON resources
+  FOR EACH ROW EXECUTE FUNCTION update_resource_search_vector();
+
+-- Re-index resources that have extracted text
+UPDATE resources
+SET search_vector = resource_search_vector(
+  title, description, subject, topic, tags, content_metadata->>'textContent'
+)
+WHERE content_metadata ? 'textContent';
@@ -0,0 +1,69 @@
+-- Resumable Upload Sessions Migration
+-- Tracks chunked uploads so large files can continue after a dropped connection
+
+-- Chunks are staged in a private bucket and assembled into the resources bucket
+-- on completion. Only the service role reads or writes here.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('upload-chunks', 'upload-chunks', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create upload_sessions table
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL CHECK (file_size > 0),
+  file_type TEXT NOT NULL,
+  -- name, size and modification time of the local file, used to resume the
+  -- session when the same file is picked again after a reload
+  fingerprint TEXT,
+  chunk_size INTEGER NOT NULL CHECK (chunk_size > 0),
+  total_chunks INTEGER NOT NULL CHECK (total_chunks > 0),
+  received_chunks INTEGER[] NOT NULL DEFAULT '{}',
+  -- Resource form fields, applied when the upload completes
+  metadata JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(20) DEFAULT 'uploading' CHECK (status IN ('uploading', 'completing', 'completed', 'aborted')),
+  resource_id UUID REFERENCES resources(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '24 hours'
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_user_fingerprint ON upload_sessions(user_id, fingerprint);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_status ON upload_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at);
+
+-- Enable RLS
+ALTER TABLE upload_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own upload sessions"
+  ON upload_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- No INSERT or UPDATE policy: sessions are only created by the upload
+-- route with the service role, after it has checked the file's size and type
+-- and worked out the chunking. Status, received chunks and the resulting
+-- resource are only changed by the upload routes, after they have checked
+-- the session belongs to the caller, and by the function below
+
+-- Record a stored chunk. A single UPDATE so parallel chunk requests cannot
+-- overwrite each other's progress. Returns NULL when the session is not
+-- accepting chunks (finished, aborted, expired or someone else's).
+CREATE OR REPLACE FUNCTION mark_upload_chunk_received(p_session_id UUID, p_chunk_index INTEGER)
+RETURNS INTEGER[] AS $$
+  UPDATE upload_sessions
+  SET
+    received_chunks = ARRAY(
+      SELECT DISTINCT chunk FROM unnest(received_chunks || p_chunk_index) AS chunk ORDER BY chunk
+    ),
+    updated_at = NOW()
+  WHERE id = p_session_id
+    AND user_id = auth.uid()
+    AND status = 'uploading'
+    AND expires_at > NOW()
+    AND p_chunk_index >= 0
+    AND p_chunk_index < total_chunks
+  RETURNING received_chunks
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_upload_chunk_received(UUID, INTEGER) TO authenticated;
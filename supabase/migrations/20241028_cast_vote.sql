@@ -0,0 +1,104 @@
+-- Atomic Voting Migration
+-- Replaces the select-then-write vote flow with one transactional RPC.
+-- The increment_/decrement_ vote RPCs the old route called were never defined.
+
+CREATE INDEX IF NOT EXISTS idx_votes_resource_id ON votes(resource_id);
+
+-- Cast, switch or withdraw the caller's vote on a resource:
+--   no vote          -> vote is created
+--   same vote again  -> vote is removed (toggle)
+--   other vote       -> vote is switched
+-- The resource row is locked for the duration, so concurrent votes on the same
+-- resource (including double clicks) are applied one after another. Tallies
+-- are recounted from votes rather than incremented, so they cannot drift.
+CREATE OR REPLACE FUNCTION cast_vote(p_resource_id UUID, p_vote_type TEXT)
+RETURNS TABLE (
+  action TEXT,
+  previous_vote TEXT,
+  user_vote TEXT,
+  upvotes INTEGER,
+  downvotes INTEGER,
+  uploaded_by UUID,
+  resource_type TEXT
+) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_resource resources%ROWTYPE;
+  v_previous TEXT;
+  v_action TEXT;
+  v_current TEXT;
+  v_upvotes INTEGER;
+  v_downvotes INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_vote_type NOT IN ('upvote', 'downvote') THEN
+    RAISE EXCEPTION 'Invalid vote type: %', p_vote_type USING ERRCODE = '22023';
+  END IF;
+
+  SELECT r.* INTO v_resource
+  FROM resources r
+  WHERE r.id = p_resource_id
+    AND (r.is_hidden = false OR r.uploaded_by = v_user_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Resource not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT v.vote_type INTO v_previous
+  FROM votes v
+  WHERE v.user_id = v_user_id AND v.resource_id = p_resource_id;
+
+  IF v_previous IS NULL THEN
+    INSERT INTO votes (user_id, resource_id, vote_type)
+    VALUES (v_user_id, p_resource_id, p_vote_type);
+    v_action := 'created';
+    v_current := p_vote_type;
+  ELSIF v_previous = p_vote_type THEN
+    DELETE FROM votes v
+    WHERE v.user_id = v_user_id AND v.resource_id = p_resource_id;
+    v_action := 'removed';
+    v_current := NULL;
+  ELSE
+    UPDATE votes v
+    SET vote_type = p_vote_type
+    WHERE v.user_id = v_user_id AND v.resource_id = p_resource_id;
+    v_action := 'switched';
+    v_current := p_vote_type;
+  END IF;
+
+  UPDATE resources r
+  SET
+    upvotes = (SELECT COUNT(*) FROM votes v WHERE v.resource_id = p_resource_id AND v.vote_type = 'upvote'),
+    downvotes = (SELECT COUNT(*) FROM votes v WHERE v.resource_id = p_resource_id AND v.vote_type = 'downvote')
+  WHERE r.id = p_resource_id
+  RETURNING r.upvotes, r.downvotes INTO v_upvotes, v_downvotes;
+
+  RETURN QUERY SELECT
+    v_action,
+    v_previous,
+    v_current,
+    v_upvotes,
+    v_downvotes,
+    v_resource.uploaded_by,
+    v_resource.resource_type::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cast_vote(UUID, TEXT) TO authenticated;
+
+-- Votes are only written through cast_vote so tallies stay in sync
+DROP POLICY IF EXISTS "Users can manage own votes" ON votes;
+
+CREATE POLICY "Users can view own votes"
+  ON votes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Resync tallies that drifted under the old flow
+UPDATE resources r
+SET
+  upvotes = (SELECT COUNT(*) FROM votes v WHERE v.resource_id = r.id AND v.vote_type = 'upvote'),
+  downvotes = (SELECT COUNT(*) FROM votes v WHERE v.resource_id = r.id AND v.vote_type = 'downvote');
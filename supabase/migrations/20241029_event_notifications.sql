@@ -0,0 +1,54 @@
+-- Event Notifications Migration
+-- Lets domain-event subscribers notify other users while honouring each
+-- recipient's notification_settings, which are not readable across users.
+
+-- Allow invitation acceptance notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS check_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT check_notification_type
+  CHECK (type IN ('achievement', 'vote_received', 'new_resource', 'collection_shared', 'comment_received', 'invitation_accepted', 'system'));
+
+-- Who caused a notification; the server passes it in since it notifies with
+-- the service role
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS actor_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+-- Create one notification per recipient, skipping recipients who switched
+-- p_setting off in their notification_settings. A NULL p_setting is for
+-- notifications that cannot be opted out of (e.g. invitations). Users without
+-- a preferences row get the defaults, which are all on. Only the server calls
+-- this, with the service role, so clients can't notify other users.
+-- Returns the number of notifications created.
+CREATE OR REPLACE FUNCTION notify_users(
+  p_user_ids UUID[],
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT '{}',
+  p_setting TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, data, is_read, actor_id)
+  SELECT u.id, p_type, p_title, p_message, COALESCE(p_data, '{}'), false, p_actor_id
+  FROM users u
+  LEFT JOIN user_preferences up ON up.user_id = u.id
+  WHERE u.id = ANY(p_user_ids)
+    AND (
+      p_setting IS NULL
+      OR COALESCE((up.notification_settings ->> p_setting)::BOOLEAN, true)
+    );
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_users(UUID[], TEXT, TEXT, TEXT, JSONB, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION notify_users(UUID[], TEXT, TEXT, TEXT, JSONB, TEXT, UUID) TO service_role;
@@ -0,0 +1,83 @@
+-- Follows Migration
+-- Subscriptions to a course, department, semester, tag or uploader, used for
+-- the Following feed and new-resource notifications
+
+-- Create follows table
+CREATE TABLE IF NOT EXISTS follows (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  target_type VARCHAR(20) NOT NULL CHECK (target_type IN ('course', 'department', 'semester', 'tag', 'uploader')),
+  -- Course code, department name, semester number, tag or uploader id
+  target_value TEXT NOT NULL CHECK (length(target_value) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, target_type, target_value),
+  CHECK (target_type <> 'semester' OR target_value ~ '^[0-9]+$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_user_id ON follows(user_id);
+CREATE INDEX IF NOT EXISTS idx_follows_target ON follows(target_type, lower(target_value));
+
+-- Enable RLS
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own follows"
+  ON follows FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own follows"
+  ON follows FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own follows"
+  ON follows FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Whether a resource matches a follow. Courses and tags compare
+-- case-insensitively.
+CREATE OR REPLACE FUNCTION resource_matches_follow(r resources, f follows)
+RETURNS BOOLEAN AS $$
+  SELECT CASE f.target_type
+    WHEN 'course' THEN lower(r.course) = lower(f.target_value)
+    WHEN 'department' THEN r.department = f.target_value
+    WHEN 'semester' THEN r.semester = f.target_value::INTEGER
+    WHEN 'tag' THEN EXISTS (
+      SELECT 1 FROM unnest(r.tags) AS tag WHERE lower(tag) = lower(f.target_value)
+    )
+    WHEN 'uploader' THEN r.uploaded_by::TEXT = f.target_value
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Followers of a newly created resource, with the follow that matched for
+-- each (one row per follower). Only the uploader may ask, since follows are
+-- otherwise private.
+CREATE OR REPLACE FUNCTION get_resource_followers(p_resource_id UUID)
+RETURNS TABLE (user_id UUID, target_type TEXT, target_value TEXT) AS $$
+  SELECT DISTINCT ON (f.user_id) f.user_id, f.target_type::TEXT, f.target_value
+  FROM resources r
+  JOIN follows f ON resource_matches_follow(r, f)
+  WHERE r.id = p_resource_id
+    AND r.uploaded_by = auth.uid()
+    AND f.user_id <> r.uploaded_by
+  ORDER BY f.user_id, f.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_resource_followers(UUID) TO authenticated;
+
+-- Resources matching any of the caller's follows, newest first, with the
+-- follow that matched. Runs as the caller so hidden resources stay hidden.
+CREATE OR REPLACE FUNCTION get_following_feed(p_limit INTEGER DEFAULT 20, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (resource_id UUID, target_type TEXT, target_value TEXT) AS $$
+  SELECT matched.id, matched.target_type, matched.target_value
+  FROM (
+    SELECT DISTINCT ON (r.id) r.id, r.created_at, f.target_type::TEXT AS target_type, f.target_value
+    FROM resources r
+    JOIN follows f ON f.user_id = auth.uid() AND resource_matches_follow(r, f)
+    WHERE r.uploaded_by <> auth.uid()
+    ORDER BY r.id, f.created_at
+  ) matched
+  ORDER BY matched.created_at DESC
+  LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_following_feed(INTEGER, INTEGER) TO authenticated;
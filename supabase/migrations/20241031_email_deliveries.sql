@@ -0,0 +1,34 @@
+-- Email Deliveries Migration
+-- One row per email sent, with its delivery status and any bounce, so digest
+-- runs can report what actually went out
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  email TEXT NOT NULL,
+  template VARCHAR(50) NOT NULL,
+  subject TEXT NOT NULL,
+  transport VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'bounced')),
+  -- Message-ID assigned by the transport, used to match bounce reports
+  message_id TEXT,
+  error TEXT,
+  batch_id UUID,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  bounced_at TIMESTAMP WITH TIME ZONE,
+  bounce_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_user_id ON email_deliveries(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_batch_id ON email_deliveries(batch_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_message_id ON email_deliveries(message_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_email ON email_deliveries(email, created_at DESC);
+
+-- Enable RLS. Deliveries are written by the server with the service role;
+-- users can only see their own.
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own email deliveries"
+  ON email_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
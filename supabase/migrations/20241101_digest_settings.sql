@@ -0,0 +1,15 @@
+-- Digest Settings Migration
+-- Per-user digest cadence, sections and send time, and a period key on email
+-- deliveries so a scheduled run never sends the same digest twice
+
+ALTER TABLE user_preferences
+ADD COLUMN IF NOT EXISTS digest_settings JSONB DEFAULT '{"frequency": "weekly", "sections": ["followed_courses", "top_department", "collection_activity", "achievements"], "send_hour": 8, "day_of_week": 1, "day_of_month": 1, "timezone": "UTC"}';
+
+-- e.g. 'weekly:2024-11-04'. Failed sends do not hold the period, so the next
+-- run retries them.
+ALTER TABLE email_deliveries
+ADD COLUMN IF NOT EXISTS period_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_deliveries_period
+  ON email_deliveries(user_id, template, period_key)
+  WHERE period_key IS NOT NULL AND status <> 'failed';
@@ -0,0 +1,13 @@
+-- Notifications Realtime Migration
+-- Publishes notification inserts over Supabase realtime so the bell updates
+-- live. RLS still applies: users only receive their own rows.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
@@ -0,0 +1,177 @@
+-- Notification Grouping Migration
+-- Groups repeated notifications (e.g. votes on one resource), adds snooze and
+-- archive, per-type delivery channels (in-app, email, none) and quiet hours
+
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS group_key TEXT,
+ADD COLUMN IF NOT EXISTS delivery_channel VARCHAR(10) NOT NULL DEFAULT 'in_app' CHECK (delivery_channel IN ('in_app', 'email')),
+ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_group ON notifications(user_id, group_key);
+CREATE INDEX IF NOT EXISTS idx_notifications_pending_email ON notifications(created_at)
+  WHERE delivery_channel = 'email' AND emailed_at IS NULL;
+
+-- Users can clear notifications out of their notification center
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Channel a recipient wants for a notification type. Explicit choices in
+-- notification_settings.channels win; otherwise the older per-setting
+-- booleans decide between in-app and none. Notifications without an opt-out
+-- setting (p_setting NULL) can be moved to email but never dropped.
+CREATE OR REPLACE FUNCTION notification_channel(p_settings JSONB, p_type TEXT, p_setting TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_settings -> 'channels' ->> p_type IN ('in_app', 'email') THEN p_settings -> 'channels' ->> p_type
+    WHEN p_settings -> 'channels' ->> p_type = 'none' THEN
+      CASE WHEN p_setting IS NULL THEN 'in_app' ELSE 'none' END
+    WHEN p_setting IS NOT NULL AND NOT COALESCE((p_settings ->> p_setting)::BOOLEAN, true) THEN 'none'
+    ELSE 'in_app'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- When the recipient's quiet hours end, or NULL if they are not in quiet
+-- hours at p_now. Quiet hours may wrap past midnight (e.g. 22:00 to 07:00).
+CREATE OR REPLACE FUNCTION quiet_hours_end(p_settings JSONB, p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_quiet JSONB := p_settings -> 'quiet_hours';
+  v_timezone TEXT;
+  v_start TIME;
+  v_end TIME;
+  v_local TIMESTAMP;
+  v_local_end TIMESTAMP;
+BEGIN
+  IF v_quiet IS NULL OR NOT COALESCE((v_quiet ->> 'enabled')::BOOLEAN, false) THEN
+    RETURN NULL;
+  END IF;
+
+  v_timezone := COALESCE(v_quiet ->> 'timezone', 'UTC');
+  v_start := (v_quiet ->> 'start')::TIME;
+  v_end := (v_quiet ->> 'end')::TIME;
+  v_local := p_now AT TIME ZONE v_timezone;
+
+  IF v_start = v_end THEN
+    RETURN NULL;
+  ELSIF v_start < v_end THEN
+    IF v_local::TIME < v_start OR v_local::TIME >= v_end THEN
+      RETURN NULL;
+    END IF;
+  ELSIF v_local::TIME < v_start AND v_local::TIME >= v_end THEN
+    RETURN NULL;
+  END IF;
+
+  v_local_end := date_trunc('day', v_local) + v_end;
+  IF v_local_end <= v_local THEN
+    v_local_end := v_local_end + INTERVAL '1 day';
+  END IF;
+
+  RETURN v_local_end AT TIME ZONE v_timezone;
+EXCEPTION
+  -- Unknown timezone or malformed times: treat as no quiet hours
+  WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- notify_users now applies delivery channels and quiet hours, and records the
+-- group key. Groups count distinct actors. Notifications arriving in quiet
+-- hours are snoozed until they end, which also holds back their email.
+DROP FUNCTION IF EXISTS notify_users(UUID[], TEXT, TEXT, TEXT, JSONB, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION notify_users(
+  p_user_ids UUID[],
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT '{}',
+  p_setting TEXT DEFAULT NULL,
+  p_group_key TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO notifications (
+    user_id, type, title, message, data, is_read,
+    group_key, actor_id, delivery_channel, snoozed_until
+  )
+  SELECT u.id, p_type, p_title, p_message, COALESCE(p_data, '{}'), false,
+    p_group_key, p_actor_id, c.channel, quiet_hours_end(up.notification_settings)
+  FROM users u
+  LEFT JOIN user_preferences up ON up.user_id = u.id
+  CROSS JOIN LATERAL (
+    SELECT notification_channel(COALESCE(up.notification_settings, '{}'), p_type, p_setting) AS channel
+  ) c
+  WHERE u.id = ANY(p_user_ids)
+    AND c.channel <> 'none';
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_users(UUID[], TEXT, TEXT, TEXT, JSONB, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION notify_users(UUID[], TEXT, TEXT, TEXT, JSONB, TEXT, TEXT, UUID) TO service_role;
+
+-- The signed-in user's notifications, one row per group, newest first.
+-- p_view is 'inbox' (not snoozed or archived), 'snoozed' or 'archived'.
+-- Notifications without a group key form a group of their own. Email-only
+-- notifications are never shown in the app.
+CREATE OR REPLACE FUNCTION get_notification_groups(
+  p_view TEXT DEFAULT 'inbox',
+  p_unread_only BOOLEAN DEFAULT false,
+  p_type TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  group_key TEXT,
+  latest_id UUID,
+  notification_ids UUID[],
+  count BIGINT,
+  unread_count BIGINT,
+  actor_count BIGINT,
+  total_groups BIGINT
+) AS $$
+  WITH visible AS (
+    SELECT n.*, COALESCE(n.group_key, n.id::TEXT) AS gk
+    FROM notifications n
+    WHERE n.user_id = auth.uid()
+      AND n.delivery_channel = 'in_app'
+      AND (p_type IS NULL OR n.type = p_type)
+      AND CASE p_view
+        WHEN 'archived' THEN n.archived_at IS NOT NULL
+        WHEN 'snoozed' THEN n.archived_at IS NULL AND n.snoozed_until > NOW()
+        ELSE n.archived_at IS NULL AND (n.snoozed_until IS NULL OR n.snoozed_until <= NOW())
+      END
+  ),
+  grouped AS (
+    SELECT
+      v.gk,
+      (array_agg(v.id ORDER BY v.created_at DESC))[1] AS latest_id,
+      array_agg(v.id ORDER BY v.created_at DESC) AS notification_ids,
+      COUNT(*) AS count,
+      COUNT(*) FILTER (WHERE NOT v.is_read) AS unread_count,
+      COUNT(DISTINCT v.actor_id) AS actor_count,
+      MAX(v.created_at) AS latest_at
+    FROM visible v
+    GROUP BY v.gk
+    HAVING NOT p_unread_only OR COUNT(*) FILTER (WHERE NOT v.is_read) > 0
+  )
+  SELECT g.gk, g.latest_id, g.notification_ids, g.count, g.unread_count, g.actor_count,
+    COUNT(*) OVER () AS total_groups
+  FROM grouped g
+  ORDER BY g.latest_at DESC
+  LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_notification_groups(TEXT, BOOLEAN, TEXT, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,62 @@
+-- Achievement Definitions Migration
+-- Moves achievement definitions into the database with declarative criteria,
+-- so admins can create, preview, retire and backfill them
+
+CREATE TABLE IF NOT EXISTS achievements (
+  -- Matches user_achievements.achievement_id
+  id VARCHAR(100) PRIMARY KEY CHECK (id ~ '^[a-z0-9_]+$'),
+  title VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  icon VARCHAR(16) NOT NULL DEFAULT '🏅',
+  points INTEGER NOT NULL DEFAULT 0 CHECK (points >= 0),
+  category VARCHAR(20) NOT NULL CHECK (category IN ('upload', 'engagement', 'curation', 'social', 'milestone')),
+  rarity VARCHAR(20) NOT NULL DEFAULT 'common' CHECK (rarity IN ('common', 'rare', 'epic', 'legendary')),
+  -- See AchievementCriteria: count, streak, and all/any combinations
+  criteria JSONB NOT NULL,
+  -- Drafts can be previewed and dry-run; only active achievements are awarded
+  status VARCHAR(10) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'retired')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  retired_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievements_status ON achievements(status);
+
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can see active and retired achievements (earned ones stay on
+-- profiles); drafts only through the admin API
+CREATE POLICY "Anyone can view published achievements" ON achievements
+  FOR SELECT USING (status <> 'draft');
+
+CREATE TRIGGER update_achievements_updated_at BEFORE UPDATE ON achievements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The achievements that used to be defined in code
+INSERT INTO achievements (id, title, description, icon, points, category, rarity, criteria, status) VALUES
+  ('first_upload', 'First Contribution', 'Upload your first resource', '🎯', 10, 'upload', 'common',
+    '{"type": "count", "metric": "uploads", "target": 1}', 'active'),
+  ('prolific_uploader', 'Prolific Uploader', 'Upload 10 resources', '📚', 50, 'upload', 'rare',
+    '{"type": "count", "metric": "uploads", "target": 10}', 'active'),
+  ('content_master', 'Content Master', 'Upload 50 resources', '👑', 200, 'upload', 'epic',
+    '{"type": "count", "metric": "uploads", "target": 50}', 'active'),
+  ('first_collection', 'Curator', 'Create your first collection', '📁', 15, 'curation', 'common',
+    '{"type": "count", "metric": "collections", "target": 1}', 'active'),
+  ('collection_master', 'Collection Master', 'Create 10 collections', '🗂️', 100, 'curation', 'rare',
+    '{"type": "count", "metric": "collections", "target": 10}', 'active'),
+  ('popular_content', 'Popular Creator', 'Receive 100 upvotes across all content', '⭐', 75, 'engagement', 'rare',
+    '{"type": "count", "metric": "upvotes_received", "target": 100}', 'active'),
+  ('viral_content', 'Viral Creator', 'Have a single resource receive 50+ upvotes', '🚀', 150, 'engagement', 'epic',
+    '{"type": "count", "metric": "top_resource_upvotes", "target": 50}', 'active'),
+  ('points_100', 'Rising Star', 'Earn 100 points', '🌟', 25, 'milestone', 'common',
+    '{"type": "count", "metric": "points", "target": 100}', 'active'),
+  ('points_500', 'Expert Contributor', 'Earn 500 points', '🏆', 100, 'milestone', 'rare',
+    '{"type": "count", "metric": "points", "target": 500}', 'active'),
+  ('points_1000', 'Platform Legend', 'Earn 1000 points', '👑', 250, 'milestone', 'legendary',
+    '{"type": "count", "metric": "points", "target": 1000}', 'active'),
+  ('helpful_member', 'Helpful Member', 'Help others by downloading 25 resources', '🤝', 30, 'social', 'common',
+    '{"type": "count", "metric": "downloads", "target": 25}', 'active'),
+  ('weekly_warrior', 'Weekly Warrior', 'Stay active for 7 consecutive days', '🔥', 75, 'milestone', 'rare',
+    '{"type": "streak", "target": 7, "unit": "day"}', 'active')
+ON CONFLICT (id) DO NOTHING;
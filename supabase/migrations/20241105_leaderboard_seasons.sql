@@ -0,0 +1,144 @@
+-- Leaderboard Seasons Migration
+-- Named seasons following the academic calendar, frozen final standings for
+-- each ended season, and season badges for the top contributors per department
+
+CREATE TABLE IF NOT EXISTS leaderboard_seasons (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- e.g. '2024-25-odd-semester'
+  slug VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL CHECK (ends_at > starts_at),
+  -- Standings of archived seasons are frozen in season_standings
+  status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_seasons_starts_at ON leaderboard_seasons(starts_at DESC);
+
+CREATE TABLE IF NOT EXISTS season_standings (
+  season_id UUID NOT NULL REFERENCES leaderboard_seasons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Name, department and level as they were when the season ended
+  full_name TEXT,
+  department TEXT,
+  badge_level TEXT,
+  points INTEGER NOT NULL DEFAULT 0,
+  uploads_count INTEGER NOT NULL DEFAULT 0,
+  collections_count INTEGER NOT NULL DEFAULT 0,
+  rank INTEGER NOT NULL,
+  department_rank INTEGER,
+  -- 1-3 for the season badge winners of the department
+  award_placement INTEGER CHECK (award_placement BETWEEN 1 AND 3),
+  PRIMARY KEY (season_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_standings_rank ON season_standings(season_id, rank);
+CREATE INDEX IF NOT EXISTS idx_season_standings_department ON season_standings(season_id, department, department_rank);
+CREATE INDEX IF NOT EXISTS idx_season_standings_user ON season_standings(user_id) WHERE award_placement IS NOT NULL;
+
+ALTER TABLE leaderboard_seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE season_standings ENABLE ROW LEVEL SECURITY;
+
+-- Seasons and final standings are public like the live leaderboard; only the
+-- scheduled rollover writes them, with the service role
+CREATE POLICY "Anyone can view seasons" ON leaderboard_seasons
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view season standings" ON season_standings
+  FOR SELECT USING (true);
+
+-- Freezes the standings of an ended season: points earned, uploads and
+-- collections created within it, ranked overall and per department, with
+-- badges for the top p_awards_per_department of each department. Returns the
+-- number of ranked users; archiving an already archived season does nothing.
+CREATE OR REPLACE FUNCTION archive_leaderboard_season(
+  p_season_id UUID,
+  p_awards_per_department INTEGER DEFAULT 3
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_season leaderboard_seasons%ROWTYPE;
+  v_ranked INTEGER;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the scheduled rollover can archive seasons';
+  END IF;
+
+  SELECT * INTO v_season FROM leaderboard_seasons WHERE id = p_season_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Season % not found', p_season_id;
+  END IF;
+
+  IF v_season.status = 'archived' THEN
+    RETURN 0;
+  END IF;
+
+  IF v_season.ends_at > NOW() THEN
+    RAISE EXCEPTION 'Season % has not ended yet', v_season.slug;
+  END IF;
+
+  INSERT INTO season_standings (
+    season_id, user_id, full_name, department, badge_level,
+    points, uploads_count, collections_count, rank, department_rank, award_placement
+  )
+  WITH season_points AS (
+    SELECT user_id, SUM(points_earned) AS points
+    FROM contributions
+    WHERE created_at >= v_season.starts_at AND created_at < v_season.ends_at
+    GROUP BY user_id
+  ),
+  season_uploads AS (
+    SELECT uploaded_by AS user_id, COUNT(*) AS uploads_count
+    FROM resources
+    WHERE created_at >= v_season.starts_at AND created_at < v_season.ends_at
+    GROUP BY uploaded_by
+  ),
+  season_collections AS (
+    SELECT created_by AS user_id, COUNT(*) AS collections_count
+    FROM collections
+    WHERE created_at >= v_season.starts_at AND created_at < v_season.ends_at
+    GROUP BY created_by
+  ),
+  ranked AS (
+    SELECT
+      u.id AS user_id,
+      u.full_name,
+      u.department,
+      u.badge_level,
+      sp.points,
+      COALESCE(su.uploads_count, 0) AS uploads_count,
+      COALESCE(sc.collections_count, 0) AS collections_count,
+      ROW_NUMBER() OVER (
+        ORDER BY sp.points DESC, COALESCE(su.uploads_count, 0) DESC, u.id
+      ) AS rank,
+      CASE WHEN u.department IS NOT NULL THEN
+        ROW_NUMBER() OVER (
+          PARTITION BY u.department
+          ORDER BY sp.points DESC, COALESCE(su.uploads_count, 0) DESC, u.id
+        )
+      END AS department_rank
+    FROM season_points sp
+    JOIN users u ON u.id = sp.user_id
+    LEFT JOIN season_uploads su ON su.user_id = sp.user_id
+    LEFT JOIN season_collections sc ON sc.user_id = sp.user_id
+    WHERE sp.points > 0
+  )
+  SELECT
+    p_season_id, user_id, full_name, department, badge_level,
+    points, uploads_count, collections_count, rank, department_rank,
+    CASE WHEN department_rank <= LEAST(GREATEST(p_awards_per_department, 0), 3)
+      THEN department_rank END
+  FROM ranked;
+
+  GET DIAGNOSTICS v_ranked = ROW_COUNT;
+
+  UPDATE leaderboard_seasons
+  SET status = 'archived', archived_at = NOW()
+  WHERE id = p_season_id;
+
+  RETURN v_ranked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
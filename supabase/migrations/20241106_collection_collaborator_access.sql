@@ -0,0 +1,178 @@
+-- Collection Collaborator Access Migration
+-- Lets explicit collaborators (collection_collaborators) see and edit the
+-- collections they were added to, and lets invitees join through an accepted
+-- invitation. Access mirrors CollectionPermissionsUtil: owners and 'admin'
+-- collaborators manage collaborators, 'edit' collaborators and anyone on a
+-- public collaborative collection edit resources, 'view' collaborators read.
+
+-- The checks run as SECURITY DEFINER so policies on collections and
+-- collection_collaborators can refer to each other without recursing
+CREATE OR REPLACE FUNCTION collaborator_level(p_collection_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT permission_level FROM collection_collaborators
+  WHERE collection_id = p_collection_id AND user_id = p_user_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_view_collection(p_collection_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM collections c
+    WHERE c.id = p_collection_id
+    AND (
+      c.is_public = true OR
+      c.created_by = auth.uid() OR
+      collaborator_level(c.id, auth.uid()) IS NOT NULL
+    )
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_collection(p_collection_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM collections c
+    WHERE c.id = p_collection_id
+    AND auth.uid() IS NOT NULL
+    AND (
+      c.created_by = auth.uid() OR
+      (c.is_public = true AND c.is_collaborative = true) OR
+      collaborator_level(c.id, auth.uid()) IN ('edit', 'admin')
+    )
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_manage_collection_collaborators(p_collection_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM collections c
+    WHERE c.id = p_collection_id
+    AND (
+      c.created_by = auth.uid() OR
+      collaborator_level(c.id, auth.uid()) = 'admin'
+    )
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Collections
+DROP POLICY IF EXISTS "Anyone can view public collections" ON collections;
+CREATE POLICY "Anyone can view public collections"
+  ON collections FOR SELECT
+  USING (is_public = true OR auth.uid() = created_by OR collaborator_level(id, auth.uid()) IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION collection_owner(p_collection_id UUID)
+RETURNS UUID AS $$
+  SELECT created_by FROM collections WHERE id = p_collection_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Editors can change a collection's content but never its owner
+DROP POLICY IF EXISTS "Users can update own collections" ON collections;
+CREATE POLICY "Users can update collections they can edit"
+  ON collections FOR UPDATE
+  USING (can_edit_collection(id))
+  WITH CHECK (can_edit_collection(id) AND created_by = collection_owner(id));
+
+-- Ownership never changes, and visibility is a sharing setting only the
+-- owner and 'admin' collaborators change. Trusted SECURITY DEFINER functions
+-- such as accept_collaboration_invitation run as their owner and pass.
+CREATE OR REPLACE FUNCTION protect_collection_sharing_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.created_by IS DISTINCT FROM OLD.created_by
+      OR ((NEW.is_public IS DISTINCT FROM OLD.is_public
+           OR NEW.is_collaborative IS DISTINCT FROM OLD.is_collaborative)
+          AND NOT can_manage_collection_collaborators(OLD.id)))
+     AND auth.role() <> 'service_role'
+     AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Only the owner and admins can change who can see a collection';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_collection_sharing_fields_trigger
+  BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION protect_collection_sharing_fields();
+
+-- Collection resources
+DROP POLICY IF EXISTS "Users can view collection resources if they can view the collection" ON collection_resources;
+CREATE POLICY "Users can view collection resources if they can view the collection"
+  ON collection_resources FOR SELECT
+  USING (can_view_collection(collection_id));
+
+DROP POLICY IF EXISTS "Collection owners can manage collection resources" ON collection_resources;
+CREATE POLICY "Collection editors can manage collection resources"
+  ON collection_resources FOR ALL
+  USING (can_edit_collection(collection_id))
+  WITH CHECK (can_edit_collection(collection_id));
+
+-- Collaborators
+DROP POLICY IF EXISTS "Users can view collaborators for accessible collections" ON collection_collaborators;
+CREATE POLICY "Users can view collaborators for accessible collections"
+  ON collection_collaborators FOR SELECT
+  USING (can_view_collection(collection_id));
+
+DROP POLICY IF EXISTS "Collection owners can manage collaborators" ON collection_collaborators;
+CREATE POLICY "Collection managers can manage collaborators"
+  ON collection_collaborators FOR ALL
+  USING (can_manage_collection_collaborators(collection_id))
+  WITH CHECK (can_manage_collection_collaborators(collection_id));
+
+-- Collaborators can leave a collection on their own
+CREATE POLICY "Collaborators can remove themselves"
+  ON collection_collaborators FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Invitations
+DROP POLICY IF EXISTS "Users can view invitations sent to them" ON collaboration_invitations;
+CREATE POLICY "Users can view invitations sent to them"
+  ON collaboration_invitations FOR SELECT
+  USING (
+    auth.uid() = invited_user_id OR
+    auth.uid() = invited_by OR
+    can_manage_collection_collaborators(collection_id)
+  );
+
+DROP POLICY IF EXISTS "Collection owners can create invitations" ON collaboration_invitations;
+CREATE POLICY "Collection managers can create invitations"
+  ON collaboration_invitations FOR INSERT
+  WITH CHECK (auth.uid() = invited_by AND can_manage_collection_collaborators(collection_id));
+
+CREATE POLICY "Collection managers can revoke invitations"
+  ON collaboration_invitations FOR DELETE
+  USING (can_manage_collection_collaborators(collection_id));
+
+-- Accepts a pending invitation for the signed-in user and adds them as a
+-- collaborator with the invited permission level. Returns the collection id.
+CREATE OR REPLACE FUNCTION accept_collaboration_invitation(p_invitation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_invitation collaboration_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM collaboration_invitations
+  WHERE id = p_invitation_id
+  AND invited_user_id = auth.uid()
+  AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or already processed';
+  END IF;
+
+  IF v_invitation.expires_at < NOW() THEN
+    UPDATE collaboration_invitations SET status = 'expired' WHERE id = p_invitation_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE collaboration_invitations SET status = 'accepted' WHERE id = p_invitation_id;
+
+  INSERT INTO collection_collaborators (collection_id, user_id, permission_level, added_by)
+  VALUES (v_invitation.collection_id, auth.uid(), v_invitation.permission_level, v_invitation.invited_by)
+  ON CONFLICT (collection_id, user_id)
+  DO UPDATE SET permission_level = EXCLUDED.permission_level;
+
+  UPDATE collections SET is_collaborative = true
+  WHERE id = v_invitation.collection_id AND v_invitation.permission_level <> 'view';
+
+  RETURN v_invitation.collection_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
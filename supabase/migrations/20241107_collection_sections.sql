@@ -0,0 +1,38 @@
+-- Collection Sections Migration
+-- Named, ordered groups inside a collection that its resources belong to.
+-- Collections created from a template get one section per template section,
+-- keeping the template's resource_types and tags to suggest where new
+-- resources go.
+
+CREATE TABLE IF NOT EXISTS collection_sections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  -- The template section this was created from, e.g. 'lectures'
+  template_section_id VARCHAR(100),
+  -- Rules suggesting which resources belong here
+  resource_types TEXT[] NOT NULL DEFAULT '{}',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_sections_collection ON collection_sections(collection_id, order_index);
+
+-- Resources without a section are listed as unsorted
+ALTER TABLE collection_resources
+  ADD COLUMN IF NOT EXISTS section_id UUID REFERENCES collection_sections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_collection_resources_section ON collection_resources(section_id);
+
+ALTER TABLE collection_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view sections if they can view the collection"
+  ON collection_sections FOR SELECT
+  USING (can_view_collection(collection_id));
+
+CREATE POLICY "Collection editors can manage sections"
+  ON collection_sections FOR ALL
+  USING (can_edit_collection(collection_id))
+  WITH CHECK (can_edit_collection(collection_id));
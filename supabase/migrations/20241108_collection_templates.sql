@@ -0,0 +1,198 @@
+-- Collection Templates Migration
+-- Templates users save from their collections' sections, optionally published
+-- to their department, with ratings from others in the department. Usage
+-- counts of both these and the built-in system templates are persisted here.
+
+CREATE TABLE IF NOT EXISTS collection_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  category VARCHAR(50) NOT NULL DEFAULT 'Community',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  icon VARCHAR(16) NOT NULL DEFAULT '📁',
+  color VARCHAR(20) NOT NULL DEFAULT 'gray',
+  -- TemplateStructure: { sections: [...] }
+  structure JSONB NOT NULL,
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source_collection_id UUID REFERENCES collections(id) ON DELETE SET NULL,
+  -- 'department' templates can be browsed and used by the author's department
+  visibility VARCHAR(20) NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'department')),
+  department TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  rating_average NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  rating_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (visibility = 'private' OR department IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_templates_created_by ON collection_templates(created_by);
+CREATE INDEX IF NOT EXISTS idx_collection_templates_department ON collection_templates(department) WHERE visibility = 'department';
+
+CREATE TRIGGER update_collection_templates_updated_at
+  BEFORE UPDATE ON collection_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS collection_template_ratings (
+  template_id UUID NOT NULL REFERENCES collection_templates(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (template_id, user_id)
+);
+
+-- Keyed by template id as text: system template slugs like
+-- 'course-study-guide' as well as collection_templates ids
+CREATE TABLE IF NOT EXISTS collection_template_usage (
+  template_id TEXT PRIMARY KEY,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE collection_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_template_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_template_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION current_user_department()
+RETURNS TEXT AS $$
+  SELECT department FROM users WHERE id = auth.uid()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Users can view own and department templates"
+  ON collection_templates FOR SELECT
+  USING (
+    auth.uid() = created_by OR
+    (visibility = 'department' AND department = current_user_department())
+  );
+
+CREATE POLICY "Users can create own templates"
+  ON collection_templates FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by AND
+    (visibility = 'private' OR department = current_user_department())
+  );
+
+CREATE POLICY "Users can update own templates"
+  ON collection_templates FOR UPDATE
+  USING (auth.uid() = created_by)
+  WITH CHECK (
+    auth.uid() = created_by AND
+    (visibility = 'private' OR department = current_user_department())
+  );
+
+CREATE POLICY "Users can delete own templates"
+  ON collection_templates FOR DELETE
+  USING (auth.uid() = created_by);
+
+-- Ratings always reflect collection_template_ratings, whoever writes the row,
+-- so authors can't set their own
+CREATE OR REPLACE FUNCTION sync_collection_template_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.rating_average := 0;
+    NEW.rating_count := 0;
+  ELSIF NEW.rating_average IS DISTINCT FROM OLD.rating_average
+     OR NEW.rating_count IS DISTINCT FROM OLD.rating_count THEN
+    SELECT COALESCE(AVG(r.rating), 0), COUNT(*)
+    INTO NEW.rating_average, NEW.rating_count
+    FROM collection_template_ratings r
+    WHERE r.template_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_collection_template_rating_trigger
+  BEFORE INSERT OR UPDATE ON collection_templates
+  FOR EACH ROW EXECUTE FUNCTION sync_collection_template_rating();
+
+CREATE POLICY "Users can view ratings of templates they can view"
+  ON collection_template_ratings FOR SELECT
+  USING (EXISTS (SELECT 1 FROM collection_templates t WHERE t.id = template_id));
+
+CREATE POLICY "Anyone can view template usage"
+  ON collection_template_usage FOR SELECT
+  USING (true);
+
+-- Rates a published template for the caller, replacing an earlier rating, and
+-- recounts its average. Authors can't rate their own templates.
+CREATE OR REPLACE FUNCTION rate_collection_template(p_template_id UUID, p_rating INTEGER)
+RETURNS TABLE (rating_average NUMERIC, rating_count INTEGER) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_template collection_templates%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT t.* INTO v_template
+  FROM collection_templates t
+  WHERE t.id = p_template_id
+    AND t.visibility = 'department'
+    AND t.department = current_user_department()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_template.created_by = v_user_id THEN
+    RAISE EXCEPTION 'You cannot rate your own template' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO collection_template_ratings (template_id, user_id, rating)
+  VALUES (p_template_id, v_user_id, p_rating)
+  ON CONFLICT (template_id, user_id)
+  DO UPDATE SET rating = EXCLUDED.rating, updated_at = NOW();
+
+  -- Any change to the rating fields makes the trigger recount them
+  RETURN QUERY
+  UPDATE collection_templates t
+  SET rating_count = -1
+  WHERE t.id = p_template_id
+  RETURNING t.rating_average, t.rating_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Counts a collection created from a template; returns the new usage count.
+-- Only the collections API calls this, with the service role, after
+-- creating the collection from a template the user can see. Ids are either
+-- system template slugs or existing collection_templates.
+CREATE OR REPLACE FUNCTION record_template_usage(p_template_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_template_id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    IF NOT EXISTS (SELECT 1 FROM collection_templates WHERE id = p_template_id::UUID) THEN
+      RAISE EXCEPTION 'Template not found' USING ERRCODE = 'P0002';
+    END IF;
+  ELSIF p_template_id !~ '^[a-z0-9]+(-[a-z0-9]+)*$' THEN
+    RAISE EXCEPTION 'Template not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO collection_template_usage (template_id, usage_count, last_used_at)
+  VALUES (p_template_id, 1, NOW())
+  ON CONFLICT (template_id)
+  DO UPDATE SET
+    usage_count = collection_template_usage.usage_count + 1,
+    last_used_at = NOW()
+  RETURNING usage_count INTO v_count;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_template_usage(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_template_usage(TEXT) TO service_role;
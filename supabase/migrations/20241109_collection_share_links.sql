@@ -0,0 +1,83 @@
+-- Collection Share Links Migration
+-- Expiring links to a collection that work without an account. The link
+-- token is the row id signed by the server, so rows hold only the limits:
+-- scope, optional password hash, expiry and maximum number of uses. Owners
+-- and admin collaborators create and revoke them.
+
+CREATE TABLE IF NOT EXISTS collection_share_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- 'edit' links add signed-in visitors as editors; anonymous visitors
+  -- always get the read-only page
+  scope VARCHAR(10) NOT NULL DEFAULT 'view' CHECK (scope IN ('view', 'edit')),
+  -- scrypt salt:hash, never sent to clients
+  password_hash TEXT,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_share_links_collection ON collection_share_links(collection_id, created_at DESC);
+
+ALTER TABLE collection_share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collection managers can view share links"
+  ON collection_share_links FOR SELECT
+  USING (can_manage_collection_collaborators(collection_id));
+
+CREATE POLICY "Collection managers can create share links"
+  ON collection_share_links FOR INSERT
+  WITH CHECK (auth.uid() = created_by AND can_manage_collection_collaborators(collection_id));
+
+-- Revoking is the only update; use counts change through
+-- redeem_collection_share_link
+CREATE POLICY "Collection managers can revoke share links"
+  ON collection_share_links FOR UPDATE
+  USING (can_manage_collection_collaborators(collection_id))
+  WITH CHECK (can_manage_collection_collaborators(collection_id));
+
+CREATE OR REPLACE FUNCTION protect_share_link_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.collection_id IS DISTINCT FROM OLD.collection_id
+      OR NEW.created_by IS DISTINCT FROM OLD.created_by
+      OR NEW.scope IS DISTINCT FROM OLD.scope
+      OR NEW.password_hash IS DISTINCT FROM OLD.password_hash
+      OR NEW.max_uses IS DISTINCT FROM OLD.max_uses
+      OR NEW.use_count IS DISTINCT FROM OLD.use_count
+      OR NEW.expires_at IS DISTINCT FROM OLD.expires_at
+      OR NEW.last_used_at IS DISTINCT FROM OLD.last_used_at
+      OR (OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at))
+     AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Share links can only be revoked';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_share_link_fields_trigger
+  BEFORE UPDATE ON collection_share_links
+  FOR EACH ROW EXECUTE FUNCTION protect_share_link_fields();
+
+-- Counts one use of a link if it is still usable, in one statement so
+-- concurrent visitors can't go past max_uses. Returns the link, or nothing
+-- when it is revoked, expired or used up. Called by the server only, after
+-- it has checked the token signature and password.
+CREATE OR REPLACE FUNCTION redeem_collection_share_link(p_link_id UUID)
+RETURNS SETOF collection_share_links AS $$
+  UPDATE collection_share_links
+  SET use_count = use_count + 1,
+      last_used_at = NOW()
+  WHERE id = p_link_id
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+    AND (max_uses IS NULL OR use_count < max_uses)
+  RETURNING *
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION redeem_collection_share_link(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_collection_share_link(UUID) TO service_role;
@@ -0,0 +1,150 @@
+-- Collection Forks Migration
+-- Lets users copy a public collection, with its sections, resources, order
+-- and notes, into their own account. Forks link back to their source, which
+-- keeps a count of them. Fork owners can follow the source to be offered the
+-- resources it adds after they forked.
+
+ALTER TABLE collections
+  ADD COLUMN IF NOT EXISTS forked_from UUID REFERENCES collections(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS fork_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS follow_source_updates BOOLEAN NOT NULL DEFAULT false,
+  -- Source resources added after this are offered as updates
+  ADD COLUMN IF NOT EXISTS source_synced_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_collections_forked_from ON collections(forked_from) WHERE forked_from IS NOT NULL;
+
+-- fork_count always reflects the forks that exist, and a fork can only be
+-- unlinked from its source, not pointed at another collection. Forks are
+-- only created by fork_collection, which marks the transaction with the
+-- source it is copying, so bare collections can't inflate a fork count.
+CREATE OR REPLACE FUNCTION protect_collection_fork_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.fork_count := 0;
+    IF NEW.forked_from IS NOT NULL
+       AND auth.role() <> 'service_role'
+       AND current_setting('app.forking_collection', true) IS DISTINCT FROM NEW.forked_from::TEXT THEN
+      RAISE EXCEPTION 'Forks can only be created by forking a collection' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.forked_from IS NOT NULL AND NOT can_view_collection(NEW.forked_from) THEN
+      RAISE EXCEPTION 'Source collection not found';
+    END IF;
+  ELSE
+    IF NEW.forked_from IS DISTINCT FROM OLD.forked_from AND NEW.forked_from IS NOT NULL THEN
+      RAISE EXCEPTION 'A fork can only be unlinked from its source';
+    END IF;
+    IF NEW.fork_count IS DISTINCT FROM OLD.fork_count THEN
+      SELECT COUNT(*) INTO NEW.fork_count FROM collections WHERE forked_from = NEW.id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_collection_fork_fields_trigger
+  BEFORE INSERT OR UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION protect_collection_fork_fields();
+
+-- Any change to fork_count makes the trigger above recount it
+CREATE OR REPLACE FUNCTION update_collection_fork_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.forked_from IS NOT NULL THEN
+    UPDATE collections SET fork_count = -1 WHERE id = OLD.forked_from;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.forked_from IS NOT NULL THEN
+    UPDATE collections SET fork_count = -1 WHERE id = NEW.forked_from;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_collection_fork_count_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF forked_from ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_collection_fork_count();
+
+-- Copies a public collection into a new private collection owned by the
+-- caller, keeping section and resource order and notes. Runs with the
+-- caller's rights, so RLS decides what can be read and written. Returns the
+-- fork's id. Raises P0002 for a missing or private source and CF001 when the
+-- caller owns it.
+CREATE OR REPLACE FUNCTION fork_collection(
+  p_collection_id UUID,
+  p_title TEXT DEFAULT NULL,
+  p_follow_updates BOOLEAN DEFAULT false
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_source collections%ROWTYPE;
+  v_fork_id UUID;
+  v_section RECORD;
+  v_section_map JSONB := '{}';
+  v_new_section_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_source FROM collections WHERE id = p_collection_id AND is_public = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Collection not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_source.created_by = v_user_id THEN
+    RAISE EXCEPTION 'You cannot fork your own collection' USING ERRCODE = 'CF001';
+  END IF;
+
+  -- Lets protect_collection_fork_fields accept this fork; cleared right after
+  PERFORM set_config('app.forking_collection', v_source.id::TEXT, true);
+
+  INSERT INTO collections (
+    title, description, created_by, is_public, is_collaborative, tags,
+    forked_from, follow_source_updates, source_synced_at
+  )
+  VALUES (
+    COALESCE(NULLIF(TRIM(p_title), ''), v_source.title),
+    v_source.description,
+    v_user_id,
+    false,
+    false,
+    v_source.tags,
+    v_source.id,
+    p_follow_updates,
+    NOW()
+  )
+  RETURNING id INTO v_fork_id;
+
+  PERFORM set_config('app.forking_collection', '', true);
+
+  FOR v_section IN
+    SELECT * FROM collection_sections WHERE collection_id = v_source.id ORDER BY order_index
+  LOOP
+    INSERT INTO collection_sections (
+      collection_id, name, description, order_index, template_section_id, resource_types, tags
+    )
+    VALUES (
+      v_fork_id, v_section.name, v_section.description, v_section.order_index,
+      v_section.template_section_id, v_section.resource_types, v_section.tags
+    )
+    RETURNING id INTO v_new_section_id;
+
+    v_section_map := v_section_map || jsonb_build_object(v_section.id::TEXT, v_new_section_id);
+  END LOOP;
+
+  INSERT INTO collection_resources (collection_id, resource_id, order_index, notes, section_id)
+  SELECT
+    v_fork_id,
+    cr.resource_id,
+    cr.order_index,
+    cr.notes,
+    (v_section_map ->> cr.section_id::TEXT)::UUID
+  FROM collection_resources cr
+  WHERE cr.collection_id = v_source.id;
+
+  RETURN v_fork_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION fork_collection(UUID, TEXT, BOOLEAN) TO authenticated;